@@ -8,10 +8,18 @@ import { PrismaService } from './shared/services/prisma.service';
 import { ConfigModule } from '@nestjs/config';
 import { APP_GUARD, APP_INTERCEPTOR } from '@nestjs/core';
 import { JwtAuthGuard } from './auth/guards/jwt-auth.guard';
+import { CsrfGuard } from './auth/guards/csrf.guard';
+import { OidcScopeGuard } from './auth/guards/oidc-scope.guard';
+import { CsrfService } from './auth/csrf.service';
 import { LoggingInterceptor } from './shared/interceptors/logging.interceptor';
 import { WinstonModule } from 'nest-winston';
 import { winstonConfig } from './shared/configs/winston.config';
 import { RoleModule } from './role/role.module';
+import { SecurityEventModule } from './security-event/security-event.module';
+import { PersonalAccessTokenModule } from './personal-access-token/personal-access-token.module';
+import { ServiceAccountModule } from './service-account/service-account.module';
+import { OidcModule } from './oidc/oidc.module';
+import { ImpersonationModule } from './impersonation/impersonation.module';
 
 @Module({
   imports: [
@@ -21,14 +29,24 @@ import { RoleModule } from './role/role.module';
       envFilePath: ['.env.development.local'], // Load multiple env files
       cache: true, // Cache environment variables for performance
     }),
-    AuthModule, UserModule, SessionModule, RoleModule],
+    AuthModule, UserModule, SessionModule, RoleModule, SecurityEventModule, PersonalAccessTokenModule,
+    ServiceAccountModule, OidcModule, ImpersonationModule],
   controllers: [AppController],
   providers: [AppService,
     PrismaService,
+    CsrfService,
     {
       provide: APP_GUARD,
       useClass: JwtAuthGuard,
     },
+    {
+      provide: APP_GUARD,
+      useClass: OidcScopeGuard,
+    },
+    {
+      provide: APP_GUARD,
+      useClass: CsrfGuard,
+    },
     {
       provide: APP_INTERCEPTOR,
       useClass: LoggingInterceptor,
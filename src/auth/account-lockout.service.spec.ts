@@ -0,0 +1,141 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { AccountLockoutService } from './account-lockout.service';
+import { AccountLockedException } from './exceptions/account-locked.exception';
+import { PrismaService } from 'src/shared/services/prisma.service';
+
+describe('AccountLockoutService', () => {
+  let service: AccountLockoutService;
+  let config: Record<string, unknown>;
+
+  const mockPrismaService = {
+    user: {
+      update: jest.fn(),
+      updateMany: jest.fn(),
+    },
+  };
+
+  const mockConfigService = {
+    get: jest.fn((key: string, defaultValue?: unknown) =>
+      key in config ? config[key] : defaultValue,
+    ),
+  };
+
+  const lockedFor = (): number => {
+    const [args] = mockPrismaService.user.updateMany.mock.calls[0] as [
+      { data: { lockedUntil: Date } },
+    ];
+    return Math.round((args.data.lockedUntil.getTime() - Date.now()) / 60000);
+  };
+
+  beforeEach(async () => {
+    config = {};
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        AccountLockoutService,
+        { provide: PrismaService, useValue: mockPrismaService },
+        { provide: ConfigService, useValue: mockConfigService },
+      ],
+    }).compile();
+
+    service = module.get<AccountLockoutService>(AccountLockoutService);
+
+    jest.clearAllMocks();
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  it('should report the seconds left on a temporary lock', () => {
+    try {
+      service.assertNotLocked({
+        lockedUntil: new Date(Date.now() + 90 * 1000),
+        permanentlyLocked: false,
+      });
+      fail('expected the account to be locked');
+    } catch (error) {
+      expect(error).toBeInstanceOf(AccountLockedException);
+      expect((error as AccountLockedException).retryAfterSeconds).toBe(90);
+      expect((error as AccountLockedException).getStatus()).toBe(423);
+    }
+  });
+
+  it('should only count failures below the threshold', async () => {
+    mockPrismaService.user.update.mockResolvedValue({
+      failedLoginAttempts: 4,
+      lockoutCount: 0,
+    });
+
+    await expect(
+      service.recordFailedAttempt('user-id'),
+    ).resolves.toBeUndefined();
+    expect(mockPrismaService.user.updateMany).not.toHaveBeenCalled();
+  });
+
+  it('should lock for longer after every lockout', async () => {
+    mockPrismaService.user.update.mockResolvedValue({
+      failedLoginAttempts: 5,
+      lockoutCount: 2,
+    });
+    mockPrismaService.user.updateMany.mockResolvedValue({ count: 1 });
+
+    await expect(service.recordFailedAttempt('user-id')).rejects.toThrow(
+      AccountLockedException,
+    );
+
+    // Third lockout: 15 * 2^2 minutes
+    expect(lockedFor()).toBe(60);
+  });
+
+  it('should cap the lock duration', async () => {
+    config = { ACCOUNT_LOCKOUT_MAX_DURATION_MINS: 30 };
+    mockPrismaService.user.update.mockResolvedValue({
+      failedLoginAttempts: 5,
+      lockoutCount: 5,
+    });
+    mockPrismaService.user.updateMany.mockResolvedValue({ count: 1 });
+
+    await expect(service.recordFailedAttempt('user-id')).rejects.toThrow(
+      AccountLockedException,
+    );
+    expect(lockedFor()).toBe(30);
+  });
+
+  it('should lock permanently after the configured number of lockouts', async () => {
+    config = { ACCOUNT_LOCKOUT_PERMANENT_AFTER: 3 };
+    mockPrismaService.user.update.mockResolvedValue({
+      failedLoginAttempts: 5,
+      lockoutCount: 2,
+    });
+    mockPrismaService.user.updateMany.mockResolvedValue({ count: 1 });
+
+    await expect(service.recordFailedAttempt('user-id')).rejects.toThrow(
+      new AccountLockedException(null),
+    );
+    expect(mockPrismaService.user.updateMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        data: expect.objectContaining({
+          lockedUntil: null,
+          permanentlyLocked: true,
+        }) as object,
+      }),
+    );
+  });
+
+  it('should lock unknown emails like real accounts', () => {
+    const email = 'nobody@example.com';
+
+    for (let attempt = 1; attempt < 5; attempt++) {
+      expect(() => service.recordUnknownEmailAttempt(email)).not.toThrow();
+    }
+
+    expect(() => service.recordUnknownEmailAttempt(email)).toThrow(
+      AccountLockedException,
+    );
+    expect(() => service.recordUnknownEmailAttempt(email)).toThrow(
+      AccountLockedException,
+    );
+  });
+});
@@ -0,0 +1,153 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { PrismaService } from 'src/shared/services/prisma.service';
+import { AccountLockedException } from './exceptions/account-locked.exception';
+
+interface LockState {
+  lockedUntil: Date | null;
+  permanentlyLocked: boolean;
+}
+
+interface UnknownEmailState extends LockState {
+  failedLoginAttempts: number;
+  lockoutCount: number;
+}
+
+const MAX_UNKNOWN_EMAIL_ENTRIES = 10000;
+
+/**
+ * Failed attempts against unknown emails, shared by every AccountLockoutService instance.
+ * They lock exactly like real accounts, so the locked response does not reveal which
+ * emails are registered.
+ */
+const unknownEmailAttempts = new Map<string, UnknownEmailState>();
+
+@Injectable()
+export class AccountLockoutService {
+  constructor(
+    private prisma: PrismaService,
+    private configService: ConfigService,
+  ) {}
+
+  /**
+   * Throw an AccountLockedException while the account is locked
+   */
+  assertNotLocked(state: LockState): void {
+    if (state.permanentlyLocked) {
+      throw new AccountLockedException(null);
+    }
+
+    if (state.lockedUntil && state.lockedUntil > new Date()) {
+      throw new AccountLockedException(
+        Math.ceil((state.lockedUntil.getTime() - Date.now()) / 1000),
+      );
+    }
+  }
+
+  /**
+   * Count a failed attempt. Once the threshold is reached the account is locked for
+   * longer than the previous time, and the attempt is answered with the lock itself.
+   */
+  async recordFailedAttempt(userId: string): Promise<void> {
+    const { failedLoginAttempts, lockoutCount } = await this.prisma.user.update(
+      {
+        where: { id: userId },
+        data: { failedLoginAttempts: { increment: 1 } },
+        select: { failedLoginAttempts: true, lockoutCount: true },
+      },
+    );
+
+    if (failedLoginAttempts < this.getMaxAttempts()) {
+      return;
+    }
+
+    const lock = this.getNextLock(lockoutCount + 1);
+
+    // Resetting the counter in the same conditional update means concurrent failures lock only once
+    const result = await this.prisma.user.updateMany({
+      where: {
+        id: userId,
+        failedLoginAttempts: { gte: this.getMaxAttempts() },
+      },
+      data: {
+        failedLoginAttempts: 0,
+        lockoutCount: { increment: 1 },
+        ...lock,
+      },
+    });
+
+    if (result.count > 0) {
+      this.assertNotLocked(lock);
+    }
+  }
+
+  /**
+   * Same bookkeeping as recordFailedAttempt, kept in memory for emails without an account
+   */
+  recordUnknownEmailAttempt(email: string): void {
+    const state = unknownEmailAttempts.get(email) ?? {
+      failedLoginAttempts: 0,
+      lockoutCount: 0,
+      lockedUntil: null,
+      permanentlyLocked: false,
+    };
+
+    this.assertNotLocked(state);
+
+    state.failedLoginAttempts += 1;
+
+    if (state.failedLoginAttempts >= this.getMaxAttempts()) {
+      state.failedLoginAttempts = 0;
+      state.lockoutCount += 1;
+      Object.assign(state, this.getNextLock(state.lockoutCount));
+    }
+
+    // Re-inserting keeps the map in least-recently-used order
+    unknownEmailAttempts.delete(email);
+    unknownEmailAttempts.set(email, state);
+
+    if (unknownEmailAttempts.size > MAX_UNKNOWN_EMAIL_ENTRIES) {
+      const [oldest] = unknownEmailAttempts.keys();
+      unknownEmailAttempts.delete(oldest);
+    }
+
+    this.assertNotLocked(state);
+  }
+
+  /**
+   * Lock number n lasts base * multiplier^(n - 1), capped at the maximum duration
+   */
+  private getNextLock(lockoutCount: number): LockState {
+    const permanentAfter = Number(
+      this.configService.get('ACCOUNT_LOCKOUT_PERMANENT_AFTER', 0),
+    );
+
+    if (permanentAfter > 0 && lockoutCount >= permanentAfter) {
+      return { lockedUntil: null, permanentlyLocked: true };
+    }
+
+    const baseMinutes = Number(
+      this.configService.get('ACCOUNT_LOCKOUT_DURATION_MINS', 15),
+    );
+    const multiplier = Number(
+      this.configService.get('ACCOUNT_LOCKOUT_BACKOFF_MULTIPLIER', 2),
+    );
+    const maxMinutes = Number(
+      this.configService.get('ACCOUNT_LOCKOUT_MAX_DURATION_MINS', 24 * 60),
+    );
+
+    const minutes = Math.min(
+      baseMinutes * Math.pow(multiplier, lockoutCount - 1),
+      maxMinutes,
+    );
+
+    return {
+      lockedUntil: new Date(Date.now() + minutes * 60 * 1000),
+      permanentlyLocked: false,
+    };
+  }
+
+  private getMaxAttempts(): number {
+    return Number(this.configService.get('ACCOUNT_LOCKOUT_MAX_ATTEMPTS', 5));
+  }
+}
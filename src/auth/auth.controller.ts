@@ -11,6 +11,8 @@ import {
     Param,
     ParseIntPipe,
     UseGuards,
+    Patch,
+    Delete,
 } from '@nestjs/common';
 import type { Request, Response } from 'express';
 import { AuthService } from './auth.service';
@@ -20,13 +22,36 @@ import { CurrentUser } from './decorators/current-user.decorator';
 import { Public } from './decorators/public.decorator';
 import type { FormattedSafeUser } from 'src/user/utils/transform-user.util';
 import { Throttle } from '@nestjs/throttler';
-import { SessionService } from 'src/session/session.service';
 import { Roles } from './decorators/roles.decorator';
 import { RolesGuard } from './guards/roles.guard';
+import { MfaLoginDto } from './dto/mfa-login.dto';
+import { MfaTokenDto } from './dto/mfa-token.dto';
+import { EmailVerificationService } from './email-verification.service';
+import { VerifyEmailDto } from './dto/verify-email.dto';
+import { ResendVerificationDto } from './dto/resend-verification.dto';
+import { ForgotPasswordDto } from './dto/forgot-password.dto';
+import { ResetPasswordDto } from './dto/reset-password.dto';
+import { MagicLinkDto } from './dto/magic-link.dto';
+import { VerifyMagicLinkDto } from './dto/verify-magic-link.dto';
+import { BlockImpersonation } from './decorators/block-impersonation.decorator';
+import { RequireRecentAuth } from './decorators/require-recent-auth.decorator';
+import { ReauthenticateDto } from './dto/reauthenticate.dto';
+import type { SessionAuthenticatedRequest } from './interfaces/reauthentication.interface';
+import { DeviceService } from './device.service';
+import { UpdateDeviceDto } from './dto/update-device.dto';
+import { RefreshTokenDto } from './dto/refresh-token.dto';
+import { NativeClientService } from './native-client.service';
+import { CsrfService } from './csrf.service';
 
 @Controller('auth')
 export class AuthController {
-    constructor(private authService: AuthService, private sessionService: SessionService) { }
+    constructor(
+        private authService: AuthService,
+        private emailVerificationService: EmailVerificationService,
+        private deviceService: DeviceService,
+        private nativeClientService: NativeClientService,
+        private csrfService: CsrfService,
+    ) { }
 
     @Post('register')
     @Public()
@@ -47,10 +72,13 @@ export class AuthController {
             userAgent,
         );
 
-        // Don't send refresh token in response body (it's in httpOnly cookie)
-        const { refreshToken, ...publicResult } = result;
+        // Login is blocked until the email is verified: no tokens were issued
+        if (!('accessToken' in result)) {
+            return result;
+        }
 
-        return publicResult;
+        // Web clients get the refresh token only in the httpOnly cookie, native clients in the body
+        return this.nativeClientService.toResponseBody(req, result);
     }
 
     @Post('login')
@@ -72,10 +100,136 @@ export class AuthController {
             userAgent,
         );
 
-        // Don't send refresh token in response body (it's in httpOnly cookie)
-        const { refreshToken, ...publicResult } = result;
+        // MFA challenge: no tokens have been issued yet
+        if ('mfaRequired' in result) {
+            return result;
+        }
 
-        return publicResult;
+        // Web clients get the refresh token only in the httpOnly cookie, native clients in the body
+        return this.nativeClientService.toResponseBody(req, result);
+    }
+
+    @Post('login/mfa')
+    @Public()
+    @Throttle({ default: { limit: 5, ttl: 60000 } }) // 5 attempts per minute
+    @HttpCode(HttpStatus.OK)
+    async loginMfa(
+        @Body() mfaLoginDto: MfaLoginDto,
+        @Req() req: Request,
+        @Res({ passthrough: true }) res: Response,
+    ) {
+        const ipAddress = req.ip || req.socket.remoteAddress;
+        const userAgent = req.get('user-agent');
+
+        const result = await this.authService.completeMfaLogin(
+            mfaLoginDto,
+            res,
+            ipAddress,
+            userAgent,
+        );
+
+        // Web clients get the refresh token only in the httpOnly cookie, native clients in the body
+        return this.nativeClientService.toResponseBody(req, result);
+    }
+
+    @Post('login/mfa/enroll')
+    @Public()
+    @Throttle({ default: { limit: 5, ttl: 60000 } })
+    @HttpCode(HttpStatus.OK)
+    async loginMfaEnroll(@Body() mfaTokenDto: MfaTokenDto) {
+        return this.authService.beginMfaLoginEnrollment(mfaTokenDto.mfaToken);
+    }
+
+    @Post('verify-email')
+    @Public()
+    @Throttle({ default: { limit: 10, ttl: 60000 } })
+    @HttpCode(HttpStatus.OK)
+    async verifyEmail(@Body() verifyEmailDto: VerifyEmailDto) {
+        await this.emailVerificationService.verifyEmail(verifyEmailDto.token);
+
+        return { message: 'Email verified successfully' };
+    }
+
+    @Post('verify-email/resend')
+    @Public()
+    @Throttle({ default: { limit: 3, ttl: 60000 } }) // 3 resends per minute
+    @HttpCode(HttpStatus.OK)
+    async resendVerificationEmail(@Body() resendVerificationDto: ResendVerificationDto) {
+        await this.emailVerificationService.resendVerificationEmail(resendVerificationDto.email);
+
+        // Same response whether or not the email exists
+        return { message: 'If the account exists and is unverified, a verification email has been sent' };
+    }
+
+    @Post('forgot-password')
+    @Public()
+    @Throttle({ default: { limit: 3, ttl: 60000 } }) // 3 requests per minute
+    @HttpCode(HttpStatus.OK)
+    forgotPassword(@Body() forgotPasswordDto: ForgotPasswordDto) {
+        // Not awaited on purpose: the response must not depend on whether the email exists
+        this.authService.requestPasswordReset(forgotPasswordDto.email);
+
+        return { message: 'If an account exists for this email, a password reset link has been sent' };
+    }
+
+    @Post('reset-password')
+    @Public()
+    @Throttle({ default: { limit: 5, ttl: 60000 } })
+    @HttpCode(HttpStatus.OK)
+    async resetPassword(@Body() resetPasswordDto: ResetPasswordDto) {
+        await this.authService.resetPassword(resetPasswordDto.token, resetPasswordDto.password);
+
+        return { message: 'Password reset successfully' };
+    }
+
+    @Post('magic-link')
+    @Public()
+    @Throttle({ default: { limit: 3, ttl: 60000 } }) // 3 requests per minute
+    @HttpCode(HttpStatus.OK)
+    requestMagicLink(
+        @Body() magicLinkDto: MagicLinkDto,
+        @Req() req: Request,
+        @Res({ passthrough: true }) res: Response,
+    ) {
+        const cookies = req.cookies as Record<string, string> | undefined;
+        const binding = cookies?.magicLinkBinding;
+
+        // Not awaited on purpose: the response must not depend on whether the email exists
+        this.authService.requestMagicLink(magicLinkDto.email, res, binding);
+
+        return { message: 'If an account exists for this email, a sign-in link has been sent' };
+    }
+
+    @Post('magic-link/verify')
+    @Public()
+    @Throttle({ default: { limit: 5, ttl: 60000 } }) // 5 attempts per minute
+    @HttpCode(HttpStatus.OK)
+    async verifyMagicLink(
+        @Body() verifyMagicLinkDto: VerifyMagicLinkDto,
+        @Req() req: Request,
+        @Res({ passthrough: true }) res: Response,
+    ) {
+        const ipAddress = req.ip || req.socket.remoteAddress;
+        const userAgent = req.get('user-agent');
+        const cookies = req.cookies as Record<string, string> | undefined;
+        const binding = cookies?.magicLinkBinding;
+
+        const result = await this.authService.verifyMagicLink(
+            verifyMagicLinkDto.token,
+            binding,
+            res,
+            ipAddress,
+            userAgent,
+            verifyMagicLinkDto.rememberMe,
+        );
+
+        // MFA challenge: no tokens have been issued yet
+        if ('mfaRequired' in result) {
+            return result;
+        }
+
+        // Web clients get the refresh token only in the httpOnly cookie, native clients in the body
+        return this.nativeClientService.toResponseBody(req, result);
     }
 
     @Post('refresh')
@@ -83,11 +237,14 @@ export class AuthController {
     @Throttle({ default: { limit: 10, ttl: 60000 } }) // 10 refreshes per minute
     @HttpCode(HttpStatus.OK)
     async refresh(
+        @Body() refreshTokenDto: RefreshTokenDto,
         @Req() req: Request,
         @Res({ passthrough: true }) res: Response,
     ) {
-        const refreshTokenFromCookies = req.cookies?.refreshToken;
-        if (!refreshTokenFromCookies) {
+        const refreshTokenFromRequest = this.nativeClientService.resolve(req)
+            ? refreshTokenDto.refreshToken
+            : req.cookies?.refreshToken;
+        if (!refreshTokenFromRequest) {
             throw new UnauthorizedException('Refresh token not found');
         }
 
@@ -95,33 +252,66 @@ export class AuthController {
         const userAgent = req.get('user-agent');
 
         const result = await this.authService.refreshToken(
-            refreshTokenFromCookies,
+            refreshTokenFromRequest,
             res,
             ipAddress,
             userAgent,
         );
 
-        // Don't send refresh token in response body
-        const { refreshToken, ...publicResult } = result;
+        // Grace window hit: only a new access token, the cookie is left untouched
+        if (!('refreshToken' in result)) {
+            return result;
+        }
+
+        // Web clients get the refresh token only in the httpOnly cookie, native clients in the body
+        return this.nativeClientService.toResponseBody(req, result);
+    }
 
-        return publicResult;
+    /**
+     * The browser's CSRF token, for frontends that can't read the csrfToken cookie (another
+     * origin) or lost it from memory. Cookie-authenticated requests send it as X-CSRF-Token.
+     */
+    @Get('csrf')
+    @Public()
+    getCsrfToken(@Res({ passthrough: true }) res: Response) {
+        return { csrfToken: this.csrfService.issue(res) };
     }
 
     @Post('logout')
     @Public()
     @HttpCode(HttpStatus.OK)
     async logout(
+        @Body() refreshTokenDto: RefreshTokenDto,
         @Req() req: Request,
         @Res({ passthrough: true }) res: Response,
     ) {
-        const refreshToken = req.cookies?.refreshToken;
+        const refreshToken = this.nativeClientService.resolve(req)
+            ? refreshTokenDto.refreshToken
+            : req.cookies?.refreshToken;
 
         await this.authService.logout(refreshToken, res);
 
         return { message: 'Logged out successfully' };
     }
 
+    @Post('reauthenticate')
+    @Throttle({ default: { limit: 5, ttl: 60000 } })
+    @HttpCode(HttpStatus.OK)
+    @UseGuards(RolesGuard)
+    @Roles('ADMIN', 'USER')
+    async reauthenticate(
+        @CurrentUser() user: FormattedSafeUser,
+        @Body() reauthenticateDto: ReauthenticateDto,
+        @Req() req: SessionAuthenticatedRequest,
+    ) {
+        await this.authService.reauthenticate(user, req.sessionId, reauthenticateDto);
+
+        return { message: 'Identity confirmed' };
+    }
+
     @Post('logout-all')
+    @BlockImpersonation()
+    @RequireRecentAuth()
     @HttpCode(HttpStatus.OK)
     @UseGuards(RolesGuard)
     @Roles('ADMIN', 'USER')
@@ -134,7 +324,22 @@ export class AuthController {
         return { message: 'Logged out from all devices' };
     }
 
+    @Post('logout-others')
+    @BlockImpersonation()
+    @HttpCode(HttpStatus.OK)
+    @UseGuards(RolesGuard)
+    @Roles('ADMIN', 'USER')
+    async logoutOthers(
+        @CurrentUser() user: FormattedSafeUser,
+        @Req() req: SessionAuthenticatedRequest,
+    ) {
+        const { count } = await this.deviceService.revokeOthers(user.id, req.sessionId);
+
+        return { message: 'Logged out from all other devices', count };
+    }
+
     @Post(':id/revoke')
+    @BlockImpersonation()
     @HttpCode(HttpStatus.OK)
     @UseGuards(RolesGuard)
     @Roles('ADMIN', 'USER')
@@ -157,7 +362,52 @@ export class AuthController {
     @Get('sessions')
     @UseGuards(RolesGuard)
     @Roles('ADMIN', 'USER')
-    async getActiveSessions(@CurrentUser() user: FormattedSafeUser) {
-        return this.sessionService.findActiveByUserId(user.id);
+    async getActiveSessions(
+        @CurrentUser() user: FormattedSafeUser,
+        @Req() req: SessionAuthenticatedRequest,
+    ) {
+        return this.deviceService.findAll(user.id, req.sessionId);
+    }
+
+    @Patch('sessions/:id')
+    @BlockImpersonation()
+    @UseGuards(RolesGuard)
+    @Roles('ADMIN', 'USER')
+    async renameDevice(
+        @CurrentUser() user: FormattedSafeUser,
+        @Param('id', ParseIntPipe) id: number,
+        @Body() updateDeviceDto: UpdateDeviceDto,
+    ) {
+        await this.deviceService.rename(user.id, id, updateDeviceDto.name);
+
+        return { message: 'Device renamed successfully' };
+    }
+
+    @Post('sessions/:id/trust')
+    @BlockImpersonation()
+    @RequireRecentAuth()
+    @HttpCode(HttpStatus.OK)
+    @UseGuards(RolesGuard)
+    @Roles('ADMIN', 'USER')
+    async trustDevice(
+        @CurrentUser() user: FormattedSafeUser,
+        @Param('id', ParseIntPipe) id: number,
+    ) {
+        await this.deviceService.trust(user.id, id);
+
+        return { message: 'Device trusted' };
+    }
+
+    @Delete('sessions/:id/trust')
+    @BlockImpersonation()
+    @UseGuards(RolesGuard)
+    @Roles('ADMIN', 'USER')
+    async untrustDevice(
+        @CurrentUser() user: FormattedSafeUser,
+        @Param('id', ParseIntPipe) id: number,
+    ) {
+        await this.deviceService.untrust(user.id, id);
+
+        return { message: 'Device is no longer trusted' };
     }
 }
\ No newline at end of file
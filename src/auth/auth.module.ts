@@ -7,19 +7,44 @@ import { AuthService } from './auth.service';
 import { AuthController } from './auth.controller';
 import { OAuthController } from './oauth.controller';
 import { OAuthService } from './oauth.service';
+import { OAuthProviderService } from './oauth-provider.service';
 import { PrismaService } from 'src/shared/services/prisma.service';
 import { SessionModule } from 'src/session/session.module';
 import { UserService } from 'src/user/user.service';
 import { SessionService } from 'src/session/session.service';
 import { JwtStrategy } from './strategies/jwt.strategy';
-import { GoogleStrategy } from './strategies/google.strategy';
 import { SessionCleanupTask } from './tasks/session-cleanup.task'; // ADD THIS
+import { WebAuthnChallengeCleanupTask } from './tasks/webauthn-challenge-cleanup.task';
 import { ThrottlerModule } from '@nestjs/throttler';
+import { MfaController } from './mfa.controller';
+import { MfaService } from './mfa.service';
+import { WebAuthnController } from './webauthn.controller';
+import { WebAuthnService } from './webauthn.service';
+import { EmailVerificationService } from './email-verification.service';
+import { PasswordPolicyService } from './password-policy.service';
+import { PasswordHasherService } from './password-hasher.service';
+import { JwtKeyService, JWT_ISSUER } from './jwt-key.service';
+import { JwksController } from './jwks.controller';
+import { SuspiciousActivityService } from './suspicious-activity.service';
+import { AccountLockoutService } from './account-lockout.service';
+import { SessionPolicyService } from './session-policy.service';
+import { DeviceService } from './device.service';
+import { SessionLimitService } from './session-limit.service';
+import { NativeClientService } from './native-client.service';
+import { CsrfService } from './csrf.service';
+import { PersonalAccessTokenService } from 'src/personal-access-token/personal-access-token.service';
+import { ServiceAccountService } from 'src/service-account/service-account.service';
+import { SecurityEventService } from 'src/security-event/security-event.service';
+import { ImpersonationService } from 'src/impersonation/impersonation.service';
+import { MailModule } from 'src/mail/mail.module';
+import { GeoIpModule } from 'src/geoip/geoip.module';
 
 @Module({
   imports: [
     PassportModule.register({ session: false }),
     SessionModule,
+    MailModule,
+    GeoIpModule,
     ScheduleModule.forRoot(), // ADD THIS
     JwtModule.registerAsync({
       imports: [ConfigModule,
@@ -31,23 +56,41 @@ import { ThrottlerModule } from '@nestjs/throttler';
       useFactory: async (configService: ConfigService) => ({
         secret: configService.get<string>('JWT_SECRET'),
         signOptions: {
-          issuer: 'labyrinth-nexus',
+          issuer: JWT_ISSUER,
         },
       }),
       inject: [ConfigService],
     }),
   ],
-  controllers: [AuthController, OAuthController],
+  controllers: [AuthController, OAuthController, MfaController, WebAuthnController, JwksController],
   providers: [
     AuthService,
     OAuthService,
+    OAuthProviderService,
+    MfaService,
+    WebAuthnService,
+    EmailVerificationService,
+    PasswordPolicyService,
+    PasswordHasherService,
+    JwtKeyService,
+    SuspiciousActivityService,
+    AccountLockoutService,
+    SessionPolicyService,
+    DeviceService,
+    SessionLimitService,
+    NativeClientService,
+    CsrfService,
+    PersonalAccessTokenService,
+    ServiceAccountService,
+    SecurityEventService,
+    ImpersonationService,
     JwtStrategy,
-    GoogleStrategy,
     PrismaService,
     UserService,
     SessionService,
     SessionCleanupTask, // ADD THIS
+    WebAuthnChallengeCleanupTask,
   ],
-  exports: [AuthService, OAuthService],
+  exports: [AuthService, OAuthService, MfaService, EmailVerificationService],
 })
 export class AuthModule { }
\ No newline at end of file
@@ -1,14 +1,62 @@
 import { Test, TestingModule } from '@nestjs/testing';
-import { UnauthorizedException } from '@nestjs/common';
+import { BadRequestException, UnauthorizedException } from '@nestjs/common';
 import { JwtService } from '@nestjs/jwt';
 import { AuthService } from './auth.service';
 import { PrismaService } from 'src/shared/services/prisma.service';
 import { SessionService } from 'src/session/session.service';
 import * as bcrypt from 'bcrypt';
+import * as crypto from 'crypto';
 import { LoginDto } from './dto/login.dto';
+import { ConfigService } from '@nestjs/config';
+import type { Response } from 'express';
+import { UserService } from 'src/user/user.service';
+import { MfaService } from './mfa.service';
+import { EmailVerificationService } from './email-verification.service';
+import { MailService } from 'src/mail/mail.service';
+import { PasswordPolicyService } from './password-policy.service';
+import { PasswordHasherService } from './password-hasher.service';
+import { JwtKeyService } from './jwt-key.service';
+import { SuspiciousActivityService } from './suspicious-activity.service';
+import { AccountLockoutService } from './account-lockout.service';
+import { SessionPolicyService } from './session-policy.service';
+import { DeviceService } from './device.service';
+import { GeoIpService } from 'src/geoip/geoip.service';
+import { SessionLimitService } from './session-limit.service';
+import { SessionEvictedException } from './exceptions/session-evicted.exception';
+import { SessionIdleException } from './exceptions/session-idle.exception';
+import { NativeClientService } from './native-client.service';
+import { CsrfService } from './csrf.service';
+import { FormattedSafeUser } from 'src/user/utils/transform-user.util';
 
 jest.mock('bcrypt');
 
+const mockDeviceService = {
+  identify: jest.fn().mockResolvedValue({
+    deviceId: 'device-hash',
+    deviceName: null,
+    trustedUntil: null,
+  }),
+  isTrusted: jest.fn().mockResolvedValue(false),
+  untrust: jest.fn(),
+  untrustAll: jest.fn(),
+};
+
+const mockGeoIpService = {
+  lookup: jest.fn().mockReturnValue(null),
+};
+
+const mockSessionLimitService = {
+  enforce: jest.fn(),
+};
+
+const mockNativeClientService = {
+  resolve: jest.fn().mockReturnValue(null),
+};
+
+const mockCsrfService = {
+  issue: jest.fn(),
+};
+
 describe('AuthService', () => {
   let service: AuthService;
   let prisma: PrismaService;
@@ -47,6 +95,12 @@ describe('AuthService', () => {
     const module: TestingModule = await Test.createTestingModule({
       providers: [
         AuthService,
+        SessionPolicyService,
+        { provide: DeviceService, useValue: mockDeviceService },
+        { provide: GeoIpService, useValue: mockGeoIpService },
+        { provide: SessionLimitService, useValue: mockSessionLimitService },
+        { provide: NativeClientService, useValue: mockNativeClientService },
+        { provide: CsrfService, useValue: mockCsrfService },
         {
           provide: PrismaService,
           useValue: mockPrismaService,
@@ -289,4 +343,665 @@ describe('AuthService', () => {
       expect(result).toBeNull();
     });
   });
-});
\ No newline at end of file
+});
+describe('AuthService refresh token rotation', () => {
+  let service: AuthService;
+  let config: Record<string, unknown>;
+
+  const mockSessionService = {
+    findByRefreshTokenHash: jest.fn(),
+    findSuccessor: jest.fn(),
+    revokeSessionFamily: jest.fn(),
+    revokeAllUserSessions: jest.fn(),
+    revokeSession: jest.fn(),
+    isIdle: jest.fn().mockReturnValue(false),
+    create: jest.fn(),
+  };
+
+  const mockSuspiciousActivityService = {
+    evaluate: jest.fn(),
+  };
+
+  const mockPrismaService = {
+    user: {
+      findUniqueOrThrow: jest.fn(),
+    },
+    $transaction: jest.fn((callback: (tx: unknown) => unknown) => callback({})),
+  };
+
+  const mockJwtKeyService = {
+    signAccessToken: jest.fn(),
+  };
+
+  const mockJwtService = {
+    verify: jest.fn(),
+    sign: jest.fn().mockReturnValue('new-refresh-token'),
+  };
+
+  const mockConfigService = {
+    get: jest.fn((key: string, defaultValue?: unknown) =>
+      key in config ? config[key] : defaultValue,
+    ),
+  };
+
+  const user = { id: 'user-id', isActive: true, roles: [{ name: 'USER' }] };
+  const rotatedSession = {
+    id: 1,
+    userId: 'user-id',
+    sessionId: 'old-sid',
+    isRevoked: true,
+    expiresAt: new Date(Date.now() + 86400000),
+    user,
+  };
+  const successor = (createdAgoMs: number, overrides = {}) => ({
+    id: 2,
+    userId: 'user-id',
+    sessionId: 'new-sid',
+    isRevoked: false,
+    createdAt: new Date(Date.now() - createdAgoMs),
+    expiresAt: new Date(Date.now() + 86400000),
+    user,
+    ...overrides,
+  });
+  const res = { cookie: jest.fn() } as unknown as Response;
+
+  beforeEach(async () => {
+    config = {};
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        AuthService,
+        SessionPolicyService,
+        { provide: DeviceService, useValue: mockDeviceService },
+        { provide: GeoIpService, useValue: mockGeoIpService },
+        { provide: SessionLimitService, useValue: mockSessionLimitService },
+        { provide: NativeClientService, useValue: mockNativeClientService },
+        { provide: CsrfService, useValue: mockCsrfService },
+        { provide: SessionService, useValue: mockSessionService },
+        { provide: PrismaService, useValue: mockPrismaService },
+        { provide: JwtKeyService, useValue: mockJwtKeyService },
+        { provide: ConfigService, useValue: mockConfigService },
+        { provide: JwtService, useValue: mockJwtService },
+        { provide: UserService, useValue: {} },
+        { provide: MfaService, useValue: {} },
+        { provide: EmailVerificationService, useValue: {} },
+        { provide: MailService, useValue: {} },
+        { provide: PasswordPolicyService, useValue: {} },
+        { provide: PasswordHasherService, useValue: {} },
+        {
+          provide: SuspiciousActivityService,
+          useValue: mockSuspiciousActivityService,
+        },
+        { provide: AccountLockoutService, useValue: {} },
+      ],
+    }).compile();
+
+    service = module.get<AuthService>(AuthService);
+
+    jest.clearAllMocks();
+    mockSessionService.findByRefreshTokenHash.mockResolvedValue(rotatedSession);
+    mockPrismaService.user.findUniqueOrThrow.mockResolvedValue({
+      tokenVersion: 0,
+    });
+    mockJwtKeyService.signAccessToken.mockReturnValue('access-token');
+  });
+
+  it('should return an access token for the successor session inside the grace window', async () => {
+    mockSessionService.findSuccessor.mockResolvedValue(successor(2000));
+
+    const result = await service.refreshToken('old-refresh-token', res);
+
+    expect(result).toEqual({ accessToken: 'access-token', user });
+    expect(mockJwtKeyService.signAccessToken).toHaveBeenCalledWith(
+      expect.objectContaining({ sid: 'new-sid' }),
+      900,
+    );
+    expect(res.cookie).not.toHaveBeenCalled();
+    expect(mockSessionService.revokeSessionFamily).not.toHaveBeenCalled();
+  });
+
+  it('should follow repeated rotations to the live session', async () => {
+    mockSessionService.findSuccessor
+      .mockResolvedValueOnce(successor(2000, { id: 2, isRevoked: true }))
+      .mockResolvedValueOnce(successor(1000, { id: 3, sessionId: 'head-sid' }));
+
+    await service.refreshToken('old-refresh-token', res);
+
+    expect(mockSessionService.findSuccessor).toHaveBeenLastCalledWith(2);
+    expect(mockJwtKeyService.signAccessToken).toHaveBeenCalledWith(
+      expect.objectContaining({ sid: 'head-sid' }),
+      900,
+    );
+  });
+
+  it('should revoke only the token family on reuse outside the grace window', async () => {
+    mockSessionService.findSuccessor.mockResolvedValue(successor(60000));
+
+    await expect(
+      service.refreshToken('old-refresh-token', res),
+    ).rejects.toThrow(UnauthorizedException);
+
+    expect(mockSessionService.revokeSessionFamily).toHaveBeenCalledWith(1);
+    expect(mockSessionService.revokeAllUserSessions).not.toHaveBeenCalled();
+  });
+
+  it('should tell an evicted session why it was signed out instead of treating it as reuse', async () => {
+    mockSessionService.findByRefreshTokenHash.mockResolvedValue({
+      ...rotatedSession,
+      revokedReason: 'session_limit',
+    });
+
+    await expect(
+      service.refreshToken('old-refresh-token', res),
+    ).rejects.toThrow(SessionEvictedException);
+
+    expect(mockSessionService.revokeSessionFamily).not.toHaveBeenCalled();
+  });
+
+  it('should not accept refresh tokens of a native client through the cookie flow', async () => {
+    mockSessionService.findByRefreshTokenHash.mockResolvedValue({
+      ...rotatedSession,
+      nativeClientId: 'mobile-app',
+    });
+
+    await expect(service.refreshToken('refresh-token', res)).rejects.toThrow(
+      UnauthorizedException,
+    );
+
+    mockNativeClientService.resolve.mockReturnValueOnce({
+      clientId: 'other-app',
+    });
+    await expect(service.refreshToken('refresh-token', res)).rejects.toThrow(
+      UnauthorizedException,
+    );
+
+    expect(mockSessionService.findSuccessor).not.toHaveBeenCalled();
+  });
+
+  it('should not accept cookie refresh tokens from a native client', async () => {
+    mockNativeClientService.resolve.mockReturnValueOnce({
+      clientId: 'mobile-app',
+    });
+
+    await expect(service.refreshToken('refresh-token', res)).rejects.toThrow(
+      UnauthorizedException,
+    );
+
+    expect(mockSessionService.findSuccessor).not.toHaveBeenCalled();
+  });
+
+  it('should rotate native sessions without touching the cookie', async () => {
+    mockSessionService.findByRefreshTokenHash.mockResolvedValue({
+      ...rotatedSession,
+      isRevoked: false,
+      nativeClientId: 'mobile-app',
+    });
+    mockNativeClientService.resolve.mockReturnValueOnce({
+      clientId: 'mobile-app',
+    });
+    mockSuspiciousActivityService.evaluate.mockResolvedValue({
+      action: 'allow',
+      signals: [],
+    });
+
+    const result = await service.refreshToken('refresh-token', res);
+
+    expect(result).toHaveProperty('refreshToken', 'new-refresh-token');
+    expect(mockJwtService.sign).toHaveBeenCalledWith(
+      expect.objectContaining({ type: 'refresh', cid: 'mobile-app' }),
+      expect.any(Object),
+    );
+    expect(mockSessionService.create).toHaveBeenCalledWith(
+      expect.objectContaining({ nativeClientId: 'mobile-app' }),
+    );
+    expect(res.cookie).not.toHaveBeenCalled();
+  });
+
+  it('should sign out a session that was idle for too long', async () => {
+    mockSessionService.findByRefreshTokenHash.mockResolvedValue({
+      ...rotatedSession,
+      isRevoked: false,
+    });
+    mockSessionService.isIdle.mockReturnValueOnce(true);
+
+    await expect(service.refreshToken('refresh-token', res)).rejects.toThrow(
+      SessionIdleException,
+    );
+
+    expect(mockSessionService.revokeSession).toHaveBeenCalledWith(
+      1,
+      'idle_timeout',
+    );
+    expect(mockSuspiciousActivityService.evaluate).not.toHaveBeenCalled();
+  });
+
+  it('should tell a session revoked by the idle cleanup why it was signed out', async () => {
+    mockSessionService.findByRefreshTokenHash.mockResolvedValue({
+      ...rotatedSession,
+      revokedReason: 'idle_timeout',
+    });
+
+    await expect(
+      service.refreshToken('old-refresh-token', res),
+    ).rejects.toThrow(SessionIdleException);
+
+    expect(mockSessionService.revokeSessionFamily).not.toHaveBeenCalled();
+  });
+
+  it('should revoke all sessions on reuse when configured', async () => {
+    config = { REFRESH_TOKEN_REUSE_REVOKE_ALL: 'true' };
+    mockSessionService.findSuccessor.mockResolvedValue(null);
+
+    await expect(
+      service.refreshToken('old-refresh-token', res),
+    ).rejects.toThrow(UnauthorizedException);
+
+    expect(mockSessionService.revokeAllUserSessions).toHaveBeenCalledWith(
+      'user-id',
+    );
+  });
+
+  it('should only accept refresh tokens from the client they were issued to', async () => {
+    mockSessionService.findByRefreshTokenHash.mockResolvedValue({
+      ...rotatedSession,
+      oidcClient: { id: 'client-a', clientId: 'public-a' },
+    });
+
+    await expect(
+      service.refreshClientSession('refresh-token', 'client-b'),
+    ).rejects.toThrow(UnauthorizedException);
+    await expect(service.refreshToken('refresh-token', res)).rejects.toThrow(
+      UnauthorizedException,
+    );
+
+    expect(mockSessionService.findSuccessor).not.toHaveBeenCalled();
+  });
+
+  it('should keep the OpenID Connect grant in access tokens for the successor session', async () => {
+    const oidcClient = { id: 'client-a', clientId: 'public-a' };
+    mockSessionService.findByRefreshTokenHash.mockResolvedValue({
+      ...rotatedSession,
+      oidcClient,
+    });
+    mockSessionService.findSuccessor.mockResolvedValue(
+      successor(2000, { oidcClient, oidcScopes: ['openid', 'email'] }),
+    );
+
+    await service.refreshClientSession('refresh-token', 'client-a');
+
+    expect(mockJwtKeyService.signAccessToken).toHaveBeenCalledWith(
+      expect.objectContaining({ azp: 'public-a', scope: 'openid email' }),
+      900,
+    );
+  });
+
+  describe('suspicious activity', () => {
+    const activeSession = {
+      ...rotatedSession,
+      isRevoked: false,
+      ipAddress: '203.0.113.1',
+      userAgent: 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) Chrome/120.0',
+    };
+
+    beforeEach(() => {
+      mockSessionService.findByRefreshTokenHash.mockResolvedValue(
+        activeSession,
+      );
+    });
+
+    it('should compare the refresh against the session it rotates', async () => {
+      mockSuspiciousActivityService.evaluate.mockResolvedValue({
+        action: 'reauth',
+        signals: ['ip_change'],
+      });
+
+      await expect(
+        service.refreshToken('refresh-token', res, '198.51.100.7'),
+      ).rejects.toThrow(UnauthorizedException);
+
+      expect(mockSuspiciousActivityService.evaluate).toHaveBeenCalledWith({
+        eventType: 'refresh',
+        userId: 'user-id',
+        sessionId: 'old-sid',
+        ipAddress: '198.51.100.7',
+        userAgent: undefined,
+        previous: {
+          ipAddress: activeSession.ipAddress,
+          userAgent: activeSession.userAgent,
+        },
+      });
+      expect(mockSessionService.revokeSession).toHaveBeenCalledWith(1);
+      expect(mockSessionService.revokeAllUserSessions).not.toHaveBeenCalled();
+    });
+
+    it('should revoke every session when the policy says revoke', async () => {
+      mockSuspiciousActivityService.evaluate.mockResolvedValue({
+        action: 'revoke',
+        signals: ['user_agent_change'],
+      });
+
+      await expect(
+        service.refreshToken('refresh-token', res),
+      ).rejects.toThrow(UnauthorizedException);
+
+      expect(mockSessionService.revokeAllUserSessions).toHaveBeenCalledWith(
+        'user-id',
+      );
+      expect(res.cookie).not.toHaveBeenCalled();
+    });
+  });
+});
+describe('AuthService magic link', () => {
+  let service: AuthService;
+  let config: Record<string, unknown>;
+
+  const mockPrismaService = {
+    user: {
+      findFirst: jest.fn(),
+      updateMany: jest.fn(),
+      findUniqueOrThrow: jest.fn(),
+    },
+  };
+
+  const mockUserService = {
+    findByEmail: jest.fn(),
+    findById: jest.fn(),
+  };
+
+  const mockMailService = {
+    send: jest.fn(),
+    buildFrontendUrl: jest.fn(() => 'http://localhost:4200/auth/magic-link'),
+  };
+
+  const mockConfigService = {
+    get: jest.fn((key: string, defaultValue?: unknown) =>
+      key in config ? config[key] : defaultValue,
+    ),
+  };
+
+  const user = {
+    id: 'user-id',
+    email: 'user@example.com',
+    isActive: true,
+    emailVerified: false,
+    mfaEnabled: false,
+    lockedUntil: null,
+    roles: [{ name: 'USER' }],
+  };
+  const hash = (value: string) =>
+    crypto.createHash('sha256').update(value).digest('hex');
+  const res = {
+    cookie: jest.fn(),
+    clearCookie: jest.fn(),
+  } as unknown as Response;
+  const flushBackgroundWork = () => new Promise(setImmediate);
+
+  beforeEach(async () => {
+    config = {};
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        AuthService,
+        SessionPolicyService,
+        { provide: DeviceService, useValue: mockDeviceService },
+        { provide: GeoIpService, useValue: mockGeoIpService },
+        { provide: SessionLimitService, useValue: mockSessionLimitService },
+        { provide: NativeClientService, useValue: mockNativeClientService },
+        { provide: CsrfService, useValue: mockCsrfService },
+        { provide: PrismaService, useValue: mockPrismaService },
+        { provide: UserService, useValue: mockUserService },
+        { provide: MailService, useValue: mockMailService },
+        { provide: ConfigService, useValue: mockConfigService },
+        { provide: SessionService, useValue: { create: jest.fn() } },
+        { provide: JwtService, useValue: { sign: jest.fn(() => 'refresh') } },
+        {
+          provide: JwtKeyService,
+          useValue: { signAccessToken: jest.fn(() => 'access') },
+        },
+        {
+          provide: MfaService,
+          useValue: { isMfaRequired: jest.fn(() => false) },
+        },
+        {
+          provide: EmailVerificationService,
+          useValue: { getEnforcement: jest.fn(() => 'login') },
+        },
+        {
+          provide: SuspiciousActivityService,
+          useValue: { evaluate: jest.fn(() => ({ action: 'allow' })) },
+        },
+        {
+          provide: AccountLockoutService,
+          useValue: { assertNotLocked: jest.fn() },
+        },
+        { provide: PasswordPolicyService, useValue: {} },
+        { provide: PasswordHasherService, useValue: {} },
+      ],
+    }).compile();
+
+    service = module.get<AuthService>(AuthService);
+
+    jest.clearAllMocks();
+    mockPrismaService.user.findUniqueOrThrow.mockResolvedValue({
+      tokenVersion: 0,
+    });
+  });
+
+  it('should email a hashed single-use token', async () => {
+    mockUserService.findByEmail.mockResolvedValue(user);
+    mockPrismaService.user.updateMany.mockResolvedValue({ count: 1 });
+
+    service.requestMagicLink('User@Example.com ', res);
+    await flushBackgroundWork();
+
+    const [, { token }] = mockMailService.buildFrontendUrl.mock
+      .calls[0] as unknown as [string, { token: string }];
+    const [update] = mockPrismaService.user.updateMany.mock.calls[0] as [
+      { data: { magicLinkToken: string; magicLinkBinding: string | null } },
+    ];
+    expect(update.data.magicLinkToken).toBe(hash(token));
+    expect(update.data.magicLinkBinding).toBeNull();
+    expect(mockMailService.send).toHaveBeenCalled();
+    expect(res.cookie).not.toHaveBeenCalled();
+  });
+
+  it('should not send another link while the per-email cooldown runs', async () => {
+    mockUserService.findByEmail.mockResolvedValue(user);
+    mockPrismaService.user.updateMany.mockResolvedValue({ count: 0 });
+
+    service.requestMagicLink('user@example.com', res);
+    await flushBackgroundWork();
+
+    expect(mockMailService.send).not.toHaveBeenCalled();
+  });
+
+  it('should bind the link to the requesting browser when enabled', async () => {
+    config = { MAGIC_LINK_BIND_TO_BROWSER: 'true' };
+    mockUserService.findByEmail.mockResolvedValue(user);
+    mockPrismaService.user.updateMany.mockResolvedValue({ count: 1 });
+
+    service.requestMagicLink('user@example.com', res, 'existing-binding');
+    await flushBackgroundWork();
+
+    expect(res.cookie).toHaveBeenCalledWith(
+      'magicLinkBinding',
+      'existing-binding',
+      expect.objectContaining({ httpOnly: true }),
+    );
+    expect(mockPrismaService.user.updateMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        data: expect.objectContaining({
+          magicLinkBinding: hash('existing-binding'),
+        }) as object,
+      }),
+    );
+  });
+
+  it('should reject a bound link opened in another browser', async () => {
+    mockPrismaService.user.findFirst.mockResolvedValue({
+      id: 'user-id',
+      magicLinkBinding: hash('binding'),
+      emailVerified: true,
+    });
+
+    await expect(
+      service.verifyMagicLink('token', 'other-binding', res),
+    ).rejects.toThrow(UnauthorizedException);
+    expect(mockPrismaService.user.updateMany).not.toHaveBeenCalled();
+  });
+
+  it('should consume the link, verify the email and create a session', async () => {
+    mockPrismaService.user.findFirst.mockResolvedValue({
+      id: 'user-id',
+      magicLinkBinding: hash('binding'),
+      emailVerified: false,
+    });
+    mockUserService.findById.mockResolvedValue(user);
+    mockPrismaService.user.updateMany.mockResolvedValue({ count: 1 });
+
+    const result = await service.verifyMagicLink('token', 'binding', res);
+
+    expect(result).toEqual(
+      expect.objectContaining({
+        accessToken: 'access',
+        refreshToken: 'refresh',
+      }),
+    );
+    expect(mockPrismaService.user.updateMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: expect.objectContaining({
+          magicLinkToken: hash('token'),
+        }) as object,
+        data: expect.objectContaining({
+          magicLinkToken: null,
+          emailVerified: true,
+        }) as object,
+      }),
+    );
+    expect(res.cookie).toHaveBeenCalledWith(
+      'refreshToken',
+      'refresh',
+      expect.any(Object),
+    );
+  });
+
+  it('should reject a link that was already used', async () => {
+    mockPrismaService.user.findFirst.mockResolvedValue({
+      id: 'user-id',
+      magicLinkBinding: null,
+      emailVerified: true,
+    });
+    mockUserService.findById.mockResolvedValue(user);
+    mockPrismaService.user.updateMany.mockResolvedValue({ count: 0 });
+
+    await expect(
+      service.verifyMagicLink('token', undefined, res),
+    ).rejects.toThrow(UnauthorizedException);
+  });
+});
+
+describe('AuthService reauthentication', () => {
+  let service: AuthService;
+
+  const mockSessionService = {
+    markAuthenticated: jest.fn(),
+  };
+
+  const mockUserService = {
+    findByEmail: jest.fn(),
+  };
+
+  const mockMfaService = {
+    verifyCode: jest.fn(),
+  };
+
+  const mockPasswordHasherService = {
+    verify: jest.fn(),
+  };
+
+  const mockAccountLockoutService = {
+    assertNotLocked: jest.fn(),
+    recordFailedAttempt: jest.fn(),
+  };
+
+  const user = {
+    id: 'user-id',
+    email: 'user@example.com',
+    roles: [{ name: 'USER' }],
+  } as FormattedSafeUser;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        AuthService,
+        SessionPolicyService,
+        { provide: DeviceService, useValue: mockDeviceService },
+        { provide: GeoIpService, useValue: mockGeoIpService },
+        { provide: SessionLimitService, useValue: mockSessionLimitService },
+        { provide: NativeClientService, useValue: mockNativeClientService },
+        { provide: CsrfService, useValue: mockCsrfService },
+        { provide: SessionService, useValue: mockSessionService },
+        { provide: UserService, useValue: mockUserService },
+        { provide: MfaService, useValue: mockMfaService },
+        {
+          provide: PasswordHasherService,
+          useValue: mockPasswordHasherService,
+        },
+        {
+          provide: AccountLockoutService,
+          useValue: mockAccountLockoutService,
+        },
+        { provide: PrismaService, useValue: {} },
+        { provide: ConfigService, useValue: { get: jest.fn() } },
+        { provide: JwtService, useValue: {} },
+        { provide: JwtKeyService, useValue: {} },
+        { provide: EmailVerificationService, useValue: {} },
+        { provide: MailService, useValue: {} },
+        { provide: PasswordPolicyService, useValue: {} },
+        { provide: SuspiciousActivityService, useValue: {} },
+      ],
+    }).compile();
+
+    service = module.get<AuthService>(AuthService);
+
+    jest.clearAllMocks();
+    mockUserService.findByEmail.mockResolvedValue({
+      ...user,
+      passwordHash: 'hash',
+    });
+  });
+
+  it('should mark the session as recently authenticated after a valid password', async () => {
+    mockPasswordHasherService.verify.mockResolvedValue(true);
+
+    await service.reauthenticate(user, 'sid', { password: 'secret' });
+
+    expect(mockSessionService.markAuthenticated).toHaveBeenCalledWith('sid');
+  });
+
+  it('should accept a second factor instead of the password', async () => {
+    await service.reauthenticate(user, 'sid', { code: '123456' });
+
+    expect(mockMfaService.verifyCode).toHaveBeenCalledWith('user-id', '123456');
+    expect(mockSessionService.markAuthenticated).toHaveBeenCalledWith('sid');
+  });
+
+  it('should count a wrong password towards the lockout', async () => {
+    mockPasswordHasherService.verify.mockResolvedValue(false);
+
+    await expect(
+      service.reauthenticate(user, 'sid', { password: 'wrong' }),
+    ).rejects.toThrow(UnauthorizedException);
+
+    expect(mockAccountLockoutService.recordFailedAttempt).toHaveBeenCalledWith(
+      'user-id',
+    );
+    expect(mockSessionService.markAuthenticated).not.toHaveBeenCalled();
+  });
+
+  it('should reject tokens without a sign-in session', async () => {
+    await expect(
+      service.reauthenticate(user, undefined, { password: 'secret' }),
+    ).rejects.toThrow(BadRequestException);
+  });
+});
@@ -3,43 +3,90 @@ import {
     Injectable,
     UnauthorizedException,
     ConflictException,
+    ForbiddenException,
+    Logger,
 } from '@nestjs/common';
 import { JwtService } from '@nestjs/jwt';
 import { ConfigService } from '@nestjs/config';
-import * as bcrypt from 'bcrypt';
 import * as crypto from 'crypto';
 import { LoginDto } from './dto/login.dto';
 import { RegisterDto } from './dto/register.dto';
 import { UserService } from 'src/user/user.service';
 import type { Response, CookieOptions } from 'express';
-import { AuthResult } from './interfaces/auth-result.interface';
+import { AuthResult, PendingEmailVerification, RefreshGraceResult } from './interfaces/auth-result.interface';
 import { User } from 'generated/prisma';
-import { SafeSession, SessionService } from 'src/session/session.service';
+import { SESSION_IDLE_REVOKED_REASON, SafeSession, SessionService } from 'src/session/session.service';
 import { FormattedSafeUser, FormattedUser } from 'src/user/utils/transform-user.util';
 import { PrismaService } from 'src/shared/services/prisma.service';
+import { MfaService } from './mfa.service';
+import { MfaChallenge, MfaEnrollment } from './interfaces/mfa.interface';
+import { MfaLoginDto } from './dto/mfa-login.dto';
+import { EmailVerificationService } from './email-verification.service';
+import { MailService } from 'src/mail/mail.service';
+import { PasswordPolicyService } from './password-policy.service';
+import { PasswordHasherService } from './password-hasher.service';
+import { JwtKeyService } from './jwt-key.service';
+import { SuspiciousActivityService } from './suspicious-activity.service';
+import { AccountLockoutService } from './account-lockout.service';
+import { resetPasswordTemplate } from 'src/mail/templates/reset-password.template';
+import { magicLinkTemplate } from 'src/mail/templates/magic-link.template';
+import { OidcGrant } from 'src/oidc/interfaces/oidc.interface';
+import { ReauthenticateDto } from './dto/reauthenticate.dto';
+import { SessionPolicyService } from './session-policy.service';
+import { DeviceService } from './device.service';
+import { GeoIpService } from 'src/geoip/geoip.service';
+import { SESSION_LIMIT_REVOKED_REASON, SessionLimitService } from './session-limit.service';
+import { SessionEvictedException } from './exceptions/session-evicted.exception';
+import { SessionIdleException } from './exceptions/session-idle.exception';
+import { SessionDevice } from './interfaces/device.interface';
+import { SessionLifetime } from './interfaces/session-policy.interface';
+import { NativeClientService } from './native-client.service';
+import { NativeClient } from './interfaces/native-client.interface';
+import { CsrfService } from './csrf.service';
 
 const refreshTokenCookieKey = "refreshToken";
+const magicLinkBindingCookieKey = "magicLinkBinding";
+
+// Upper bound on rotations followed when resolving a token inside the grace window
+const MAX_GRACE_ROTATIONS = 5;
 
 @Injectable()
 export class AuthService {
+    private readonly logger = new Logger(AuthService.name);
+
     constructor(
         private jwtService: JwtService,
         private userService: UserService,
         private sessionService: SessionService,
         private configService: ConfigService,
-        private prisma: PrismaService
+        private prisma: PrismaService,
+        private mfaService: MfaService,
+        private emailVerificationService: EmailVerificationService,
+        private mailService: MailService,
+        private passwordPolicyService: PasswordPolicyService,
+        private passwordHasherService: PasswordHasherService,
+        private jwtKeyService: JwtKeyService,
+        private suspiciousActivityService: SuspiciousActivityService,
+        private accountLockoutService: AccountLockoutService,
+        private sessionPolicyService: SessionPolicyService,
+        private deviceService: DeviceService,
+        private geoIpService: GeoIpService,
+        private sessionLimitService: SessionLimitService,
+        private nativeClientService: NativeClientService,
+        private csrfService: CsrfService,
     ) { }
 
     /**
-     * Helper to get cookie options from configService in one place.
+     * Helper to get cookie options from configService in one place. The refresh token cookie
+     * expires with its session when remembered, and with the browser session otherwise.
      */
-    private getCookieOptions(): CookieOptions {
+    private getCookieOptions(lifetime?: SessionLifetime): CookieOptions {
         return {
             httpOnly: true,
             secure: this.configService.get('NODE_ENV') === 'production',
             sameSite: "lax",
-            maxAge: this.configService.get<number>('COOKIE_MAX_AGE', 7 * 24 * 60 * 60 * 1000),
             path: this.configService.get<string>('COOKIE_PATH', '/api/auth'),
+            ...(lifetime?.rememberMe && { expires: lifetime.expiresAt }),
         };
     }
 
@@ -58,9 +105,12 @@ export class AuthService {
         }
 
         // 3. Find user
-        const user = await this.userService.findByEmail(email.toLowerCase().trim());
+        const normalizedEmail = email.toLowerCase().trim();
+        const user = await this.userService.findByEmail(normalizedEmail);
 
         if (!user) {
+            // Unknown emails lock out like real accounts, so the locked response can't be used for enumeration
+            this.accountLockoutService.recordUnknownEmailAttempt(normalizedEmail);
             throw new UnauthorizedException('Invalid credentials');
         }
 
@@ -69,53 +119,56 @@ export class AuthService {
         }
 
         // 5. Check if account is locked
-        if (user.lockedUntil && user.lockedUntil > new Date()) {
-            throw new UnauthorizedException('Account is temporarily locked');
-        }
+        this.accountLockoutService.assertNotLocked(user);
 
         // 6. Validate password
-        const isPasswordValid = await bcrypt.compare(password, user.passwordHash);
+        const isPasswordValid = await this.passwordHasherService.verify(user.passwordHash, password);
 
         if (!isPasswordValid) {
-            // Increment failed login attempts
-            await this.handleFailedLogin(user);
+            // Increment failed login attempts (throws once this attempt locks the account)
+            await this.accountLockoutService.recordFailedAttempt(user.id);
             return null;
         }
 
-        // 7. Reset failed login attempts and update last login (single query)
-        await this.userService.update(user.id, {
-            failedLoginAttempts: 0,
-            lockedUntil: null,
-            lastLoginAt: new Date()
+        // Upgrade hashes made with an older algorithm or weaker parameters while we have the plain password
+        if (this.passwordHasherService.needsRehash(user.passwordHash)) {
+            await this.rehashPassword(user.id, user.passwordHash, password);
+        }
+
+        // 7. Reset failed login attempts, the backoff level and update last login (single query)
+        await this.prisma.user.update({
+            where: { id: user.id },
+            data: {
+                failedLoginAttempts: 0,
+                lockedUntil: null,
+                lockoutCount: 0,
+                lastLoginAt: new Date(),
+            },
         });
 
         const { passwordHash, ...safeUser } = user;
         return safeUser;
     }
 
-    private isValidEmail(email: string): boolean {
-        const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
-        return emailRegex.test(email);
-    }
-
-    private async handleFailedLogin(user: FormattedUser): Promise<void> {
-        const attempts = (user.failedLoginAttempts || 0) + 1;
-
-        const lockDuration = 15 * 60 * 1000; // 15 minutes
-        const maxAttempts = 5;
+    private async rehashPassword(userId: string, currentHash: string, password: string): Promise<void> {
+        try {
+            const passwordHash = await this.passwordHasherService.hash(password);
 
-        if (attempts >= maxAttempts) {
-            await this.userService.update(user.id, {
-                failedLoginAttempts: attempts,
-                lockedUntil: new Date(Date.now() + lockDuration)
-            });
-        } else {
-            await this.userService.update(user.id, {
-                failedLoginAttempts: attempts
+            // Only replace the hash we verified, so a concurrent password change wins
+            await this.prisma.user.updateMany({
+                where: { id: userId, passwordHash: currentHash },
+                data: { passwordHash },
             });
+        } catch (error) {
+            this.logger.error(`Failed to rehash password for user ${userId}`, error);
         }
     }
 
+    private isValidEmail(email: string): boolean {
+        const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+        return emailRegex.test(email);
+    }
+
     /**
      * Validates user by ID only (for access token validation)
      */
@@ -138,7 +191,7 @@ export class AuthService {
         res: Response,
         ipAddress?: string,
         userAgent?: string,
-    ): Promise<AuthResult> {
+    ): Promise<AuthResult | PendingEmailVerification> {
         // Validate email format
         if (!this.isValidEmail(registerDto.email)) {
             throw new BadRequestException('Invalid email format');
@@ -161,8 +214,10 @@ export class AuthService {
 
         console.log(defaultRole);
 
+        await this.passwordPolicyService.assertValid(registerDto.password, { email: registerDto.email });
+
         // Hash password
-        const passwordHash = await bcrypt.hash(registerDto.password, 10);
+        const passwordHash = await this.passwordHasherService.hash(registerDto.password);
 
         // Create user with default role
         const user = await this.prisma.user.create({
@@ -191,12 +246,19 @@ export class AuthService {
             roles: user.userRoles.map(ur => ur.role),
         };
 
-        // Generate tokens and create session
-        const authResult = await this.generateTokens(formattedUser, ipAddress, userAgent);
+        // A failing mail transport must not fail the registration itself; the user can resend
+        try {
+            await this.emailVerificationService.sendVerificationEmail(formattedUser);
+        } catch (error) {
+            this.logger.error(`Failed to send verification email to user ${formattedUser.id}`, error);
+        }
 
-        res.cookie(refreshTokenCookieKey, authResult.refreshToken, this.getCookieOptions());
+        if (this.emailVerificationService.getEnforcement() === 'login') {
+            return { user: formattedUser, emailVerificationRequired: true };
+        }
 
-        return authResult;
+        // Generate tokens and create session
+        return this.createSession(formattedUser, res, ipAddress, userAgent);
     }
 
     async login(
@@ -204,47 +266,258 @@ export class AuthService {
         res: Response,
         ipAddress?: string,
         userAgent?: string,
-    ): Promise<AuthResult> {
+    ): Promise<AuthResult | MfaChallenge> {
         const user = await this.validateUser(loginDto.email, loginDto.password);
 
         if (!user) {
             throw new UnauthorizedException('Invalid credentials');
         }
 
-        const authResult = await this.generateTokens(user, ipAddress, userAgent);
+        return this.completeFirstFactor(user, res, ipAddress, userAgent, loginDto.rememberMe);
+    }
+
+    /**
+     * Everything after the first factor is shared by password, magic-link and OAuth sign-in
+     */
+    async completeFirstFactor(
+        user: FormattedSafeUser,
+        res: Response,
+        ipAddress?: string,
+        userAgent?: string,
+        rememberMe = false,
+    ): Promise<AuthResult | MfaChallenge> {
+        if (!user.emailVerified && this.emailVerificationService.getEnforcement() === 'login') {
+            throw new ForbiddenException('Email address is not verified');
+        }
+
+        // Password is valid, but tokens are only issued after the second factor.
+        // Trusted devices skip the prompt, but never a required enrollment.
+        if (user.mfaEnabled || this.mfaService.isMfaRequired(user)) {
+            if (!user.mfaEnabled || !await this.deviceService.isTrusted(user.id, res)) {
+                return this.createMfaChallenge(user, rememberMe);
+            }
+        }
+
+        return this.createSession(user, res, ipAddress, userAgent, rememberMe);
+    }
+
+    /**
+     * Issue tokens for an authenticated user, persist the session and set the refresh cookie.
+     * Every login method (password, MFA, passkey) ends here. Native clients get no cookie;
+     * their session is bound to the client and returned in the body by the controller.
+     */
+    async createSession(
+        user: FormattedSafeUser,
+        res: Response,
+        ipAddress?: string,
+        userAgent?: string,
+        rememberMe = false,
+    ): Promise<AuthResult> {
+        const decision = await this.suspiciousActivityService.evaluate({
+            eventType: 'login',
+            userId: user.id,
+            ipAddress,
+            userAgent,
+        });
+
+        if (decision.action === 'revoke') {
+            await this.sessionService.revokeAllUserSessions(user.id);
+            throw new UnauthorizedException(
+                'Suspicious sign-in blocked. All sessions have been revoked for security.'
+            );
+        }
+
+        if (decision.action === 'reauth') {
+            throw new UnauthorizedException('Suspicious sign-in blocked. Please verify your identity and try again.');
+        }
 
-        res.cookie(refreshTokenCookieKey, authResult.refreshToken, this.getCookieOptions());
+        await this.sessionLimitService.enforce(user, ipAddress, userAgent);
+
+        const nativeClient = this.nativeClientService.resolve(res.req);
+
+        // Native clients store their refresh token, like a remembered browser
+        const lifetime = this.sessionPolicyService.start(user, rememberMe || !!nativeClient);
+        const device = await this.deviceService.identify(user.id, res);
+        const authResult = await this.generateTokens(
+            user, ipAddress, userAgent, lifetime, undefined, undefined, device, nativeClient ?? undefined,
+        );
+
+        if (!nativeClient) {
+            res.cookie(refreshTokenCookieKey, authResult.refreshToken, this.getCookieOptions(lifetime));
+            this.csrfService.issue(res); // Cookie-authenticated requests must repeat it
+        }
 
         return authResult;
     }
 
+    /**
+     * Second step of the login flow for users with MFA enabled (or required by their role)
+     */
+    async completeMfaLogin(
+        mfaLoginDto: MfaLoginDto,
+        res: Response,
+        ipAddress?: string,
+        userAgent?: string,
+    ): Promise<AuthResult> {
+        const challenge = await this.verifyMfaToken(mfaLoginDto.mfaToken);
+        let user = challenge.user;
+        let recoveryCodes: string[] | undefined;
+
+        if (user.mfaEnabled) {
+            await this.mfaService.verifyCode(user.id, mfaLoginDto.code);
+        } else {
+            // Role requires MFA but the user has not enrolled yet: the code confirms enrollment
+            recoveryCodes = await this.mfaService.confirmEnrollment(user.id, mfaLoginDto.code);
+            user = (await this.userService.findById(user.id))!;
+        }
+
+        const authResult = await this.createSession(user, res, ipAddress, userAgent, challenge.rememberMe);
+
+        return recoveryCodes ? { ...authResult, recoveryCodes } : authResult;
+    }
+
+    /**
+     * Start MFA enrollment during login for users whose role requires MFA
+     */
+    async beginMfaLoginEnrollment(mfaToken: string): Promise<MfaEnrollment> {
+        const { user } = await this.verifyMfaToken(mfaToken);
+
+        if (user.mfaEnabled) {
+            throw new BadRequestException('MFA is already enabled');
+        }
+
+        return this.mfaService.beginEnrollment(user.id);
+    }
+
+    private createMfaChallenge(user: FormattedSafeUser, rememberMe: boolean): MfaChallenge {
+        // The choice is carried to the second step, where the session is created
+        const mfaToken = this.jwtService.sign(
+            { sub: user.id, type: 'mfa', rememberMe },
+            { expiresIn: `${this.configService.get("MFA_CHALLENGE_EXPIRY_MINS", 5)}m` },
+        );
+
+        return {
+            mfaRequired: true,
+            mfaToken: mfaToken,
+            enrollmentRequired: !user.mfaEnabled,
+        };
+    }
+
+    private async verifyMfaToken(mfaToken: string): Promise<{ user: FormattedSafeUser; rememberMe: boolean }> {
+        let payload: { sub: string; type?: string; rememberMe?: boolean };
+
+        try {
+            payload = this.jwtService.verify(mfaToken);
+        } catch (error) {
+            throw new UnauthorizedException('Invalid or expired MFA token');
+        }
+
+        if (payload.type !== 'mfa') {
+            throw new UnauthorizedException('Invalid or expired MFA token');
+        }
+
+        const user = await this.validateUserById(payload.sub);
+
+        if (!user) {
+            throw new UnauthorizedException('Invalid or expired MFA token');
+        }
+
+        return { user, rememberMe: payload.rememberMe === true };
+    }
+
     async refreshToken(
         refreshToken: string,
         res: Response,
         ipAddress?: string,
         userAgent?: string,
+    ): Promise<AuthResult | RefreshGraceResult> {
+        const nativeClient = this.nativeClientService.resolve(res.req);
+
+        if (nativeClient) {
+            return this.rotateRefreshToken(refreshToken, ipAddress, userAgent, undefined, undefined, nativeClient.clientId);
+        }
+
+        return this.rotateRefreshToken(refreshToken, ipAddress, userAgent, undefined, res);
+    }
+
+    /**
+     * Issue tokens for a session of an OpenID Connect client. There is no cookie - the
+     * client receives the refresh token from the token endpoint.
+     */
+    async createClientSession(
+        user: FormattedSafeUser,
+        oidcGrant: OidcGrant,
+        ipAddress?: string,
+        userAgent?: string,
     ): Promise<AuthResult> {
+        // Relying parties keep their refresh token, like a remembered browser
+        const lifetime = this.sessionPolicyService.start(user, true);
+
+        return this.generateTokens(user, ipAddress, userAgent, lifetime, undefined, oidcGrant);
+    }
+
+    /**
+     * refresh_token grant of the OpenID Connect token endpoint. Same rotation and reuse
+     * detection as the cookie flow, but only for sessions issued to that client.
+     */
+    async refreshClientSession(
+        refreshToken: string,
+        oidcClientId: string,
+        ipAddress?: string,
+        userAgent?: string,
+    ): Promise<AuthResult | RefreshGraceResult> {
+        return this.rotateRefreshToken(refreshToken, ipAddress, userAgent, oidcClientId);
+    }
+
+    /**
+     * Rotate the refresh token. With a response, the new token is also set as the cookie.
+     */
+    private async rotateRefreshToken(
+        refreshToken: string,
+        ipAddress?: string,
+        userAgent?: string,
+        oidcClientId?: string,
+        res?: Response,
+        nativeClientId?: string,
+    ): Promise<AuthResult | RefreshGraceResult> {
         // Hash the refresh token to find the session
         const tokenHash = this.hashToken(refreshToken);
         const session = await this.sessionService.findByRefreshTokenHash(tokenHash);
 
-        if (!session) {
+        // Refresh tokens only work for the client they were issued to (first-party sessions have none),
+        // so a token issued to a native client can't be replayed through the cookie flow and vice versa
+        if (
+            !session
+            || (session.oidcClient?.id ?? undefined) !== oidcClientId
+            || (session.nativeClientId ?? undefined) !== nativeClientId
+        ) {
             throw new UnauthorizedException('Invalid refresh token');
         }
 
-        // Check if session exists and is revoked (reuse detection)
+        // Evicted by the session limit: not reuse, but the client should know why it was signed out
+        if (session.isRevoked && session.revokedReason === SESSION_LIMIT_REVOKED_REASON) {
+            throw new SessionEvictedException();
+        }
+
+        // Timed out by the idle cleanup: not reuse either
+        if (session.isRevoked && session.revokedReason === SESSION_IDLE_REVOKED_REASON) {
+            throw new SessionIdleException();
+        }
+
+        // A revoked session is either a race between concurrent refreshes or token reuse
         if (session.isRevoked) {
-            // This could indicate token theft - revoke all sessions for this user
-            await this.sessionService.revokeAllUserSessions(session.userId);
-            throw new UnauthorizedException(
-                'Token reuse detected. All sessions have been revoked for security.'
-            );
+            return this.handleRotatedRefreshToken(session);
         }
 
         if (session.expiresAt < new Date()) {
             throw new UnauthorizedException('Refresh token expired');
         }
 
+        if (this.sessionService.isIdle(session)) {
+            await this.sessionService.revokeSession(session.id, SESSION_IDLE_REVOKED_REASON);
+            throw new SessionIdleException();
+        }
+
         if (!session.user.isActive) {
             throw new UnauthorizedException('Account is inactive');
         }
@@ -257,17 +530,29 @@ export class AuthService {
             throw new UnauthorizedException('Invalid refresh token');
         }
 
-        // Additional security: check if IP or user agent changed significantly
-        // if (this.shouldFlagSuspiciousActivity(session!, ipAddress, userAgent)) {
-        // Optional: require re-authentication or send security alert
-        // For now, we'll allow it but could add stricter policies
-        // TODO: Implement notification service
-        // await this.notificationService.sendSecurityAlert(session.userId, {
-        //     type: 'suspicious_activity',
-        //     ipAddress,
-        //     userAgent,
-        // });
-        // }
+        const decision = await this.suspiciousActivityService.evaluate({
+            eventType: 'refresh',
+            userId: session.userId,
+            sessionId: session.sessionId,
+            ipAddress,
+            userAgent,
+            previous: { ipAddress: session.ipAddress, userAgent: session.userAgent },
+        });
+
+        if (decision.action === 'revoke') {
+            await this.sessionService.revokeAllUserSessions(session.userId);
+            throw new UnauthorizedException(
+                'Suspicious activity detected. All sessions have been revoked for security.'
+            );
+        }
+
+        if (decision.action === 'reauth') {
+            await this.sessionService.revokeSession(session.id);
+            throw new UnauthorizedException('Suspicious activity detected. Please sign in again.');
+        }
+
+        // Sliding expiration, capped by the absolute limit set at sign-in
+        const lifetime = this.sessionPolicyService.renew(session.user, session);
 
         // Revoke old session (refresh token rotation)
         // Combine revocation and token generation in a transaction
@@ -279,21 +564,112 @@ export class AuthService {
                 session!.user,
                 ipAddress,
                 userAgent,
-                session!.id // Pass old session ID for audit trail
+                lifetime,
+                session!, // The old session, for the audit trail and the original sign-in time
+                this.getOidcGrant(session!),
             );
         });
 
-        res.cookie(refreshTokenCookieKey, authResult.refreshToken, this.getCookieOptions());
+        if (res) {
+            res.cookie(refreshTokenCookieKey, authResult.refreshToken, this.getCookieOptions(lifetime));
+            this.csrfService.issue(res);
+        }
 
         return authResult;
     }
 
+    private getOidcGrant(session: SafeSession): OidcGrant | undefined {
+        return session.oidcClient
+            ? { oidcClientId: session.oidcClient.id, clientId: session.oidcClient.clientId, scopes: session.oidcScopes }
+            : undefined;
+    }
+
+    /**
+     * Inside the grace window, a token that was just rotated gets an access token for the
+     * session that replaced it. Anything else is treated as reuse of a stolen token.
+     */
+    private async handleRotatedRefreshToken(session: SafeSession): Promise<RefreshGraceResult> {
+        const graceMs = Number(this.configService.get('REFRESH_TOKEN_REUSE_GRACE_SECONDS', 10)) * 1000;
+
+        let successor = await this.sessionService.findSuccessor(session.id);
+        const rotatedRecently = !!successor && successor.createdAt.getTime() + graceMs > Date.now();
+
+        // Racing requests can rotate more than once inside the window; follow the family to its live session
+        for (let hops = 0; rotatedRecently && successor?.isRevoked && hops < MAX_GRACE_ROTATIONS; hops++) {
+            successor = await this.sessionService.findSuccessor(successor.id);
+        }
+
+        if (
+            rotatedRecently
+            && successor
+            && !successor.isRevoked
+            && successor.expiresAt > new Date()
+            && successor.user.isActive
+        ) {
+            return {
+                accessToken: await this.signAccessToken(successor.user, successor.sessionId, this.getOidcGrant(successor)),
+                user: successor.user,
+            };
+        }
+
+        // This could indicate token theft - revoke the token family (or every session, if configured)
+        if (this.configService.get('REFRESH_TOKEN_REUSE_REVOKE_ALL', 'false') === 'true') {
+            await this.sessionService.revokeAllUserSessions(session.userId);
+            throw new UnauthorizedException(
+                'Token reuse detected. All sessions have been revoked for security.'
+            );
+        }
+
+        await this.sessionService.revokeSessionFamily(session.id);
+        throw new UnauthorizedException(
+            'Token reuse detected. This session has been revoked for security.'
+        );
+    }
+
+    /**
+     * Step-up: the user proves who they are again with their password or a second factor,
+     * so routes decorated with @RequireRecentAuth accept this session for a while
+     */
+    async reauthenticate(
+        user: FormattedSafeUser,
+        sessionId: string | undefined,
+        reauthenticateDto: ReauthenticateDto,
+    ): Promise<void> {
+        if (!sessionId) {
+            throw new BadRequestException('Only sign-in sessions can be re-authenticated');
+        }
+
+        if (reauthenticateDto.code) {
+            await this.mfaService.verifyCode(user.id, reauthenticateDto.code);
+        } else if (reauthenticateDto.password) {
+            const account = await this.userService.findByEmail(user.email);
+
+            if (!account) {
+                throw new UnauthorizedException('Invalid credentials');
+            }
+
+            this.accountLockoutService.assertNotLocked(account);
+
+            // Failed attempts count towards the lockout, like failed logins
+            if (!await this.passwordHasherService.verify(account.passwordHash, reauthenticateDto.password)) {
+                await this.accountLockoutService.recordFailedAttempt(user.id);
+                throw new UnauthorizedException('Invalid credentials');
+            }
+        } else {
+            throw new BadRequestException('Password or MFA code is required');
+        }
+
+        await this.sessionService.markAuthenticated(sessionId);
+    }
+
     async logout(refreshToken: string, res: Response): Promise<void> {
         if (refreshToken) {
             const tokenHash = this.hashToken(refreshToken);
             const session = await this.sessionService.findByRefreshTokenHash(tokenHash);
+            const nativeClient = this.nativeClientService.resolve(res.req);
 
-            if (session) {
+            // Like refresh, only the client the token was issued to can end its session
+            if (session && (session.nativeClientId ?? undefined) === nativeClient?.clientId) {
                 await this.sessionService.revokeSession(session.id);
             }
         }
@@ -302,59 +678,76 @@ export class AuthService {
     }
 
     /**
-     * Logout from all devices
+     * Logout from all devices, which also stop being trusted
      */
     async logoutAll(userId: string, res: Response): Promise<void> {
         await this.sessionService.revokeAllUserSessions(userId);
+        await this.deviceService.untrustAll(userId);
         res.clearCookie(refreshTokenCookieKey, this.getCookieOptions());
     }
 
     /**
-     * Generate access and refresh tokens
+     * Generate access and refresh tokens. The refresh token and its session expire together.
      */
     private async generateTokens(
         user: FormattedSafeUser,
-        ipAddress?: string,
-        userAgent?: string,
-        previousSessionId?: number,
+        ipAddress: string | undefined,
+        userAgent: string | undefined,
+        lifetime: SessionLifetime,
+        previousSession?: SafeSession,
+        oidcGrant?: OidcGrant,
+        device?: SessionDevice,
+        nativeClient?: NativeClient,
     ): Promise<AuthResult> {
         const payload = {
             sub: user.id,
             role: user.roles.map(role => { return role.name })
         };
 
-        // Generate stateless access token (NOT stored in DB)
-        const accessToken = this.jwtService.sign(payload, {
-            expiresIn: `${this.configService.get("JWT_ACCESS_EXPIRY_MINS", 15)}m`
-        });
+        const sessionId = crypto.randomUUID();
+        const accessToken = await this.signAccessToken(user, sessionId, oidcGrant);
+
+        // Rotation keeps the binding to a native client
+        const nativeClientId = nativeClient?.clientId ?? previousSession?.nativeClientId ?? undefined;
 
         // Generate refresh token with session identifier
-        const sessionId = crypto.randomUUID();
         const refreshPayload = {
             ...payload,
             sessionId, // Tie token to a specific session
             type: 'refresh',
+            ...(nativeClientId && { cid: nativeClientId }), // The native client it is bound to
         };
 
         const refreshToken = this.jwtService.sign(refreshPayload, {
-            expiresIn: `${this.configService.get("JWT_REFRESH_EXPIRY_DAYS", 7)}d`
+            expiresIn: Math.max(1, Math.ceil((lifetime.expiresAt.getTime() - Date.now()) / 1000)),
         });
 
         // Hash the refresh token before storing
         const refreshTokenHash = this.hashToken(refreshToken);
 
-        // Store session with hashed refresh token
-        const expiresAt = new Date();
-        expiresAt.setDate(expiresAt.getDate() + 7);
+        // Rotation keeps the device, along with its name and trust
+        const sessionDevice: SessionDevice | undefined = device ?? previousSession;
 
+        // Store session with hashed refresh token
         await this.sessionService.create({
             userId: user.id,
             sessionId: sessionId,
             refreshTokenHash: refreshTokenHash,
             ipAddress: ipAddress,
             userAgent: userAgent,
-            expiresAt: expiresAt,
-            previousSessionId: previousSessionId, // For audit trail
+            expiresAt: lifetime.expiresAt,
+            rememberMe: lifetime.rememberMe,
+            maxExpiresAt: lifetime.maxExpiresAt,
+            previousSessionId: previousSession?.id, // For audit trail
+            oidcClientId: oidcGrant?.oidcClientId,
+            oidcScopes: oidcGrant?.scopes,
+            nativeClientId,
+            authenticatedAt: previousSession?.authenticatedAt, // Refreshing is not re-authenticating
+            lastUsedAt: new Date(), // Signing in and refreshing both count as activity
+            deviceId: sessionDevice?.deviceId,
+            deviceName: sessionDevice?.deviceName,
+            trustedUntil: sessionDevice?.trustedUntil,
+            ...this.geoIpService.lookup(ipAddress), // Looked up again on refresh, as the IP may change
         });
 
         return {
@@ -365,53 +758,40 @@ export class AuthService {
     }
 
     /**
-     * Hash a token using SHA-256
+     * Generate a stateless access token (NOT stored in DB), bound to its session so it dies with it.
+     * Tokens of OpenID Connect sessions also name the client (azp) and the granted scopes.
      */
-    private hashToken(token: string): string {
-        return crypto
-            .createHash('sha256')
-            .update(token)
-            .digest('hex');
-    }
+    private async signAccessToken(user: FormattedSafeUser, sessionId: string, oidcGrant?: OidcGrant): Promise<string> {
+        const { tokenVersion } = await this.prisma.user.findUniqueOrThrow({
+            where: { id: user.id },
+            select: { tokenVersion: true },
+        });
 
-    /**
-     * Check if the request shows suspicious activity
-     */
-    private shouldFlagSuspiciousActivity(
-        session: SafeSession,
-        ipAddress?: string,
-        userAgent?: string,
-    ): boolean {
-        // Flag if IP address changed (could be VPN/travel, so don't block)
-        const ipChanged: boolean = !!(session.ipAddress && ipAddress && session.ipAddress !== ipAddress);
-
-        // Flag if user agent changed significantly
-        const userAgentChanged: boolean = !!(
-            session.userAgent &&
-            userAgent &&
-            !this.areUserAgentsSimilar(session.userAgent, userAgent)
+        return this.jwtKeyService.signAccessToken(
+            {
+                sub: user.id,
+                role: user.roles.map(role => { return role.name }),
+                sid: sessionId,
+                jti: crypto.randomUUID(),
+                ver: tokenVersion,
+                ...(oidcGrant && { azp: oidcGrant.clientId, scope: oidcGrant.scopes.join(' ') }),
+            },
+            Number(this.configService.get("JWT_ACCESS_EXPIRY_MINS", 15)) * 60
         );
-
-        return ipChanged || userAgentChanged;
     }
 
     /**
-     * Compare user agents to detect device changes
+     * Hash a token using SHA-256
      */
-    private areUserAgentsSimilar(ua1: string, ua2: string): boolean {
-        // Simple comparison - extract browser and OS
-        // In production, use a library like ua-parser-js
-        const extract = (ua: string) => {
-            const browser = ua.match(/(Chrome|Firefox|Safari|Edge|Opera)/)?.[0] || '';
-            const os = ua.match(/(Windows|Mac|Linux|Android|iOS)/)?.[0] || '';
-            return `${browser}-${os}`;
-        };
-
-        return extract(ua1) === extract(ua2);
+    private hashToken(token: string): string {
+        return crypto
+            .createHash('sha256')
+            .update(token)
+            .digest('hex');
     }
 
     /**
-     * Revoke a specific session by ID
+     * Revoke a specific session by ID. Its device is no longer trusted.
      */
     async revokeSession(userId: string, sessionId: number): Promise<void> {
         const session = await this.sessionService.findById(sessionId);
@@ -421,12 +801,24 @@ export class AuthService {
         }
 
         await this.sessionService.revokeSession(sessionId);
+        await this.deviceService.untrust(userId, sessionId);
     }
 
-    async requestPasswordReset(email: string): Promise<void> {
-        const user = await this.userService.findByEmail(email);
+    /**
+     * Start the password reset flow. The lookup, token generation and email delivery
+     * run in the background, so the caller's response (and its timing) is the same
+     * whether or not the email exists.
+     */
+    requestPasswordReset(email: string): void {
+        this.sendPasswordResetEmail(email).catch((error) =>
+            this.logger.error('Failed to process password reset request', error),
+        );
+    }
 
-        if (!user) {
+    private async sendPasswordResetEmail(email: string): Promise<void> {
+        const user = await this.userService.findByEmail(email.toLowerCase().trim());
+
+        if (!user || !user.isActive) {
             // Don't reveal if user exists
             return;
         }
@@ -434,8 +826,8 @@ export class AuthService {
         // Generate reset token (store in DB with expiry)
         const resetToken = crypto.randomBytes(32).toString('hex');
         const resetTokenHash = this.hashToken(resetToken);
-        const resetTokenExpiry = new Date();
-        resetTokenExpiry.setHours(resetTokenExpiry.getHours() + 1); // 1 hour
+        const expiryMinutes = Number(this.configService.get('PASSWORD_RESET_EXPIRY_MINS', 60));
+        const resetTokenExpiry = new Date(Date.now() + expiryMinutes * 60 * 1000);
 
         await this.prisma.user.update({
             where: { id: user.id },
@@ -445,8 +837,12 @@ export class AuthService {
             },
         });
 
-        // TODO: Send email with reset link
-        // await this.emailService.sendPasswordResetEmail(email, resetToken);
+        const resetUrl = this.mailService.buildFrontendUrl(
+            this.configService.get<string>('PASSWORD_RESET_PATH', '/auth/reset-password'),
+            { token: resetToken },
+        );
+
+        await this.mailService.send(resetPasswordTemplate(user.email, resetUrl, expiryMinutes));
     }
 
     /**
@@ -460,25 +856,178 @@ export class AuthService {
                 passwordResetToken: tokenHash,
                 passwordResetExpiry: { gt: new Date() },
             },
+            select: { id: true, email: true, firstName: true, lastName: true, displayName: true },
         });
 
         if (!user) {
             throw new UnauthorizedException('Invalid or expired reset token');
         }
 
-        const hashedPassword = await bcrypt.hash(newPassword, 10);
+        await this.passwordPolicyService.assertValid(newPassword, user);
 
-        await this.prisma.user.update({
-            where: { id: user.id },
+        const hashedPassword = await this.passwordHasherService.hash(newPassword);
+
+        // Consume the token and set the password in one conditional update, so two
+        // concurrent requests with the same token can't both succeed
+        const result = await this.prisma.user.updateMany({
+            where: {
+                id: user.id,
+                passwordResetToken: tokenHash,
+                passwordResetExpiry: { gt: new Date() },
+            },
             data: {
                 passwordHash: hashedPassword,
                 passwordResetToken: null,
                 passwordResetExpiry: null,
                 passwordChangedAt: new Date(),
+                failedLoginAttempts: 0,
+                lockedUntil: null,
+                lockoutCount: 0,
+                tokenVersion: { increment: 1 },
             },
         });
 
+        if (result.count === 0) {
+            throw new UnauthorizedException('Invalid or expired reset token');
+        }
+
         // Revoke all existing sessions for security
         await this.sessionService.revokeAllUserSessions(user.id);
     }
-}
\ No newline at end of file
+
+    /**
+     * Start a passwordless sign-in. As with password resets, the lookup and email delivery
+     * run in the background. With browser binding on, the requesting browser gets a cookie
+     * that must accompany the link; a browser that already has one keeps it, so an earlier
+     * link from the same browser stays usable.
+     */
+    requestMagicLink(email: string, res: Response, existingBinding?: string): void {
+        let bindingHash: string | undefined;
+
+        if (this.configService.get('MAGIC_LINK_BIND_TO_BROWSER', 'false') === 'true') {
+            const binding = existingBinding || crypto.randomBytes(32).toString('hex');
+            bindingHash = this.hashToken(binding);
+
+            res.cookie(magicLinkBindingCookieKey, binding, {
+                ...this.getCookieOptions(),
+                maxAge: this.getMagicLinkExpiryMinutes() * 60 * 1000,
+            });
+            this.csrfService.issue(res); // Verifying the link is cookie-authenticated
+        }
+
+        this.sendMagicLinkEmail(email, bindingHash).catch((error) =>
+            this.logger.error('Failed to process magic link request', error),
+        );
+    }
+
+    private async sendMagicLinkEmail(email: string, bindingHash?: string): Promise<void> {
+        const user = await this.userService.findByEmail(email.toLowerCase().trim());
+
+        if (!user || !user.isActive) {
+            // Don't reveal if user exists
+            return;
+        }
+
+        const token = crypto.randomBytes(32).toString('hex');
+        const expiryMinutes = this.getMagicLinkExpiryMinutes();
+        const cooldownMs = Number(this.configService.get('MAGIC_LINK_COOLDOWN_SECONDS', 60)) * 1000;
+
+        // Per-email cooldown, checked in the update itself so concurrent requests can't both pass it
+        const result = await this.prisma.user.updateMany({
+            where: {
+                id: user.id,
+                OR: [
+                    { magicLinkSentAt: null },
+                    { magicLinkSentAt: { lt: new Date(Date.now() - cooldownMs) } },
+                ],
+            },
+            data: {
+                magicLinkToken: this.hashToken(token),
+                magicLinkExpiry: new Date(Date.now() + expiryMinutes * 60 * 1000),
+                magicLinkBinding: bindingHash ?? null,
+                magicLinkSentAt: new Date(),
+            },
+        });
+
+        if (result.count === 0) {
+            return;
+        }
+
+        const signInUrl = this.mailService.buildFrontendUrl(
+            this.configService.get<string>('MAGIC_LINK_PATH', '/auth/magic-link'),
+            { token },
+        );
+
+        await this.mailService.send(magicLinkTemplate(user.email, signInUrl, expiryMinutes));
+    }
+
+    /**
+     * Consume a magic link and sign the user in. Following the link proves control of the
+     * mailbox, so it also verifies the email address.
+     */
+    async verifyMagicLink(
+        token: string,
+        binding: string | undefined,
+        res: Response,
+        ipAddress?: string,
+        userAgent?: string,
+        rememberMe = false,
+    ): Promise<AuthResult | MfaChallenge> {
+        const tokenHash = this.hashToken(token);
+
+        const candidate = await this.prisma.user.findFirst({
+            where: {
+                magicLinkToken: tokenHash,
+                magicLinkExpiry: { gt: new Date() },
+            },
+            select: { id: true, magicLinkBinding: true, emailVerified: true },
+        });
+
+        if (!candidate) {
+            throw new UnauthorizedException('Invalid or expired sign-in link');
+        }
+
+        if (candidate.magicLinkBinding && (!binding || this.hashToken(binding) !== candidate.magicLinkBinding)) {
+            throw new UnauthorizedException('This sign-in link must be opened in the browser that requested it');
+        }
+
+        const user = await this.userService.findById(candidate.id);
+
+        if (!user || !user.isActive) {
+            throw new UnauthorizedException('Account is inactive');
+        }
+
+        this.accountLockoutService.assertNotLocked(user);
+
+        // Single use: only one of two concurrent requests can clear the token
+        const result = await this.prisma.user.updateMany({
+            where: {
+                id: user.id,
+                magicLinkToken: tokenHash,
+                magicLinkExpiry: { gt: new Date() },
+            },
+            data: {
+                magicLinkToken: null,
+                magicLinkExpiry: null,
+                magicLinkBinding: null,
+                lastLoginAt: new Date(),
+                ...(!candidate.emailVerified && {
+                    emailVerified: true,
+                    emailVerifiedAt: new Date(),
+                }),
+            },
+        });
+
+        if (result.count === 0) {
+            throw new UnauthorizedException('Invalid or expired sign-in link');
+        }
+
+        res.clearCookie(magicLinkBindingCookieKey, { path: this.getCookieOptions().path });
+
+        return this.completeFirstFactor({ ...user, emailVerified: true }, res, ipAddress, userAgent, rememberMe);
+    }
+
+    private getMagicLinkExpiryMinutes(): number {
+        return Number(this.configService.get('MAGIC_LINK_EXPIRY_MINS', 15));
+    }
+}
@@ -0,0 +1,152 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import type { Request, Response } from 'express';
+import { CsrfService, csrfCookieKey } from './csrf.service';
+import { CsrfValidationException } from './exceptions/csrf-validation.exception';
+
+describe('CsrfService', () => {
+  let service: CsrfService;
+
+  const mockConfigService = {
+    get: jest.fn((key: string, defaultValue?: unknown) =>
+      key === 'FRONTEND_URL'
+        ? 'https://app.example.com, https://admin.example.com'
+        : defaultValue,
+    ),
+  };
+
+  const request = (
+    headers: Record<string, string> = {},
+    cookies: Record<string, string> = {},
+  ) =>
+    ({
+      method: 'POST',
+      originalUrl: '/api/auth/refresh',
+      cookies,
+      get: (name: string) => headers[name.toLowerCase()],
+    }) as unknown as Request;
+
+  const cookies = { refreshToken: 'refresh-token', [csrfCookieKey]: 'token' };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        CsrfService,
+        { provide: ConfigService, useValue: mockConfigService },
+      ],
+    }).compile();
+
+    service = module.get<CsrfService>(CsrfService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  describe('issue', () => {
+    it('should create a token readable by scripts and expose it in a header', () => {
+      const cookie = jest.fn();
+      const setHeader = jest.fn();
+      const res = {
+        req: request(),
+        cookie,
+        setHeader,
+      } as unknown as Response;
+
+      const token = service.issue(res);
+
+      expect(cookie).toHaveBeenCalledWith(
+        csrfCookieKey,
+        token,
+        expect.objectContaining({ httpOnly: false }),
+      );
+      expect(setHeader).toHaveBeenCalledWith('x-csrf-token', token);
+    });
+
+    it("should keep the browser's existing token", () => {
+      const res = {
+        req: request({}, { [csrfCookieKey]: 'existing-token' }),
+        cookie: jest.fn(),
+        setHeader: jest.fn(),
+      } as unknown as Response;
+
+      expect(service.issue(res)).toBe('existing-token');
+    });
+  });
+
+  describe('hasAuthCookie', () => {
+    it('should only count cookies that authenticate a request', () => {
+      expect(service.hasAuthCookie(request({}, cookies))).toBe(true);
+      expect(
+        service.hasAuthCookie(request({}, { [csrfCookieKey]: 'token' })),
+      ).toBe(false);
+    });
+  });
+
+  describe('verify', () => {
+    it('should accept an allowed origin with a matching token', () => {
+      expect(() =>
+        service.verify(
+          request(
+            { origin: 'https://admin.example.com', 'x-csrf-token': 'token' },
+            cookies,
+          ),
+        ),
+      ).not.toThrow();
+    });
+
+    it('should accept requests without Origin and Referer on the token alone', () => {
+      expect(() =>
+        service.verify(request({ 'x-csrf-token': 'token' }, cookies)),
+      ).not.toThrow();
+    });
+
+    it('should reject other origins, even with a matching token', () => {
+      expect(() =>
+        service.verify(
+          request(
+            { origin: 'https://evil.example.com', 'x-csrf-token': 'token' },
+            cookies,
+          ),
+        ),
+      ).toThrow(CsrfValidationException);
+      expect(() =>
+        service.verify(
+          request(
+            {
+              referer: 'https://evil.example.com/page',
+              'x-csrf-token': 'token',
+            },
+            cookies,
+          ),
+        ),
+      ).toThrow(CsrfValidationException);
+    });
+
+    it('should reject a missing or different token', () => {
+      expect(() =>
+        service.verify(request({ origin: 'https://app.example.com' }, cookies)),
+      ).toThrow(CsrfValidationException);
+      expect(() =>
+        service.verify(
+          request(
+            { origin: 'https://app.example.com', 'x-csrf-token': 'other' },
+            cookies,
+          ),
+        ),
+      ).toThrow(CsrfValidationException);
+    });
+
+    it('should answer with a distinct error code', () => {
+      try {
+        service.verify(request({}, cookies));
+        fail('expected a CSRF error');
+      } catch (error) {
+        expect((error as CsrfValidationException).getResponse()).toMatchObject({
+          statusCode: 403,
+          code: 'CSRF_VALIDATION_FAILED',
+        });
+      }
+    });
+  });
+});
@@ -0,0 +1,140 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import type { Request, Response } from 'express';
+import * as crypto from 'crypto';
+import { CsrfValidationException } from './exceptions/csrf-validation.exception';
+
+export const csrfCookieKey = 'csrfToken';
+export const csrfHeader = 'x-csrf-token';
+
+/**
+ * Cookies that authenticate a request on their own: the refresh token and the magic link
+ * browser binding
+ */
+const AUTH_COOKIE_KEYS = ['refreshToken', 'magicLinkBinding'];
+
+/**
+ * Browsers cap cookie lifetimes at 400 days
+ */
+const CSRF_COOKIE_MAX_AGE_MS = 400 * 24 * 60 * 60 * 1000;
+
+/**
+ * CSRF defenses for routes authenticated by cookies: the request's Origin (or Referer)
+ * must be one of FRONTEND_URL, and the X-CSRF-Token header must repeat the csrfToken
+ * cookie (double submit). The cookie is readable by scripts on purpose; a frontend on
+ * another origin gets the token from the X-CSRF-Token response header or GET /auth/csrf.
+ */
+@Injectable()
+export class CsrfService {
+  private readonly logger = new Logger(CsrfService.name);
+
+  constructor(private configService: ConfigService) {}
+
+  /**
+   * Hand out the browser's CSRF token, creating one if it has none yet. The token is kept
+   * across sign-ins and refreshes so that other tabs holding it keep working.
+   */
+  issue(res: Response): string {
+    const token =
+      this.getCookieToken(res.req) ??
+      crypto.randomBytes(32).toString('base64url');
+
+    res.cookie(csrfCookieKey, token, {
+      httpOnly: false,
+      secure: this.configService.get('NODE_ENV') === 'production',
+      sameSite: 'lax',
+      path: '/',
+      maxAge: CSRF_COOKIE_MAX_AGE_MS,
+    });
+    res.setHeader(csrfHeader, token);
+
+    return token;
+  }
+
+  /**
+   * Whether the request carries a cookie that authenticates it
+   */
+  hasAuthCookie(req: Request): boolean {
+    const cookies = req.cookies as Record<string, string> | undefined;
+
+    return AUTH_COOKIE_KEYS.some((key) => !!cookies?.[key]);
+  }
+
+  /**
+   * Throws CsrfValidationException, after logging why, unless the request passes both checks
+   */
+  verify(req: Request): void {
+    const failure = this.findFailure(req);
+
+    if (failure) {
+      this.logger.warn(
+        `CSRF validation failed for ${req.method} ${req.originalUrl ?? req.url}: ${failure} (ip ${req.ip}, origin ${req.get('origin') ?? '-'})`,
+      );
+      throw new CsrfValidationException();
+    }
+  }
+
+  private findFailure(req: Request): string | null {
+    const origin = this.getRequestOrigin(req);
+
+    // Browsers send Origin (or at least Referer) on cross-site requests; other clients may send neither
+    if (origin !== undefined && !this.getAllowedOrigins().includes(origin)) {
+      return `origin ${origin} is not allowed`;
+    }
+
+    const cookieToken = this.getCookieToken(req);
+    const headerToken = req.get(csrfHeader);
+
+    if (!cookieToken || !headerToken) {
+      return 'token missing';
+    }
+
+    const expected = Buffer.from(cookieToken);
+    const actual = Buffer.from(headerToken);
+
+    if (
+      expected.length !== actual.length ||
+      !crypto.timingSafeEqual(expected, actual)
+    ) {
+      return 'token mismatch';
+    }
+
+    return null;
+  }
+
+  private getRequestOrigin(req: Request): string | undefined {
+    const origin = req.get('origin');
+
+    if (origin) {
+      return origin;
+    }
+
+    const referer = req.get('referer');
+
+    if (!referer) {
+      return undefined;
+    }
+
+    try {
+      return new URL(referer).origin;
+    } catch {
+      return 'null';
+    }
+  }
+
+  /**
+   * The frontends allowed by CORS in main.ts
+   */
+  private getAllowedOrigins(): string[] {
+    return this.configService
+      .get<string>('FRONTEND_URL', 'http://localhost:4200')
+      .split(',')
+      .map((url) => url.trim());
+  }
+
+  private getCookieToken(req?: Request): string | undefined {
+    const cookies = req?.cookies as Record<string, string> | undefined;
+
+    return cookies?.[csrfCookieKey] || undefined;
+  }
+}
@@ -0,0 +1,10 @@
+import { SetMetadata } from '@nestjs/common';
+
+export const OIDC_SCOPES_KEY = 'oidcScopes';
+
+/**
+ * Accept access tokens issued to OpenID Connect clients on the route, when they were
+ * granted all of these scopes. Without it such tokens are rejected.
+ */
+export const AllowOidcScopes = (...scopes: string[]) =>
+  SetMetadata(OIDC_SCOPES_KEY, scopes);
@@ -0,0 +1,8 @@
+import { applyDecorators, UseGuards } from '@nestjs/common';
+import { ImpersonationBlockedGuard } from '../guards/impersonation-blocked.guard';
+
+/**
+ * Block the route for impersonation tokens (credential, MFA and token management)
+ */
+export const BlockImpersonation = () =>
+  applyDecorators(UseGuards(ImpersonationBlockedGuard));
@@ -0,0 +1,8 @@
+import { applyDecorators, UseGuards } from '@nestjs/common';
+import { ServiceAccountBlockedGuard } from '../guards/service-account-blocked.guard';
+
+/**
+ * Block the route for service account tokens (routes that act on the caller as a user)
+ */
+export const BlockServiceAccounts = () =>
+  applyDecorators(UseGuards(ServiceAccountBlockedGuard));
@@ -0,0 +1,13 @@
+import { SetMetadata } from '@nestjs/common';
+
+export const CSRF_PROTECTION_KEY = 'csrfProtection';
+
+/**
+ * Always check CSRF on the route, even for requests without auth cookies
+ */
+export const RequireCsrf = () => SetMetadata(CSRF_PROTECTION_KEY, true);
+
+/**
+ * Never check CSRF on the route (e.g. endpoints called by other servers)
+ */
+export const SkipCsrf = () => SetMetadata(CSRF_PROTECTION_KEY, false);
@@ -0,0 +1,15 @@
+import { applyDecorators, SetMetadata, UseGuards } from '@nestjs/common';
+import {
+  RECENT_AUTH_MAX_AGE_KEY,
+  RecentAuthGuard,
+} from '../guards/recent-auth.guard';
+
+/**
+ * Require the session to have signed in or stepped up (POST /auth/reauthenticate) within
+ * maxAgeSeconds (REAUTH_MAX_AGE_SECONDS by default)
+ */
+export const RequireRecentAuth = (maxAgeSeconds?: number) =>
+  applyDecorators(
+    SetMetadata(RECENT_AUTH_MAX_AGE_KEY, maxAgeSeconds),
+    UseGuards(RecentAuthGuard),
+  );
@@ -0,0 +1,9 @@
+import { applyDecorators, UseGuards } from '@nestjs/common';
+import { EmailVerifiedGuard } from '../guards/email-verified.guard';
+
+/**
+ * Block the route for users who have not verified their email address
+ * (only enforced when EMAIL_VERIFICATION_ENFORCEMENT is not 'none')
+ */
+export const RequireVerifiedEmail = () =>
+  applyDecorators(UseGuards(EmailVerifiedGuard));
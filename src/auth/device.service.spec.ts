@@ -0,0 +1,224 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import type { Response } from 'express';
+import { PrismaService } from 'src/shared/services/prisma.service';
+import { SessionService } from 'src/session/session.service';
+import { DeviceService, deviceCookieKey } from './device.service';
+
+describe('DeviceService', () => {
+  let service: DeviceService;
+
+  const mockPrismaService = {
+    session: {
+      findFirst: jest.fn(),
+      findUnique: jest.fn(),
+      count: jest.fn(),
+      updateMany: jest.fn(),
+    },
+  };
+
+  const mockSessionService = {
+    findActiveByUserId: jest.fn(),
+    revokeOtherUserSessions: jest.fn(),
+    getIdleSeconds: jest.fn().mockReturnValue(90),
+  };
+
+  const mockConfigService = {
+    get: jest.fn((_key: string, defaultValue?: unknown) => defaultValue),
+  };
+
+  const responseWithCookies = (cookies: Record<string, string> = {}) =>
+    ({ req: { cookies }, cookie: jest.fn() }) as unknown as Response;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        DeviceService,
+        { provide: PrismaService, useValue: mockPrismaService },
+        { provide: SessionService, useValue: mockSessionService },
+        { provide: ConfigService, useValue: mockConfigService },
+      ],
+    }).compile();
+
+    service = module.get<DeviceService>(DeviceService);
+
+    jest.clearAllMocks();
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  describe('identify', () => {
+    it('should issue a device cookie to a new browser', async () => {
+      const res = responseWithCookies();
+      mockPrismaService.session.findFirst.mockResolvedValue(null);
+
+      const device = await service.identify('user-id', res);
+
+      const [name, token] = (res.cookie as jest.Mock).mock.calls[0] as [
+        string,
+        string,
+      ];
+      expect(name).toBe(deviceCookieKey);
+      expect(device.deviceId).toMatch(/^[0-9a-f]{64}$/);
+      expect(device.deviceId).not.toBe(token);
+      expect(device.trustedUntil).toBeNull();
+    });
+
+    it('should carry over name and trust from the previous session of the device', async () => {
+      const trustedUntil = new Date(Date.now() + 60000);
+      mockPrismaService.session.findFirst.mockResolvedValue({
+        deviceName: 'Work laptop',
+        trustedUntil,
+      });
+
+      const device = await service.identify(
+        'user-id',
+        responseWithCookies({ [deviceCookieKey]: 'device-token' }),
+      );
+
+      expect(device).toEqual({
+        deviceId: expect.any(String) as string,
+        deviceName: 'Work laptop',
+        trustedUntil,
+      });
+    });
+  });
+
+  describe('isTrusted', () => {
+    it('should not trust a browser without a device cookie', async () => {
+      await expect(
+        service.isTrusted('user-id', responseWithCookies()),
+      ).resolves.toBe(false);
+      expect(mockPrismaService.session.count).not.toHaveBeenCalled();
+    });
+
+    it('should trust a device with a session trusted until later', async () => {
+      mockPrismaService.session.count.mockResolvedValue(1);
+
+      await expect(
+        service.isTrusted(
+          'user-id',
+          responseWithCookies({ [deviceCookieKey]: 'device-token' }),
+        ),
+      ).resolves.toBe(true);
+    });
+  });
+
+  describe('findAll', () => {
+    it('should parse the user agent and mark the current session', async () => {
+      mockSessionService.findActiveByUserId.mockResolvedValue([
+        {
+          id: 1,
+          sessionId: 'current',
+          userAgent:
+            'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36',
+          deviceName: null,
+          trustedUntil: null,
+          oidcClient: null,
+        },
+        {
+          id: 2,
+          sessionId: 'other',
+          userAgent: null,
+          deviceName: 'Phone',
+          trustedUntil: new Date(Date.now() + 60000),
+          oidcClient: null,
+        },
+      ]);
+
+      const devices = await service.findAll('user-id', 'current');
+
+      expect(devices[0]).toMatchObject({
+        id: 1,
+        name: 'Chrome on Windows',
+        browser: 'Chrome',
+        os: 'Windows',
+        deviceType: 'desktop',
+        trusted: false,
+        current: true,
+        idleSeconds: 90,
+      });
+      expect(devices[1]).toMatchObject({
+        id: 2,
+        name: 'Phone',
+        trusted: true,
+        current: false,
+      });
+    });
+  });
+
+  describe('trust', () => {
+    it('should trust every session of the device', async () => {
+      mockPrismaService.session.findFirst.mockResolvedValue({
+        id: 1,
+        deviceId: 'device-hash',
+      });
+
+      await service.trust('user-id', 1);
+
+      expect(mockPrismaService.session.updateMany).toHaveBeenCalledWith({
+        where: { userId: 'user-id', deviceId: 'device-hash' },
+        data: expect.objectContaining({
+          trustedUntil: expect.any(Date) as Date,
+        }) as object,
+      });
+    });
+
+    it('should reject sessions without a device', async () => {
+      mockPrismaService.session.findFirst.mockResolvedValue({
+        id: 1,
+        deviceId: null,
+      });
+
+      await expect(service.trust('user-id', 1)).rejects.toThrow(
+        BadRequestException,
+      );
+    });
+
+    it('should reject sessions of other users', async () => {
+      mockPrismaService.session.findFirst.mockResolvedValue(null);
+
+      await expect(service.trust('user-id', 1)).rejects.toThrow(
+        NotFoundException,
+      );
+    });
+  });
+
+  describe('revokeOthers', () => {
+    it('should require a sign-in session', async () => {
+      await expect(service.revokeOthers('user-id', undefined)).rejects.toThrow(
+        BadRequestException,
+      );
+      expect(mockSessionService.revokeOtherUserSessions).not.toHaveBeenCalled();
+    });
+
+    it('should keep the current session and the trust of its device', async () => {
+      mockPrismaService.session.findUnique.mockResolvedValue({
+        deviceId: 'device-hash',
+      });
+      mockSessionService.revokeOtherUserSessions.mockResolvedValue({
+        count: 2,
+      });
+
+      await expect(service.revokeOthers('user-id', 'current')).resolves.toEqual(
+        { count: 2 },
+      );
+
+      expect(mockSessionService.revokeOtherUserSessions).toHaveBeenCalledWith(
+        'user-id',
+        'current',
+      );
+      expect(mockPrismaService.session.updateMany).toHaveBeenCalledWith({
+        where: {
+          userId: 'user-id',
+          NOT: { deviceId: 'device-hash' },
+          trustedUntil: { not: null },
+        },
+        data: { trustedUntil: null, updatedAt: expect.any(Date) as Date },
+      });
+    });
+  });
+});
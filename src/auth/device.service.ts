@@ -0,0 +1,252 @@
+import {
+  BadRequestException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import type { Response } from 'express';
+import * as crypto from 'crypto';
+import { Prisma } from 'generated/prisma';
+import { PrismaService } from 'src/shared/services/prisma.service';
+import { SessionService } from 'src/session/session.service';
+import { parseUserAgent } from './utils/user-agent.util';
+import { Device, SessionDevice } from './interfaces/device.interface';
+
+export const deviceCookieKey = 'deviceId';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Browsers cap cookie lifetimes at 400 days
+ */
+const DEVICE_COOKIE_MAX_AGE_MS = 400 * DAY_MS;
+
+/**
+ * Devices are built on sessions: a browser keeps a long-lived device cookie, and every
+ * session it creates stores the cookie's hash together with the device's name and trust.
+ */
+@Injectable()
+export class DeviceService {
+  constructor(
+    private prisma: PrismaService,
+    private configService: ConfigService,
+    private sessionService: SessionService,
+  ) {}
+
+  /**
+   * The device a sign-in comes from. A browser without a device cookie gets one; name and
+   * trust carry over from the device's latest session of the same user.
+   */
+  async identify(userId: string, res: Response): Promise<SessionDevice> {
+    const token =
+      this.getDeviceToken(res) ?? crypto.randomBytes(32).toString('base64url');
+
+    // Re-setting the cookie on every sign-in keeps devices in use recognised
+    res.cookie(deviceCookieKey, token, {
+      httpOnly: true,
+      secure: this.configService.get('NODE_ENV') === 'production',
+      sameSite: 'lax',
+      path: this.configService.get<string>('COOKIE_PATH', '/api/auth'),
+      maxAge: DEVICE_COOKIE_MAX_AGE_MS,
+    });
+
+    const deviceId = this.hashToken(token);
+    const previous = await this.prisma.session.findFirst({
+      where: { userId, deviceId },
+      select: { deviceName: true, trustedUntil: true },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return {
+      deviceId,
+      deviceName: previous?.deviceName ?? null,
+      trustedUntil: previous?.trustedUntil ?? null,
+    };
+  }
+
+  /**
+   * Whether the browser behind this response is a trusted device of the user
+   */
+  async isTrusted(userId: string, res: Response): Promise<boolean> {
+    const token = this.getDeviceToken(res);
+
+    if (!token) {
+      return false;
+    }
+
+    const trusted = await this.prisma.session.count({
+      where: {
+        userId,
+        deviceId: this.hashToken(token),
+        trustedUntil: { gt: new Date() },
+      },
+    });
+
+    return trusted > 0;
+  }
+
+  async findAll(userId: string, currentSessionId?: string): Promise<Device[]> {
+    const sessions = await this.sessionService.findActiveByUserId(userId);
+    const now = new Date();
+
+    return sessions.map((session) => {
+      const { browser, os, deviceType } = parseUserAgent(
+        session.userAgent ?? '',
+      );
+
+      return {
+        id: session.id,
+        name: session.deviceName ?? `${browser} on ${os}`,
+        browser,
+        os,
+        deviceType,
+        ipAddress: session.ipAddress,
+        client: session.oidcClient?.name ?? session.nativeClientId ?? null,
+        trusted: !!session.trustedUntil && session.trustedUntil > now,
+        current: session.sessionId === currentSessionId,
+        createdAt: session.createdAt,
+        lastUsedAt: session.lastUsedAt,
+        idleSeconds: this.sessionService.getIdleSeconds(session),
+        expiresAt: session.expiresAt,
+      };
+    });
+  }
+
+  async rename(userId: string, id: number, name: string): Promise<void> {
+    const session = await this.findActiveSession(userId, id);
+
+    await this.prisma.session.updateMany({
+      where: this.getDeviceWhere(userId, session),
+      data: { deviceName: name, updatedAt: new Date() },
+    });
+  }
+
+  /**
+   * Trust the device of a session for TRUSTED_DEVICE_DAYS
+   */
+  async trust(userId: string, id: number): Promise<void> {
+    const session = await this.findActiveSession(userId, id);
+
+    if (!session.deviceId) {
+      throw new BadRequestException('Only browser sessions can be trusted');
+    }
+
+    const trustedUntil = new Date(
+      Date.now() +
+        Number(this.configService.get('TRUSTED_DEVICE_DAYS', 30)) * DAY_MS,
+    );
+
+    await this.prisma.session.updateMany({
+      where: this.getDeviceWhere(userId, session),
+      data: { trustedUntil, updatedAt: new Date() },
+    });
+  }
+
+  /**
+   * Stop trusting the device of a session. Also works once the session has ended.
+   */
+  async untrust(userId: string, id: number): Promise<void> {
+    const session = await this.prisma.session.findUnique({
+      where: { id },
+      select: { id: true, userId: true, deviceId: true },
+    });
+
+    if (!session || session.userId !== userId) {
+      throw new NotFoundException('Session not found');
+    }
+
+    await this.clearTrust(this.getDeviceWhere(userId, session));
+  }
+
+  /**
+   * Sign out every other session. Other devices lose their trust as well, so a lost
+   * device has to pass MFA again.
+   */
+  async revokeOthers(
+    userId: string,
+    currentSessionId: string | undefined,
+  ): Promise<{ count: number }> {
+    if (!currentSessionId) {
+      throw new BadRequestException(
+        'Only sign-in sessions can sign out other devices',
+      );
+    }
+
+    const current = await this.prisma.session.findUnique({
+      where: { sessionId: currentSessionId },
+      select: { deviceId: true },
+    });
+
+    const result = await this.sessionService.revokeOtherUserSessions(
+      userId,
+      currentSessionId,
+    );
+
+    await this.clearTrust({
+      userId,
+      ...(current?.deviceId
+        ? { NOT: { deviceId: current.deviceId } }
+        : { sessionId: { not: currentSessionId } }),
+    });
+
+    return result;
+  }
+
+  /**
+   * Used when the user signs out everywhere
+   */
+  async untrustAll(userId: string): Promise<void> {
+    await this.clearTrust({ userId });
+  }
+
+  private async findActiveSession(userId: string, id: number) {
+    const session = await this.prisma.session.findFirst({
+      where: {
+        id,
+        userId,
+        isRevoked: false,
+        expiresAt: { gt: new Date() },
+      },
+      select: { id: true, deviceId: true },
+    });
+
+    if (!session) {
+      throw new NotFoundException('Session not found');
+    }
+
+    return session;
+  }
+
+  /**
+   * All sessions of the session's device, or just the session when it has no device
+   */
+  private getDeviceWhere(
+    userId: string,
+    session: { id: number; deviceId: string | null },
+  ): Prisma.SessionWhereInput {
+    return session.deviceId
+      ? { userId, deviceId: session.deviceId }
+      : { id: session.id };
+  }
+
+  private async clearTrust(where: Prisma.SessionWhereInput): Promise<void> {
+    await this.prisma.session.updateMany({
+      where: { ...where, trustedUntil: { not: null } },
+      data: { trustedUntil: null, updatedAt: new Date() },
+    });
+  }
+
+  private getDeviceToken(res: Response): string | undefined {
+    // Every sign-in path already hands over its response, which carries the request cookies
+    const cookies = res.req?.cookies as Record<string, string> | undefined;
+
+    return cookies?.[deviceCookieKey] || undefined;
+  }
+
+  /**
+   * Only the hash is stored, so session listings never expose a usable device cookie
+   */
+  private hashToken(token: string): string {
+    return crypto.createHash('sha256').update(token).digest('hex');
+  }
+}
@@ -1,4 +1,4 @@
-import { IsString, IsNotEmpty } from 'class-validator';
+import { IsString, IsNotEmpty, IsOptional, IsBoolean } from 'class-validator';
 
 export class LoginDto {
   @IsString()
@@ -8,4 +8,11 @@ export class LoginDto {
   @IsString()
   @IsNotEmpty()
   password: string;
+
+  /**
+   * Keep the session across browser restarts (persistent cookie, long lifetime)
+   */
+  @IsOptional()
+  @IsBoolean()
+  rememberMe?: boolean;
 }
\ No newline at end of file
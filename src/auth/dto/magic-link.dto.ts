@@ -0,0 +1,7 @@
+import { IsEmail, IsNotEmpty } from 'class-validator';
+
+export class MagicLinkDto {
+  @IsEmail()
+  @IsNotEmpty()
+  email: string;
+}
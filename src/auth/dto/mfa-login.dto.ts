@@ -0,0 +1,15 @@
+import { IsString, IsNotEmpty, MaxLength } from 'class-validator';
+
+export class MfaLoginDto {
+  @IsString()
+  @IsNotEmpty()
+  mfaToken: string;
+
+  /**
+   * Either a 6-digit TOTP code or one of the user's recovery codes
+   */
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(32)
+  code: string;
+}
@@ -0,0 +1,7 @@
+import { IsString, IsNotEmpty } from 'class-validator';
+
+export class MfaTokenDto {
+  @IsString()
+  @IsNotEmpty()
+  mfaToken: string;
+}
@@ -0,0 +1,17 @@
+import { IsOptional, IsString, IsNotEmpty, MaxLength } from 'class-validator';
+
+export class ReauthenticateDto {
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  password?: string;
+
+  /**
+   * TOTP or recovery code, for users with MFA enabled
+   */
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(32)
+  code?: string;
+}
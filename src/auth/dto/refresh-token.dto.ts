@@ -1,7 +1,10 @@
-import { IsString, IsNotEmpty } from 'class-validator';
+import { IsString, IsOptional } from 'class-validator';
 
+/**
+ * Native clients send their refresh token in the body; web clients use the cookie
+ */
 export class RefreshTokenDto {
+  @IsOptional()
   @IsString()
-  @IsNotEmpty()
-  refreshToken: string;
-}
\ No newline at end of file
+  refreshToken?: string;
+}
@@ -0,0 +1,14 @@
+import { IsBoolean, IsNotEmpty, IsOptional, IsString } from 'class-validator';
+
+export class VerifyMagicLinkDto {
+  @IsString()
+  @IsNotEmpty()
+  token: string;
+
+  /**
+   * Keep the session across browser restarts (persistent cookie, long lifetime)
+   */
+  @IsOptional()
+  @IsBoolean()
+  rememberMe?: boolean;
+}
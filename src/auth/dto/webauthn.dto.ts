@@ -0,0 +1,57 @@
+import {
+  IsBoolean,
+  IsEmail,
+  IsNotEmpty,
+  IsObject,
+  IsOptional,
+  IsString,
+  MaxLength,
+} from 'class-validator';
+import type {
+  AuthenticationResponseJSON,
+  RegistrationResponseJSON,
+} from '@simplewebauthn/server';
+
+export class WebAuthnAuthenticationOptionsDto {
+  // Optional: omit for usernameless login with a discoverable credential
+  @IsOptional()
+  @IsEmail()
+  email?: string;
+}
+
+export class VerifyWebAuthnRegistrationDto {
+  @IsString()
+  @IsNotEmpty()
+  challengeToken: string;
+
+  @IsObject()
+  response: RegistrationResponseJSON;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(100)
+  name?: string;
+}
+
+export class VerifyWebAuthnAuthenticationDto {
+  @IsString()
+  @IsNotEmpty()
+  challengeToken: string;
+
+  @IsObject()
+  response: AuthenticationResponseJSON;
+
+  /**
+   * Keep the session across browser restarts (persistent cookie, long lifetime)
+   */
+  @IsOptional()
+  @IsBoolean()
+  rememberMe?: boolean;
+}
+
+export class RenameWebAuthnCredentialDto {
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  name: string;
+}
@@ -0,0 +1,147 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { JwtService } from '@nestjs/jwt';
+import { EmailVerificationService } from './email-verification.service';
+import { PrismaService } from 'src/shared/services/prisma.service';
+import { MailService } from 'src/mail/mail.service';
+
+describe('EmailVerificationService', () => {
+  let service: EmailVerificationService;
+
+  const mockPrismaService = {
+    user: {
+      findUnique: jest.fn(),
+      update: jest.fn(),
+    },
+  };
+
+  const mockJwtService = {
+    sign: jest.fn(),
+    verify: jest.fn(),
+  };
+
+  const mockMailService = {
+    send: jest.fn(),
+    buildFrontendUrl: jest.fn(),
+  };
+
+  const mockConfigService = {
+    get: jest.fn((key: string, defaultValue?: unknown) => defaultValue),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        EmailVerificationService,
+        { provide: PrismaService, useValue: mockPrismaService },
+        { provide: JwtService, useValue: mockJwtService },
+        { provide: MailService, useValue: mockMailService },
+        { provide: ConfigService, useValue: mockConfigService },
+      ],
+    }).compile();
+
+    service = module.get<EmailVerificationService>(EmailVerificationService);
+
+    jest.clearAllMocks();
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  describe('sendVerificationEmail', () => {
+    it('should send a signed link and record the send time', async () => {
+      mockJwtService.sign.mockReturnValue('signed-token');
+      mockMailService.buildFrontendUrl.mockReturnValue(
+        'http://localhost:4200/auth/verify-email?token=signed-token',
+      );
+
+      await service.sendVerificationEmail({
+        id: 'user-id',
+        email: 'user@example.com',
+      });
+
+      expect(mockJwtService.sign).toHaveBeenCalledWith(
+        {
+          sub: 'user-id',
+          email: 'user@example.com',
+          type: 'email_verification',
+        },
+        { expiresIn: '24h' },
+      );
+      expect(mockMailService.send).toHaveBeenCalledWith(
+        expect.objectContaining({ to: 'user@example.com' }),
+      );
+      expect(mockPrismaService.user.update).toHaveBeenCalled();
+    });
+  });
+
+  describe('verifyEmail', () => {
+    it('should mark the email as verified', async () => {
+      mockJwtService.verify.mockReturnValue({
+        sub: 'user-id',
+        email: 'user@example.com',
+        type: 'email_verification',
+      });
+      mockPrismaService.user.findUnique.mockResolvedValue({
+        email: 'user@example.com',
+        emailVerified: false,
+      });
+
+      await service.verifyEmail('signed-token');
+
+      expect(mockPrismaService.user.update).toHaveBeenCalledWith({
+        where: { id: 'user-id' },
+        data: { emailVerified: true, emailVerifiedAt: expect.any(Date) },
+      });
+    });
+
+    it('should reject a token issued for a previous email address', async () => {
+      mockJwtService.verify.mockReturnValue({
+        sub: 'user-id',
+        email: 'old@example.com',
+        type: 'email_verification',
+      });
+      mockPrismaService.user.findUnique.mockResolvedValue({
+        email: 'new@example.com',
+        emailVerified: false,
+      });
+
+      await expect(service.verifyEmail('signed-token')).rejects.toThrow(
+        BadRequestException,
+      );
+    });
+
+    it('should reject other token types', async () => {
+      mockJwtService.verify.mockReturnValue({ sub: 'user-id', type: 'mfa' });
+
+      await expect(service.verifyEmail('mfa-token')).rejects.toThrow(
+        BadRequestException,
+      );
+    });
+  });
+
+  describe('resendVerificationEmail', () => {
+    it('should do nothing for unknown emails', async () => {
+      mockPrismaService.user.findUnique.mockResolvedValue(null);
+
+      await service.resendVerificationEmail('nobody@example.com');
+
+      expect(mockMailService.send).not.toHaveBeenCalled();
+    });
+
+    it('should respect the resend cooldown', async () => {
+      mockPrismaService.user.findUnique.mockResolvedValue({
+        id: 'user-id',
+        email: 'user@example.com',
+        emailVerified: false,
+        emailVerificationSentAt: new Date(),
+      });
+
+      await service.resendVerificationEmail('user@example.com');
+
+      expect(mockMailService.send).not.toHaveBeenCalled();
+    });
+  });
+});
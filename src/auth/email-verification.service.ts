@@ -0,0 +1,136 @@
+import { BadRequestException, Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { JwtService } from '@nestjs/jwt';
+import { PrismaService } from 'src/shared/services/prisma.service';
+import { MailService } from 'src/mail/mail.service';
+import { verifyEmailTemplate } from 'src/mail/templates/verify-email.template';
+
+export type EmailVerificationEnforcement = 'none' | 'login' | 'routes';
+
+@Injectable()
+export class EmailVerificationService {
+  constructor(
+    private prisma: PrismaService,
+    private jwtService: JwtService,
+    private configService: ConfigService,
+    private mailService: MailService,
+  ) {}
+
+  /**
+   * 'login' blocks sign-in (and routes decorated with @RequireVerifiedEmail),
+   * 'routes' only blocks the decorated routes, 'none' disables enforcement.
+   */
+  getEnforcement(): EmailVerificationEnforcement {
+    return this.configService.get<EmailVerificationEnforcement>(
+      'EMAIL_VERIFICATION_ENFORCEMENT',
+      'none',
+    );
+  }
+
+  /**
+   * Send a signed, expiring verification link to the user's email address
+   */
+  async sendVerificationEmail(user: {
+    id: string;
+    email: string;
+  }): Promise<void> {
+    const expiresInHours = Number(
+      this.configService.get('EMAIL_VERIFICATION_EXPIRY_HOURS', 24),
+    );
+
+    // The email is part of the token, so links die when the address changes
+    const token = this.jwtService.sign(
+      { sub: user.id, email: user.email, type: 'email_verification' },
+      { expiresIn: `${expiresInHours}h` },
+    );
+
+    const verificationUrl = this.mailService.buildFrontendUrl(
+      this.configService.get<string>(
+        'EMAIL_VERIFICATION_PATH',
+        '/auth/verify-email',
+      ),
+      { token },
+    );
+
+    await this.mailService.send(
+      verifyEmailTemplate(user.email, verificationUrl, expiresInHours),
+    );
+
+    await this.prisma.user.update({
+      where: { id: user.id },
+      data: { emailVerificationSentAt: new Date() },
+    });
+  }
+
+  async verifyEmail(token: string): Promise<void> {
+    let payload: { sub?: string; email?: string; type?: string };
+
+    try {
+      payload = this.jwtService.verify(token);
+    } catch {
+      throw new BadRequestException('Invalid or expired verification token');
+    }
+
+    if (payload.type !== 'email_verification' || !payload.sub) {
+      throw new BadRequestException('Invalid or expired verification token');
+    }
+
+    const user = await this.prisma.user.findUnique({
+      where: { id: payload.sub },
+      select: { email: true, emailVerified: true },
+    });
+
+    if (!user || user.email !== payload.email) {
+      throw new BadRequestException('Invalid or expired verification token');
+    }
+
+    if (user.emailVerified) {
+      return;
+    }
+
+    await this.prisma.user.update({
+      where: { id: payload.sub },
+      data: {
+        emailVerified: true,
+        emailVerifiedAt: new Date(),
+      },
+    });
+  }
+
+  /**
+   * Resend the verification email. Silently does nothing for unknown or already
+   * verified addresses, and while the per-user cooldown is running.
+   */
+  async resendVerificationEmail(email: string): Promise<void> {
+    const user = await this.prisma.user.findUnique({
+      where: { email: email.toLowerCase().trim() },
+      select: {
+        id: true,
+        email: true,
+        emailVerified: true,
+        emailVerificationSentAt: true,
+      },
+    });
+
+    if (!user || user.emailVerified) {
+      return;
+    }
+
+    const cooldownMs =
+      Number(
+        this.configService.get(
+          'EMAIL_VERIFICATION_RESEND_COOLDOWN_SECONDS',
+          60,
+        ),
+      ) * 1000;
+
+    if (
+      user.emailVerificationSentAt &&
+      user.emailVerificationSentAt.getTime() + cooldownMs > Date.now()
+    ) {
+      return;
+    }
+
+    await this.sendVerificationEmail(user);
+  }
+}
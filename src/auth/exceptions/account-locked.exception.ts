@@ -0,0 +1,21 @@
+import { HttpException, HttpStatus } from '@nestjs/common';
+
+/**
+ * 423 Locked with the number of seconds until the lock expires (null when only an admin can unlock)
+ */
+export class AccountLockedException extends HttpException {
+  constructor(readonly retryAfterSeconds: number | null) {
+    super(
+      {
+        statusCode: HttpStatus.LOCKED,
+        error: 'Locked',
+        message:
+          retryAfterSeconds === null
+            ? 'Account is locked. Contact an administrator to unlock it.'
+            : 'Account is temporarily locked',
+        retryAfter: retryAfterSeconds,
+      },
+      HttpStatus.LOCKED,
+    );
+  }
+}
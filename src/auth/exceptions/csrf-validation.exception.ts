@@ -0,0 +1,18 @@
+import { HttpException, HttpStatus } from '@nestjs/common';
+
+/**
+ * 403 with a code of its own, so clients can fetch a new token (GET /auth/csrf) and retry
+ */
+export class CsrfValidationException extends HttpException {
+  constructor() {
+    super(
+      {
+        statusCode: HttpStatus.FORBIDDEN,
+        error: 'Forbidden',
+        message: 'Invalid or missing CSRF token',
+        code: 'CSRF_VALIDATION_FAILED',
+      },
+      HttpStatus.FORBIDDEN,
+    );
+  }
+}
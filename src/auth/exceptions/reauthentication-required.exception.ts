@@ -0,0 +1,18 @@
+import { HttpException, HttpStatus } from '@nestjs/common';
+
+/**
+ * 403 telling the client to call POST /auth/reauthenticate and retry the request
+ */
+export class ReauthenticationRequiredException extends HttpException {
+  constructor() {
+    super(
+      {
+        statusCode: HttpStatus.FORBIDDEN,
+        error: 'Forbidden',
+        message: 'Please confirm your identity to continue',
+        reauthenticationRequired: true,
+      },
+      HttpStatus.FORBIDDEN,
+    );
+  }
+}
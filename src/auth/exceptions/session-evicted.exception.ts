@@ -0,0 +1,19 @@
+import { HttpException, HttpStatus } from '@nestjs/common';
+
+/**
+ * 401 on refresh of a session that was signed out to make room for a newer one
+ */
+export class SessionEvictedException extends HttpException {
+  constructor() {
+    super(
+      {
+        statusCode: HttpStatus.UNAUTHORIZED,
+        error: 'Unauthorized',
+        message:
+          'This session was signed out because the account reached its limit of active sessions',
+        sessionEvicted: true,
+      },
+      HttpStatus.UNAUTHORIZED,
+    );
+  }
+}
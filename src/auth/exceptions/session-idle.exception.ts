@@ -0,0 +1,19 @@
+import { HttpException, HttpStatus } from '@nestjs/common';
+
+/**
+ * 401 on refresh of a session that was inactive for longer than the idle timeout
+ */
+export class SessionIdleException extends HttpException {
+  constructor() {
+    super(
+      {
+        statusCode: HttpStatus.UNAUTHORIZED,
+        error: 'Unauthorized',
+        message:
+          'This session was signed out after a period of inactivity. Please sign in again.',
+        sessionIdle: true,
+      },
+      HttpStatus.UNAUTHORIZED,
+    );
+  }
+}
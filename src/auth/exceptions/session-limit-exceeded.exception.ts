@@ -0,0 +1,20 @@
+import { HttpException, HttpStatus } from '@nestjs/common';
+
+/**
+ * 403 for a sign-in refused because the account already has its maximum number of sessions
+ */
+export class SessionLimitExceededException extends HttpException {
+  constructor(readonly maxSessions: number) {
+    super(
+      {
+        statusCode: HttpStatus.FORBIDDEN,
+        error: 'Forbidden',
+        message:
+          'Too many active sessions. Sign out on another device and try again.',
+        sessionLimitReached: true,
+        maxSessions,
+      },
+      HttpStatus.FORBIDDEN,
+    );
+  }
+}
@@ -0,0 +1,49 @@
+import { CanActivate, ExecutionContext, Injectable } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import type { Request } from 'express';
+import { IS_PUBLIC_KEY } from '../decorators/public.decorator';
+import { CSRF_PROTECTION_KEY } from '../decorators/csrf.decorator';
+import { CsrfService } from '../csrf.service';
+
+const SAFE_METHODS = ['GET', 'HEAD', 'OPTIONS'];
+
+/**
+ * Checks CSRF on cookie-authenticated requests: public routes (no bearer token) that
+ * received an auth cookie. @RequireCsrf and @SkipCsrf override this per route or controller.
+ * Bearer-authenticated routes need no check - other sites can't attach the header.
+ */
+@Injectable()
+export class CsrfGuard implements CanActivate {
+  constructor(
+    private reflector: Reflector,
+    private csrfService: CsrfService,
+  ) {}
+
+  canActivate(context: ExecutionContext): boolean {
+    const req = context.switchToHttp().getRequest<Request>();
+
+    if (SAFE_METHODS.includes(req.method)) {
+      return true;
+    }
+
+    const targets = [context.getHandler(), context.getClass()];
+    const protection = this.reflector.getAllAndOverride<boolean | undefined>(
+      CSRF_PROTECTION_KEY,
+      targets,
+    );
+
+    if (protection === false) {
+      return true;
+    }
+
+    const cookieAuthenticated =
+      !!this.reflector.getAllAndOverride<boolean>(IS_PUBLIC_KEY, targets) &&
+      this.csrfService.hasAuthCookie(req);
+
+    if (protection === true || cookieAuthenticated) {
+      this.csrfService.verify(req);
+    }
+
+    return true;
+  }
+}
@@ -0,0 +1,30 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  Injectable,
+} from '@nestjs/common';
+import type { Request } from 'express';
+import type { FormattedSafeUser } from 'src/user/utils/transform-user.util';
+import { EmailVerificationService } from '../email-verification.service';
+
+@Injectable()
+export class EmailVerifiedGuard implements CanActivate {
+  constructor(private emailVerificationService: EmailVerificationService) {}
+
+  canActivate(context: ExecutionContext): boolean {
+    if (this.emailVerificationService.getEnforcement() === 'none') {
+      return true;
+    }
+
+    const { user } = context
+      .switchToHttp()
+      .getRequest<Request & { user?: FormattedSafeUser }>();
+
+    if (!user?.emailVerified) {
+      throw new ForbiddenException('Email address is not verified');
+    }
+
+    return true;
+  }
+}
@@ -0,0 +1,24 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  Injectable,
+} from '@nestjs/common';
+import { FormattedSafeUser } from 'src/user/utils/transform-user.util';
+
+@Injectable()
+export class ImpersonationBlockedGuard implements CanActivate {
+  canActivate(context: ExecutionContext): boolean {
+    const { user } = context
+      .switchToHttp()
+      .getRequest<{ user?: FormattedSafeUser }>();
+
+    if (user?.impersonator) {
+      throw new ForbiddenException(
+        'This action is not allowed while impersonating a user',
+      );
+    }
+
+    return true;
+  }
+}
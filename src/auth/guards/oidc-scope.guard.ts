@@ -0,0 +1,44 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  Injectable,
+} from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { OIDC_SCOPES_KEY } from '../decorators/allow-oidc-scopes.decorator';
+import type { OidcAuthenticatedRequest } from 'src/oidc/interfaces/oidc.interface';
+
+/**
+ * Access tokens issued to relying parties act for the user, but only within the scopes
+ * the user consented to - they are rejected unless the route allows them with
+ * @AllowOidcScopes. Runs after JwtAuthGuard, which attaches the grant.
+ */
+@Injectable()
+export class OidcScopeGuard implements CanActivate {
+  constructor(private reflector: Reflector) {}
+
+  canActivate(context: ExecutionContext): boolean {
+    const { oidcGrant } = context
+      .switchToHttp()
+      .getRequest<OidcAuthenticatedRequest>();
+
+    if (!oidcGrant) {
+      return true;
+    }
+
+    const requiredScopes = this.reflector.getAllAndOverride<
+      string[] | undefined
+    >(OIDC_SCOPES_KEY, [context.getHandler(), context.getClass()]);
+
+    if (
+      !requiredScopes ||
+      !requiredScopes.every((scope) => oidcGrant.scopes.includes(scope))
+    ) {
+      throw new ForbiddenException(
+        'Access tokens issued to OpenID Connect clients are not allowed on this route',
+      );
+    }
+
+    return true;
+  }
+}
@@ -0,0 +1,36 @@
+import { CanActivate, ExecutionContext, Injectable } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { SessionService } from 'src/session/session.service';
+import { ReauthenticationRequiredException } from '../exceptions/reauthentication-required.exception';
+import type { SessionAuthenticatedRequest } from '../interfaces/reauthentication.interface';
+
+export const RECENT_AUTH_MAX_AGE_KEY = 'recentAuthMaxAge';
+
+@Injectable()
+export class RecentAuthGuard implements CanActivate {
+  constructor(
+    private reflector: Reflector,
+    private sessionService: SessionService,
+  ) {}
+
+  async canActivate(context: ExecutionContext): Promise<boolean> {
+    const maxAgeSeconds = this.reflector.get<number | undefined>(
+      RECENT_AUTH_MAX_AGE_KEY,
+      context.getHandler(),
+    );
+    const { sessionId } = context
+      .switchToHttp()
+      .getRequest<SessionAuthenticatedRequest>();
+
+    if (
+      !(await this.sessionService.isRecentlyAuthenticated(
+        sessionId,
+        maxAgeSeconds,
+      ))
+    ) {
+      throw new ReauthenticationRequiredException();
+    }
+
+    return true;
+  }
+}
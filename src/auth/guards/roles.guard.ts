@@ -1,6 +1,8 @@
 import { Injectable, CanActivate, ExecutionContext } from '@nestjs/common';
 import { Reflector } from '@nestjs/core';
 import { ROLES_KEY } from '../decorators/roles.decorator';
+import type { AuthenticatedRequest } from 'src/personal-access-token/interfaces/personal-access-token.interface';
+import type { FormattedSafeUser } from 'src/user/utils/transform-user.util';
 
 @Injectable()
 export class RolesGuard implements CanActivate {
@@ -17,10 +19,19 @@ export class RolesGuard implements CanActivate {
       return true;
     }
 
-    const { user } = context.switchToHttp().getRequest();
+    const { user, personalAccessToken } = context
+      .switchToHttp()
+      .getRequest<AuthenticatedRequest & { user: FormattedSafeUser }>();
+
+    // Personal access tokens only act with the roles they were scoped to (and the user still holds)
+    const roles = personalAccessToken
+      ? user.roles.filter((userRole) =>
+          personalAccessToken.scopes.includes(userRole.name),
+        )
+      : user.roles;
     
     return requiredRoles.some((role) => 
-      user.roles.some(userRole => userRole.name === role)
+      roles.some(userRole => userRole.name === role)
     );
   }
 }
\ No newline at end of file
@@ -0,0 +1,25 @@
+import {
+  CanActivate,
+  ExecutionContext,
+  ForbiddenException,
+  Injectable,
+} from '@nestjs/common';
+import type { FormattedSafeUser } from 'src/user/utils/transform-user.util';
+import type { ServiceAccountPrincipal } from 'src/service-account/interfaces/service-account.interface';
+
+@Injectable()
+export class ServiceAccountBlockedGuard implements CanActivate {
+  canActivate(context: ExecutionContext): boolean {
+    const { user } = context.switchToHttp().getRequest<{
+      user?: FormattedSafeUser | ServiceAccountPrincipal;
+    }>();
+
+    if (user && 'isServiceAccount' in user) {
+      throw new ForbiddenException(
+        'This action is only available to users, not service accounts',
+      );
+    }
+
+    return true;
+  }
+}
@@ -0,0 +1,39 @@
+import * as argon2 from 'argon2';
+import { PasswordHasher } from '../interfaces/password-hasher.interface';
+
+export interface Argon2HasherOptions {
+  memoryCost: number;
+  timeCost: number;
+  parallelism: number;
+}
+
+/**
+ * Hashes are PHC strings ($argon2id$v=19$m=...,t=...,p=...$salt$hash)
+ */
+export class Argon2Hasher implements PasswordHasher {
+  readonly algorithm = 'argon2id';
+
+  constructor(private readonly options: Argon2HasherOptions) {}
+
+  hash(password: string): Promise<string> {
+    return argon2.hash(password, { type: argon2.argon2id, ...this.options });
+  }
+
+  async verify(hash: string, password: string): Promise<boolean> {
+    try {
+      return await argon2.verify(hash, password);
+    } catch {
+      return false;
+    }
+  }
+
+  supports(hash: string): boolean {
+    return hash.startsWith('$argon2');
+  }
+
+  needsRehash(hash: string): boolean {
+    return (
+      !hash.startsWith('$argon2id$') || argon2.needsRehash(hash, this.options)
+    );
+  }
+}
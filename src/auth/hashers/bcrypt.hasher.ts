@@ -0,0 +1,27 @@
+import * as bcrypt from 'bcrypt';
+import { PasswordHasher } from '../interfaces/password-hasher.interface';
+
+/**
+ * Hashes are modular crypt strings ($2b$<rounds>$<salt+hash>)
+ */
+export class BcryptHasher implements PasswordHasher {
+  readonly algorithm = 'bcrypt';
+
+  constructor(private readonly rounds: number) {}
+
+  hash(password: string): Promise<string> {
+    return bcrypt.hash(password, this.rounds);
+  }
+
+  verify(hash: string, password: string): Promise<boolean> {
+    return bcrypt.compare(password, hash);
+  }
+
+  supports(hash: string): boolean {
+    return /^\$2[aby]\$/.test(hash);
+  }
+
+  needsRehash(hash: string): boolean {
+    return bcrypt.getRounds(hash) < this.rounds;
+  }
+}
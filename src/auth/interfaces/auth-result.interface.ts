@@ -4,4 +4,22 @@ export interface AuthResult {
     accessToken: string;
     refreshToken: string;
     user: FormattedSafeUser
-}
\ No newline at end of file
+    // Only present right after MFA enrollment is confirmed during login
+    recoveryCodes?: string[];
+}
+
+/**
+ * Returned by register when login is blocked until the email is verified
+ */
+export interface PendingEmailVerification {
+    user: FormattedSafeUser;
+    emailVerificationRequired: true;
+}
+
+
+/**
+ * Returned by refresh when an already-rotated token comes back inside the grace window
+ * (e.g. two tabs refreshing at once): a new access token for the session that replaced it.
+ * The refresh token cookie set by the request that won the race stays in place.
+ */
+export type RefreshGraceResult = Omit<AuthResult, 'refreshToken'>;
@@ -0,0 +1,46 @@
+/**
+ * What a session knows about the device it was created on. Every new session of the
+ * device (sign-in or refresh) carries it over from the previous one.
+ */
+export interface SessionDevice {
+  /**
+   * SHA-256 hash of the device cookie; null for sessions without a browser (OIDC clients)
+   */
+  deviceId: string | null;
+  deviceName: string | null;
+  /**
+   * Trusted devices skip the MFA prompt at sign-in until this date
+   */
+  trustedUntil: Date | null;
+}
+
+/**
+ * An active session as shown to its user
+ */
+export interface Device {
+  /**
+   * Id of the session, used to rename, trust or revoke it
+   */
+  id: number;
+  name: string;
+  browser: string;
+  os: string;
+  deviceType: string;
+  ipAddress: string | null;
+  /**
+   * OpenID Connect or native client the session was issued to, if any
+   */
+  client: string | null;
+  trusted: boolean;
+  /**
+   * The session making this request
+   */
+  current: boolean;
+  createdAt: Date;
+  lastUsedAt: Date | null;
+  /**
+   * Seconds since the session was last used
+   */
+  idleSeconds: number;
+  expiresAt: Date;
+}
@@ -0,0 +1,19 @@
+import type { JsonWebKey, KeyObject } from 'crypto';
+import type { JwsAlgorithm } from '../utils/jws.util';
+
+export interface JwtKey {
+  /**
+   * RFC 7638 thumbprint of the public key (undefined for HS256)
+   */
+  kid?: string;
+  algorithm: JwsAlgorithm;
+  /**
+   * Private key, or the shared secret for HS256. Only set for the active signing key.
+   */
+  signingKey?: KeyObject;
+  verificationKey: KeyObject;
+}
+
+export interface Jwks {
+  keys: JsonWebKey[];
+}
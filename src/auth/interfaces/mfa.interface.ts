@@ -0,0 +1,17 @@
+export interface MfaChallenge {
+  mfaRequired: true;
+  mfaToken: string;
+  enrollmentRequired: boolean;
+}
+
+export interface MfaEnrollment {
+  secret: string;
+  otpauthUrl: string;
+}
+
+export interface MfaStatus {
+  enabled: boolean;
+  enabledAt: Date | null;
+  required: boolean;
+  remainingRecoveryCodes: number;
+}
@@ -0,0 +1,9 @@
+/**
+ * A native (e.g. mobile) app that keeps its refresh token itself instead of in a cookie
+ */
+export interface NativeClient {
+  /**
+   * One of NATIVE_CLIENT_IDS, or 'native' when the app only sent X-Client-Type
+   */
+  clientId: string;
+}
@@ -0,0 +1,58 @@
+/**
+ * 'oidc' providers are found through their discovery document; GitHub speaks plain OAuth 2.0
+ */
+export type OAuthProviderType = 'oidc' | 'github';
+
+/**
+ * A sign-in provider served under /auth/oauth/:provider
+ */
+export interface OAuthProvider {
+  /**
+   * Path segment and configuration key, e.g. 'google' or an entry of OAUTH_PROVIDERS
+   */
+  id: string;
+  name: string;
+  type: OAuthProviderType;
+  clientId: string;
+  clientSecret: string;
+  callbackUrl: string;
+  scopes: string[];
+  /**
+   * OpenID Connect discovery document; only for 'oidc' providers
+   */
+  discoveryUrl?: string;
+  /**
+   * Treat emails the provider doesn't mark as verified as verified (e.g. single-tenant
+   * Microsoft Entra ID, which sends no email_verified claim)
+   */
+  trustEmail: boolean;
+}
+
+export interface OAuthEndpoints {
+  authorizationEndpoint: string;
+  tokenEndpoint: string;
+  userinfoEndpoint: string;
+}
+
+/**
+ * Where to send the browser, and what its callback must bring back
+ */
+export interface OAuthAuthorization {
+  url: string;
+  state: string;
+  codeVerifier: string;
+}
+
+/**
+ * A provider's user, normalized to the same shape for every provider
+ */
+export interface OAuthProfile {
+  provider: string;
+  providerUserId: string;
+  email: string | null;
+  emailVerified: boolean;
+  firstName: string | null;
+  lastName: string | null;
+  displayName: string | null;
+  picture: string | null;
+}
@@ -0,0 +1,19 @@
+export type PasswordHashAlgorithm = 'argon2id' | 'bcrypt';
+
+export interface PasswordHasher {
+  readonly algorithm: PasswordHashAlgorithm;
+
+  hash(password: string): Promise<string>;
+
+  verify(hash: string, password: string): Promise<boolean>;
+
+  /**
+   * Whether this hasher produced the hash
+   */
+  supports(hash: string): boolean;
+
+  /**
+   * Whether the hash was produced with weaker parameters than the current ones
+   */
+  needsRehash(hash: string): boolean;
+}
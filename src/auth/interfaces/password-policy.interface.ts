@@ -0,0 +1,24 @@
+export type PasswordPolicyRule =
+  | 'minLength'
+  | 'maxLength'
+  | 'uppercase'
+  | 'lowercase'
+  | 'number'
+  | 'symbol'
+  | 'personalInfo'
+  | 'breached';
+
+export interface PasswordPolicyViolation {
+  rule: PasswordPolicyRule;
+  message: string;
+}
+
+/**
+ * Account details a password must not contain
+ */
+export interface PasswordPolicyContext {
+  email?: string | null;
+  firstName?: string | null;
+  lastName?: string | null;
+  displayName?: string | null;
+}
@@ -0,0 +1,10 @@
+import type { Request } from 'express';
+
+/**
+ * JwtStrategy attaches the session id for access tokens of first-party sign-in sessions.
+ * Personal access tokens, impersonation and OpenID Connect client tokens have none, so
+ * they can never pass a step-up check.
+ */
+export type SessionAuthenticatedRequest = Request & {
+  sessionId?: string;
+};
@@ -0,0 +1,12 @@
+/**
+ * How long a session (and its refresh token and cookie) lives. Computed at sign-in and
+ * again on every refresh, where expiresAt slides forward up to maxExpiresAt.
+ */
+export interface SessionLifetime {
+  /**
+   * Persistent cookie when true; otherwise a browser-session cookie with the short lifetime
+   */
+  rememberMe: boolean;
+  expiresAt: Date;
+  maxExpiresAt: Date;
+}
@@ -0,0 +1,25 @@
+import type {
+  SecurityAction,
+  SecurityEventType,
+  RiskSignal,
+} from 'src/security-event/interfaces/security-event.interface';
+
+export interface SuspiciousActivityContext {
+  eventType: SecurityEventType;
+  userId: string;
+  sessionId?: string;
+  ipAddress?: string;
+  userAgent?: string;
+  /**
+   * Where the session was created from - refreshes are compared against it
+   */
+  previous?: {
+    ipAddress: string | null;
+    userAgent: string | null;
+  };
+}
+
+export interface SuspiciousActivityDecision {
+  action: SecurityAction;
+  signals: RiskSignal[];
+}
@@ -0,0 +1,14 @@
+import type {
+  PublicKeyCredentialCreationOptionsJSON,
+  PublicKeyCredentialRequestOptionsJSON,
+} from '@simplewebauthn/server';
+
+export interface WebAuthnRegistrationOptions {
+  options: PublicKeyCredentialCreationOptionsJSON;
+  challengeToken: string;
+}
+
+export interface WebAuthnAuthenticationOptions {
+  options: PublicKeyCredentialRequestOptionsJSON;
+  challengeToken: string;
+}
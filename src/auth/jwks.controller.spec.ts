@@ -0,0 +1,33 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { JwksController } from './jwks.controller';
+import { JwtKeyService } from './jwt-key.service';
+
+describe('JwksController', () => {
+  let controller: JwksController;
+
+  const mockJwtKeyService = {
+    getJwks: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [JwksController],
+      providers: [{ provide: JwtKeyService, useValue: mockJwtKeyService }],
+    }).compile();
+
+    controller = module.get<JwksController>(JwksController);
+
+    jest.clearAllMocks();
+  });
+
+  it('should be defined', () => {
+    expect(controller).toBeDefined();
+  });
+
+  it('should return the public keys', () => {
+    const jwks = { keys: [{ kty: 'OKP', crv: 'Ed25519', x: 'x', kid: 'kid' }] };
+    mockJwtKeyService.getJwks.mockReturnValue(jwks);
+
+    expect(controller.getJwks()).toBe(jwks);
+  });
+});
@@ -0,0 +1,18 @@
+import { Controller, Get, Header } from '@nestjs/common';
+import { JwtKeyService } from './jwt-key.service';
+import { Public } from './decorators/public.decorator';
+
+/**
+ * Served outside the /api prefix, where JWT libraries expect it
+ */
+@Controller('.well-known')
+export class JwksController {
+  constructor(private jwtKeyService: JwtKeyService) {}
+
+  @Get('jwks.json')
+  @Public()
+  @Header('Cache-Control', 'public, max-age=300')
+  getJwks() {
+    return this.jwtKeyService.getJwks();
+  }
+}
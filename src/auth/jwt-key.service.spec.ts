@@ -0,0 +1,155 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { JwtKeyService } from './jwt-key.service';
+import { decodeJws } from './utils/jws.util';
+
+describe('JwtKeyService', () => {
+  let config: Record<string, unknown>;
+  let keystoreDir: string;
+
+  const mockConfigService = {
+    get: jest.fn((key: string, defaultValue?: unknown) =>
+      key in config ? config[key] : defaultValue,
+    ),
+    getOrThrow: jest.fn((key: string) => config[key]),
+  };
+
+  const createService = async (
+    overrides: Record<string, unknown> = {},
+  ): Promise<JwtKeyService> => {
+    config = {
+      JWT_SECRET: 'test-jwt-secret',
+      JWT_KEYSTORE_DIR: keystoreDir,
+      ...overrides,
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        JwtKeyService,
+        { provide: ConfigService, useValue: mockConfigService },
+      ],
+    }).compile();
+
+    return module.get<JwtKeyService>(JwtKeyService);
+  };
+
+  beforeEach(() => {
+    keystoreDir = fs.mkdtempSync(path.join(os.tmpdir(), 'jwt-keystore-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(keystoreDir, { recursive: true, force: true });
+  });
+
+  it('should be defined', async () => {
+    expect(await createService()).toBeDefined();
+  });
+
+  it('should sign and verify HS256 access tokens with JWT_SECRET', async () => {
+    const service = await createService();
+
+    const token = service.signAccessToken({ sub: 'user-id' }, 60);
+
+    expect(decodeJws(token)?.header).toEqual({ alg: 'HS256', typ: 'JWT' });
+    expect(service.verifyAccessToken(token)).toMatchObject({
+      sub: 'user-id',
+      iss: 'labyrinth-nexus',
+    });
+    expect(service.getJwks()).toEqual({ keys: [] });
+  });
+
+  it.each(['RS256', 'ES256', 'EdDSA'])(
+    'should generate a %s key and publish it in the JWKS',
+    async (algorithm) => {
+      const service = await createService({ JWT_ALGORITHM: algorithm });
+
+      const token = service.signAccessToken({ sub: 'user-id' }, 60);
+      const { header } = decodeJws(token)!;
+      const { keys } = service.getJwks();
+
+      expect(header.alg).toBe(algorithm);
+      expect(keys).toHaveLength(1);
+      expect(keys[0]).toMatchObject({ kid: header.kid, alg: algorithm });
+      expect(keys[0]).not.toHaveProperty('d');
+      expect(service.verifyAccessToken(token)).toMatchObject({
+        sub: 'user-id',
+      });
+      expect(fs.readdirSync(keystoreDir)).toEqual([`${header.kid}.pem`]);
+    },
+  );
+
+  it('should keep verifying tokens signed by a rotated-out key', async () => {
+    const oldService = await createService({ JWT_ALGORITHM: 'ES256' });
+    const oldToken = oldService.signAccessToken({ sub: 'user-id' }, 60);
+
+    // Rotate: a newer key in the keystore takes over signing
+    const { privateKey } = crypto.generateKeyPairSync('ec', {
+      namedCurve: 'P-256',
+    });
+    const newKeyFile = path.join(keystoreDir, 'new.pem');
+    fs.writeFileSync(
+      newKeyFile,
+      privateKey.export({ type: 'pkcs8', format: 'pem' }),
+    );
+    const future = new Date(Date.now() + 60_000);
+    fs.utimesSync(newKeyFile, future, future);
+
+    const service = await createService({ JWT_ALGORITHM: 'ES256' });
+    const newToken = service.signAccessToken({ sub: 'user-id' }, 60);
+
+    expect(decodeJws(newToken)!.header.kid).not.toBe(
+      decodeJws(oldToken)!.header.kid,
+    );
+    expect(service.getJwks().keys).toHaveLength(2);
+    expect(service.verifyAccessToken(oldToken)).not.toBeNull();
+    expect(service.verifyAccessToken(newToken)).not.toBeNull();
+  });
+
+  it('should load the signing key from a PEM file', async () => {
+    const { privateKey } = crypto.generateKeyPairSync('ed25519');
+    const keyFile = path.join(keystoreDir, 'signing.key');
+    fs.writeFileSync(
+      keyFile,
+      privateKey.export({ type: 'pkcs8', format: 'pem' }),
+    );
+
+    const service = await createService({
+      JWT_ALGORITHM: 'EdDSA',
+      JWT_PRIVATE_KEY_FILE: keyFile,
+    });
+
+    const token = service.signAccessToken({ sub: 'user-id' }, 60);
+
+    expect(service.verifyAccessToken(token)).not.toBeNull();
+
+    await expect(
+      createService({ JWT_ALGORITHM: 'RS256', JWT_PRIVATE_KEY_FILE: keyFile }),
+    ).rejects.toThrow('is not a valid RS256 key');
+  });
+
+  it('should reject tampered, expired and unknown-key tokens', async () => {
+    const service = await createService({ JWT_ALGORITHM: 'EdDSA' });
+    const token = service.signAccessToken({ sub: 'user-id' }, 60);
+    const [header, , signature] = token.split('.');
+    const forgedPayload = Buffer.from(
+      JSON.stringify({ sub: 'admin-id', iss: 'labyrinth-nexus', exp: 9e9 }),
+    ).toString('base64url');
+
+    expect(
+      service.verifyAccessToken(`${header}.${forgedPayload}.${signature}`),
+    ).toBeNull();
+    expect(
+      service.verifyAccessToken(service.signAccessToken({ sub: 'u' }, -1)),
+    ).toBeNull();
+
+    const hs256Token = (await createService()).signAccessToken(
+      { sub: 'u' },
+      60,
+    );
+    expect(service.verifyAccessToken(hs256Token)).toBeNull();
+  });
+});
@@ -0,0 +1,317 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { Jwks, JwtKey } from './interfaces/jwt-key.interface';
+import {
+  JwsAlgorithm,
+  decodeJws,
+  signJws,
+  verifyJwsSignature,
+} from './utils/jws.util';
+
+export const JWT_ISSUER = 'labyrinth-nexus';
+
+const ASYMMETRIC_KEY_TYPES: Record<
+  Exclude<JwsAlgorithm, 'HS256'>,
+  crypto.KeyType
+> = {
+  RS256: 'rsa',
+  ES256: 'ec',
+  EdDSA: 'ed25519',
+};
+
+/**
+ * Signs and verifies access tokens. With HS256 the shared JWT_SECRET is used; with
+ * RS256, ES256 or EdDSA the active private key signs, and every configured public key
+ * (looked up by `kid`) verifies, so keys can be rotated without invalidating tokens.
+ */
+@Injectable()
+export class JwtKeyService {
+  private readonly logger = new Logger(JwtKeyService.name);
+  private readonly algorithm: JwsAlgorithm;
+  private readonly signingKey: JwtKey;
+  private readonly verificationKeys = new Map<string | undefined, JwtKey>();
+
+  constructor(private configService: ConfigService) {
+    this.algorithm = this.configService.get<JwsAlgorithm>(
+      'JWT_ALGORITHM',
+      'HS256',
+    );
+
+    const keys = this.loadKeys();
+
+    const signingKey = keys.find((key) => key.signingKey);
+    if (!signingKey) {
+      throw new Error('No JWT signing key is configured');
+    }
+
+    this.signingKey = signingKey;
+    keys.forEach((key) => this.verificationKeys.set(key.kid, key));
+  }
+
+  signAccessToken(
+    payload: Record<string, unknown>,
+    expiresInSeconds: number,
+  ): string {
+    return this.sign(payload, JWT_ISSUER, expiresInSeconds);
+  }
+
+  /**
+   * OpenID Connect ID tokens are issued under the provider's issuer URL, which relying
+   * parties compare against the discovery document, so they never pass as access tokens
+   */
+  signIdToken(
+    payload: Record<string, unknown>,
+    issuer: string,
+    expiresInSeconds: number,
+  ): string {
+    return this.sign(payload, issuer, expiresInSeconds);
+  }
+
+  /**
+   * Algorithm the signing key uses (advertised in the OpenID Connect discovery document)
+   */
+  getSigningAlgorithm(): JwsAlgorithm {
+    return this.signingKey.algorithm;
+  }
+
+  /**
+   * Returns the payload of a valid, unexpired access token, or null
+   */
+  verifyAccessToken(token: string): Record<string, unknown> | null {
+    const decoded = decodeJws(token);
+
+    if (!decoded) {
+      return null;
+    }
+
+    const key = this.verificationKeys.get(decoded.header.kid);
+
+    // The algorithm comes from our key, never from the token header
+    if (
+      !key ||
+      decoded.header.alg !== key.algorithm ||
+      !verifyJwsSignature(decoded, key.algorithm, key.verificationKey)
+    ) {
+      return null;
+    }
+
+    const { exp, nbf, iss } = decoded.payload;
+    const now = Math.floor(Date.now() / 1000);
+
+    if (
+      typeof exp !== 'number' ||
+      exp <= now ||
+      (typeof nbf === 'number' && nbf > now) ||
+      iss !== JWT_ISSUER
+    ) {
+      return null;
+    }
+
+    return decoded.payload;
+  }
+
+  /**
+   * Public verification keys for GET /.well-known/jwks.json (empty for HS256)
+   */
+  getJwks(): Jwks {
+    const keys: crypto.JsonWebKey[] = [];
+
+    this.verificationKeys.forEach((key) => {
+      if (key.algorithm === 'HS256') {
+        return;
+      }
+
+      keys.push({
+        ...key.verificationKey.export({ format: 'jwk' }),
+        kid: key.kid,
+        alg: key.algorithm,
+        use: 'sig',
+      });
+    });
+
+    return { keys };
+  }
+
+  private sign(
+    payload: Record<string, unknown>,
+    issuer: string,
+    expiresInSeconds: number,
+  ): string {
+    const now = Math.floor(Date.now() / 1000);
+
+    return signJws(
+      {
+        alg: this.signingKey.algorithm,
+        typ: 'JWT',
+        ...(this.signingKey.kid && { kid: this.signingKey.kid }),
+      },
+      { ...payload, iss: issuer, iat: now, exp: now + expiresInSeconds },
+      this.signingKey.signingKey!,
+    );
+  }
+
+  private loadKeys(): JwtKey[] {
+    if (this.algorithm === 'HS256') {
+      const secret = crypto.createSecretKey(
+        Buffer.from(this.configService.getOrThrow<string>('JWT_SECRET')),
+      );
+
+      return [
+        { algorithm: 'HS256', signingKey: secret, verificationKey: secret },
+      ];
+    }
+
+    if (!(this.algorithm in ASYMMETRIC_KEY_TYPES)) {
+      throw new Error(`Unsupported JWT_ALGORITHM: ${this.algorithm}`);
+    }
+
+    const privateKeyFile = this.configService.get<string>(
+      'JWT_PRIVATE_KEY_FILE',
+    );
+
+    const keys = privateKeyFile
+      ? this.loadPemFiles(privateKeyFile)
+      : this.loadKeystore();
+
+    // Extra public keys stay valid for verification, e.g. the previous key during a rotation
+    const publicKeyFiles = this.configService.get<string>(
+      'JWT_PUBLIC_KEY_FILES',
+      '',
+    );
+
+    publicKeyFiles
+      .split(',')
+      .map((file) => file.trim())
+      .filter(Boolean)
+      .forEach((file) => {
+        const publicKey = crypto.createPublicKey(fs.readFileSync(file));
+        this.assertKeyType(publicKey, file);
+        keys.push(this.toJwtKey(publicKey));
+      });
+
+    return keys;
+  }
+
+  private loadPemFiles(privateKeyFile: string): JwtKey[] {
+    const privateKey = crypto.createPrivateKey(fs.readFileSync(privateKeyFile));
+    this.assertKeyType(privateKey, privateKeyFile);
+
+    return [this.toJwtKey(crypto.createPublicKey(privateKey), privateKey)];
+  }
+
+  /**
+   * Private keys in JWT_KEYSTORE_DIR: the newest one signs, all of them verify.
+   * A key is generated when the keystore has none for the configured algorithm.
+   */
+  private loadKeystore(): JwtKey[] {
+    const keystoreDir = this.configService.get<string>(
+      'JWT_KEYSTORE_DIR',
+      '.keys',
+    );
+
+    fs.mkdirSync(keystoreDir, { recursive: true, mode: 0o700 });
+
+    const entries = fs
+      .readdirSync(keystoreDir)
+      .filter((file) => file.endsWith('.pem'))
+      .map((file) => {
+        const filePath = path.join(keystoreDir, file);
+        return {
+          privateKey: crypto.createPrivateKey(fs.readFileSync(filePath)),
+          modifiedAt: fs.statSync(filePath).mtimeMs,
+        };
+      })
+      .filter(({ privateKey }) => this.hasExpectedKeyType(privateKey))
+      .sort((a, b) => b.modifiedAt - a.modifiedAt);
+
+    if (entries.length === 0) {
+      const privateKey = this.generatePrivateKey();
+      const key = this.toJwtKey(crypto.createPublicKey(privateKey), privateKey);
+
+      fs.writeFileSync(
+        path.join(keystoreDir, `${key.kid}.pem`),
+        privateKey.export({ type: 'pkcs8', format: 'pem' }),
+        { mode: 0o600 },
+      );
+      this.logger.log(
+        `Generated ${this.algorithm} signing key ${key.kid} in ${keystoreDir}`,
+      );
+
+      return [key];
+    }
+
+    return entries.map(({ privateKey }, index) =>
+      this.toJwtKey(
+        crypto.createPublicKey(privateKey),
+        index === 0 ? privateKey : undefined,
+      ),
+    );
+  }
+
+  private generatePrivateKey(): crypto.KeyObject {
+    switch (this.algorithm) {
+      case 'RS256':
+        return crypto.generateKeyPairSync('rsa', { modulusLength: 2048 })
+          .privateKey;
+      case 'ES256':
+        return crypto.generateKeyPairSync('ec', { namedCurve: 'P-256' })
+          .privateKey;
+      default:
+        return crypto.generateKeyPairSync('ed25519').privateKey;
+    }
+  }
+
+  private toJwtKey(
+    verificationKey: crypto.KeyObject,
+    signingKey?: crypto.KeyObject,
+  ): JwtKey {
+    return {
+      kid: this.getThumbprint(verificationKey),
+      algorithm: this.algorithm,
+      signingKey,
+      verificationKey,
+    };
+  }
+
+  /**
+   * RFC 7638 JWK thumbprint, so key ids are stable without extra configuration
+   */
+  private getThumbprint(publicKey: crypto.KeyObject): string {
+    const jwk = publicKey.export({ format: 'jwk' });
+    const members =
+      jwk.kty === 'RSA'
+        ? { e: jwk.e, kty: jwk.kty, n: jwk.n }
+        : jwk.kty === 'EC'
+          ? { crv: jwk.crv, kty: jwk.kty, x: jwk.x, y: jwk.y }
+          : { crv: jwk.crv, kty: jwk.kty, x: jwk.x };
+
+    return crypto
+      .createHash('sha256')
+      .update(JSON.stringify(members))
+      .digest('base64url');
+  }
+
+  private hasExpectedKeyType(key: crypto.KeyObject): boolean {
+    const expectedType =
+      ASYMMETRIC_KEY_TYPES[this.algorithm as keyof typeof ASYMMETRIC_KEY_TYPES];
+
+    if (key.asymmetricKeyType !== expectedType) {
+      return false;
+    }
+
+    // ES256 is only defined for P-256
+    return (
+      this.algorithm !== 'ES256' ||
+      key.asymmetricKeyDetails?.namedCurve === 'prime256v1'
+    );
+  }
+
+  private assertKeyType(key: crypto.KeyObject, file: string): void {
+    if (!this.hasExpectedKeyType(key)) {
+      throw new Error(`${file} is not a valid ${this.algorithm} key`);
+    }
+  }
+}
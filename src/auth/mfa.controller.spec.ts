@@ -0,0 +1,44 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ForbiddenException } from '@nestjs/common';
+import { MfaController } from './mfa.controller';
+import { MfaService } from './mfa.service';
+import { FormattedSafeUser } from 'src/user/utils/transform-user.util';
+import { SessionService } from 'src/session/session.service';
+
+describe('MfaController', () => {
+  let controller: MfaController;
+
+  const mockMfaService = {
+    isMfaRequired: jest.fn(),
+    disable: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [MfaController],
+      providers: [
+        { provide: MfaService, useValue: mockMfaService },
+        { provide: SessionService, useValue: {} },
+      ],
+    }).compile();
+
+    controller = module.get<MfaController>(MfaController);
+
+    jest.clearAllMocks();
+  });
+
+  it('should be defined', () => {
+    expect(controller).toBeDefined();
+  });
+
+  it('should not allow disabling MFA when the role requires it', async () => {
+    mockMfaService.isMfaRequired.mockReturnValue(true);
+
+    await expect(
+      controller.disable({ id: 'user-id' } as FormattedSafeUser, {
+        code: '123456',
+      }),
+    ).rejects.toThrow(ForbiddenException);
+    expect(mockMfaService.disable).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,92 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Body,
+  HttpCode,
+  HttpStatus,
+  UseGuards,
+  ForbiddenException,
+} from '@nestjs/common';
+import { Throttle } from '@nestjs/throttler';
+import { MfaService } from './mfa.service';
+import { MfaCodeDto } from './dto/mfa-code.dto';
+import { CurrentUser } from './decorators/current-user.decorator';
+import type { FormattedSafeUser } from 'src/user/utils/transform-user.util';
+import { Roles } from './decorators/roles.decorator';
+import { RolesGuard } from './guards/roles.guard';
+import { BlockImpersonation } from './decorators/block-impersonation.decorator';
+import { BlockServiceAccounts } from './decorators/block-service-accounts.decorator';
+import { RequireRecentAuth } from './decorators/require-recent-auth.decorator';
+
+@Controller('auth/mfa')
+@UseGuards(RolesGuard)
+@BlockServiceAccounts()
+@Roles('ADMIN', 'USER')
+export class MfaController {
+  constructor(private mfaService: MfaService) {}
+
+  @Get()
+  getStatus(@CurrentUser() user: FormattedSafeUser) {
+    return this.mfaService.getStatus(user);
+  }
+
+  @Post('enroll')
+  @BlockImpersonation()
+  @RequireRecentAuth()
+  @HttpCode(HttpStatus.OK)
+  enroll(@CurrentUser() user: FormattedSafeUser) {
+    return this.mfaService.beginEnrollment(user.id);
+  }
+
+  @Post('enroll/confirm')
+  @BlockImpersonation()
+  @HttpCode(HttpStatus.OK)
+  @Throttle({ default: { limit: 5, ttl: 60000 } })
+  async confirmEnrollment(
+    @CurrentUser() user: FormattedSafeUser,
+    @Body() mfaCodeDto: MfaCodeDto,
+  ) {
+    const recoveryCodes = await this.mfaService.confirmEnrollment(
+      user.id,
+      mfaCodeDto.code,
+    );
+
+    return { recoveryCodes };
+  }
+
+  @Post('recovery-codes')
+  @BlockImpersonation()
+  @RequireRecentAuth()
+  @HttpCode(HttpStatus.OK)
+  @Throttle({ default: { limit: 5, ttl: 60000 } })
+  async regenerateRecoveryCodes(
+    @CurrentUser() user: FormattedSafeUser,
+    @Body() mfaCodeDto: MfaCodeDto,
+  ) {
+    const recoveryCodes = await this.mfaService.regenerateRecoveryCodes(
+      user.id,
+      mfaCodeDto.code,
+    );
+
+    return { recoveryCodes };
+  }
+
+  @Post('disable')
+  @BlockImpersonation()
+  @RequireRecentAuth()
+  @HttpCode(HttpStatus.OK)
+  @Throttle({ default: { limit: 5, ttl: 60000 } })
+  async disable(
+    @CurrentUser() user: FormattedSafeUser,
+    @Body() mfaCodeDto: MfaCodeDto,
+  ) {
+    if (this.mfaService.isMfaRequired(user)) {
+      throw new ForbiddenException('MFA is required for your role');
+    }
+
+    await this.mfaService.disable(user.id, mfaCodeDto.code);
+
+    return { message: 'MFA disabled successfully' };
+  }
+}
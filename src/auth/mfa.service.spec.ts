@@ -0,0 +1,225 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, UnauthorizedException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { MfaService } from './mfa.service';
+import { PrismaService } from 'src/shared/services/prisma.service';
+import { FormattedSafeUser } from 'src/user/utils/transform-user.util';
+import { base32Encode, generateTotp, getTotpTimeStep } from './utils/totp.util';
+
+describe('MfaService', () => {
+  let service: MfaService;
+
+  const mockPrismaService = {
+    user: {
+      findUnique: jest.fn(),
+      update: jest.fn(),
+      updateMany: jest.fn(),
+    },
+    mfaRecoveryCode: {
+      count: jest.fn(),
+      createMany: jest.fn(),
+      deleteMany: jest.fn(),
+      updateMany: jest.fn(),
+    },
+    $transaction: jest.fn(),
+  };
+
+  const mockConfigService = {
+    get: jest.fn((key: string, defaultValue?: unknown) => defaultValue),
+    getOrThrow: jest.fn(() => 'test-jwt-secret'),
+  };
+
+  const getStoredSecret = (): string => {
+    const [args] = mockPrismaService.user.update.mock.calls[0] as [
+      { data: { mfaSecret: string } },
+    ];
+    return args.data.mfaSecret;
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        MfaService,
+        { provide: PrismaService, useValue: mockPrismaService },
+        { provide: ConfigService, useValue: mockConfigService },
+      ],
+    }).compile();
+
+    service = module.get<MfaService>(MfaService);
+
+    jest.clearAllMocks();
+    mockConfigService.get.mockImplementation(
+      (key: string, defaultValue?: unknown) => defaultValue,
+    );
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  describe('totp', () => {
+    it('should match the RFC 6238 SHA-1 test vector', () => {
+      const secret = base32Encode(Buffer.from('12345678901234567890'));
+
+      // T = 59s -> 94287082 (8 digits), 6-digit truncation is 287082
+      expect(generateTotp(secret, getTotpTimeStep(59 * 1000))).toBe('287082');
+    });
+  });
+
+  describe('isMfaRequired', () => {
+    it('should be true when any role requires MFA', () => {
+      const user = {
+        roles: [
+          { name: 'USER', mfaRequired: false },
+          { name: 'ADMIN', mfaRequired: true },
+        ],
+      } as unknown as FormattedSafeUser;
+
+      expect(service.isMfaRequired(user)).toBe(true);
+    });
+  });
+
+  describe('enrollment', () => {
+    it('should return a secret and provisioning URI', async () => {
+      mockPrismaService.user.findUnique.mockResolvedValue({
+        email: 'user@example.com',
+        mfaEnabled: false,
+      });
+
+      const result = await service.beginEnrollment('user-id');
+
+      expect(result.secret).toMatch(/^[A-Z2-7]+$/);
+      expect(result.otpauthUrl).toContain('otpauth://totp/');
+      expect(mockPrismaService.user.update).toHaveBeenCalledWith({
+        where: { id: 'user-id' },
+        data: {
+          mfaSecret: expect.not.stringContaining(result.secret) as string,
+          mfaLastUsedStep: null,
+        },
+      });
+    });
+
+    it('should reject enrollment when MFA is already enabled', async () => {
+      mockPrismaService.user.findUnique.mockResolvedValue({
+        email: 'user@example.com',
+        mfaEnabled: true,
+      });
+
+      await expect(service.beginEnrollment('user-id')).rejects.toThrow(
+        BadRequestException,
+      );
+    });
+
+    it('should confirm enrollment with a valid code and issue recovery codes', async () => {
+      mockPrismaService.user.findUnique.mockResolvedValueOnce({
+        email: 'user@example.com',
+        mfaEnabled: false,
+      });
+      const { secret } = await service.beginEnrollment('user-id');
+      const encryptedSecret = getStoredSecret();
+
+      mockPrismaService.user.findUnique.mockResolvedValueOnce({
+        mfaEnabled: false,
+        mfaSecret: encryptedSecret,
+      });
+      mockPrismaService.user.updateMany.mockResolvedValue({ count: 1 });
+
+      const recoveryCodes = await service.confirmEnrollment(
+        'user-id',
+        generateTotp(secret, getTotpTimeStep()),
+      );
+
+      expect(recoveryCodes).toHaveLength(10);
+      expect(mockPrismaService.$transaction).toHaveBeenCalled();
+    });
+
+    it('should read the recovery code count from the environment as a number', async () => {
+      // Environment variables arrive as strings
+      mockConfigService.get.mockImplementation(
+        (key: string, defaultValue?: unknown) =>
+          key === 'MFA_RECOVERY_CODE_COUNT' ? '4' : defaultValue,
+      );
+      mockPrismaService.user.findUnique.mockResolvedValueOnce({
+        email: 'user@example.com',
+        mfaEnabled: false,
+      });
+      const { secret } = await service.beginEnrollment('user-id');
+
+      mockPrismaService.user.findUnique.mockResolvedValueOnce({
+        mfaEnabled: false,
+        mfaSecret: getStoredSecret(),
+      });
+      mockPrismaService.user.updateMany.mockResolvedValue({ count: 1 });
+
+      const recoveryCodes = await service.confirmEnrollment(
+        'user-id',
+        generateTotp(secret, getTotpTimeStep()),
+      );
+
+      expect(recoveryCodes).toHaveLength(4);
+    });
+
+    it('should fall back to the default recovery code count on an invalid value', async () => {
+      mockConfigService.get.mockImplementation(
+        (key: string, defaultValue?: unknown) =>
+          key === 'MFA_RECOVERY_CODE_COUNT' ? 'ten' : defaultValue,
+      );
+      mockPrismaService.user.findUnique.mockResolvedValueOnce({
+        email: 'user@example.com',
+        mfaEnabled: false,
+      });
+      const { secret } = await service.beginEnrollment('user-id');
+
+      mockPrismaService.user.findUnique.mockResolvedValueOnce({
+        mfaEnabled: false,
+        mfaSecret: getStoredSecret(),
+      });
+      mockPrismaService.user.updateMany.mockResolvedValue({ count: 1 });
+
+      const recoveryCodes = await service.confirmEnrollment(
+        'user-id',
+        generateTotp(secret, getTotpTimeStep()),
+      );
+
+      expect(recoveryCodes).toHaveLength(10);
+    });
+  });
+
+  describe('verifyCode', () => {
+    it('should reject a replayed TOTP code', async () => {
+      mockPrismaService.user.findUnique.mockResolvedValueOnce({
+        email: 'user@example.com',
+        mfaEnabled: false,
+      });
+      const { secret } = await service.beginEnrollment('user-id');
+      const encryptedSecret = getStoredSecret();
+
+      mockPrismaService.user.findUnique.mockResolvedValue({
+        mfaEnabled: true,
+        mfaSecret: encryptedSecret,
+      });
+      mockPrismaService.user.updateMany.mockResolvedValue({ count: 0 });
+
+      await expect(
+        service.verifyCode('user-id', generateTotp(secret, getTotpTimeStep())),
+      ).rejects.toThrow(UnauthorizedException);
+    });
+
+    it('should consume a recovery code only once', async () => {
+      mockPrismaService.user.findUnique.mockResolvedValue({
+        mfaEnabled: true,
+        mfaSecret: 'encrypted',
+      });
+      mockPrismaService.mfaRecoveryCode.updateMany
+        .mockResolvedValueOnce({ count: 1 })
+        .mockResolvedValueOnce({ count: 0 });
+
+      await expect(
+        service.verifyCode('user-id', 'abcde-12345'),
+      ).resolves.toBeUndefined();
+      await expect(
+        service.verifyCode('user-id', 'abcde-12345'),
+      ).rejects.toThrow(UnauthorizedException);
+    });
+  });
+});
@@ -0,0 +1,291 @@
+import {
+  BadRequestException,
+  Injectable,
+  NotFoundException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as crypto from 'crypto';
+import { PrismaService } from 'src/shared/services/prisma.service';
+import { FormattedSafeUser } from 'src/user/utils/transform-user.util';
+import {
+  buildOtpAuthUri,
+  generateTotpSecret,
+  verifyTotp,
+} from './utils/totp.util';
+import { MfaEnrollment, MfaStatus } from './interfaces/mfa.interface';
+
+@Injectable()
+export class MfaService {
+  constructor(
+    private prisma: PrismaService,
+    private configService: ConfigService,
+  ) {}
+
+  /**
+   * Whether any of the user's roles requires MFA
+   */
+  isMfaRequired(user: FormattedSafeUser): boolean {
+    return user.roles.some((role) => role.mfaRequired);
+  }
+
+  async getStatus(user: FormattedSafeUser): Promise<MfaStatus> {
+    const remainingRecoveryCodes = await this.prisma.mfaRecoveryCode.count({
+      where: { userId: user.id, usedAt: null },
+    });
+
+    return {
+      enabled: user.mfaEnabled,
+      enabledAt: user.mfaEnabledAt,
+      required: this.isMfaRequired(user),
+      remainingRecoveryCodes,
+    };
+  }
+
+  /**
+   * Generate a new (unconfirmed) TOTP secret for the user
+   */
+  async beginEnrollment(userId: string): Promise<MfaEnrollment> {
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: { email: true, mfaEnabled: true },
+    });
+
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
+
+    if (user.mfaEnabled) {
+      throw new BadRequestException('MFA is already enabled');
+    }
+
+    const secret = generateTotpSecret();
+
+    await this.prisma.user.update({
+      where: { id: userId },
+      data: {
+        mfaSecret: this.encryptSecret(secret),
+        mfaLastUsedStep: null,
+      },
+    });
+
+    return {
+      secret,
+      otpauthUrl: buildOtpAuthUri(
+        secret,
+        user.email,
+        this.configService.get<string>('MFA_ISSUER', 'Labyrinth Nexus'),
+      ),
+    };
+  }
+
+  /**
+   * Confirm enrollment with a code from the authenticator app.
+   * Returns the plain recovery codes - they are only shown once.
+   */
+  async confirmEnrollment(userId: string, code: string): Promise<string[]> {
+    const user = await this.findMfaState(userId);
+
+    if (user.mfaEnabled) {
+      throw new BadRequestException('MFA is already enabled');
+    }
+
+    if (!user.mfaSecret) {
+      throw new BadRequestException('MFA enrollment has not been started');
+    }
+
+    await this.verifyTotpCode(userId, user.mfaSecret, code);
+
+    await this.prisma.user.update({
+      where: { id: userId },
+      data: {
+        mfaEnabled: true,
+        mfaEnabledAt: new Date(),
+      },
+    });
+
+    return this.generateRecoveryCodes(userId);
+  }
+
+  /**
+   * Verify a TOTP code or a single-use recovery code for a user with MFA enabled
+   */
+  async verifyCode(userId: string, code: string): Promise<void> {
+    const user = await this.findMfaState(userId);
+
+    if (!user.mfaEnabled || !user.mfaSecret) {
+      throw new BadRequestException('MFA is not enabled');
+    }
+
+    const normalizedCode = code.replace(/\s/g, '');
+
+    if (/^\d{6}$/.test(normalizedCode)) {
+      await this.verifyTotpCode(userId, user.mfaSecret, normalizedCode);
+      return;
+    }
+
+    await this.consumeRecoveryCode(userId, normalizedCode);
+  }
+
+  async disable(userId: string, code: string): Promise<void> {
+    await this.verifyCode(userId, code);
+    await this.reset(userId);
+  }
+
+  async regenerateRecoveryCodes(
+    userId: string,
+    code: string,
+  ): Promise<string[]> {
+    await this.verifyCode(userId, code);
+    return this.generateRecoveryCodes(userId);
+  }
+
+  /**
+   * Remove all MFA state for a user (used by admins when a device is lost)
+   */
+  async reset(userId: string): Promise<void> {
+    await this.prisma.$transaction([
+      this.prisma.mfaRecoveryCode.deleteMany({ where: { userId } }),
+      this.prisma.user.update({
+        where: { id: userId },
+        data: {
+          mfaEnabled: false,
+          mfaSecret: null,
+          mfaEnabledAt: null,
+          mfaLastUsedStep: null,
+        },
+      }),
+    ]);
+  }
+
+  private async findMfaState(userId: string) {
+    const user = await this.prisma.user.findUnique({
+      where: { id: userId },
+      select: { mfaEnabled: true, mfaSecret: true },
+    });
+
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
+
+    return user;
+  }
+
+  private async verifyTotpCode(
+    userId: string,
+    encryptedSecret: string,
+    code: string,
+  ): Promise<void> {
+    const step = verifyTotp(this.decryptSecret(encryptedSecret), code);
+
+    if (step === null) {
+      throw new UnauthorizedException('Invalid MFA code');
+    }
+
+    // Only accept each time step once, so an observed code cannot be replayed
+    const result = await this.prisma.user.updateMany({
+      where: {
+        id: userId,
+        OR: [{ mfaLastUsedStep: null }, { mfaLastUsedStep: { lt: step } }],
+      },
+      data: { mfaLastUsedStep: step },
+    });
+
+    if (result.count === 0) {
+      throw new UnauthorizedException('Invalid MFA code');
+    }
+  }
+
+  private async consumeRecoveryCode(
+    userId: string,
+    code: string,
+  ): Promise<void> {
+    const result = await this.prisma.mfaRecoveryCode.updateMany({
+      where: {
+        userId,
+        codeHash: this.hashRecoveryCode(code),
+        usedAt: null,
+      },
+      data: { usedAt: new Date() },
+    });
+
+    if (result.count === 0) {
+      throw new UnauthorizedException('Invalid MFA code');
+    }
+  }
+
+  private async generateRecoveryCodes(userId: string): Promise<string[]> {
+    const configured = Number(
+      this.configService.get('MFA_RECOVERY_CODE_COUNT', 10),
+    );
+    // A typo must not silently leave the user without recovery codes
+    const count =
+      Number.isInteger(configured) && configured > 0 ? configured : 10;
+    const codes = Array.from({ length: count }, () => {
+      const raw = crypto.randomBytes(5).toString('hex');
+      return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+    });
+
+    await this.prisma.$transaction([
+      this.prisma.mfaRecoveryCode.deleteMany({ where: { userId } }),
+      this.prisma.mfaRecoveryCode.createMany({
+        data: codes.map((code) => ({
+          userId,
+          codeHash: this.hashRecoveryCode(code),
+        })),
+      }),
+    ]);
+
+    return codes;
+  }
+
+  private hashRecoveryCode(code: string): string {
+    return crypto.createHash('sha256').update(code.toLowerCase()).digest('hex');
+  }
+
+  /**
+   * TOTP secrets must be recoverable, so they are encrypted (AES-256-GCM) rather than hashed
+   */
+  private getEncryptionKey(): Buffer {
+    const key =
+      this.configService.get<string>('MFA_ENCRYPTION_KEY') ??
+      this.configService.getOrThrow<string>('JWT_SECRET');
+
+    return crypto.createHash('sha256').update(key).digest();
+  }
+
+  private encryptSecret(secret: string): string {
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv(
+      'aes-256-gcm',
+      this.getEncryptionKey(),
+      iv,
+    );
+    const encrypted = Buffer.concat([
+      cipher.update(secret, 'utf8'),
+      cipher.final(),
+    ]);
+
+    return [iv, cipher.getAuthTag(), encrypted]
+      .map((part) => part.toString('base64'))
+      .join(':');
+  }
+
+  private decryptSecret(payload: string): string {
+    const [iv, authTag, encrypted] = payload
+      .split(':')
+      .map((part) => Buffer.from(part, 'base64'));
+
+    const decipher = crypto.createDecipheriv(
+      'aes-256-gcm',
+      this.getEncryptionKey(),
+      iv,
+    );
+    decipher.setAuthTag(authTag);
+
+    return Buffer.concat([
+      decipher.update(encrypted),
+      decipher.final(),
+    ]).toString('utf8');
+  }
+}
@@ -0,0 +1,85 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import type { Request } from 'express';
+import { NativeClientService } from './native-client.service';
+
+describe('NativeClientService', () => {
+  let service: NativeClientService;
+
+  const mockConfigService = {
+    get: jest.fn((key: string, defaultValue?: unknown) =>
+      key === 'NATIVE_CLIENT_IDS' ? 'ios-app, android-app' : defaultValue,
+    ),
+  };
+
+  const requestWithHeaders = (headers: Record<string, string> = {}) =>
+    ({
+      get: (name: string) => headers[name.toLowerCase()],
+    }) as unknown as Request;
+
+  const authResult = {
+    accessToken: 'access-token',
+    refreshToken: 'refresh-token',
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        NativeClientService,
+        { provide: ConfigService, useValue: mockConfigService },
+      ],
+    }).compile();
+
+    service = module.get<NativeClientService>(NativeClientService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  describe('resolve', () => {
+    it('should treat requests without client headers as web clients', () => {
+      expect(service.resolve(requestWithHeaders())).toBeNull();
+      expect(service.resolve(undefined)).toBeNull();
+    });
+
+    it('should recognise registered client IDs', () => {
+      expect(
+        service.resolve(requestWithHeaders({ 'x-client-id': 'android-app' })),
+      ).toEqual({ clientId: 'android-app' });
+    });
+
+    it('should reject unknown client IDs', () => {
+      expect(() =>
+        service.resolve(requestWithHeaders({ 'x-client-id': 'unknown' })),
+      ).toThrow(BadRequestException);
+    });
+
+    it('should accept an explicit native client type', () => {
+      expect(
+        service.resolve(requestWithHeaders({ 'x-client-type': 'Native' })),
+      ).toEqual({ clientId: 'native' });
+      expect(
+        service.resolve(requestWithHeaders({ 'x-client-type': 'web' })),
+      ).toBeNull();
+    });
+  });
+
+  describe('toResponseBody', () => {
+    it('should leave the refresh token out for web clients', () => {
+      expect(service.toResponseBody(requestWithHeaders(), authResult)).toEqual({
+        accessToken: 'access-token',
+      });
+    });
+
+    it('should return the refresh token to native clients', () => {
+      expect(
+        service.toResponseBody(
+          requestWithHeaders({ 'x-client-id': 'ios-app' }),
+          authResult,
+        ),
+      ).toEqual(authResult);
+    });
+  });
+});
@@ -0,0 +1,70 @@
+import { BadRequestException, Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import type { Request } from 'express';
+import { NativeClient } from './interfaces/native-client.interface';
+
+export const nativeClientIdHeader = 'x-client-id';
+export const clientTypeHeader = 'x-client-type';
+
+/**
+ * Client ID of native clients that identify themselves with X-Client-Type only
+ */
+const UNREGISTERED_NATIVE_CLIENT_ID = 'native';
+
+/**
+ * Web clients keep their refresh token in the httpOnly cookie. Native clients can't use
+ * it, so they send and receive the refresh token in the JSON body instead. A request is
+ * native when it names a registered client (X-Client-Id, one of NATIVE_CLIENT_IDS) or
+ * says so explicitly (X-Client-Type: native).
+ */
+@Injectable()
+export class NativeClientService {
+  constructor(private configService: ConfigService) {}
+
+  /**
+   * The native client making the request, or null for web clients
+   */
+  resolve(req?: Request): NativeClient | null {
+    const clientId = req?.get(nativeClientIdHeader);
+
+    if (clientId) {
+      if (!this.getRegisteredClientIds().includes(clientId)) {
+        throw new BadRequestException('Unknown client ID');
+      }
+
+      return { clientId };
+    }
+
+    if (req?.get(clientTypeHeader)?.toLowerCase() === 'native') {
+      return { clientId: UNREGISTERED_NATIVE_CLIENT_ID };
+    }
+
+    return null;
+  }
+
+  /**
+   * The response body for a sign-in or refresh: web clients get the refresh token only
+   * as a cookie, native clients only in the body
+   */
+  toResponseBody<T extends { refreshToken: string }>(
+    req: Request,
+    result: T,
+  ): T | Omit<T, 'refreshToken'> {
+    if (this.resolve(req)) {
+      return result;
+    }
+
+    const publicResult: Partial<T> = { ...result };
+    delete publicResult.refreshToken;
+
+    return publicResult as Omit<T, 'refreshToken'>;
+  }
+
+  private getRegisteredClientIds(): string[] {
+    return this.configService
+      .get<string>('NATIVE_CLIENT_IDS', '')
+      .split(',')
+      .map((clientId) => clientId.trim())
+      .filter(Boolean);
+  }
+}
@@ -0,0 +1,225 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { NotFoundException, UnauthorizedException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as crypto from 'crypto';
+import { OAuthProviderService } from './oauth-provider.service';
+
+describe('OAuthProviderService', () => {
+  let config: Record<string, string>;
+  const fetchMock = jest.fn();
+  const originalFetch = global.fetch;
+
+  const mockConfigService = {
+    get: jest.fn((key: string, defaultValue?: unknown) =>
+      key in config ? config[key] : defaultValue,
+    ),
+    getOrThrow: jest.fn((key: string) => {
+      if (!(key in config)) {
+        throw new TypeError(`Configuration key "${key}" does not exist`);
+      }
+      return config[key];
+    }),
+  };
+
+  const jsonResponse = (body: unknown, status = 200) =>
+    ({
+      ok: status < 400,
+      status,
+      json: () => Promise.resolve(body),
+    }) as Response;
+
+  const discovery = {
+    authorization_endpoint: 'https://id.example.com/authorize',
+    token_endpoint: 'https://id.example.com/token',
+    userinfo_endpoint: 'https://id.example.com/userinfo',
+  };
+
+  const createService = async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        OAuthProviderService,
+        { provide: ConfigService, useValue: mockConfigService },
+      ],
+    }).compile();
+
+    return module.get<OAuthProviderService>(OAuthProviderService);
+  };
+
+  beforeEach(() => {
+    config = {
+      OIDC_ISSUER: 'https://api.example.com',
+      GITHUB_CLIENT_ID: 'github-client',
+      GITHUB_CLIENT_SECRET: 'github-secret',
+      OAUTH_PROVIDERS: 'Acme',
+      OAUTH_ACME_NAME: 'Acme SSO',
+      OAUTH_ACME_DISCOVERY_URL:
+        'https://id.example.com/.well-known/openid-configuration',
+      OAUTH_ACME_CLIENT_ID: 'acme-client',
+      OAUTH_ACME_CLIENT_SECRET: 'acme-secret',
+    };
+
+    fetchMock.mockReset();
+    global.fetch = fetchMock;
+  });
+
+  afterAll(() => {
+    global.fetch = originalFetch;
+  });
+
+  describe('registry', () => {
+    it('should enable the configured built-in and OpenID Connect providers', async () => {
+      const service = await createService();
+
+      expect(service.findAll()).toEqual([
+        { id: 'github', name: 'GitHub' },
+        { id: 'acme', name: 'Acme SSO' },
+      ]);
+      expect(service.getProvider('acme')).toMatchObject({
+        type: 'oidc',
+        clientId: 'acme-client',
+        scopes: ['openid', 'email', 'profile'],
+        callbackUrl: 'https://api.example.com/api/auth/oauth/acme/callback',
+      });
+    });
+
+    it('should fail at startup when a provider is missing configuration', async () => {
+      delete config.OAUTH_ACME_DISCOVERY_URL;
+
+      await expect(createService()).rejects.toThrow('OAUTH_ACME_DISCOVERY_URL');
+    });
+
+    it('should not find unknown providers', async () => {
+      const service = await createService();
+
+      expect(() => service.getProvider('google')).toThrow(NotFoundException);
+    });
+  });
+
+  describe('createAuthorization', () => {
+    it('should build an authorization URL with state and a PKCE challenge', async () => {
+      fetchMock.mockResolvedValue(jsonResponse(discovery));
+      const service = await createService();
+
+      const { url, state, codeVerifier } = await service.createAuthorization(
+        service.getProvider('acme'),
+      );
+      const params = new URL(url).searchParams;
+
+      expect(url.startsWith(discovery.authorization_endpoint)).toBe(true);
+      expect(params.get('client_id')).toBe('acme-client');
+      expect(params.get('state')).toBe(state);
+      expect(params.get('code_challenge')).toBe(
+        crypto.createHash('sha256').update(codeVerifier).digest('base64url'),
+      );
+      expect(params.get('code_challenge_method')).toBe('S256');
+    });
+
+    it('should fetch the discovery document only once', async () => {
+      fetchMock.mockResolvedValue(jsonResponse(discovery));
+      const service = await createService();
+      const provider = service.getProvider('acme');
+
+      await service.createAuthorization(provider);
+      await service.createAuthorization(provider);
+
+      expect(fetchMock).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('fetchProfile', () => {
+    it('should redeem the code and normalize the OpenID Connect claims', async () => {
+      fetchMock
+        .mockResolvedValueOnce(jsonResponse(discovery))
+        .mockResolvedValueOnce(jsonResponse({ access_token: 'access-token' }))
+        .mockResolvedValueOnce(
+          jsonResponse({
+            sub: 'acme-user',
+            email: 'jane@example.com',
+            email_verified: true,
+            given_name: 'Jane',
+            family_name: 'Doe',
+          }),
+        );
+      const service = await createService();
+
+      const profile = await service.fetchProfile(
+        service.getProvider('acme'),
+        'code',
+        'verifier',
+      );
+
+      expect(profile).toMatchObject({
+        provider: 'acme',
+        providerUserId: 'acme-user',
+        email: 'jane@example.com',
+        emailVerified: true,
+        firstName: 'Jane',
+        lastName: 'Doe',
+      });
+      const [, tokenRequest] = fetchMock.mock.calls[1] as [string, RequestInit];
+      expect((tokenRequest.body as URLSearchParams).get('code_verifier')).toBe(
+        'verifier',
+      );
+    });
+
+    it('should use the primary GitHub email', async () => {
+      fetchMock
+        .mockResolvedValueOnce(jsonResponse({ access_token: 'access-token' }))
+        .mockResolvedValueOnce(
+          jsonResponse({ id: 42, login: 'jdoe', name: 'Jane Q Doe' }),
+        )
+        .mockResolvedValueOnce(
+          jsonResponse([
+            { email: 'old@example.com', primary: false, verified: true },
+            { email: 'jane@example.com', primary: true, verified: true },
+          ]),
+        );
+      const service = await createService();
+
+      const profile = await service.fetchProfile(
+        service.getProvider('github'),
+        'code',
+        'verifier',
+      );
+
+      expect(profile).toMatchObject({
+        providerUserId: '42',
+        email: 'jane@example.com',
+        emailVerified: true,
+        firstName: 'Jane',
+        lastName: 'Q Doe',
+      });
+    });
+
+    it('should trust emails of providers configured to', async () => {
+      config.OAUTH_ACME_TRUST_EMAIL = 'true';
+      fetchMock
+        .mockResolvedValueOnce(jsonResponse(discovery))
+        .mockResolvedValueOnce(jsonResponse({ access_token: 'access-token' }))
+        .mockResolvedValueOnce(
+          jsonResponse({ sub: 'acme-user', email: 'jane@example.com' }),
+        );
+      const service = await createService();
+
+      const profile = await service.fetchProfile(
+        service.getProvider('acme'),
+        'code',
+        'verifier',
+      );
+
+      expect(profile.emailVerified).toBe(true);
+    });
+
+    it('should reject a code the provider refuses', async () => {
+      // GitHub reports errors with a 200 response
+      fetchMock.mockResolvedValueOnce(
+        jsonResponse({ error: 'bad_verification_code' }),
+      );
+      const service = await createService();
+
+      await expect(
+        service.fetchProfile(service.getProvider('github'), 'code', 'verifier'),
+      ).rejects.toThrow(UnauthorizedException);
+    });
+  });
+});
@@ -0,0 +1,305 @@
+import {
+  Injectable,
+  Logger,
+  NotFoundException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as crypto from 'crypto';
+import {
+  OAuthAuthorization,
+  OAuthEndpoints,
+  OAuthProfile,
+  OAuthProvider,
+  OAuthProviderType,
+} from './interfaces/oauth.interface';
+import {
+  normalizeGitHubProfile,
+  normalizeOidcProfile,
+} from './utils/oauth-profile.util';
+
+const OIDC_SCOPES = ['openid', 'email', 'profile'];
+
+/**
+ * Providers that only need credentials. Each is enabled by setting <PREFIX>_CLIENT_ID.
+ */
+const BUILT_IN_PROVIDERS: {
+  id: string;
+  name: string;
+  type: OAuthProviderType;
+  scopes: string[];
+  discoveryUrl?: (configService: ConfigService) => string;
+}[] = [
+  {
+    id: 'google',
+    name: 'Google',
+    type: 'oidc',
+    scopes: OIDC_SCOPES,
+    discoveryUrl: () =>
+      'https://accounts.google.com/.well-known/openid-configuration',
+  },
+  {
+    id: 'microsoft',
+    name: 'Microsoft',
+    type: 'oidc',
+    scopes: OIDC_SCOPES,
+    discoveryUrl: (configService) =>
+      `https://login.microsoftonline.com/${configService.get<string>('MICROSOFT_TENANT', 'common')}/v2.0/.well-known/openid-configuration`,
+  },
+  {
+    id: 'github',
+    name: 'GitHub',
+    type: 'github',
+    scopes: ['read:user', 'user:email'],
+  },
+];
+
+const GITHUB_ENDPOINTS: OAuthEndpoints = {
+  authorizationEndpoint: 'https://github.com/login/oauth/authorize',
+  tokenEndpoint: 'https://github.com/login/oauth/access_token',
+  userinfoEndpoint: 'https://api.github.com/user',
+};
+
+/**
+ * Registry of the external sign-in providers, and the authorization code flow (with PKCE)
+ * against them. Google, Microsoft and GitHub are built in; any other OpenID Connect issuer
+ * is added through OAUTH_PROVIDERS and its discovery URL.
+ */
+@Injectable()
+export class OAuthProviderService {
+  private readonly logger = new Logger(OAuthProviderService.name);
+  private readonly providers: Map<string, OAuthProvider>;
+  private readonly discoveries = new Map<string, Promise<OAuthEndpoints>>();
+
+  constructor(private configService: ConfigService) {
+    this.providers = new Map(
+      [...this.loadBuiltInProviders(), ...this.loadOidcProviders()].map(
+        (provider) => [provider.id, provider],
+      ),
+    );
+  }
+
+  /**
+   * Enabled providers, for the frontend's sign-in buttons
+   */
+  findAll(): { id: string; name: string }[] {
+    return [...this.providers.values()].map(({ id, name }) => ({ id, name }));
+  }
+
+  getProvider(id: string): OAuthProvider {
+    const provider = this.providers.get(id);
+
+    if (!provider) {
+      throw new NotFoundException('Unknown OAuth provider');
+    }
+
+    return provider;
+  }
+
+  async createAuthorization(
+    provider: OAuthProvider,
+  ): Promise<OAuthAuthorization> {
+    const { authorizationEndpoint } = await this.getEndpoints(provider);
+    const state = crypto.randomBytes(32).toString('base64url');
+    const codeVerifier = crypto.randomBytes(32).toString('base64url');
+
+    const url = new URL(authorizationEndpoint);
+    Object.entries({
+      response_type: 'code',
+      client_id: provider.clientId,
+      redirect_uri: provider.callbackUrl,
+      scope: provider.scopes.join(' '),
+      state,
+      code_challenge: crypto
+        .createHash('sha256')
+        .update(codeVerifier)
+        .digest('base64url'),
+      code_challenge_method: 'S256',
+    }).forEach(([key, value]) => url.searchParams.set(key, value));
+
+    return { url: url.toString(), state, codeVerifier };
+  }
+
+  /**
+   * Redeem the authorization code and fetch the user it was issued for
+   */
+  async fetchProfile(
+    provider: OAuthProvider,
+    code: string,
+    codeVerifier: string,
+  ): Promise<OAuthProfile> {
+    const endpoints = await this.getEndpoints(provider);
+    const accessToken = await this.exchangeCode(
+      provider,
+      endpoints,
+      code,
+      codeVerifier,
+    );
+
+    const profile =
+      provider.type === 'github'
+        ? normalizeGitHubProfile(
+            provider.id,
+            await this.requestJson(endpoints.userinfoEndpoint, accessToken),
+            await this.requestJson(
+              `${endpoints.userinfoEndpoint}/emails`,
+              accessToken,
+            ),
+          )
+        : normalizeOidcProfile(
+            provider.id,
+            await this.requestJson(endpoints.userinfoEndpoint, accessToken),
+          );
+
+    return provider.trustEmail && profile.email
+      ? { ...profile, emailVerified: true }
+      : profile;
+  }
+
+  private async exchangeCode(
+    provider: OAuthProvider,
+    endpoints: OAuthEndpoints,
+    code: string,
+    codeVerifier: string,
+  ): Promise<string> {
+    const response = await fetch(endpoints.tokenEndpoint, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/x-www-form-urlencoded',
+        Accept: 'application/json',
+      },
+      body: new URLSearchParams({
+        grant_type: 'authorization_code',
+        code,
+        redirect_uri: provider.callbackUrl,
+        client_id: provider.clientId,
+        client_secret: provider.clientSecret,
+        code_verifier: codeVerifier,
+      }),
+    });
+    const body = (await response.json().catch(() => ({}))) as {
+      access_token?: string;
+      error?: string;
+    };
+
+    // GitHub answers errors with 200 and an error field
+    if (!response.ok || !body.access_token) {
+      this.logger.warn(
+        `Code exchange with ${provider.id} failed: ${response.status} ${body.error ?? ''}`,
+      );
+      throw new UnauthorizedException(
+        `Sign-in with ${provider.name} failed. Please try again.`,
+      );
+    }
+
+    return body.access_token;
+  }
+
+  private async requestJson<T = Record<string, unknown>>(
+    url: string,
+    accessToken?: string,
+  ): Promise<T> {
+    const response = await fetch(url, {
+      headers: {
+        Accept: 'application/json',
+        ...(accessToken && { Authorization: `Bearer ${accessToken}` }),
+      },
+    });
+
+    if (!response.ok) {
+      this.logger.warn(`Request to ${url} failed: ${response.status}`);
+      throw new UnauthorizedException('Sign-in failed. Please try again.');
+    }
+
+    return (await response.json()) as T;
+  }
+
+  /**
+   * Discovery documents are fetched on first use and kept; a failed fetch is retried next time
+   */
+  private getEndpoints(provider: OAuthProvider): Promise<OAuthEndpoints> {
+    if (provider.type === 'github' || !provider.discoveryUrl) {
+      return Promise.resolve(GITHUB_ENDPOINTS);
+    }
+
+    const discoveryUrl = provider.discoveryUrl;
+    let endpoints = this.discoveries.get(discoveryUrl);
+
+    if (!endpoints) {
+      endpoints = this.requestJson<{
+        authorization_endpoint: string;
+        token_endpoint: string;
+        userinfo_endpoint: string;
+      }>(discoveryUrl).then((document) => ({
+        authorizationEndpoint: document.authorization_endpoint,
+        tokenEndpoint: document.token_endpoint,
+        userinfoEndpoint: document.userinfo_endpoint,
+      }));
+      endpoints.catch(() => this.discoveries.delete(discoveryUrl));
+      this.discoveries.set(discoveryUrl, endpoints);
+    }
+
+    return endpoints;
+  }
+
+  private loadBuiltInProviders(): OAuthProvider[] {
+    return BUILT_IN_PROVIDERS.filter(({ id }) =>
+      this.configService.get<string>(`${id.toUpperCase()}_CLIENT_ID`),
+    ).map((preset) => ({
+      ...this.loadCredentials(preset.id, preset.id.toUpperCase()),
+      name: preset.name,
+      type: preset.type,
+      scopes: preset.scopes,
+      discoveryUrl: preset.discoveryUrl?.(this.configService),
+    }));
+  }
+
+  /**
+   * OAUTH_PROVIDERS=okta,keycloak reads OAUTH_OKTA_DISCOVERY_URL, OAUTH_OKTA_CLIENT_ID, ...
+   */
+  private loadOidcProviders(): OAuthProvider[] {
+    return this.configService
+      .get<string>('OAUTH_PROVIDERS', '')
+      .split(',')
+      .map((id) => id.trim().toLowerCase())
+      .filter(Boolean)
+      .map((id) => {
+        const prefix = `OAUTH_${id.toUpperCase().replace(/-/g, '_')}`;
+
+        return {
+          ...this.loadCredentials(id, prefix),
+          name: this.configService.get<string>(`${prefix}_NAME`, id),
+          type: 'oidc' as const,
+          scopes: this.configService
+            .get<string>(`${prefix}_SCOPES`, OIDC_SCOPES.join(' '))
+            .split(' ')
+            .filter(Boolean),
+          discoveryUrl: this.configService.getOrThrow<string>(
+            `${prefix}_DISCOVERY_URL`,
+          ),
+        };
+      });
+  }
+
+  private loadCredentials(id: string, prefix: string) {
+    // Public URL of this API (also the OpenID Connect issuer)
+    const apiUrl = this.configService.get<string>(
+      'OIDC_ISSUER',
+      'http://localhost:3000',
+    );
+
+    return {
+      id,
+      clientId: this.configService.getOrThrow<string>(`${prefix}_CLIENT_ID`),
+      clientSecret: this.configService.getOrThrow<string>(
+        `${prefix}_CLIENT_SECRET`,
+      ),
+      callbackUrl: this.configService.get<string>(
+        `${prefix}_CALLBACK_URL`,
+        `${apiUrl}/api/auth/oauth/${id}/callback`,
+      ),
+      trustEmail:
+        this.configService.get(`${prefix}_TRUST_EMAIL`, 'false') === 'true',
+    };
+  }
+}
@@ -8,102 +8,145 @@ import {
   HttpCode,
   HttpStatus,
   Post,
-  Body,
   Delete,
+  Param,
+  Query,
 } from '@nestjs/common';
 import type { Request, Response } from 'express';
-import { GoogleOAuthGuard } from './guards/oauth.guard';
 import { OAuthService } from './oauth.service';
+import { OAuthProviderService } from './oauth-provider.service';
 import { Public } from './decorators/public.decorator';
 import { ConfigService } from '@nestjs/config';
 import { CurrentUser } from './decorators/current-user.decorator';
 import type { FormattedSafeUser } from 'src/user/utils/transform-user.util';
 import { Roles } from './decorators/roles.decorator';
 import { RolesGuard } from './guards/roles.guard';
+import { BlockImpersonation } from './decorators/block-impersonation.decorator';
 
 @Controller('auth/oauth')
 export class OAuthController {
   constructor(
     private oauthService: OAuthService,
+    private oauthProviderService: OAuthProviderService,
     private configService: ConfigService,
   ) {}
 
-  // Google OAuth Routes
-  @Get('google')
+  // Configured providers, for rendering sign-in buttons
+  @Get('providers')
   @Public()
-  @UseGuards(GoogleOAuthGuard)
-  async googleAuth() {
-    // Initiates the Google OAuth flow
+  getProviders() {
+    return this.oauthProviderService.findAll();
   }
 
-  @Get('google/callback')
+  // Linked providers of the current user
+  @Get('accounts')
+  @UseGuards(RolesGuard)
+  @Roles('ADMIN', 'USER')
+  async getLinkedAccounts(@CurrentUser() user: FormattedSafeUser) {
+    return this.oauthService.findLinkedAccounts(user.id);
+  }
+
+  // Initiates the OAuth flow of a provider
+  @Get(':provider')
   @Public()
-  @UseGuards(GoogleOAuthGuard)
-  async googleAuthCallback(
+  async authorize(@Param('provider') provider: string, @Res() res: Response) {
+    const url = await this.oauthService.beginAuthorization(provider, res);
+
+    res.redirect(url);
+  }
+
+  @Get(':provider/callback')
+  @Public()
+  async callback(
+    @Param('provider') provider: string,
+    @Query('code') code: string,
+    @Query('state') state: string,
+    @Query('error') error: string | undefined,
     @Req() req: Request,
     @Res() res: Response,
   ) {
+    const frontendUrl = this.configService.get<string>('FRONTEND_URL');
+
     try {
-      const profile = req.user as any;
+      if (error) {
+        // The user declined, or the provider refused the request
+        throw new Error(`Sign-in was cancelled (${error})`);
+      }
+
       const ipAddress = req.ip || req.socket.remoteAddress;
       const userAgent = req.get('user-agent');
 
-      const authResult = await this.oauthService.handleOAuthLogin(
-        profile,
+      // Also sets the refresh token cookie when signing in
+      const result = await this.oauthService.handleCallback(
+        provider,
+        code,
+        state,
         res,
         ipAddress,
         userAgent,
       );
 
-      // Set refresh token cookie
-      res.cookie('refreshToken', authResult.refreshToken, {
-        httpOnly: true,
-        secure: this.configService.get('NODE_ENV') === 'production',
-        sameSite: 'lax',
-        maxAge: 7 * 24 * 60 * 60 * 1000, // 7 days
-        path: '/api/auth',
-      });
+      if (result.type === 'link') {
+        res.redirect(
+          `${frontendUrl}/auth/linked?provider=${encodeURIComponent(result.provider)}`,
+        );
+        return;
+      }
+
+      // The frontend completes the second factor with the MFA token, as after a password
+      if ('mfaRequired' in result.authResult) {
+        res.redirect(
+          `${frontendUrl}/auth/callback?mfaToken=${result.authResult.mfaToken}&enrollmentRequired=${result.authResult.enrollmentRequired}`,
+        );
+        return;
+      }
 
       // Redirect to frontend with access token
-      const frontendUrl = this.configService.get<string>('FRONTEND_URL');
-      const redirectUrl = `${frontendUrl}/auth/callback?token=${authResult.accessToken}`;
-      
-      res.redirect(redirectUrl);
+      res.redirect(
+        `${frontendUrl}/auth/callback?token=${result.authResult.accessToken}`,
+      );
     } catch (error) {
       // Redirect to frontend with error
-      const frontendUrl = this.configService.get<string>('FRONTEND_URL');
-      const errorMessage = encodeURIComponent(error.message || 'Authentication failed');
+      const errorMessage = encodeURIComponent(
+        (error as Error).message || 'Authentication failed',
+      );
       res.redirect(`${frontendUrl}/auth/error?message=${errorMessage}`);
     }
   }
 
-  // Link Google account to existing user (requires authentication)
-  @Post('link/google')
+  // Link a provider account to the current user (requires authentication). Returns the
+  // provider URL to send the browser to; the callback then links instead of signing in.
+  @Post('link/:provider')
+  @BlockImpersonation()
   @HttpCode(HttpStatus.OK)
   @UseGuards(RolesGuard)
   @Roles('ADMIN', 'USER')
   async linkAccount(
     @CurrentUser() user: FormattedSafeUser,
-    @Body() body: { profile: any },
+    @Param('provider') provider: string,
+    @Res({ passthrough: true }) res: Response,
   ) {
-    await this.oauthService.linkOAuthAccount(
+    const url = await this.oauthService.beginAuthorization(
+      provider,
+      res,
       user.id,
-      body.profile,
     );
 
-    return { message: 'Google account linked successfully' };
+    return { url };
   }
 
-  // Unlink Google account (requires authentication)
-  @Delete('unlink/google')
+  // Unlink a provider account (requires authentication)
+  @Delete('unlink/:provider')
+  @BlockImpersonation()
   @HttpCode(HttpStatus.OK)
   @UseGuards(RolesGuard)
   @Roles('ADMIN', 'USER')
   async unlinkAccount(
     @CurrentUser() user: FormattedSafeUser,
+    @Param('provider') provider: string,
   ) {
-    await this.oauthService.unlinkOAuthAccount(user.id);
+    await this.oauthService.unlinkOAuthAccount(user.id, provider);
 
-    return { message: 'Google account unlinked successfully' };
+    return { message: 'Account unlinked successfully' };
   }
-}
\ No newline at end of file
+}
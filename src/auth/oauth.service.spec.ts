@@ -1,18 +1,131 @@
 import { Test, TestingModule } from '@nestjs/testing';
-import { OauthService } from './oauth.service';
+import { ConfigService } from '@nestjs/config';
+import { JwtService } from '@nestjs/jwt';
+import type { Response } from 'express';
+import { OAuthService } from './oauth.service';
+import { PrismaService } from 'src/shared/services/prisma.service';
+import { AuthService } from './auth.service';
+import { PasswordHasherService } from './password-hasher.service';
+import { OAuthProviderService } from './oauth-provider.service';
+import { AccountLockoutService } from './account-lockout.service';
+import { AccountLockedException } from './exceptions/account-locked.exception';
+import { OAuthProfile } from './interfaces/oauth.interface';
 
-describe('OauthService', () => {
-  let service: OauthService;
+describe('OAuthService', () => {
+  let service: OAuthService;
+
+  const mockPrismaService = {
+    oAuthAccount: {
+      findUnique: jest.fn(),
+      update: jest.fn(),
+    },
+    user: {
+      findUniqueOrThrow: jest.fn(),
+      update: jest.fn(),
+    },
+  };
+
+  const mockAuthService = {
+    completeFirstFactor: jest.fn(),
+    createSession: jest.fn(),
+  };
+
+  const mockConfigService = {
+    get: jest.fn((key: string, defaultValue?: unknown) => defaultValue),
+  };
+
+  const profile: OAuthProfile = {
+    provider: 'github',
+    providerUserId: '42',
+    email: 'jane@example.com',
+    emailVerified: true,
+    firstName: 'Jane',
+    lastName: 'Doe',
+    displayName: null,
+    picture: null,
+  };
+
+  const role = { id: 1, name: 'USER' };
+
+  const linkedUser = (overrides: Record<string, unknown> = {}) => ({
+    id: 'user-id',
+    email: 'jane@example.com',
+    isActive: true,
+    emailVerified: true,
+    mfaEnabled: false,
+    lockedUntil: null,
+    permanentlyLocked: false,
+    userRoles: [{ role }],
+    ...overrides,
+  });
+
+  const res = {} as Response;
 
   beforeEach(async () => {
     const module: TestingModule = await Test.createTestingModule({
-      providers: [OauthService],
+      providers: [
+        OAuthService,
+        { provide: PrismaService, useValue: mockPrismaService },
+        { provide: AuthService, useValue: mockAuthService },
+        { provide: PasswordHasherService, useValue: {} },
+        { provide: OAuthProviderService, useValue: {} },
+        { provide: JwtService, useValue: {} },
+        { provide: ConfigService, useValue: mockConfigService },
+        AccountLockoutService,
+      ],
     }).compile();
 
-    service = module.get<OauthService>(OauthService);
+    service = module.get<OAuthService>(OAuthService);
+
+    jest.clearAllMocks();
+    mockPrismaService.oAuthAccount.findUnique.mockResolvedValue({
+      id: 1,
+      userId: 'user-id',
+    });
   });
 
   it('should be defined', () => {
     expect(service).toBeDefined();
   });
+
+  describe('handleOAuthLogin', () => {
+    it('should return the MFA challenge for a user with MFA enabled', async () => {
+      const challenge = {
+        mfaRequired: true,
+        mfaToken: 'mfa-token',
+        enrollmentRequired: false,
+      };
+      mockPrismaService.user.findUniqueOrThrow.mockResolvedValue(
+        linkedUser({ mfaEnabled: true }),
+      );
+      mockAuthService.completeFirstFactor.mockResolvedValue(challenge);
+
+      const result = await service.handleOAuthLogin(profile, res, '127.0.0.1');
+
+      expect(result).toEqual(challenge);
+      expect(mockAuthService.completeFirstFactor).toHaveBeenCalledWith(
+        expect.objectContaining({
+          id: 'user-id',
+          mfaEnabled: true,
+          roles: [role],
+        }),
+        res,
+        '127.0.0.1',
+        undefined,
+      );
+      expect(mockAuthService.createSession).not.toHaveBeenCalled();
+    });
+
+    it('should not sign in a locked account', async () => {
+      mockPrismaService.user.findUniqueOrThrow.mockResolvedValue(
+        linkedUser({ lockedUntil: new Date(Date.now() + 60 * 1000) }),
+      );
+
+      await expect(service.handleOAuthLogin(profile, res)).rejects.toThrow(
+        AccountLockedException,
+      );
+      expect(mockAuthService.completeFirstFactor).not.toHaveBeenCalled();
+      expect(mockPrismaService.user.update).not.toHaveBeenCalled();
+    });
+  });
 });
@@ -1,48 +1,186 @@
 // src/auth/oauth.service.ts
-import { Injectable, UnauthorizedException } from '@nestjs/common';
+import {
+  ConflictException,
+  Injectable,
+  NotFoundException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { JwtService } from '@nestjs/jwt';
+import * as crypto from 'crypto';
+import { Prisma } from 'generated/prisma';
 import { PrismaService } from 'src/shared/services/prisma.service';
 import { AuthService } from './auth.service';
 import type { Response } from 'express';
-import { GoogleProfile } from './strategies/google.strategy';
 import { AuthResult } from './interfaces/auth-result.interface';
+import { MfaChallenge } from './interfaces/mfa.interface';
+import { OAuthProfile } from './interfaces/oauth.interface';
+import { PasswordHasherService } from './password-hasher.service';
+import { OAuthProviderService } from './oauth-provider.service';
+import { AccountLockoutService } from './account-lockout.service';
+
+const oauthStateCookieKey = 'oauthState';
+
+const userWithRoles = {
+  userRoles: {
+    include: {
+      role: true,
+    },
+  },
+} as const;
+
+/**
+ * Outcome of a provider callback: a sign-in (or its second factor challenge), or an
+ * identity linked to the signed-in user
+ */
+export type OAuthCallbackResult =
+  | { type: 'login'; authResult: AuthResult | MfaChallenge }
+  | { type: 'link'; provider: string };
 
 @Injectable()
 export class OAuthService {
   constructor(
     private prisma: PrismaService,
     private authService: AuthService,
+    private passwordHasherService: PasswordHasherService,
+    private oauthProviderService: OAuthProviderService,
+    private accountLockoutService: AccountLockoutService,
+    private jwtService: JwtService,
+    private configService: ConfigService,
   ) {}
 
-  async handleOAuthLogin(
-    profile: GoogleProfile,
+  /**
+   * Start the authorization code flow. The state and PKCE verifier travel in a short-lived
+   * signed cookie, along with the user to link the identity to when linking.
+   * Returns the provider URL to send the browser to.
+   */
+  async beginAuthorization(
+    providerId: string,
+    res: Response,
+    linkUserId?: string,
+  ): Promise<string> {
+    const provider = this.oauthProviderService.getProvider(providerId);
+    const { url, state, codeVerifier } =
+      await this.oauthProviderService.createAuthorization(provider);
+    const expiryMinutes = Number(
+      this.configService.get('OAUTH_STATE_EXPIRY_MINS', 10),
+    );
+
+    res.cookie(
+      oauthStateCookieKey,
+      this.jwtService.sign(
+        {
+          type: 'oauth_state',
+          provider: provider.id,
+          state,
+          codeVerifier,
+          ...(linkUserId && { sub: linkUserId }),
+        },
+        { expiresIn: `${expiryMinutes}m` },
+      ),
+      {
+        httpOnly: true,
+        secure: this.configService.get('NODE_ENV') === 'production',
+        // The callback is a top-level navigation from the provider's site
+        sameSite: 'lax',
+        path: this.configService.get<string>('COOKIE_PATH', '/api/auth'),
+        maxAge: expiryMinutes * 60 * 1000,
+      },
+    );
+
+    return url;
+  }
+
+  /**
+   * Finish the flow started by beginAuthorization: check the state, redeem the code and
+   * sign the user in (or link the identity)
+   */
+  async handleCallback(
+    providerId: string,
+    code: string,
+    state: string,
     res: Response,
     ipAddress?: string,
     userAgent?: string,
-  ): Promise<AuthResult> {
-    if (!profile.email) {
-      throw new UnauthorizedException(
-        'No email provided by Google. Please ensure email permissions are granted.',
-      );
+  ): Promise<OAuthCallbackResult> {
+    const cookies = res.req.cookies as Record<string, string> | undefined;
+    const stateToken = cookies?.[oauthStateCookieKey];
+    res.clearCookie(oauthStateCookieKey, {
+      path: this.configService.get<string>('COOKIE_PATH', '/api/auth'),
+    });
+
+    const pending = this.verifyState(providerId, state, stateToken);
+    const provider = this.oauthProviderService.getProvider(providerId);
+    const profile = await this.oauthProviderService.fetchProfile(
+      provider,
+      code,
+      pending.codeVerifier,
+    );
+
+    if (pending.linkUserId) {
+      await this.linkOAuthAccount(pending.linkUserId, profile);
+      return { type: 'link', provider: provider.id };
     }
 
-    // Find or create user
-    let user = await this.prisma.user.findUnique({
-      where: { email: profile.email.toLowerCase() },
-      include: {
-        userRoles: {
-          include: {
-            role: true,
-          },
+    return {
+      type: 'login',
+      authResult: await this.handleOAuthLogin(
+        profile,
+        res,
+        ipAddress,
+        userAgent,
+      ),
+    };
+  }
+
+  /**
+   * Sign in with a provider identity. A known identity signs in its user; otherwise the
+   * verified email finds (and links) an existing user or creates a new one. The provider
+   * is only the first factor: MFA and the other sign-in checks still apply.
+   */
+  async handleOAuthLogin(
+    profile: OAuthProfile,
+    res: Response,
+    ipAddress?: string,
+    userAgent?: string,
+  ): Promise<AuthResult | MfaChallenge> {
+    const account = await this.prisma.oAuthAccount.findUnique({
+      where: {
+        provider_providerUserId: {
+          provider: profile.provider,
+          providerUserId: profile.providerUserId,
         },
       },
     });
 
-    if (!user) {
-      // Create new user from OAuth profile
-      user = await this.createUserFromOAuthProfile(profile);
+    let user: Prisma.UserGetPayload<{ include: typeof userWithRoles }> | null;
+
+    if (account) {
+      user = await this.prisma.user.findUniqueOrThrow({
+        where: { id: account.userId },
+        include: userWithRoles,
+      });
     } else {
-      // Update existing user with OAuth info if needed
-      user = await this.updateUserOAuthInfo(user.id, profile);
+      // Only a verified email may claim an account, or any provider could take over users
+      if (!profile.email || !profile.emailVerified) {
+        throw new UnauthorizedException(
+          'No verified email provided. Please ensure email permissions are granted.',
+        );
+      }
+
+      // Find or create user
+      user = await this.prisma.user.findUnique({
+        where: { email: profile.email.toLowerCase() },
+        include: userWithRoles,
+      });
+
+      if (!user) {
+        // Create new user from OAuth profile
+        user = await this.createUserFromOAuthProfile(profile);
+      } else {
+        // Update existing user with OAuth info if needed
+        user = await this.updateUserOAuthInfo(user.id, profile);
+      }
     }
 
     // Check if account is active
@@ -50,6 +188,19 @@ export class OAuthService {
       throw new UnauthorizedException('Account is inactive');
     }
 
+    this.accountLockoutService.assertNotLocked(user);
+
+    if (account) {
+      await this.prisma.oAuthAccount.update({
+        where: { id: account.id },
+        data: { lastUsedAt: new Date() },
+      });
+      await this.prisma.user.update({
+        where: { id: user.id },
+        data: { lastLoginAt: new Date() },
+      });
+    }
+
     // Transform user to safe format
     const { userRoles, ...userWithoutRoles } = user;
     const safeUser = {
@@ -57,15 +208,52 @@ export class OAuthService {
       roles: userRoles.map((ur) => ur.role),
     };
 
-    // Generate tokens and create session
-    return this.authService['generateTokens'](
+    // Email verification, the second factor, then the session (same as any login)
+    return this.authService.completeFirstFactor(
       safeUser,
+      res,
       ipAddress,
       userAgent,
     );
   }
 
-  private async createUserFromOAuthProfile(profile: GoogleProfile) {
+  private verifyState(
+    providerId: string,
+    state: string,
+    stateToken?: string,
+  ): { codeVerifier: string; linkUserId?: string } {
+    let payload: {
+      type?: string;
+      provider?: string;
+      state?: string;
+      codeVerifier?: string;
+      sub?: string;
+    };
+
+    try {
+      payload = this.jwtService.verify(stateToken ?? '');
+    } catch {
+      throw new UnauthorizedException(
+        'Sign-in expired or was started in another browser. Please try again.',
+      );
+    }
+
+    if (
+      payload.type !== 'oauth_state' ||
+      payload.provider !== providerId ||
+      !payload.state ||
+      !payload.codeVerifier ||
+      !state ||
+      payload.state.length !== state.length ||
+      !crypto.timingSafeEqual(Buffer.from(payload.state), Buffer.from(state))
+    ) {
+      throw new UnauthorizedException('Invalid OAuth state');
+    }
+
+    return { codeVerifier: payload.codeVerifier, linkUserId: payload.sub };
+  }
+
+  private async createUserFromOAuthProfile(profile: OAuthProfile) {
     // Get default USER role
     const userRole = await this.prisma.role.findUnique({
       where: { name: 'USER' },
@@ -77,20 +265,24 @@ export class OAuthService {
 
     // Generate a random password (user won't use it for OAuth login)
     const randomPassword = this.generateRandomPassword();
-    const bcrypt = require('bcrypt');
-    const hashedPassword = await bcrypt.hash(randomPassword, 10);
+    const hashedPassword =
+      await this.passwordHasherService.hash(randomPassword);
+    const displayName =
+      profile.displayName ??
+      [profile.firstName, profile.lastName].filter(Boolean).join(' ');
 
     return this.prisma.user.create({
       data: {
-        email: profile.email.toLowerCase(),
+        email: profile.email!.toLowerCase(),
         emailVerified: profile.emailVerified,
         emailVerifiedAt: new Date(),
         passwordHash: hashedPassword,
         firstName: profile.firstName,
         lastName: profile.lastName,
-        displayName: `${profile.firstName} ${profile.lastName}`.trim(),
+        displayName: displayName || null,
         avatarUrl: profile.picture,
         isActive: true,
+        lastLoginAt: new Date(),
         userRoles: {
           create: [
             {
@@ -99,21 +291,20 @@ export class OAuthService {
             },
           ],
         },
-      },
-      include: {
-        userRoles: {
-          include: {
-            role: true,
-          },
+        oauthAccounts: {
+          create: [this.toAccountData(profile)],
         },
       },
+      include: userWithRoles,
     });
   }
 
-  private async updateUserOAuthInfo(
-    userId: string,
-    profile: GoogleProfile,
-  ) {
+  private async updateUserOAuthInfo(userId: string, profile: OAuthProfile) {
+    const user = await this.prisma.user.findUniqueOrThrow({
+      where: { id: userId },
+      select: { firstName: true, lastName: true, avatarUrl: true },
+    });
+
     // Update user info if OAuth profile has newer/better data
     return this.prisma.user.update({
       where: { id: userId },
@@ -121,70 +312,102 @@ export class OAuthService {
         // Update email verification if not already verified
         emailVerified: true,
         emailVerifiedAt: new Date(),
-        // Update profile picture if user doesn't have one
-        ...(profile.picture && {
-          avatarUrl: profile.picture,
-        }),
-        // Update names if they're empty
-        ...(!profile.firstName && { firstName: profile.firstName }),
-        ...(!profile.lastName && { lastName: profile.lastName }),
+        // Fill in the picture and names if the user doesn't have them
+        ...(!user.avatarUrl &&
+          profile.picture && { avatarUrl: profile.picture }),
+        ...(!user.firstName &&
+          profile.firstName && { firstName: profile.firstName }),
+        ...(!user.lastName &&
+          profile.lastName && { lastName: profile.lastName }),
         lastLoginAt: new Date(),
-      },
-      include: {
-        userRoles: {
-          include: {
-            role: true,
-          },
+        oauthAccounts: {
+          create: [this.toAccountData(profile)],
         },
       },
+      include: userWithRoles,
     });
   }
 
+  private toAccountData(profile: OAuthProfile) {
+    return {
+      provider: profile.provider,
+      providerUserId: profile.providerUserId,
+      email: profile.email?.toLowerCase() ?? null,
+      lastUsedAt: new Date(),
+    };
+  }
+
   private generateRandomPassword(length: number = 32): string {
     const charset =
       'abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789!@#$%^&*';
     let password = '';
-    const crypto = require('crypto');
-    
+
     for (let i = 0; i < length; i++) {
       const randomIndex = crypto.randomInt(0, charset.length);
       password += charset[randomIndex];
     }
-    
+
     return password;
   }
 
   /**
-   * Link a Google account to an existing authenticated user
+   * Providers linked to a user
+   */
+  async findLinkedAccounts(userId: string) {
+    return this.prisma.oAuthAccount.findMany({
+      where: { userId },
+      select: {
+        provider: true,
+        email: true,
+        lastUsedAt: true,
+        createdAt: true,
+      },
+      orderBy: { createdAt: 'asc' },
+    });
+  }
+
+  /**
+   * Link a provider identity to an existing authenticated user
    */
-  async linkOAuthAccount(
-    userId: string,
-    profile: GoogleProfile,
-  ): Promise<void> {
-    // Check if email is already used by another account
-    const existingUser = await this.prisma.user.findUnique({
-      where: { email: profile.email.toLowerCase() },
+  async linkOAuthAccount(userId: string, profile: OAuthProfile): Promise<void> {
+    const account = await this.prisma.oAuthAccount.findUnique({
+      where: {
+        provider_providerUserId: {
+          provider: profile.provider,
+          providerUserId: profile.providerUserId,
+        },
+      },
     });
 
-    if (existingUser && existingUser.id !== userId) {
-      throw new UnauthorizedException(
-        'This email is already associated with another account',
+    if (account && account.userId !== userId) {
+      throw new ConflictException(
+        'This account is already linked to another user',
       );
     }
 
-    // Update user with OAuth info
-    await this.prisma.user.update({
-      where: { id: userId },
-      data: {
-        avatarUrl: profile.picture || undefined,
-      },
+    if (account) {
+      return;
+    }
+
+    const existing = await this.prisma.oAuthAccount.findFirst({
+      where: { userId, provider: profile.provider },
+    });
+
+    if (existing) {
+      throw new ConflictException(
+        'Another account of this provider is already linked. Unlink it first.',
+      );
+    }
+
+    await this.prisma.oAuthAccount.create({
+      data: { userId, ...this.toAccountData(profile) },
     });
   }
 
   /**
-   * Unlink Google account from user
+   * Unlink a provider from user
    */
-  async unlinkOAuthAccount(userId: string): Promise<void> {
+  async unlinkOAuthAccount(userId: string, provider: string): Promise<void> {
     // Ensure user has a password set before unlinking OAuth
     const user = await this.prisma.user.findUnique({
       where: { id: userId },
@@ -193,10 +416,16 @@ export class OAuthService {
 
     if (!user?.passwordHash) {
       throw new UnauthorizedException(
-        'Cannot unlink Google account. Please set a password first.',
+        'Cannot unlink this account. Please set a password first.',
       );
     }
 
-    // Additional cleanup could go here if you store OAuth provider info
+    const { count } = await this.prisma.oAuthAccount.deleteMany({
+      where: { userId, provider },
+    });
+
+    if (count === 0) {
+      throw new NotFoundException('No linked account for this provider');
+    }
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,88 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import * as bcrypt from 'bcrypt';
+import { PasswordHasherService } from './password-hasher.service';
+
+describe('PasswordHasherService', () => {
+  let config: Record<string, unknown>;
+
+  // Cheap parameters keep the suite fast
+  const baseConfig = {
+    ARGON2_MEMORY_COST_KIB: 1024,
+    ARGON2_TIME_COST: 2,
+    BCRYPT_ROUNDS: 4,
+  };
+
+  const mockConfigService = {
+    get: jest.fn((key: string, defaultValue?: unknown) =>
+      key in config ? config[key] : defaultValue,
+    ),
+  };
+
+  const createService = async (
+    overrides: Record<string, unknown> = {},
+  ): Promise<PasswordHasherService> => {
+    config = { ...baseConfig, ...overrides };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PasswordHasherService,
+        { provide: ConfigService, useValue: mockConfigService },
+      ],
+    }).compile();
+
+    return module.get<PasswordHasherService>(PasswordHasherService);
+  };
+
+  it('should be defined', async () => {
+    expect(await createService()).toBeDefined();
+  });
+
+  it('should hash with argon2id by default', async () => {
+    const service = await createService();
+
+    const hash = await service.hash('Correct9Horse');
+
+    expect(hash).toMatch(/^\$argon2id\$/);
+    await expect(service.verify(hash, 'Correct9Horse')).resolves.toBe(true);
+    await expect(service.verify(hash, 'wrong')).resolves.toBe(false);
+    expect(service.needsRehash(hash)).toBe(false);
+  });
+
+  it('should verify legacy bcrypt hashes and flag them for rehash', async () => {
+    const service = await createService();
+    const legacyHash = await bcrypt.hash('Correct9Horse', 4);
+
+    await expect(service.verify(legacyHash, 'Correct9Horse')).resolves.toBe(
+      true,
+    );
+    expect(service.needsRehash(legacyHash)).toBe(true);
+  });
+
+  it('should flag argon2 hashes made with weaker parameters', async () => {
+    const weakService = await createService({ ARGON2_TIME_COST: 1 });
+    const weakHash = await weakService.hash('Correct9Horse');
+
+    const service = await createService();
+
+    expect(service.needsRehash(weakHash)).toBe(true);
+  });
+
+  it('should hash with bcrypt when configured', async () => {
+    const service = await createService({ PASSWORD_HASH_ALGORITHM: 'bcrypt' });
+
+    const hash = await service.hash('Correct9Horse');
+
+    expect(hash).toMatch(/^\$2b\$04\$/);
+    expect(service.needsRehash(hash)).toBe(false);
+    expect(service.needsRehash(await bcrypt.hash('Correct9Horse', 4))).toBe(
+      false,
+    );
+  });
+
+  it('should reject unknown hash formats', async () => {
+    const service = await createService();
+
+    await expect(service.verify('plaintext', 'plaintext')).resolves.toBe(false);
+  });
+});
@@ -0,0 +1,71 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  PasswordHashAlgorithm,
+  PasswordHasher,
+} from './interfaces/password-hasher.interface';
+import { Argon2Hasher } from './hashers/argon2.hasher';
+import { BcryptHasher } from './hashers/bcrypt.hasher';
+
+@Injectable()
+export class PasswordHasherService {
+  private readonly hashers: PasswordHasher[];
+  private readonly currentHasher: PasswordHasher;
+
+  constructor(private configService: ConfigService) {
+    // Defaults follow the OWASP password storage recommendations
+    this.hashers = [
+      new Argon2Hasher({
+        memoryCost: Number(
+          this.configService.get('ARGON2_MEMORY_COST_KIB', 19456),
+        ),
+        timeCost: Number(this.configService.get('ARGON2_TIME_COST', 2)),
+        parallelism: Number(this.configService.get('ARGON2_PARALLELISM', 1)),
+      }),
+      new BcryptHasher(Number(this.configService.get('BCRYPT_ROUNDS', 12))),
+    ];
+
+    const algorithm = this.configService.get<PasswordHashAlgorithm>(
+      'PASSWORD_HASH_ALGORITHM',
+      'argon2id',
+    );
+    const currentHasher = this.hashers.find(
+      (hasher) => hasher.algorithm === algorithm,
+    );
+
+    if (!currentHasher) {
+      throw new Error(`Unsupported PASSWORD_HASH_ALGORITHM: ${algorithm}`);
+    }
+
+    this.currentHasher = currentHasher;
+  }
+
+  /**
+   * Hash with the configured algorithm
+   */
+  hash(password: string): Promise<string> {
+    return this.currentHasher.hash(password);
+  }
+
+  /**
+   * Verify against a hash produced by any supported algorithm
+   */
+  async verify(hash: string, password: string): Promise<boolean> {
+    const hasher = this.findHasher(hash);
+
+    return hasher ? hasher.verify(hash, password) : false;
+  }
+
+  /**
+   * Whether the hash should be replaced with one from the configured algorithm and parameters
+   */
+  needsRehash(hash: string): boolean {
+    const hasher = this.findHasher(hash);
+
+    return hasher !== this.currentHasher || hasher.needsRehash(hash);
+  }
+
+  private findHasher(hash: string): PasswordHasher | undefined {
+    return this.hashers.find((hasher) => hasher.supports(hash));
+  }
+}
@@ -0,0 +1,165 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { PasswordPolicyService } from './password-policy.service';
+
+describe('PasswordPolicyService', () => {
+  let service: PasswordPolicyService;
+  let config: Record<string, unknown>;
+
+  const mockConfigService = {
+    get: jest.fn((key: string, defaultValue?: unknown) =>
+      key in config ? config[key] : defaultValue,
+    ),
+  };
+
+  const breachedListFile = path.join(
+    os.tmpdir(),
+    `breached-passwords-${process.pid}.txt`,
+  );
+
+  const sha1 = (value: string) =>
+    crypto.createHash('sha1').update(value).digest('hex').toUpperCase();
+
+  // Sorted like the Have I Been Pwned download, with CRLF line endings
+  const breachedPasswords = Array.from(
+    { length: 500 },
+    (_, index) => `leaked-${index}`,
+  ).concat('Password1234');
+
+  beforeAll(() => {
+    fs.writeFileSync(
+      breachedListFile,
+      breachedPasswords
+        .map(sha1)
+        .sort()
+        .map((hash, index) => `${hash}:${index * 7919 + 1}`)
+        .join('\r\n'),
+    );
+  });
+
+  afterAll(() => {
+    fs.rmSync(breachedListFile, { force: true });
+  });
+
+  beforeEach(async () => {
+    config = {};
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PasswordPolicyService,
+        { provide: ConfigService, useValue: mockConfigService },
+      ],
+    }).compile();
+
+    service = module.get<PasswordPolicyService>(PasswordPolicyService);
+
+    jest.clearAllMocks();
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  it('should accept a password that satisfies the default policy', async () => {
+    await expect(service.validate('Correct9Horse')).resolves.toEqual([]);
+  });
+
+  it('should report every violated rule', async () => {
+    const violations = await service.validate('abc');
+
+    expect(violations.map((violation) => violation.rule)).toEqual([
+      'minLength',
+      'uppercase',
+      'number',
+    ]);
+  });
+
+  it('should reject passwords longer than the maximum length', async () => {
+    const violations = await service.validate(`Aa1${'x'.repeat(130)}`);
+
+    expect(violations.map((violation) => violation.rule)).toEqual([
+      'maxLength',
+    ]);
+  });
+
+  it('should reject passwords longer than bcrypt can hash', async () => {
+    config = { PASSWORD_HASH_ALGORITHM: 'bcrypt' };
+
+    const violations = await service.validate(`Aa1${'x'.repeat(70)}`);
+
+    expect(violations.map((violation) => violation.rule)).toEqual([
+      'maxLength',
+    ]);
+  });
+
+  it('should apply configured rules', async () => {
+    config = { PASSWORD_MIN_LENGTH: '4', PASSWORD_REQUIRE_SYMBOL: 'true' };
+
+    const violations = await service.validate('Abc1');
+
+    expect(violations.map((violation) => violation.rule)).toEqual(['symbol']);
+  });
+
+  it("should reject passwords containing the user's email or name", async () => {
+    await expect(
+      service.validate('Jdoe2024Secret', { email: 'jdoe@example.com' }),
+    ).resolves.toEqual([expect.objectContaining({ rule: 'personalInfo' })]);
+
+    await expect(
+      service.validate('MaryPoppins99', { displayName: 'Mary Smith' }),
+    ).resolves.toEqual([expect.objectContaining({ rule: 'personalInfo' })]);
+  });
+
+  it('should reject passwords found in the breached corpus', async () => {
+    config = { PASSWORD_BREACHED_LIST_FILE: breachedListFile };
+
+    await expect(service.validate('Password1234')).resolves.toEqual([
+      expect.objectContaining({ rule: 'breached' }),
+    ]);
+    await expect(service.validate('Correct9Horse')).resolves.toEqual([]);
+  });
+
+  it('should binary search the sorted corpus on disk', async () => {
+    config = { PASSWORD_BREACHED_LIST_FILE: breachedListFile };
+
+    for (const password of breachedPasswords) {
+      const violations = await service.validate(password);
+
+      expect(violations.map((violation) => violation.rule)).toContain(
+        'breached',
+      );
+    }
+
+    for (let index = 500; index < 600; index++) {
+      const violations = await service.validate(`leaked-${index}`);
+
+      expect(violations.map((violation) => violation.rule)).not.toContain(
+        'breached',
+      );
+    }
+  });
+
+  it('should throw structured errors from assertValid', async () => {
+    await expect(service.assertValid('abc')).rejects.toThrow(
+      BadRequestException,
+    );
+
+    try {
+      await service.assertValid('abc');
+    } catch (error) {
+      expect((error as BadRequestException).getResponse()).toMatchObject({
+        message: expect.arrayContaining([
+          'Password must contain an uppercase letter',
+        ]) as string[],
+        violations: expect.arrayContaining([
+          { rule: 'number', message: 'Password must contain a number' },
+        ]) as unknown[],
+      });
+    }
+  });
+});
@@ -0,0 +1,267 @@
+import { BadRequestException, Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as crypto from 'crypto';
+import { open, type FileHandle } from 'fs/promises';
+import {
+  PasswordPolicyContext,
+  PasswordPolicyViolation,
+} from './interfaces/password-policy.interface';
+
+// bcrypt silently ignores everything after the first 72 bytes
+const BCRYPT_MAX_BYTES = 72;
+
+// Upper bound for argon2id, which has no practical limit of its own
+const DEFAULT_MAX_BYTES = 128;
+
+// Personal info fragments shorter than this are too common to ban
+const MIN_PERSONAL_FRAGMENT_LENGTH = 3;
+
+// Enough for any line of the breached corpus ("<40 hex>:<count>\r\n") read from mid-line
+const CORPUS_READ_BYTES = 256;
+
+@Injectable()
+export class PasswordPolicyService {
+  private readonly logger = new Logger(PasswordPolicyService.name);
+
+  constructor(private configService: ConfigService) {}
+
+  /**
+   * Throw a BadRequestException listing every rule the password breaks
+   */
+  async assertValid(
+    password: string,
+    context: PasswordPolicyContext = {},
+  ): Promise<void> {
+    const violations = await this.validate(password, context);
+
+    if (violations.length > 0) {
+      throw new BadRequestException({
+        statusCode: 400,
+        error: 'Bad Request',
+        message: violations.map((violation) => violation.message),
+        violations,
+      });
+    }
+  }
+
+  async validate(
+    password: string,
+    context: PasswordPolicyContext = {},
+  ): Promise<PasswordPolicyViolation[]> {
+    const violations: PasswordPolicyViolation[] = [];
+
+    const minLength = Number(this.configService.get('PASSWORD_MIN_LENGTH', 10));
+    const configuredMaxBytes = Number(
+      this.configService.get('PASSWORD_MAX_LENGTH', DEFAULT_MAX_BYTES),
+    );
+    const maxBytes =
+      this.configService.get('PASSWORD_HASH_ALGORITHM') === 'bcrypt'
+        ? Math.min(configuredMaxBytes, BCRYPT_MAX_BYTES)
+        : configuredMaxBytes;
+
+    if ([...password].length < minLength) {
+      violations.push({
+        rule: 'minLength',
+        message: `Password must be at least ${minLength} characters long`,
+      });
+    }
+
+    if (Buffer.byteLength(password, 'utf8') > maxBytes) {
+      violations.push({
+        rule: 'maxLength',
+        message: `Password must be at most ${maxBytes} bytes long`,
+      });
+    }
+
+    if (
+      this.isEnabled('PASSWORD_REQUIRE_UPPERCASE', true) &&
+      !/\p{Lu}/u.test(password)
+    ) {
+      violations.push({
+        rule: 'uppercase',
+        message: 'Password must contain an uppercase letter',
+      });
+    }
+
+    if (
+      this.isEnabled('PASSWORD_REQUIRE_LOWERCASE', true) &&
+      !/\p{Ll}/u.test(password)
+    ) {
+      violations.push({
+        rule: 'lowercase',
+        message: 'Password must contain a lowercase letter',
+      });
+    }
+
+    if (
+      this.isEnabled('PASSWORD_REQUIRE_NUMBER', true) &&
+      !/\p{N}/u.test(password)
+    ) {
+      violations.push({
+        rule: 'number',
+        message: 'Password must contain a number',
+      });
+    }
+
+    if (
+      this.isEnabled('PASSWORD_REQUIRE_SYMBOL', false) &&
+      !/[^\p{L}\p{N}]/u.test(password)
+    ) {
+      violations.push({
+        rule: 'symbol',
+        message: 'Password must contain a symbol',
+      });
+    }
+
+    if (this.containsPersonalInfo(password, context)) {
+      violations.push({
+        rule: 'personalInfo',
+        message: 'Password must not contain your email address or name',
+      });
+    }
+
+    if (await this.isBreached(password)) {
+      violations.push({
+        rule: 'breached',
+        message: 'Password has appeared in a data breach and cannot be used',
+      });
+    }
+
+    return violations;
+  }
+
+  private containsPersonalInfo(
+    password: string,
+    context: PasswordPolicyContext,
+  ): boolean {
+    const normalizedPassword = password.toLowerCase();
+    const [emailLocalPart] = (context.email ?? '').toLowerCase().split('@');
+
+    const fragments = [
+      emailLocalPart,
+      ...[context.firstName, context.lastName, context.displayName].flatMap(
+        (value) => (value ?? '').toLowerCase().split(/\s+/),
+      ),
+    ];
+
+    return fragments.some(
+      (fragment) =>
+        fragment.length >= MIN_PERSONAL_FRAGMENT_LENGTH &&
+        normalizedPassword.includes(fragment),
+    );
+  }
+
+  /**
+   * Check the password against the offline corpus in PASSWORD_BREACHED_LIST_FILE:
+   * one SHA-1 hash per line, optionally followed by ":<count>", sorted by hash (the
+   * Have I Been Pwned "ordered by hash" download). The file is binary searched on
+   * disk, so even the full list of several hundred million hashes needs no memory.
+   */
+  private async isBreached(password: string): Promise<boolean> {
+    const file = this.configService.get<string>('PASSWORD_BREACHED_LIST_FILE');
+
+    if (!file) {
+      return false;
+    }
+
+    const hash = crypto
+      .createHash('sha1')
+      .update(password, 'utf8')
+      .digest('hex')
+      .toUpperCase();
+
+    try {
+      const handle = await open(file, 'r');
+
+      try {
+        return await this.searchSortedCorpus(handle, hash);
+      } finally {
+        await handle.close();
+      }
+    } catch (error) {
+      // Fail open: a missing corpus shouldn't block every password change
+      this.logger.error(
+        `Failed to read breached password list from ${file}`,
+        error,
+      );
+      return false;
+    }
+  }
+
+  private async searchSortedCorpus(
+    handle: FileHandle,
+    hash: string,
+  ): Promise<boolean> {
+    const { size } = await handle.stat();
+    let low = 0;
+    let high = size;
+
+    // Invariant: a matching line, if any, starts in [low, high)
+    while (low < high) {
+      const middle = Math.floor((low + high) / 2);
+      const line = await this.readLineFrom(handle, middle, size);
+
+      if (!line || line.start >= high) {
+        high = middle;
+        continue;
+      }
+
+      const lineHash = line.text.split(':')[0].trim().toUpperCase();
+
+      if (lineHash === hash) {
+        return true;
+      }
+
+      if (lineHash < hash) {
+        low = line.end;
+      } else {
+        high = middle;
+      }
+    }
+
+    return false;
+  }
+
+  /**
+   * The first whole line starting at or after the given byte offset
+   */
+  private async readLineFrom(
+    handle: FileHandle,
+    offset: number,
+    size: number,
+  ): Promise<{ text: string; start: number; end: number } | null> {
+    // Start one byte early to tell whether the offset is itself a line start
+    const position = Math.max(0, offset - 1);
+    const buffer = Buffer.alloc(CORPUS_READ_BYTES);
+    const { bytesRead } = await handle.read(
+      buffer,
+      0,
+      CORPUS_READ_BYTES,
+      position,
+    );
+    const chunk = buffer.subarray(0, bytesRead);
+
+    const lineStart = offset === 0 ? 0 : chunk.indexOf(0x0a) + 1;
+
+    if (offset > 0 && lineStart === 0) {
+      return null;
+    }
+
+    const newline = chunk.indexOf(0x0a, lineStart);
+    const lineEnd = newline === -1 ? bytesRead : newline;
+
+    if (position + lineStart >= size) {
+      return null;
+    }
+
+    return {
+      text: chunk.subarray(lineStart, lineEnd).toString('utf8'),
+      start: position + lineStart,
+      end: position + lineEnd + 1,
+    };
+  }
+
+  private isEnabled(key: string, defaultValue: boolean): boolean {
+    return String(this.configService.get(key, defaultValue)) === 'true';
+  }
+}
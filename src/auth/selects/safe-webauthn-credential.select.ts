@@ -0,0 +1,14 @@
+import { Prisma } from 'generated/prisma';
+
+export const safeWebauthnCredentialSelect = {
+  id: true,
+  credentialId: true,
+  name: true,
+  transports: true,
+  aaguid: true,
+  deviceType: true,
+  backedUp: true,
+  lastUsedAt: true,
+  createdAt: true,
+  updatedAt: true,
+} satisfies Prisma.WebauthnCredentialSelect;
@@ -0,0 +1,159 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { SessionService } from 'src/session/session.service';
+import { SecurityEventService } from 'src/security-event/security-event.service';
+import { FormattedSafeUser } from 'src/user/utils/transform-user.util';
+import { SessionLimitService } from './session-limit.service';
+import { SessionLimitExceededException } from './exceptions/session-limit-exceeded.exception';
+
+describe('SessionLimitService', () => {
+  let service: SessionLimitService;
+  let config: Record<string, unknown>;
+
+  const mockSessionService = {
+    findActiveByUserId: jest.fn(),
+    revokeSession: jest.fn(),
+  };
+
+  const mockSecurityEventService = {
+    record: jest.fn(),
+  };
+
+  const mockConfigService = {
+    get: jest.fn((key: string, defaultValue?: unknown) =>
+      key in config ? config[key] : defaultValue,
+    ),
+  };
+
+  const userWithRoles = (...maxSessions: (number | null)[]) =>
+    ({
+      id: 'user-id',
+      roles: maxSessions.map((limit) => ({ maxSessions: limit })),
+    }) as unknown as FormattedSafeUser;
+
+  const minutesAgo = (minutes: number) =>
+    new Date(Date.now() - minutes * 60 * 1000);
+
+  const sessions = [
+    {
+      id: 1,
+      sessionId: 'recent',
+      createdAt: minutesAgo(300),
+      lastUsedAt: minutesAgo(1),
+      oidcClient: null,
+    },
+    {
+      id: 2,
+      sessionId: 'least-recent',
+      createdAt: minutesAgo(200),
+      lastUsedAt: minutesAgo(100),
+      oidcClient: null,
+    },
+    {
+      id: 3,
+      sessionId: 'never-refreshed',
+      createdAt: minutesAgo(50),
+      lastUsedAt: null,
+      oidcClient: null,
+    },
+  ];
+
+  beforeEach(async () => {
+    config = {};
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SessionLimitService,
+        { provide: SessionService, useValue: mockSessionService },
+        { provide: SecurityEventService, useValue: mockSecurityEventService },
+        { provide: ConfigService, useValue: mockConfigService },
+      ],
+    }).compile();
+
+    service = module.get<SessionLimitService>(SessionLimitService);
+
+    jest.clearAllMocks();
+    mockSessionService.findActiveByUserId.mockResolvedValue([...sessions]);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  describe('getMaxSessions', () => {
+    it('should not limit sessions by default', () => {
+      expect(service.getMaxSessions(userWithRoles(null))).toBeNull();
+    });
+
+    it('should apply the strictest of the global and role limits', () => {
+      config = { MAX_SESSIONS_PER_USER: 5 };
+
+      expect(service.getMaxSessions(userWithRoles(null))).toBe(5);
+      expect(service.getMaxSessions(userWithRoles(8, 2))).toBe(2);
+    });
+  });
+
+  describe('enforce', () => {
+    it('should allow sign-ins below the limit', async () => {
+      config = { MAX_SESSIONS_PER_USER: 4 };
+
+      await service.enforce(userWithRoles());
+
+      expect(mockSessionService.revokeSession).not.toHaveBeenCalled();
+    });
+
+    it('should evict the least recently used session at the limit', async () => {
+      config = { MAX_SESSIONS_PER_USER: 3 };
+
+      await service.enforce(userWithRoles(), '203.0.113.1');
+
+      expect(mockSessionService.revokeSession).toHaveBeenCalledTimes(1);
+      expect(mockSessionService.revokeSession).toHaveBeenCalledWith(
+        2,
+        'session_limit',
+      );
+      expect(mockSecurityEventService.record).toHaveBeenCalledWith(
+        expect.objectContaining({
+          eventType: 'session_limit',
+          action: 'log',
+          signals: ['session_limit_evicted'],
+          sessionId: 'least-recent',
+          ipAddress: '203.0.113.1',
+        }),
+      );
+    });
+
+    it('should evict enough sessions when a role lowered the limit', async () => {
+      await service.enforce(userWithRoles(1));
+
+      expect(mockSessionService.revokeSession).toHaveBeenCalledTimes(3);
+    });
+
+    it('should reject the sign-in with the reject strategy', async () => {
+      config = { MAX_SESSIONS_PER_USER: 3, SESSION_LIMIT_STRATEGY: 'reject' };
+
+      await expect(service.enforce(userWithRoles())).rejects.toThrow(
+        SessionLimitExceededException,
+      );
+
+      expect(mockSessionService.revokeSession).not.toHaveBeenCalled();
+      expect(mockSecurityEventService.record).toHaveBeenCalledWith(
+        expect.objectContaining({
+          eventType: 'session_limit',
+          action: 'log',
+          signals: ['session_limit_rejected'],
+        }),
+      );
+    });
+
+    it('should not count sessions of OpenID Connect clients', async () => {
+      config = { MAX_SESSIONS_PER_USER: 3, SESSION_LIMIT_STRATEGY: 'reject' };
+      mockSessionService.findActiveByUserId.mockResolvedValue([
+        ...sessions.slice(0, 2),
+        { ...sessions[2], oidcClient: { id: 'client-id' } },
+      ]);
+
+      await expect(service.enforce(userWithRoles())).resolves.toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,140 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { SessionService } from 'src/session/session.service';
+import { SecurityEventService } from 'src/security-event/security-event.service';
+import { SessionLimitSignal } from 'src/security-event/interfaces/security-event.interface';
+import { FormattedSafeUser } from 'src/user/utils/transform-user.util';
+import { SessionLimitExceededException } from './exceptions/session-limit-exceeded.exception';
+
+export type SessionLimitStrategy = 'reject' | 'evict';
+
+/**
+ * Stored as the revocation reason of evicted sessions, so their next refresh can say why
+ */
+export const SESSION_LIMIT_REVOKED_REASON = 'session_limit';
+
+@Injectable()
+export class SessionLimitService {
+  private readonly logger = new Logger(SessionLimitService.name);
+
+  constructor(
+    private sessionService: SessionService,
+    private securityEventService: SecurityEventService,
+    private configService: ConfigService,
+  ) {}
+
+  /**
+   * Make room for a new sign-in session. At the limit, 'reject' refuses the sign-in and
+   * 'evict' revokes the least recently used sessions. Sessions of OpenID Connect clients
+   * are not sign-ins on a device and don't count.
+   */
+  async enforce(
+    user: FormattedSafeUser,
+    ipAddress?: string,
+    userAgent?: string,
+  ): Promise<void> {
+    const maxSessions = this.getMaxSessions(user);
+
+    if (maxSessions === null) {
+      return;
+    }
+
+    const sessions = (
+      await this.sessionService.findActiveByUserId(user.id)
+    ).filter((session) => !session.oidcClient);
+
+    if (sessions.length < maxSessions) {
+      return;
+    }
+
+    if (this.getStrategy() === 'reject') {
+      this.logger.warn(
+        `Sign-in of user ${user.id} rejected: ${sessions.length} of ${maxSessions} sessions in use`,
+      );
+      await this.record(
+        user.id,
+        'session_limit_rejected',
+        ipAddress,
+        userAgent,
+      );
+      throw new SessionLimitExceededException(maxSessions);
+    }
+
+    const lastUsed = (session: { lastUsedAt: Date | null; createdAt: Date }) =>
+      (session.lastUsedAt ?? session.createdAt).getTime();
+
+    const evicted = sessions
+      .sort((a, b) => lastUsed(a) - lastUsed(b))
+      .slice(0, sessions.length - maxSessions + 1);
+
+    for (const session of evicted) {
+      await this.sessionService.revokeSession(
+        session.id,
+        SESSION_LIMIT_REVOKED_REASON,
+      );
+      await this.record(
+        user.id,
+        'session_limit_evicted',
+        ipAddress,
+        userAgent,
+        session.sessionId,
+      );
+    }
+
+    this.logger.warn(
+      `Session limit of ${maxSessions} reached for user ${user.id}: evicted ${evicted.length} session(s)`,
+    );
+  }
+
+  /**
+   * MAX_SESSIONS_PER_USER (0 means unlimited), lowered by the strictest role override.
+   * Null when there is no limit.
+   */
+  getMaxSessions(user: FormattedSafeUser): number | null {
+    const configured = Number(
+      this.configService.get('MAX_SESSIONS_PER_USER', 0),
+    );
+    const limits = [
+      ...(configured > 0 ? [configured] : []),
+      ...user.roles
+        .map((role) => role.maxSessions)
+        .filter((limit): limit is number => typeof limit === 'number'),
+    ];
+
+    return limits.length > 0 ? Math.min(...limits) : null;
+  }
+
+  private getStrategy(): SessionLimitStrategy {
+    return this.configService.get<string>('SESSION_LIMIT_STRATEGY', 'evict') ===
+      'reject'
+      ? 'reject'
+      : 'evict';
+  }
+
+  /**
+   * Lets admins see at /security-events when limits were hit: a 'session_limit_rejected'
+   * signal for a refused sign-in, 'session_limit_evicted' for each evicted session (named
+   * by sessionId). Recording is best-effort, like the suspicious activity audit.
+   */
+  private async record(
+    userId: string,
+    signal: SessionLimitSignal,
+    ipAddress?: string,
+    userAgent?: string,
+    sessionId?: string,
+  ): Promise<void> {
+    try {
+      await this.securityEventService.record({
+        userId,
+        sessionId,
+        eventType: 'session_limit',
+        action: 'log',
+        signals: [signal],
+        ipAddress,
+        userAgent,
+      });
+    } catch (error) {
+      this.logger.error('Failed to record security event', error);
+    }
+  }
+}
@@ -0,0 +1,103 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { SessionPolicyService } from './session-policy.service';
+import { FormattedSafeUser } from 'src/user/utils/transform-user.util';
+
+describe('SessionPolicyService', () => {
+  let service: SessionPolicyService;
+  let config: Record<string, unknown>;
+
+  const HOUR_MS = 60 * 60 * 1000;
+  const DAY_MS = 24 * HOUR_MS;
+
+  const mockConfigService = {
+    get: jest.fn((key: string, defaultValue?: unknown) =>
+      key in config ? config[key] : defaultValue,
+    ),
+  };
+
+  const userWithRoles = (
+    ...roles: {
+      sessionLifetimeMins?: number | null;
+      sessionMaxAgeMins?: number | null;
+    }[]
+  ) => ({ id: 'user-id', roles }) as unknown as FormattedSafeUser;
+
+  const expectAbout = (date: Date, msFromNow: number) =>
+    expect(Math.abs(date.getTime() - (Date.now() + msFromNow))).toBeLessThan(
+      1000,
+    );
+
+  beforeEach(async () => {
+    config = {};
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SessionPolicyService,
+        { provide: ConfigService, useValue: mockConfigService },
+      ],
+    }).compile();
+
+    service = module.get<SessionPolicyService>(SessionPolicyService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  describe('start', () => {
+    it('should use the long lifetime for remembered sessions', () => {
+      const lifetime = service.start(userWithRoles({}), true);
+
+      expect(lifetime.rememberMe).toBe(true);
+      expectAbout(lifetime.expiresAt, 7 * DAY_MS);
+      expectAbout(lifetime.maxExpiresAt, 30 * DAY_MS);
+    });
+
+    it('should use the short lifetime for browser sessions', () => {
+      const lifetime = service.start(userWithRoles({}), false);
+
+      expect(lifetime.rememberMe).toBe(false);
+      expectAbout(lifetime.expiresAt, 12 * HOUR_MS);
+    });
+
+    it('should apply the strictest role override', () => {
+      const lifetime = service.start(
+        userWithRoles(
+          { sessionLifetimeMins: null },
+          { sessionLifetimeMins: 120, sessionMaxAgeMins: 1440 },
+        ),
+        true,
+      );
+
+      expectAbout(lifetime.expiresAt, 2 * HOUR_MS);
+      expectAbout(lifetime.maxExpiresAt, DAY_MS);
+    });
+  });
+
+  describe('renew', () => {
+    it('should slide the expiry forward but not past the absolute maximum', () => {
+      const maxExpiresAt = new Date(Date.now() + 3 * DAY_MS);
+
+      const lifetime = service.renew(userWithRoles({}), {
+        rememberMe: true,
+        maxExpiresAt,
+      });
+
+      expect(lifetime.expiresAt).toEqual(maxExpiresAt);
+      expect(lifetime.maxExpiresAt).toEqual(maxExpiresAt);
+    });
+
+    it('should keep the browser session choice', () => {
+      config = { SESSION_BROWSER_LIFETIME_HOURS: 2 };
+
+      const lifetime = service.renew(userWithRoles({}), {
+        rememberMe: false,
+        maxExpiresAt: new Date(Date.now() + DAY_MS),
+      });
+
+      expect(lifetime.rememberMe).toBe(false);
+      expectAbout(lifetime.expiresAt, 2 * HOUR_MS);
+    });
+  });
+});
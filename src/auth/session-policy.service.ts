@@ -0,0 +1,92 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { FormattedSafeUser } from 'src/user/utils/transform-user.util';
+import { SessionLifetime } from './interfaces/session-policy.interface';
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+const DAY_MS = 24 * HOUR_MS;
+
+/**
+ * The single source of session lifetimes: the refresh token's JWT expiry, Session.expiresAt
+ * and the refresh token cookie are all derived from the SessionLifetime computed here.
+ */
+@Injectable()
+export class SessionPolicyService {
+  constructor(private configService: ConfigService) {}
+
+  /**
+   * Lifetime of a session created at sign-in
+   */
+  start(user: FormattedSafeUser, rememberMe: boolean): SessionLifetime {
+    const maxExpiresAt = new Date(Date.now() + this.getMaxAgeMs(user));
+
+    return this.slide(user, rememberMe, maxExpiresAt);
+  }
+
+  /**
+   * Lifetime of the session that replaces one on refresh: the expiry slides forward, but
+   * never past the absolute limit set at sign-in
+   */
+  renew(
+    user: FormattedSafeUser,
+    session: { rememberMe: boolean; maxExpiresAt: Date | null },
+  ): SessionLifetime {
+    // Sessions created before the absolute limit existed get one from now on
+    const maxExpiresAt =
+      session.maxExpiresAt ?? new Date(Date.now() + this.getMaxAgeMs(user));
+
+    return this.slide(user, session.rememberMe, maxExpiresAt);
+  }
+
+  private slide(
+    user: FormattedSafeUser,
+    rememberMe: boolean,
+    maxExpiresAt: Date,
+  ): SessionLifetime {
+    const expiresAt = new Date(
+      Math.min(
+        Date.now() + this.getLifetimeMs(user, rememberMe),
+        maxExpiresAt.getTime(),
+      ),
+    );
+
+    return { rememberMe, expiresAt, maxExpiresAt };
+  }
+
+  /**
+   * Sliding lifetime: how long a session survives without a refresh. Role overrides can
+   * only shorten it, and the strictest role of the user wins.
+   */
+  private getLifetimeMs(user: FormattedSafeUser, rememberMe: boolean): number {
+    const configured = rememberMe
+      ? Number(this.configService.get('JWT_REFRESH_EXPIRY_DAYS', 7)) * DAY_MS
+      : Number(this.configService.get('SESSION_BROWSER_LIFETIME_HOURS', 12)) *
+        HOUR_MS;
+
+    return Math.min(
+      configured,
+      ...this.getRoleLimitsMs(user, 'sessionLifetimeMins'),
+    );
+  }
+
+  private getMaxAgeMs(user: FormattedSafeUser): number {
+    const configured =
+      Number(this.configService.get('SESSION_MAX_AGE_DAYS', 30)) * DAY_MS;
+
+    return Math.min(
+      configured,
+      ...this.getRoleLimitsMs(user, 'sessionMaxAgeMins'),
+    );
+  }
+
+  private getRoleLimitsMs(
+    user: FormattedSafeUser,
+    key: 'sessionLifetimeMins' | 'sessionMaxAgeMins',
+  ): number[] {
+    return user.roles
+      .map((role) => role[key])
+      .filter((minutes): minutes is number => typeof minutes === 'number')
+      .map((minutes) => minutes * MINUTE_MS);
+  }
+}
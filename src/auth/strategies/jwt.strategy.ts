@@ -1,35 +1,182 @@
 import { Injectable, UnauthorizedException } from '@nestjs/common';
 import { PassportStrategy } from '@nestjs/passport';
+import { Strategy } from 'passport-custom';
+import type { Request } from 'express';
 import { AuthService } from '../auth.service';
-import { ExtractJwt, Strategy, StrategyOptions } from 'passport-jwt';
-import { ConfigService } from '@nestjs/config';
+import { JwtKeyService } from '../jwt-key.service';
+import { SessionService } from 'src/session/session.service';
 import { FormattedSafeUser } from 'src/user/utils/transform-user.util';
+import {
+  PERSONAL_ACCESS_TOKEN_PREFIX,
+  PersonalAccessTokenService,
+} from 'src/personal-access-token/personal-access-token.service';
+import { ServiceAccountService } from 'src/service-account/service-account.service';
+import { ServiceAccountPrincipal } from 'src/service-account/interfaces/service-account.interface';
+import { ImpersonationService } from 'src/impersonation/impersonation.service';
 
 @Injectable()
-export class JwtStrategy extends PassportStrategy(Strategy) {
-  constructor(private configService: ConfigService, private authService: AuthService) {
-    const secret = configService.get<string>('JWT_SECRET');
-    
-    if (!secret) {
-      throw new Error('JWT_SECRET is not defined in environment variables');
+export class JwtStrategy extends PassportStrategy(Strategy, 'jwt') {
+  constructor(
+    private jwtKeyService: JwtKeyService,
+    private authService: AuthService,
+    private sessionService: SessionService,
+    private personalAccessTokenService: PersonalAccessTokenService,
+    private serviceAccountService: ServiceAccountService,
+    private impersonationService: ImpersonationService,
+  ) {
+    super();
+  }
+
+  async validate(
+    req: Request,
+  ): Promise<FormattedSafeUser | ServiceAccountPrincipal> {
+    const [scheme, token] = (req.get('authorization') ?? '').split(' ');
+
+    if (scheme?.toLowerCase() !== 'bearer' || !token) {
+      throw new UnauthorizedException();
+    }
+
+    if (token.startsWith(PERSONAL_ACCESS_TOKEN_PREFIX)) {
+      return this.validatePersonalAccessToken(req, token);
+    }
+
+    // The verification key is resolved from the token's kid
+    const payload = this.jwtKeyService.verifyAccessToken(token);
+
+    // client_credentials tokens belong to a service account, not a user session
+    if (
+      payload &&
+      !payload.type &&
+      typeof payload.client_id === 'string' &&
+      typeof payload.sub === 'string' &&
+      typeof payload.scope === 'string'
+    ) {
+      const principal = await this.serviceAccountService.resolvePrincipal(
+        payload.sub,
+        payload.scope,
+      );
+
+      if (!principal) {
+        throw new UnauthorizedException('Invalid or expired token');
+      }
+
+      return principal;
+    }
+
+    // Impersonation tokens have no session, the impersonation record takes its place
+    if (payload && !payload.type && typeof payload.imp === 'string') {
+      return this.validateImpersonationToken(payload);
+    }
+
+    // Refresh and MFA challenge tokens are not access tokens
+    if (
+      !payload ||
+      payload.type ||
+      typeof payload.sub !== 'string' ||
+      typeof payload.sid !== 'string' ||
+      typeof payload.ver !== 'number'
+    ) {
+      throw new UnauthorizedException('Invalid or expired token');
+    }
+
+    // Rejects tokens whose session was logged out, revoked or has expired, and
+    // tokens issued before the user's token version was bumped
+    const sessionActive = await this.sessionService.isAccessTokenSessionActive(
+      payload.sid,
+      payload.sub,
+      payload.ver,
+    );
+
+    if (!sessionActive) {
+      throw new UnauthorizedException('Invalid or expired token');
+    }
+
+    this.sessionService.trackActivity(payload.sid);
+
+    const user = await this.authService.validateUserById(payload.sub);
+
+    if (!user) {
+      throw new UnauthorizedException('Invalid or expired token');
     }
 
-    const options: StrategyOptions = {
-      jwtFromRequest: ExtractJwt.fromAuthHeaderAsBearerToken(),
-      ignoreExpiration: false,
-      secretOrKey: secret,
-    };
+    // Tokens issued to an OpenID Connect client name it (azp) and what it was granted.
+    // Only first-party sessions expose their id, which step-up checks (@RequireRecentAuth) need.
+    if (typeof payload.azp === 'string' && typeof payload.scope === 'string') {
+      Object.assign(req, {
+        oidcGrant: { clientId: payload.azp, scopes: payload.scope.split(' ') },
+      });
+    } else {
+      Object.assign(req, { sessionId: payload.sid });
+    }
 
-    super(options);
+    return user;
   }
 
-  async validate(payload: any): Promise<FormattedSafeUser> {
+  /**
+   * Impersonation tokens authenticate as the target user and name the acting admin (act)
+   */
+  private async validateImpersonationToken(
+    payload: Record<string, unknown>,
+  ): Promise<FormattedSafeUser> {
+    const actor = payload.act as { sub?: unknown } | undefined;
+
+    if (
+      typeof payload.sub !== 'string' ||
+      typeof payload.ver !== 'number' ||
+      typeof actor?.sub !== 'string'
+    ) {
+      throw new UnauthorizedException('Invalid or expired token');
+    }
+
+    const impersonator = await this.impersonationService.resolve(
+      payload.imp as string,
+      payload.sub,
+      actor.sub,
+      payload.ver,
+    );
+
+    if (!impersonator) {
+      throw new UnauthorizedException('Invalid or expired token');
+    }
+
     const user = await this.authService.validateUserById(payload.sub);
 
     if (!user) {
       throw new UnauthorizedException('Invalid or expired token');
     }
 
+    return { ...user, impersonator };
+  }
+
+  /**
+   * Personal access tokens authenticate as their user; RolesGuard limits them to their scopes
+   */
+  private async validatePersonalAccessToken(
+    req: Request,
+    token: string,
+  ): Promise<FormattedSafeUser> {
+    const personalAccessToken =
+      await this.personalAccessTokenService.validate(token);
+
+    if (!personalAccessToken) {
+      throw new UnauthorizedException('Invalid or expired token');
+    }
+
+    const user = await this.authService.validateUserById(
+      personalAccessToken.userId,
+    );
+
+    if (!user) {
+      throw new UnauthorizedException('Invalid or expired token');
+    }
+
+    Object.assign(req, {
+      personalAccessToken: {
+        id: personalAccessToken.id,
+        scopes: personalAccessToken.scopes,
+      },
+    });
+
     return user;
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,242 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { SuspiciousActivityService } from './suspicious-activity.service';
+import { SecurityEventService } from 'src/security-event/security-event.service';
+import { parseUserAgent } from './utils/user-agent.util';
+import { GeoIpService } from 'src/geoip/geoip.service';
+import { SessionService } from 'src/session/session.service';
+
+const CHROME_WINDOWS =
+  'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36';
+const CHROME_WINDOWS_UPDATED =
+  'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/126.0.0.0 Safari/537.36';
+const SAFARI_IPHONE =
+  'Mozilla/5.0 (iPhone; CPU iPhone OS 17_0 like Mac OS X) AppleWebKit/605.1.15 (KHTML, like Gecko) Version/17.0 Mobile/15E148 Safari/604.1';
+
+describe('SuspiciousActivityService', () => {
+  let service: SuspiciousActivityService;
+  let config: Record<string, unknown>;
+
+  const mockSecurityEventService = {
+    record: jest.fn(),
+    findRecentByUser: jest.fn(),
+  };
+
+  const mockGeoIpService = {
+    lookup: jest.fn(),
+  };
+
+  const mockSessionService = {
+    findLatestLocatedByUserId: jest.fn(),
+  };
+
+  // Paris and New York are about 5840 km apart
+  const PARIS = { latitude: 48.8566, longitude: 2.3522 };
+  const NEW_YORK = { latitude: 40.7128, longitude: -74.006 };
+
+  const mockConfigService = {
+    get: jest.fn((key: string, defaultValue?: unknown) =>
+      key in config ? config[key] : defaultValue,
+    ),
+  };
+
+  const pastLogin = (userAgent: string, overrides = {}) => ({
+    ipAddress: '203.0.113.1',
+    deviceFamily: parseUserAgent(userAgent).family,
+    createdAt: new Date(),
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    config = {};
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SuspiciousActivityService,
+        { provide: SecurityEventService, useValue: mockSecurityEventService },
+        { provide: ConfigService, useValue: mockConfigService },
+        { provide: GeoIpService, useValue: mockGeoIpService },
+        { provide: SessionService, useValue: mockSessionService },
+      ],
+    }).compile();
+
+    service = module.get<SuspiciousActivityService>(SuspiciousActivityService);
+
+    jest.clearAllMocks();
+    mockSecurityEventService.findRecentByUser.mockResolvedValue([]);
+    mockGeoIpService.lookup.mockReturnValue(null);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  it('should ignore browser version updates on refresh', async () => {
+    const decision = await service.evaluate({
+      eventType: 'refresh',
+      userId: 'user-id',
+      ipAddress: '203.0.113.1',
+      userAgent: CHROME_WINDOWS_UPDATED,
+      previous: { ipAddress: '203.0.113.1', userAgent: CHROME_WINDOWS },
+    });
+
+    expect(decision).toEqual({ action: 'allow', signals: [] });
+  });
+
+  it('should apply the most severe configured action and record it', async () => {
+    config = {
+      SUSPICIOUS_ACTIVITY_IP_CHANGE_ACTION: 'log',
+      SUSPICIOUS_ACTIVITY_USER_AGENT_CHANGE_ACTION: 'reauth',
+    };
+
+    const decision = await service.evaluate({
+      eventType: 'refresh',
+      userId: 'user-id',
+      sessionId: 'sid',
+      ipAddress: '198.51.100.7',
+      userAgent: SAFARI_IPHONE,
+      previous: { ipAddress: '203.0.113.1', userAgent: CHROME_WINDOWS },
+    });
+
+    expect(decision).toEqual({
+      action: 'reauth',
+      signals: ['ip_change', 'user_agent_change'],
+    });
+    expect(mockSecurityEventService.record).toHaveBeenCalledWith(
+      expect.objectContaining({
+        userId: 'user-id',
+        sessionId: 'sid',
+        eventType: 'refresh',
+        action: 'reauth',
+        deviceFamily: 'Mobile Safari / iOS / mobile',
+      }),
+    );
+  });
+
+  it('should not flag the first login', async () => {
+    const decision = await service.evaluate({
+      eventType: 'login',
+      userId: 'user-id',
+      ipAddress: '198.51.100.7',
+      userAgent: SAFARI_IPHONE,
+    });
+
+    expect(decision.signals).toEqual([]);
+  });
+
+  it('should flag a login from a device not seen before', async () => {
+    mockSecurityEventService.findRecentByUser.mockResolvedValue([
+      pastLogin(CHROME_WINDOWS),
+    ]);
+
+    const decision = await service.evaluate({
+      eventType: 'login',
+      userId: 'user-id',
+      ipAddress: '203.0.113.1',
+      userAgent: SAFARI_IPHONE,
+    });
+
+    expect(decision).toEqual({
+      action: 'log',
+      signals: ['user_agent_change', 'new_device'],
+    });
+  });
+
+  it('should flag a login far from the usual hours once there is enough history', async () => {
+    const usualHour = new Date();
+    usualHour.setUTCHours(usualHour.getUTCHours() + 12);
+    mockSecurityEventService.findRecentByUser.mockResolvedValue(
+      Array.from({ length: 5 }, () =>
+        pastLogin(CHROME_WINDOWS, { createdAt: usualHour }),
+      ),
+    );
+
+    const decision = await service.evaluate({
+      eventType: 'login',
+      userId: 'user-id',
+      ipAddress: '203.0.113.1',
+      userAgent: CHROME_WINDOWS,
+    });
+
+    expect(decision.signals).toEqual(['unusual_hour']);
+  });
+
+  it('should flag travel faster than the configured speed', async () => {
+    mockGeoIpService.lookup.mockReturnValue(NEW_YORK);
+    mockSessionService.findLatestLocatedByUserId.mockResolvedValue({
+      ...PARIS,
+      createdAt: new Date(Date.now() - 60 * 60 * 1000),
+      lastUsedAt: null,
+    });
+
+    const decision = await service.evaluate({
+      eventType: 'refresh',
+      userId: 'user-id',
+      ipAddress: '198.51.100.7',
+      previous: { ipAddress: '198.51.100.7', userAgent: null },
+    });
+
+    expect(decision).toEqual({
+      action: 'log',
+      signals: ['impossible_travel'],
+    });
+  });
+
+  it('should accept travel that is possible in the time since the last session', async () => {
+    mockGeoIpService.lookup.mockReturnValue(NEW_YORK);
+    mockSessionService.findLatestLocatedByUserId.mockResolvedValue({
+      ...PARIS,
+      createdAt: new Date(Date.now() - 24 * 60 * 60 * 1000),
+      lastUsedAt: new Date(Date.now() - 12 * 60 * 60 * 1000),
+    });
+
+    const decision = await service.evaluate({
+      eventType: 'login',
+      userId: 'user-id',
+      ipAddress: '198.51.100.7',
+    });
+
+    expect(decision.signals).toEqual([]);
+  });
+
+  it('should ignore short distances, which are within GeoIP inaccuracy', async () => {
+    mockGeoIpService.lookup.mockReturnValue({
+      latitude: 48.9,
+      longitude: 2.4,
+    });
+    mockSessionService.findLatestLocatedByUserId.mockResolvedValue({
+      ...PARIS,
+      createdAt: new Date(),
+      lastUsedAt: null,
+    });
+
+    const decision = await service.evaluate({
+      eventType: 'login',
+      userId: 'user-id',
+      ipAddress: '198.51.100.7',
+    });
+
+    expect(decision.signals).toEqual([]);
+  });
+
+  it('should fall back to log for an unknown configured action', async () => {
+    config = { SUSPICIOUS_ACTIVITY_IP_CHANGE_ACTION: 'block' };
+
+    const decision = await service.evaluate({
+      eventType: 'refresh',
+      userId: 'user-id',
+      ipAddress: '198.51.100.7',
+      previous: { ipAddress: '203.0.113.1', userAgent: null },
+    });
+
+    expect(decision.action).toBe('log');
+  });
+
+  it('should still decide when the event cannot be recorded', async () => {
+    mockSecurityEventService.record.mockRejectedValueOnce(new Error('db down'));
+
+    await expect(
+      service.evaluate({ eventType: 'login', userId: 'user-id' }),
+    ).resolves.toEqual({ action: 'allow', signals: [] });
+  });
+});
@@ -0,0 +1,254 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { SecurityEvent } from 'generated/prisma';
+import { SecurityEventService } from 'src/security-event/security-event.service';
+import {
+  SECURITY_ACTIONS,
+  SecurityAction,
+  RiskSignal,
+} from 'src/security-event/interfaces/security-event.interface';
+import {
+  SuspiciousActivityContext,
+  SuspiciousActivityDecision,
+} from './interfaces/suspicious-activity.interface';
+import { parseUserAgent } from './utils/user-agent.util';
+import { GeoIpService } from 'src/geoip/geoip.service';
+import { distanceInKm } from 'src/geoip/utils/geo-distance.util';
+import { SessionService } from 'src/session/session.service';
+
+const SIGNAL_ACTION_KEYS: Record<RiskSignal, string> = {
+  ip_change: 'SUSPICIOUS_ACTIVITY_IP_CHANGE_ACTION',
+  user_agent_change: 'SUSPICIOUS_ACTIVITY_USER_AGENT_CHANGE_ACTION',
+  new_device: 'SUSPICIOUS_ACTIVITY_NEW_DEVICE_ACTION',
+  unusual_hour: 'SUSPICIOUS_ACTIVITY_UNUSUAL_HOUR_ACTION',
+  impossible_travel: 'SUSPICIOUS_ACTIVITY_IMPOSSIBLE_TRAVEL_ACTION',
+};
+
+@Injectable()
+export class SuspiciousActivityService {
+  private readonly logger = new Logger(SuspiciousActivityService.name);
+
+  constructor(
+    private securityEventService: SecurityEventService,
+    private configService: ConfigService,
+    private geoIpService: GeoIpService,
+    private sessionService: SessionService,
+  ) {}
+
+  /**
+   * Collect the risk signals for a login or refresh, pick the most severe configured
+   * action and record the decision. Callers enforce 'reauth' and 'revoke'.
+   */
+  async evaluate(
+    context: SuspiciousActivityContext,
+  ): Promise<SuspiciousActivityDecision> {
+    const signals =
+      context.eventType === 'refresh'
+        ? this.detectRefreshSignals(context)
+        : await this.detectLoginSignals(context);
+
+    if (await this.isImpossibleTravel(context)) {
+      signals.push('impossible_travel');
+    }
+
+    const action = signals.reduce<SecurityAction>(
+      (current, signal) => this.mostSevere(current, this.getAction(signal)),
+      'allow',
+    );
+
+    if (action !== 'allow') {
+      this.logger.warn(
+        `Suspicious ${context.eventType} for user ${context.userId} (${signals.join(', ')}): ${action}`,
+      );
+    }
+
+    await this.record(context, { action, signals });
+
+    return { action, signals };
+  }
+
+  /**
+   * Refreshes are compared against the client that created the session
+   */
+  private detectRefreshSignals(
+    context: SuspiciousActivityContext,
+  ): RiskSignal[] {
+    const signals: RiskSignal[] = [];
+    const { previous, ipAddress, userAgent } = context;
+
+    if (previous?.ipAddress && ipAddress && previous.ipAddress !== ipAddress) {
+      signals.push('ip_change');
+    }
+
+    if (
+      previous?.userAgent &&
+      userAgent &&
+      parseUserAgent(previous.userAgent).family !==
+        parseUserAgent(userAgent).family
+    ) {
+      signals.push('user_agent_change');
+    }
+
+    return signals;
+  }
+
+  /**
+   * Logins are compared against the user's recent accepted logins
+   */
+  private async detectLoginSignals(
+    context: SuspiciousActivityContext,
+  ): Promise<RiskSignal[]> {
+    const history = await this.securityEventService.findRecentByUser(
+      context.userId,
+      'login',
+      Number(this.configService.get('SUSPICIOUS_ACTIVITY_HISTORY_SIZE', 20)),
+    );
+
+    // Nothing to compare a first login against
+    if (history.length === 0) {
+      return [];
+    }
+
+    const signals: RiskSignal[] = [];
+    const [latest] = history;
+    const deviceFamily = context.userAgent
+      ? parseUserAgent(context.userAgent).family
+      : undefined;
+
+    if (
+      latest.ipAddress &&
+      context.ipAddress &&
+      latest.ipAddress !== context.ipAddress
+    ) {
+      signals.push('ip_change');
+    }
+
+    if (
+      latest.deviceFamily &&
+      deviceFamily &&
+      latest.deviceFamily !== deviceFamily
+    ) {
+      signals.push('user_agent_change');
+    }
+
+    if (
+      deviceFamily &&
+      !history.some((event) => event.deviceFamily === deviceFamily)
+    ) {
+      signals.push('new_device');
+    }
+
+    if (this.isUnusualHour(history)) {
+      signals.push('unusual_hour');
+    }
+
+    return signals;
+  }
+
+  /**
+   * An hour (UTC) is unusual when it is more than an hour away from every past login,
+   * once there is enough history to know what usual looks like
+   */
+  private isUnusualHour(history: SecurityEvent[]): boolean {
+    const minHistory = Number(
+      this.configService.get('SUSPICIOUS_ACTIVITY_MIN_HISTORY', 5),
+    );
+
+    if (history.length < minHistory) {
+      return false;
+    }
+
+    const hour = new Date().getUTCHours();
+
+    return history.every((event) => {
+      const distance = Math.abs(event.createdAt.getUTCHours() - hour);
+      return Math.min(distance, 24 - distance) > 1;
+    });
+  }
+
+  /**
+   * Travel is impossible when getting here from the location of the user's latest session
+   * would have taken a speed above SUSPICIOUS_ACTIVITY_MAX_TRAVEL_SPEED_KMH. Distances below
+   * SUSPICIOUS_ACTIVITY_MIN_TRAVEL_DISTANCE_KM are within GeoIP inaccuracy and never count.
+   */
+  private async isImpossibleTravel(
+    context: SuspiciousActivityContext,
+  ): Promise<boolean> {
+    const location = this.geoIpService.lookup(context.ipAddress);
+
+    if (location?.latitude == null || location.longitude == null) {
+      return false;
+    }
+
+    const previous = await this.sessionService.findLatestLocatedByUserId(
+      context.userId,
+    );
+
+    if (previous?.latitude == null || previous.longitude == null) {
+      return false;
+    }
+
+    const distance = distanceInKm(
+      { latitude: previous.latitude, longitude: previous.longitude },
+      { latitude: location.latitude, longitude: location.longitude },
+    );
+    const minDistance = Number(
+      this.configService.get('SUSPICIOUS_ACTIVITY_MIN_TRAVEL_DISTANCE_KM', 300),
+    );
+
+    if (distance < minDistance) {
+      return false;
+    }
+
+    const lastSeenAt = Math.max(
+      previous.createdAt.getTime(),
+      previous.lastUsedAt?.getTime() ?? 0,
+    );
+    const hours = Math.max(Date.now() - lastSeenAt, 0) / (60 * 60 * 1000);
+    const maxSpeed = Number(
+      this.configService.get('SUSPICIOUS_ACTIVITY_MAX_TRAVEL_SPEED_KMH', 1000),
+    );
+
+    return distance / hours > maxSpeed;
+  }
+
+  private getAction(signal: RiskSignal): SecurityAction {
+    const action = this.configService.get<string>(
+      SIGNAL_ACTION_KEYS[signal],
+      'log',
+    );
+
+    return SECURITY_ACTIONS.includes(action as SecurityAction)
+      ? (action as SecurityAction)
+      : 'log';
+  }
+
+  private mostSevere(a: SecurityAction, b: SecurityAction): SecurityAction {
+    return SECURITY_ACTIONS.indexOf(a) >= SECURITY_ACTIONS.indexOf(b) ? a : b;
+  }
+
+  /**
+   * Recording is best-effort - a failed audit write must not lock users out
+   */
+  private async record(
+    context: SuspiciousActivityContext,
+    decision: SuspiciousActivityDecision,
+  ): Promise<void> {
+    try {
+      await this.securityEventService.record({
+        userId: context.userId,
+        sessionId: context.sessionId,
+        eventType: context.eventType,
+        action: decision.action,
+        signals: decision.signals,
+        ipAddress: context.ipAddress,
+        userAgent: context.userAgent,
+        deviceFamily: context.userAgent
+          ? parseUserAgent(context.userAgent).family
+          : undefined,
+      });
+    } catch (error) {
+      this.logger.error('Failed to record security event', error);
+    }
+  }
+}
@@ -1,4 +1,5 @@
 import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
 import { Cron, CronExpression } from '@nestjs/schedule';
 import { SessionService } from 'src/session/session.service';
 
@@ -6,7 +7,10 @@ import { SessionService } from 'src/session/session.service';
 export class SessionCleanupTask {
   private readonly logger = new Logger(SessionCleanupTask.name);
 
-  constructor(private sessionService: SessionService) {}
+  constructor(
+    private sessionService: SessionService,
+    private configService: ConfigService,
+  ) {}
 
   // Run every day at midnight
   @Cron(CronExpression.EVERY_DAY_AT_MIDNIGHT)
@@ -33,4 +37,33 @@ export class SessionCleanupTask {
       this.logger.error('Failed to cleanup old revoked sessions', error);
     }
   }
+
+  // Run every minute: write the session activity buffered from authenticated requests
+  @Cron(CronExpression.EVERY_MINUTE)
+  async flushSessionActivity() {
+    try {
+      await this.sessionService.flushActivity();
+    } catch (error) {
+      this.logger.error('Failed to write session activity', error);
+    }
+  }
+
+  // Run every 10 minutes
+  @Cron(CronExpression.EVERY_10_MINUTES)
+  async revokeIdleSessions() {
+    const idleMinutes = Number(this.configService.get('SESSION_IDLE_TIMEOUT_MINS', 0));
+
+    if (idleMinutes <= 0) {
+      return;
+    }
+
+    try {
+      // Activity still in the buffer must not make a session look idle
+      await this.sessionService.flushActivity();
+      const { count } = await this.sessionService.revokeIdleSessions(idleMinutes);
+      this.logger.log(`Revoked ${count} sessions idle for over ${idleMinutes} minutes`);
+    } catch (error) {
+      this.logger.error('Failed to revoke idle sessions', error);
+    }
+  }
 }
\ No newline at end of file
@@ -0,0 +1,21 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { WebAuthnService } from '../webauthn.service';
+
+@Injectable()
+export class WebAuthnChallengeCleanupTask {
+  private readonly logger = new Logger(WebAuthnChallengeCleanupTask.name);
+
+  constructor(private webAuthnService: WebAuthnService) {}
+
+  // Run every 10 minutes: sign-in options are public, so unanswered challenges pile up
+  @Cron(CronExpression.EVERY_10_MINUTES)
+  async cleanupExpiredChallenges() {
+    try {
+      const count = await this.webAuthnService.cleanupExpiredChallenges();
+      this.logger.log(`Cleaned up ${count} expired passkey challenges`);
+    } catch (error) {
+      this.logger.error('Failed to cleanup expired passkey challenges', error);
+    }
+  }
+}
@@ -0,0 +1,33 @@
+export interface ClientCredentials {
+  clientId: string;
+  clientSecret: string;
+}
+
+/**
+ * Client credentials from an HTTP Basic header (client_secret_basic), or null
+ */
+export function parseBasicAuth(header?: string): ClientCredentials | null {
+  const [scheme, encoded] = (header ?? '').split(' ');
+
+  if (scheme?.toLowerCase() !== 'basic' || !encoded) {
+    return null;
+  }
+
+  const decoded = Buffer.from(encoded, 'base64').toString('utf8');
+  const separator = decoded.indexOf(':');
+
+  if (separator < 0) {
+    return null;
+  }
+
+  // Credentials are form-encoded before being put in the header (RFC 6749 section 2.3.1)
+  try {
+    return {
+      clientId: decodeURIComponent(decoded.slice(0, separator)),
+      clientSecret: decodeURIComponent(decoded.slice(separator + 1)),
+    };
+  } catch {
+    // Malformed percent-encoding (URIError) is a failed client authentication
+    return null;
+  }
+}
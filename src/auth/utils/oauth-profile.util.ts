@@ -0,0 +1,56 @@
+import { OAuthProfile } from '../interfaces/oauth.interface';
+
+const asString = (value: unknown): string | null =>
+  typeof value === 'string' && value.trim() !== '' ? value.trim() : null;
+
+/**
+ * Standard claims from an OpenID Connect userinfo response (Google, Microsoft, any issuer)
+ */
+export function normalizeOidcProfile(
+  provider: string,
+  claims: Record<string, unknown>,
+): OAuthProfile {
+  const providerUserId = asString(claims.sub);
+
+  if (!providerUserId) {
+    throw new Error('Userinfo response has no subject');
+  }
+
+  return {
+    provider,
+    providerUserId,
+    email: asString(claims.email),
+    // Some issuers send the claim as a string
+    emailVerified:
+      claims.email_verified === true || claims.email_verified === 'true',
+    firstName: asString(claims.given_name),
+    lastName: asString(claims.family_name),
+    displayName: asString(claims.name),
+    picture: asString(claims.picture),
+  };
+}
+
+/**
+ * GitHub's /user response plus /user/emails, where only the primary email says whether
+ * it is verified
+ */
+export function normalizeGitHubProfile(
+  provider: string,
+  user: Record<string, unknown>,
+  emails: { email: string; primary: boolean; verified: boolean }[],
+): OAuthProfile {
+  const primary = emails.find((email) => email.primary);
+  const displayName = asString(user.name);
+  const [firstName, ...lastNames] = displayName?.split(/\s+/) ?? [];
+
+  return {
+    provider,
+    providerUserId: String(user.id),
+    email: primary?.email ?? asString(user.email),
+    emailVerified: primary?.verified ?? false,
+    firstName: firstName ?? null,
+    lastName: lastNames.length > 0 ? lastNames.join(' ') : null,
+    displayName: displayName ?? asString(user.login),
+    picture: asString(user.avatar_url),
+  };
+}
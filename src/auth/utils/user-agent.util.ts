@@ -0,0 +1,27 @@
+import { UAParser } from 'ua-parser-js';
+
+export interface ParsedUserAgent {
+  browser: string;
+  os: string;
+  deviceType: string;
+  /**
+   * Stable "browser / os / device type" key - versions are left out so updates don't look like a new device
+   */
+  family: string;
+}
+
+export function parseUserAgent(userAgent: string): ParsedUserAgent {
+  const result = new UAParser(userAgent).getResult();
+
+  const browser = result.browser.name ?? 'Unknown';
+  const os = result.os.name ?? 'Unknown';
+  // ua-parser-js leaves the device type undefined for desktop browsers
+  const deviceType = result.device.type ?? 'desktop';
+
+  return {
+    browser,
+    os,
+    deviceType,
+    family: `${browser} / ${os} / ${deviceType}`,
+  };
+}
@@ -0,0 +1,26 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { WebAuthnController } from './webauthn.controller';
+import { WebAuthnService } from './webauthn.service';
+import { SessionService } from 'src/session/session.service';
+import { NativeClientService } from './native-client.service';
+
+describe('WebAuthnController', () => {
+  let controller: WebAuthnController;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [WebAuthnController],
+      providers: [
+        { provide: WebAuthnService, useValue: {} },
+        { provide: SessionService, useValue: {} },
+        { provide: NativeClientService, useValue: {} },
+      ],
+    }).compile();
+
+    controller = module.get<WebAuthnController>(WebAuthnController);
+  });
+
+  it('should be defined', () => {
+    expect(controller).toBeDefined();
+  });
+});
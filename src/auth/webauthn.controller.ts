@@ -0,0 +1,128 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Patch,
+  Delete,
+  Body,
+  Param,
+  ParseIntPipe,
+  Req,
+  Res,
+  HttpCode,
+  HttpStatus,
+  UseGuards,
+} from '@nestjs/common';
+import type { Request, Response } from 'express';
+import { Throttle } from '@nestjs/throttler';
+import { WebAuthnService } from './webauthn.service';
+import { Public } from './decorators/public.decorator';
+import { CurrentUser } from './decorators/current-user.decorator';
+import type { FormattedSafeUser } from 'src/user/utils/transform-user.util';
+import { Roles } from './decorators/roles.decorator';
+import { RolesGuard } from './guards/roles.guard';
+import {
+  RenameWebAuthnCredentialDto,
+  VerifyWebAuthnAuthenticationDto,
+  VerifyWebAuthnRegistrationDto,
+  WebAuthnAuthenticationOptionsDto,
+} from './dto/webauthn.dto';
+import { BlockImpersonation } from './decorators/block-impersonation.decorator';
+import { RequireRecentAuth } from './decorators/require-recent-auth.decorator';
+import { NativeClientService } from './native-client.service';
+
+@Controller('auth/webauthn')
+export class WebAuthnController {
+  constructor(
+    private webAuthnService: WebAuthnService,
+    private nativeClientService: NativeClientService,
+  ) {}
+
+  // Registration ceremony (requires authentication)
+  @Post('register/options')
+  @BlockImpersonation()
+  @RequireRecentAuth()
+  @HttpCode(HttpStatus.OK)
+  @UseGuards(RolesGuard)
+  @Roles('ADMIN', 'USER')
+  registrationOptions(@CurrentUser() user: FormattedSafeUser) {
+    return this.webAuthnService.generateRegistrationOptions(user.id);
+  }
+
+  @Post('register/verify')
+  @BlockImpersonation()
+  @HttpCode(HttpStatus.CREATED)
+  @UseGuards(RolesGuard)
+  @Roles('ADMIN', 'USER')
+  verifyRegistration(
+    @CurrentUser() user: FormattedSafeUser,
+    @Body() dto: VerifyWebAuthnRegistrationDto,
+  ) {
+    return this.webAuthnService.verifyRegistration(user.id, dto);
+  }
+
+  // Passwordless login
+  @Post('authenticate/options')
+  @Public()
+  @Throttle({ default: { limit: 10, ttl: 60000 } })
+  @HttpCode(HttpStatus.OK)
+  authenticationOptions(@Body() dto: WebAuthnAuthenticationOptionsDto) {
+    return this.webAuthnService.generateAuthenticationOptions(dto.email);
+  }
+
+  @Post('authenticate/verify')
+  @Public()
+  @Throttle({ default: { limit: 5, ttl: 60000 } })
+  @HttpCode(HttpStatus.OK)
+  async verifyAuthentication(
+    @Body() dto: VerifyWebAuthnAuthenticationDto,
+    @Req() req: Request,
+    @Res({ passthrough: true }) res: Response,
+  ) {
+    const ipAddress = req.ip || req.socket.remoteAddress;
+    const userAgent = req.get('user-agent');
+
+    const result = await this.webAuthnService.verifyAuthentication(
+      dto,
+      res,
+      ipAddress,
+      userAgent,
+    );
+
+    // Web clients get the refresh token only in the httpOnly cookie, native clients in the body
+    return this.nativeClientService.toResponseBody(req, result);
+  }
+
+  // Passkey management
+  @Get('credentials')
+  @UseGuards(RolesGuard)
+  @Roles('ADMIN', 'USER')
+  findAll(@CurrentUser() user: FormattedSafeUser) {
+    return this.webAuthnService.findAllByUser(user.id);
+  }
+
+  @Patch('credentials/:id')
+  @BlockImpersonation()
+  @UseGuards(RolesGuard)
+  @Roles('ADMIN', 'USER')
+  rename(
+    @CurrentUser() user: FormattedSafeUser,
+    @Param('id', ParseIntPipe) id: number,
+    @Body() dto: RenameWebAuthnCredentialDto,
+  ) {
+    return this.webAuthnService.rename(user.id, id, dto.name);
+  }
+
+  @Delete('credentials/:id')
+  @BlockImpersonation()
+  @RequireRecentAuth()
+  @HttpCode(HttpStatus.NO_CONTENT)
+  @UseGuards(RolesGuard)
+  @Roles('ADMIN', 'USER')
+  remove(
+    @CurrentUser() user: FormattedSafeUser,
+    @Param('id', ParseIntPipe) id: number,
+  ) {
+    return this.webAuthnService.delete(user.id, id);
+  }
+}
@@ -0,0 +1,258 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import {
+  ForbiddenException,
+  NotFoundException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { JwtService } from '@nestjs/jwt';
+import { verifyAuthenticationResponse } from '@simplewebauthn/server';
+import type { Response } from 'express';
+import { WebAuthnService } from './webauthn.service';
+import { PrismaService } from 'src/shared/services/prisma.service';
+import { UserService } from 'src/user/user.service';
+import { AuthService } from './auth.service';
+import { AccountLockoutService } from './account-lockout.service';
+import { EmailVerificationService } from './email-verification.service';
+import { VerifyWebAuthnAuthenticationDto } from './dto/webauthn.dto';
+
+jest.mock('@simplewebauthn/server', () => ({
+  generateAuthenticationOptions: jest.fn(),
+  generateRegistrationOptions: jest.fn(),
+  verifyAuthenticationResponse: jest.fn(),
+  verifyRegistrationResponse: jest.fn(),
+}));
+
+describe('WebAuthnService', () => {
+  let service: WebAuthnService;
+
+  const mockPrismaService = {
+    webauthnCredential: {
+      findMany: jest.fn(),
+      findUnique: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+      updateMany: jest.fn(),
+      delete: jest.fn(),
+    },
+    webauthnChallenge: {
+      create: jest.fn(),
+      deleteMany: jest.fn(),
+    },
+  };
+
+  const mockJwtService = {
+    sign: jest.fn(),
+    verify: jest.fn(),
+  };
+
+  const mockUserService = {
+    findById: jest.fn(),
+    update: jest.fn(),
+  };
+
+  const mockAuthService = {
+    createSession: jest.fn(),
+  };
+
+  const mockConfigService = {
+    get: jest.fn((key: string, defaultValue?: unknown) => defaultValue),
+  };
+
+  const mockEmailVerificationService = {
+    getEnforcement: jest.fn(),
+  };
+
+  const mockCredential = {
+    id: 1,
+    userId: 'user-id',
+    credentialId: 'credential-id',
+    publicKey: Buffer.from('public-key'),
+    signCount: BigInt(5),
+    transports: 'internal,hybrid',
+  };
+
+  const dto = {
+    challengeToken: 'challenge-token',
+    response: { id: 'credential-id' },
+  } as VerifyWebAuthnAuthenticationDto;
+
+  const res = {} as Response;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        WebAuthnService,
+        { provide: PrismaService, useValue: mockPrismaService },
+        { provide: JwtService, useValue: mockJwtService },
+        { provide: UserService, useValue: mockUserService },
+        { provide: AuthService, useValue: mockAuthService },
+        { provide: ConfigService, useValue: mockConfigService },
+        {
+          provide: EmailVerificationService,
+          useValue: mockEmailVerificationService,
+        },
+        AccountLockoutService,
+      ],
+    }).compile();
+
+    service = module.get<WebAuthnService>(WebAuthnService);
+
+    jest.clearAllMocks();
+    mockJwtService.verify.mockReturnValue({
+      type: 'webauthn_authentication',
+      challenge: 'challenge',
+    });
+    mockEmailVerificationService.getEnforcement.mockReturnValue('none');
+    mockPrismaService.webauthnChallenge.deleteMany.mockResolvedValue({
+      count: 1,
+    });
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  describe('verifyAuthentication', () => {
+    it('should reject a registration challenge token', async () => {
+      mockJwtService.verify.mockReturnValue({
+        type: 'webauthn_registration',
+        challenge: 'challenge',
+      });
+
+      await expect(service.verifyAuthentication(dto, res)).rejects.toThrow(
+        UnauthorizedException,
+      );
+    });
+
+    it('should reject a challenge that was already used', async () => {
+      mockPrismaService.webauthnChallenge.deleteMany.mockResolvedValue({
+        count: 0,
+      });
+
+      await expect(service.verifyAuthentication(dto, res)).rejects.toThrow(
+        UnauthorizedException,
+      );
+      expect(
+        mockPrismaService.webauthnChallenge.deleteMany,
+      ).toHaveBeenCalledWith({
+        where: expect.objectContaining({
+          challenge: 'challenge',
+          type: 'webauthn_authentication',
+        }) as unknown,
+      });
+      expect(verifyAuthenticationResponse).not.toHaveBeenCalled();
+    });
+
+    it('should reject an unknown credential', async () => {
+      mockPrismaService.webauthnCredential.findUnique.mockResolvedValue(null);
+
+      await expect(service.verifyAuthentication(dto, res)).rejects.toThrow(
+        UnauthorizedException,
+      );
+    });
+
+    it('should reject a non-increasing sign counter', async () => {
+      mockPrismaService.webauthnCredential.findUnique.mockResolvedValue(
+        mockCredential,
+      );
+      (verifyAuthenticationResponse as jest.Mock).mockRejectedValue(
+        new Error('Response counter value 5 was lower than expected 5'),
+      );
+
+      await expect(service.verifyAuthentication(dto, res)).rejects.toThrow(
+        UnauthorizedException,
+      );
+      expect(mockAuthService.createSession).not.toHaveBeenCalled();
+    });
+
+    it('should store the new counter and create a session', async () => {
+      const user = { id: 'user-id', isActive: true, lockedUntil: null };
+      mockPrismaService.webauthnCredential.findUnique.mockResolvedValue(
+        mockCredential,
+      );
+      (verifyAuthenticationResponse as jest.Mock).mockResolvedValue({
+        verified: true,
+        authenticationInfo: { newCounter: 6 },
+      });
+      mockPrismaService.webauthnCredential.updateMany.mockResolvedValue({
+        count: 1,
+      });
+      mockUserService.findById.mockResolvedValue(user);
+      mockAuthService.createSession.mockResolvedValue({ accessToken: 'token' });
+
+      const result = await service.verifyAuthentication(dto, res, '127.0.0.1');
+
+      expect(
+        mockPrismaService.webauthnCredential.updateMany,
+      ).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { id: 1, signCount: BigInt(5) },
+        }),
+      );
+      expect(mockAuthService.createSession).toHaveBeenCalledWith(
+        user,
+        res,
+        '127.0.0.1',
+        undefined,
+        undefined,
+      );
+      expect(result).toEqual({ accessToken: 'token' });
+    });
+
+    it('should reject unverified emails when verification is enforced at login', async () => {
+      mockPrismaService.webauthnCredential.findUnique.mockResolvedValue(
+        mockCredential,
+      );
+      (verifyAuthenticationResponse as jest.Mock).mockResolvedValue({
+        verified: true,
+        authenticationInfo: { newCounter: 6 },
+      });
+      mockPrismaService.webauthnCredential.updateMany.mockResolvedValue({
+        count: 1,
+      });
+      mockUserService.findById.mockResolvedValue({
+        id: 'user-id',
+        isActive: true,
+        lockedUntil: null,
+        emailVerified: false,
+      });
+      mockEmailVerificationService.getEnforcement.mockReturnValue('login');
+
+      await expect(service.verifyAuthentication(dto, res)).rejects.toThrow(
+        ForbiddenException,
+      );
+      expect(mockAuthService.createSession).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('cleanupExpiredChallenges', () => {
+    it('should delete challenges that expired unanswered', async () => {
+      mockPrismaService.webauthnChallenge.deleteMany.mockResolvedValue({
+        count: 3,
+      });
+
+      await expect(service.cleanupExpiredChallenges()).resolves.toBe(3);
+      expect(
+        mockPrismaService.webauthnChallenge.deleteMany,
+      ).toHaveBeenCalledWith({
+        where: { expiresAt: { lt: expect.any(Date) as Date } },
+      });
+    });
+  });
+
+  describe('rename', () => {
+    it("should not rename another user's passkey", async () => {
+      mockPrismaService.webauthnCredential.findUnique.mockResolvedValue({
+        userId: 'other-user',
+      });
+
+      await expect(service.rename('user-id', 1, 'Laptop')).rejects.toThrow(
+        NotFoundException,
+      );
+      expect(
+        mockPrismaService.webauthnCredential.update,
+      ).not.toHaveBeenCalled();
+    });
+  });
+});
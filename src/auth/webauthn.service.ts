@@ -0,0 +1,417 @@
+import {
+  BadRequestException,
+  ForbiddenException,
+  Injectable,
+  Logger,
+  NotFoundException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { JwtService } from '@nestjs/jwt';
+import {
+  generateAuthenticationOptions,
+  generateRegistrationOptions,
+  verifyAuthenticationResponse,
+  verifyRegistrationResponse,
+} from '@simplewebauthn/server';
+import type { Response } from 'express';
+import { PrismaService } from 'src/shared/services/prisma.service';
+import { UserService } from 'src/user/user.service';
+import { AuthService } from './auth.service';
+import { AccountLockoutService } from './account-lockout.service';
+import { EmailVerificationService } from './email-verification.service';
+import { AuthResult } from './interfaces/auth-result.interface';
+import {
+  WebAuthnAuthenticationOptions,
+  WebAuthnRegistrationOptions,
+} from './interfaces/webauthn.interface';
+import {
+  VerifyWebAuthnAuthenticationDto,
+  VerifyWebAuthnRegistrationDto,
+} from './dto/webauthn.dto';
+import { safeWebauthnCredentialSelect } from './selects/safe-webauthn-credential.select';
+
+type ChallengeType = 'webauthn_registration' | 'webauthn_authentication';
+
+@Injectable()
+export class WebAuthnService {
+  private readonly logger = new Logger(WebAuthnService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private configService: ConfigService,
+    private jwtService: JwtService,
+    private userService: UserService,
+    private authService: AuthService,
+    private accountLockoutService: AccountLockoutService,
+    private emailVerificationService: EmailVerificationService,
+  ) {}
+
+  /**
+   * Registration ceremony, step 1: options for navigator.credentials.create()
+   */
+  async generateRegistrationOptions(
+    userId: string,
+  ): Promise<WebAuthnRegistrationOptions> {
+    const user = await this.userService.findById(userId);
+
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
+
+    const existingCredentials = await this.prisma.webauthnCredential.findMany({
+      where: { userId },
+      select: { credentialId: true, transports: true },
+    });
+
+    const options = await generateRegistrationOptions({
+      rpName: this.configService.get<string>(
+        'WEBAUTHN_RP_NAME',
+        'Labyrinth Nexus',
+      ),
+      rpID: this.getRpId(),
+      userName: user.email,
+      userDisplayName: user.displayName ?? user.email,
+      userID: Buffer.from(user.id),
+      attestationType: 'none',
+      excludeCredentials: existingCredentials.map((credential) => ({
+        id: credential.credentialId,
+        transports: this.parseTransports(credential.transports),
+      })),
+      authenticatorSelection: {
+        residentKey: 'preferred',
+        userVerification: 'required',
+      },
+    });
+
+    return {
+      options,
+      challengeToken: await this.signChallenge(
+        'webauthn_registration',
+        options.challenge,
+        userId,
+      ),
+    };
+  }
+
+  /**
+   * Registration ceremony, step 2: verify the attestation and store the credential
+   */
+  async verifyRegistration(userId: string, dto: VerifyWebAuthnRegistrationDto) {
+    const expectedChallenge = await this.verifyChallenge(
+      'webauthn_registration',
+      dto.challengeToken,
+      userId,
+    );
+
+    let verification: Awaited<ReturnType<typeof verifyRegistrationResponse>>;
+    try {
+      verification = await verifyRegistrationResponse({
+        response: dto.response,
+        expectedChallenge,
+        expectedOrigin: this.getExpectedOrigins(),
+        expectedRPID: this.getRpId(),
+        requireUserVerification: true,
+      });
+    } catch (error) {
+      throw new BadRequestException(
+        `Passkey registration failed: ${(error as Error).message}`,
+      );
+    }
+
+    if (!verification.verified) {
+      throw new BadRequestException('Passkey registration failed');
+    }
+
+    const { credential, aaguid, credentialDeviceType, credentialBackedUp } =
+      verification.registrationInfo;
+
+    return this.prisma.webauthnCredential.create({
+      data: {
+        userId,
+        credentialId: credential.id,
+        publicKey: Buffer.from(credential.publicKey),
+        signCount: credential.counter,
+        transports: credential.transports?.join(','),
+        name: dto.name ?? 'Passkey',
+        aaguid,
+        deviceType: credentialDeviceType,
+        backedUp: credentialBackedUp,
+      },
+      select: safeWebauthnCredentialSelect,
+    });
+  }
+
+  /**
+   * Authentication ceremony, step 1: options for navigator.credentials.get()
+   */
+  async generateAuthenticationOptions(
+    email?: string,
+  ): Promise<WebAuthnAuthenticationOptions> {
+    let allowCredentials: { id: string; transports?: string[] }[] | undefined;
+
+    if (email) {
+      const credentials = await this.prisma.webauthnCredential.findMany({
+        where: { user: { email: email.toLowerCase().trim() } },
+        select: { credentialId: true, transports: true },
+      });
+
+      // Unknown emails get an empty list rather than an error, so accounts can't be enumerated
+      allowCredentials = credentials.map((credential) => ({
+        id: credential.credentialId,
+        transports: this.parseTransports(credential.transports),
+      }));
+    }
+
+    const options = await generateAuthenticationOptions({
+      rpID: this.getRpId(),
+      allowCredentials,
+      userVerification: 'required',
+    });
+
+    return {
+      options,
+      challengeToken: await this.signChallenge(
+        'webauthn_authentication',
+        options.challenge,
+      ),
+    };
+  }
+
+  /**
+   * Authentication ceremony, step 2: verify the assertion and create a session.
+   * Passkeys require user verification, so they satisfy MFA on their own.
+   */
+  async verifyAuthentication(
+    dto: VerifyWebAuthnAuthenticationDto,
+    res: Response,
+    ipAddress?: string,
+    userAgent?: string,
+  ): Promise<AuthResult> {
+    const expectedChallenge = await this.verifyChallenge(
+      'webauthn_authentication',
+      dto.challengeToken,
+    );
+
+    const credential = await this.prisma.webauthnCredential.findUnique({
+      where: { credentialId: dto.response.id },
+    });
+
+    if (!credential) {
+      throw new UnauthorizedException('Invalid credentials');
+    }
+
+    const storedCounter = Number(credential.signCount);
+
+    let verification: Awaited<ReturnType<typeof verifyAuthenticationResponse>>;
+    try {
+      verification = await verifyAuthenticationResponse({
+        response: dto.response,
+        expectedChallenge,
+        expectedOrigin: this.getExpectedOrigins(),
+        expectedRPID: this.getRpId(),
+        credential: {
+          id: credential.credentialId,
+          publicKey: new Uint8Array(credential.publicKey),
+          counter: storedCounter,
+          transports: this.parseTransports(credential.transports),
+        },
+        requireUserVerification: true,
+      });
+    } catch (error) {
+      if (this.isCounterError(error)) {
+        this.logger.warn(
+          `Possible cloned authenticator: credential ${credential.id} of user ${credential.userId} presented a non-increasing sign counter`,
+        );
+      }
+      throw new UnauthorizedException('Invalid credentials');
+    }
+
+    if (!verification.verified) {
+      throw new UnauthorizedException('Invalid credentials');
+    }
+
+    const { newCounter } = verification.authenticationInfo;
+
+    // Compare-and-set on the counter so two concurrent assertions can't both succeed
+    const updated = await this.prisma.webauthnCredential.updateMany({
+      where: { id: credential.id, signCount: credential.signCount },
+      data: {
+        signCount: newCounter,
+        lastUsedAt: new Date(),
+        updatedAt: new Date(),
+      },
+    });
+
+    if (updated.count === 0) {
+      throw new UnauthorizedException('Invalid credentials');
+    }
+
+    const user = await this.userService.findById(credential.userId);
+
+    if (!user || !user.isActive) {
+      throw new UnauthorizedException('Account is inactive');
+    }
+
+    this.accountLockoutService.assertNotLocked(user);
+
+    // Same rule as password and magic-link sign-in
+    if (
+      !user.emailVerified &&
+      this.emailVerificationService.getEnforcement() === 'login'
+    ) {
+      throw new ForbiddenException('Email address is not verified');
+    }
+
+    await this.userService.update(user.id, { lastLoginAt: new Date() });
+
+    return this.authService.createSession(
+      user,
+      res,
+      ipAddress,
+      userAgent,
+      dto.rememberMe,
+    );
+  }
+
+  async findAllByUser(userId: string) {
+    return this.prisma.webauthnCredential.findMany({
+      where: { userId },
+      select: safeWebauthnCredentialSelect,
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  async rename(userId: string, id: number, name: string) {
+    await this.findOwnedCredential(userId, id);
+
+    return this.prisma.webauthnCredential.update({
+      where: { id },
+      data: { name, updatedAt: new Date() },
+      select: safeWebauthnCredentialSelect,
+    });
+  }
+
+  async delete(userId: string, id: number): Promise<void> {
+    await this.findOwnedCredential(userId, id);
+
+    await this.prisma.webauthnCredential.delete({
+      where: { id },
+    });
+  }
+
+  private async findOwnedCredential(userId: string, id: number) {
+    const credential = await this.prisma.webauthnCredential.findUnique({
+      where: { id },
+      select: { userId: true },
+    });
+
+    if (!credential || credential.userId !== userId) {
+      throw new NotFoundException('Passkey not found');
+    }
+
+    return credential;
+  }
+
+  /**
+   * Challenges that were never answered; run by WebAuthnChallengeCleanupTask
+   */
+  async cleanupExpiredChallenges(): Promise<number> {
+    const { count } = await this.prisma.webauthnChallenge.deleteMany({
+      where: { expiresAt: { lt: new Date() } },
+    });
+
+    return count;
+  }
+
+  /**
+   * Ceremony challenges travel in a short-lived signed token and are also stored, so each
+   * can be answered only once - authenticators that always report a zero sign counter
+   * would otherwise let a captured assertion be replayed until the token expires
+   */
+  private async signChallenge(
+    type: ChallengeType,
+    challenge: string,
+    userId?: string,
+  ): Promise<string> {
+    const expiryMinutes = Number(
+      this.configService.get('WEBAUTHN_CHALLENGE_EXPIRY_MINS', 5),
+    );
+    await this.prisma.webauthnChallenge.create({
+      data: {
+        challenge,
+        type,
+        userId,
+        expiresAt: new Date(Date.now() + expiryMinutes * 60 * 1000),
+      },
+    });
+
+    return this.jwtService.sign(
+      { type, challenge, ...(userId && { sub: userId }) },
+      { expiresIn: `${expiryMinutes}m` },
+    );
+  }
+
+  /**
+   * Returns the challenge and consumes it; deleting the row is the atomic check that no
+   * other request used it first
+   */
+  private async verifyChallenge(
+    type: ChallengeType,
+    challengeToken: string,
+    userId?: string,
+  ): Promise<string> {
+    let payload: { type?: string; challenge?: string; sub?: string };
+
+    try {
+      payload = this.jwtService.verify(challengeToken);
+    } catch {
+      throw new UnauthorizedException('Invalid or expired challenge');
+    }
+
+    if (
+      payload.type !== type ||
+      !payload.challenge ||
+      (userId && payload.sub !== userId)
+    ) {
+      throw new UnauthorizedException('Invalid or expired challenge');
+    }
+
+    const consumed = await this.prisma.webauthnChallenge.deleteMany({
+      where: {
+        challenge: payload.challenge,
+        type,
+        userId: userId ?? null,
+        expiresAt: { gt: new Date() },
+      },
+    });
+
+    if (consumed.count === 0) {
+      throw new UnauthorizedException('Invalid or expired challenge');
+    }
+
+    return payload.challenge;
+  }
+
+  private isCounterError(error: unknown): boolean {
+    return error instanceof Error && /counter/i.test(error.message);
+  }
+
+  private parseTransports(transports: string | null): string[] | undefined {
+    return transports ? transports.split(',') : undefined;
+  }
+
+  private getRpId(): string {
+    return this.configService.get<string>('WEBAUTHN_RP_ID', 'localhost');
+  }
+
+  private getExpectedOrigins(): string[] {
+    return this.configService
+      .get<string>(
+        'WEBAUTHN_ORIGIN',
+        this.configService.get<string>('FRONTEND_URL', 'http://localhost:4200'),
+      )
+      .split(',')
+      .map((url) => url.trim());
+  }
+}
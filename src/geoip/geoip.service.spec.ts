@@ -0,0 +1,88 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import maxmind from 'maxmind';
+import { GeoIpService } from './geoip.service';
+
+jest.mock('maxmind', () => ({
+  __esModule: true,
+  default: {
+    open: jest.fn(),
+    validate: jest.requireActual<typeof import('maxmind')>('maxmind').validate,
+  },
+}));
+
+describe('GeoIpService', () => {
+  let service: GeoIpService;
+  let config: Record<string, string>;
+
+  const cityReader = { get: jest.fn() };
+  const asnReader = { get: jest.fn() };
+
+  const mockConfigService = {
+    get: jest.fn((key: string) => config[key]),
+  };
+
+  const createService = async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        GeoIpService,
+        { provide: ConfigService, useValue: mockConfigService },
+      ],
+    }).compile();
+
+    service = module.get<GeoIpService>(GeoIpService);
+    await service.onModuleInit();
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    config = {};
+    (maxmind.open as jest.Mock).mockImplementation((path: string) =>
+      Promise.resolve(path === 'city.mmdb' ? cityReader : asnReader),
+    );
+  });
+
+  it('should return nothing without a configured database', async () => {
+    await createService();
+
+    expect(service.lookup('203.0.113.1')).toBeNull();
+    expect(maxmind.open).not.toHaveBeenCalled();
+  });
+
+  it('should combine the city and ASN databases', async () => {
+    config = {
+      GEOIP_CITY_DB_PATH: 'city.mmdb',
+      GEOIP_ASN_DB_PATH: 'asn.mmdb',
+    };
+    cityReader.get.mockReturnValue({
+      country: { iso_code: 'FR', names: { en: 'France' } },
+      subdivisions: [{ iso_code: 'IDF', names: { en: 'Île-de-France' } }],
+      city: { names: { en: 'Paris' } },
+      location: { latitude: 48.8566, longitude: 2.3522, accuracy_radius: 20 },
+    });
+    asnReader.get.mockReturnValue({
+      autonomous_system_number: 3215,
+      autonomous_system_organization: 'Orange',
+    });
+    await createService();
+
+    expect(service.lookup('203.0.113.1')).toEqual({
+      country: 'FR',
+      region: 'Île-de-France',
+      city: 'Paris',
+      latitude: 48.8566,
+      longitude: 2.3522,
+      asn: 3215,
+      asOrganization: 'Orange',
+    });
+  });
+
+  it('should skip invalid addresses and databases that fail to open', async () => {
+    config = { GEOIP_CITY_DB_PATH: 'missing.mmdb' };
+    (maxmind.open as jest.Mock).mockRejectedValue(new Error('ENOENT'));
+    await createService();
+
+    expect(service.lookup('not-an-ip')).toBeNull();
+    expect(service.lookup('203.0.113.1')).toBeNull();
+  });
+});
@@ -0,0 +1,74 @@
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import maxmind, { AsnResponse, CityResponse, Reader, Response } from 'maxmind';
+import { GeoLocation } from './interfaces/geo-location.interface';
+
+/**
+ * Largest value of the asn column (INTEGER)
+ */
+const MAX_ASN = 2147483647;
+
+/**
+ * Looks up IP addresses in MaxMind DB files (e.g. GeoLite2 City and ASN) mounted on the
+ * local filesystem. Lookups never leave the process; without a configured database
+ * they simply return nothing.
+ */
+@Injectable()
+export class GeoIpService implements OnModuleInit {
+  private readonly logger = new Logger(GeoIpService.name);
+  private cityReader?: Reader<CityResponse>;
+  private asnReader?: Reader<AsnResponse>;
+
+  constructor(private configService: ConfigService) {}
+
+  async onModuleInit(): Promise<void> {
+    this.cityReader =
+      await this.openDatabase<CityResponse>('GEOIP_CITY_DB_PATH');
+    this.asnReader = await this.openDatabase<AsnResponse>('GEOIP_ASN_DB_PATH');
+  }
+
+  lookup(ipAddress?: string): GeoLocation | null {
+    if (!ipAddress || !maxmind.validate(ipAddress)) {
+      return null;
+    }
+
+    const city = this.cityReader?.get(ipAddress);
+    const asn = this.asnReader?.get(ipAddress);
+
+    if (!city && !asn) {
+      return null;
+    }
+
+    const asNumber = asn?.autonomous_system_number;
+
+    return {
+      country: city?.country?.iso_code ?? null,
+      region: city?.subdivisions?.[0]?.names.en ?? null,
+      city: city?.city?.names.en ?? null,
+      latitude: city?.location?.latitude ?? null,
+      longitude: city?.location?.longitude ?? null,
+      asn: asNumber !== undefined && asNumber <= MAX_ASN ? asNumber : null,
+      asOrganization: asn?.autonomous_system_organization ?? null,
+    };
+  }
+
+  /**
+   * A database that fails to open is logged and skipped - sign-in must not depend on it
+   */
+  private async openDatabase<T extends Response>(
+    key: string,
+  ): Promise<Reader<T> | undefined> {
+    const path = this.configService.get<string>(key);
+
+    if (!path) {
+      return undefined;
+    }
+
+    try {
+      return await maxmind.open<T>(path);
+    } catch (error) {
+      this.logger.error(`Failed to open GeoIP database ${path}`, error);
+      return undefined;
+    }
+  }
+}
@@ -0,0 +1,19 @@
+/**
+ * Where an IP address is, according to the local GeoIP databases. Fields the databases
+ * don't know (or that come from a database that isn't configured) are null.
+ */
+export interface GeoLocation {
+  /**
+   * ISO 3166-1 alpha-2 country code
+   */
+  country: string | null;
+  region: string | null;
+  city: string | null;
+  latitude: number | null;
+  longitude: number | null;
+  /**
+   * Autonomous system (network operator) the address belongs to
+   */
+  asn: number | null;
+  asOrganization: string | null;
+}
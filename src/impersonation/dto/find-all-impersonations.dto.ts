@@ -0,0 +1,12 @@
+import { IsOptional, IsString } from 'class-validator';
+import { PaginationDto } from 'src/shared/dto/pagination.dto';
+
+export class FindAllImpersonationsDto extends PaginationDto {
+  @IsOptional()
+  @IsString()
+  adminId?: string;
+
+  @IsOptional()
+  @IsString()
+  targetUserId?: string;
+}
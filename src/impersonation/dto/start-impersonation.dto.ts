@@ -0,0 +1,11 @@
+import { IsOptional, IsString, MaxLength } from 'class-validator';
+
+export class StartImpersonationDto {
+  /**
+   * Why support needs to see the account (e.g. a ticket number), kept in the audit trail
+   */
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  reason?: string;
+}
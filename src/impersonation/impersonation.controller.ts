@@ -0,0 +1,63 @@
+import {
+  Controller,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  ParseUUIDPipe,
+  Post,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import { ImpersonationService } from './impersonation.service';
+import { FindAllImpersonationsDto } from './dto/find-all-impersonations.dto';
+import type { Impersonator } from './interfaces/impersonation.interface';
+import { PaginationDto } from 'src/shared/dto/pagination.dto';
+import { RolesGuard } from 'src/auth/guards/roles.guard';
+import { Roles } from 'src/auth/decorators/roles.decorator';
+import { CurrentUser } from 'src/auth/decorators/current-user.decorator';
+
+@Controller('impersonations')
+@UseGuards(RolesGuard)
+export class ImpersonationController {
+  constructor(private readonly impersonationService: ImpersonationService) {}
+
+  /**
+   * End the impersonation the request is made with
+   */
+  @Post('stop')
+  @HttpCode(HttpStatus.OK)
+  async stopCurrent(
+    @CurrentUser('impersonator') impersonator: Impersonator | undefined,
+  ) {
+    if (impersonator) {
+      await this.impersonationService.stop(impersonator.impersonationId);
+    }
+
+    return { message: 'Impersonation stopped' };
+  }
+
+  @Get()
+  @Roles('ADMIN')
+  findAll(@Query() query: FindAllImpersonationsDto) {
+    return this.impersonationService.findAll(query);
+  }
+
+  @Get(':id/requests')
+  @Roles('ADMIN')
+  findRequests(
+    @Param('id', ParseUUIDPipe) id: string,
+    @Query() query: PaginationDto,
+  ) {
+    return this.impersonationService.findRequests(id, query);
+  }
+
+  @Post(':id/stop')
+  @HttpCode(HttpStatus.OK)
+  @Roles('ADMIN')
+  async stop(@Param('id', ParseUUIDPipe) id: string) {
+    await this.impersonationService.stop(id);
+
+    return { message: 'Impersonation stopped' };
+  }
+}
@@ -0,0 +1,33 @@
+import {
+  MiddlewareConsumer,
+  Module,
+  NestModule,
+  RequestMethod,
+} from '@nestjs/common';
+import { ImpersonationController } from './impersonation.controller';
+import { ImpersonationService } from './impersonation.service';
+import { ImpersonationAuditMiddleware } from './middlewares/impersonation-audit.middleware';
+import { PrismaService } from 'src/shared/services/prisma.service';
+import { JwtKeyService } from 'src/auth/jwt-key.service';
+import { UserService } from 'src/user/user.service';
+import { PasswordPolicyService } from 'src/auth/password-policy.service';
+import { PasswordHasherService } from 'src/auth/password-hasher.service';
+
+@Module({
+  controllers: [ImpersonationController],
+  providers: [
+    PrismaService,
+    ImpersonationService,
+    JwtKeyService,
+    UserService,
+    PasswordPolicyService,
+    PasswordHasherService,
+  ],
+})
+export class ImpersonationModule implements NestModule {
+  configure(consumer: MiddlewareConsumer) {
+    consumer
+      .apply(ImpersonationAuditMiddleware)
+      .forRoutes({ path: '*path', method: RequestMethod.ALL });
+  }
+}
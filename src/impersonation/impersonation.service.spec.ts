@@ -0,0 +1,198 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import {
+  BadRequestException,
+  ForbiddenException,
+  NotFoundException,
+} from '@nestjs/common';
+import { ImpersonationService } from './impersonation.service';
+import { PrismaService } from 'src/shared/services/prisma.service';
+import { JwtKeyService } from 'src/auth/jwt-key.service';
+import { UserService } from 'src/user/user.service';
+import { FormattedSafeUser } from 'src/user/utils/transform-user.util';
+
+describe('ImpersonationService', () => {
+  let service: ImpersonationService;
+
+  const mockPrismaService = {
+    user: {
+      findUniqueOrThrow: jest.fn(),
+    },
+    impersonation: {
+      create: jest.fn(),
+      findUnique: jest.fn(),
+      updateMany: jest.fn(),
+    },
+  };
+
+  const mockConfigService = {
+    get: jest.fn((key: string, defaultValue?: unknown) => defaultValue),
+  };
+
+  const mockJwtKeyService = {
+    signAccessToken: jest.fn().mockReturnValue('impersonation-token'),
+  };
+
+  const mockUserService = {
+    findById: jest.fn(),
+  };
+
+  const admin = {
+    id: 'admin-id',
+    email: 'admin@example.com',
+    roles: [{ name: 'ADMIN' }],
+  } as FormattedSafeUser;
+
+  const target = {
+    id: 'user-id',
+    email: 'user@example.com',
+    isActive: true,
+    roles: [{ name: 'USER' }],
+  };
+
+  const activeImpersonation = {
+    adminId: 'admin-id',
+    targetUserId: 'user-id',
+    expiresAt: new Date(Date.now() + 60000),
+    endedAt: null,
+    targetUser: { tokenVersion: 2 },
+    admin: {
+      email: 'admin@example.com',
+      isActive: true,
+      userRoles: [{ role: { name: 'ADMIN' } }],
+    },
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ImpersonationService,
+        { provide: PrismaService, useValue: mockPrismaService },
+        { provide: ConfigService, useValue: mockConfigService },
+        { provide: JwtKeyService, useValue: mockJwtKeyService },
+        { provide: UserService, useValue: mockUserService },
+      ],
+    }).compile();
+
+    service = module.get<ImpersonationService>(ImpersonationService);
+
+    jest.clearAllMocks();
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  describe('start', () => {
+    it('should sign a token carrying the target and the acting admin', async () => {
+      mockUserService.findById.mockResolvedValue(target);
+      mockPrismaService.user.findUniqueOrThrow.mockResolvedValue({
+        tokenVersion: 2,
+      });
+      mockPrismaService.impersonation.create.mockResolvedValue({
+        id: 'imp-id',
+      });
+
+      const result = await service.start(admin, 'user-id', {
+        reason: 'TICKET-42',
+      });
+
+      expect(result).toEqual({
+        accessToken: 'impersonation-token',
+        expiresIn: 900,
+        impersonationId: 'imp-id',
+      });
+      expect(mockJwtKeyService.signAccessToken).toHaveBeenCalledWith(
+        expect.objectContaining({
+          sub: 'user-id',
+          act: { sub: 'admin-id' },
+          imp: 'imp-id',
+          ver: 2,
+        }),
+        900,
+      );
+    });
+
+    it('should not allow impersonating yourself', async () => {
+      await expect(service.start(admin, 'admin-id', {})).rejects.toThrow(
+        BadRequestException,
+      );
+    });
+
+    it('should not allow impersonating another admin', async () => {
+      mockUserService.findById.mockResolvedValue({
+        ...target,
+        roles: [{ name: 'ADMIN' }],
+      });
+
+      await expect(service.start(admin, 'user-id', {})).rejects.toThrow(
+        ForbiddenException,
+      );
+      expect(mockPrismaService.impersonation.create).not.toHaveBeenCalled();
+    });
+
+    it('should not allow nested impersonation', async () => {
+      await expect(
+        service.start(
+          {
+            ...admin,
+            impersonator: {
+              id: 'other-admin',
+              email: 'other@example.com',
+              impersonationId: 'imp-id',
+            },
+          },
+          'user-id',
+          {},
+        ),
+      ).rejects.toThrow(ForbiddenException);
+    });
+  });
+
+  describe('resolve', () => {
+    it('should return the impersonator of an active impersonation', async () => {
+      mockPrismaService.impersonation.findUnique.mockResolvedValue(
+        activeImpersonation,
+      );
+
+      await expect(
+        service.resolve('imp-id', 'user-id', 'admin-id', 2),
+      ).resolves.toEqual({
+        id: 'admin-id',
+        email: 'admin@example.com',
+        impersonationId: 'imp-id',
+      });
+    });
+
+    it('should reject a stopped impersonation', async () => {
+      mockPrismaService.impersonation.findUnique.mockResolvedValue({
+        ...activeImpersonation,
+        endedAt: new Date(),
+      });
+
+      await expect(
+        service.resolve('imp-id', 'user-id', 'admin-id', 2),
+      ).resolves.toBeNull();
+    });
+
+    it('should reject tokens issued before the target revoked their tokens', async () => {
+      mockPrismaService.impersonation.findUnique.mockResolvedValue(
+        activeImpersonation,
+      );
+
+      await expect(
+        service.resolve('imp-id', 'user-id', 'admin-id', 1),
+      ).resolves.toBeNull();
+    });
+  });
+
+  describe('stop', () => {
+    it('should throw when the impersonation already ended', async () => {
+      mockPrismaService.impersonation.updateMany.mockResolvedValue({
+        count: 0,
+      });
+
+      await expect(service.stop('imp-id')).rejects.toThrow(NotFoundException);
+    });
+  });
+});
@@ -0,0 +1,225 @@
+import {
+  BadRequestException,
+  ForbiddenException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as crypto from 'crypto';
+import { Prisma } from 'generated/prisma';
+import { PrismaService } from 'src/shared/services/prisma.service';
+import { PaginationDto } from 'src/shared/dto/pagination.dto';
+import { JwtKeyService } from 'src/auth/jwt-key.service';
+import { UserService } from 'src/user/user.service';
+import { FormattedSafeUser } from 'src/user/utils/transform-user.util';
+import { StartImpersonationDto } from './dto/start-impersonation.dto';
+import { FindAllImpersonationsDto } from './dto/find-all-impersonations.dto';
+import {
+  ImpersonationToken,
+  Impersonator,
+} from './interfaces/impersonation.interface';
+
+const participantSelect = {
+  select: { id: true, email: true },
+} satisfies Prisma.UserDefaultArgs;
+
+@Injectable()
+export class ImpersonationService {
+  private readonly logger = new Logger(ImpersonationService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private configService: ConfigService,
+    private jwtKeyService: JwtKeyService,
+    private userService: UserService,
+  ) {}
+
+  /**
+   * Issue a short-lived access token for the target user that names the admin in an
+   * `act` claim (RFC 8693). There is no refresh token; when it expires, start again.
+   */
+  async start(
+    admin: FormattedSafeUser,
+    targetUserId: string,
+    dto: StartImpersonationDto,
+    ipAddress?: string,
+    userAgent?: string,
+  ): Promise<ImpersonationToken> {
+    if (admin.impersonator) {
+      throw new ForbiddenException('Impersonation sessions cannot be nested');
+    }
+
+    if (targetUserId === admin.id) {
+      throw new BadRequestException('You cannot impersonate yourself');
+    }
+
+    const target = await this.userService.findById(targetUserId);
+
+    if (!target) {
+      throw new NotFoundException('User not found');
+    }
+
+    if (!target.isActive) {
+      throw new BadRequestException('Inactive users cannot be impersonated');
+    }
+
+    // Acting as another admin would hide one admin's actions behind another's name
+    if (target.roles.some((role) => role.name === 'ADMIN')) {
+      throw new ForbiddenException('Administrators cannot be impersonated');
+    }
+
+    const expiresIn =
+      Number(this.configService.get('IMPERSONATION_TOKEN_EXPIRY_MINS', 15)) *
+      60;
+
+    const { tokenVersion } = await this.prisma.user.findUniqueOrThrow({
+      where: { id: target.id },
+      select: { tokenVersion: true },
+    });
+
+    const impersonation = await this.prisma.impersonation.create({
+      data: {
+        adminId: admin.id,
+        targetUserId: target.id,
+        reason: dto.reason,
+        ipAddress,
+        userAgent,
+        expiresAt: new Date(Date.now() + expiresIn * 1000),
+      },
+    });
+
+    this.logger.warn(
+      `Impersonation ${impersonation.id} started: admin ${admin.id} is acting as user ${target.id}`,
+    );
+
+    const accessToken = this.jwtKeyService.signAccessToken(
+      {
+        sub: target.id,
+        role: target.roles.map((role) => role.name),
+        act: { sub: admin.id },
+        imp: impersonation.id,
+        jti: crypto.randomUUID(),
+        ver: tokenVersion,
+      },
+      expiresIn,
+    );
+
+    return { accessToken, expiresIn, impersonationId: impersonation.id };
+  }
+
+  /**
+   * The impersonator behind a token, or null once the impersonation was stopped or has
+   * expired, the target's tokens were revoked, or the admin lost access
+   */
+  async resolve(
+    impersonationId: string,
+    targetUserId: string,
+    adminId: string,
+    tokenVersion: number,
+  ): Promise<Impersonator | null> {
+    const impersonation = await this.prisma.impersonation.findUnique({
+      where: { id: impersonationId },
+      select: {
+        adminId: true,
+        targetUserId: true,
+        expiresAt: true,
+        endedAt: true,
+        targetUser: { select: { tokenVersion: true } },
+        admin: {
+          select: {
+            email: true,
+            isActive: true,
+            userRoles: { select: { role: { select: { name: true } } } },
+          },
+        },
+      },
+    });
+
+    if (
+      !impersonation ||
+      impersonation.endedAt ||
+      impersonation.expiresAt <= new Date() ||
+      impersonation.targetUserId !== targetUserId ||
+      impersonation.adminId !== adminId ||
+      impersonation.targetUser.tokenVersion !== tokenVersion ||
+      !impersonation.admin.isActive ||
+      !impersonation.admin.userRoles.some(({ role }) => role.name === 'ADMIN')
+    ) {
+      return null;
+    }
+
+    return {
+      id: adminId,
+      email: impersonation.admin.email,
+      impersonationId,
+    };
+  }
+
+  async stop(impersonationId: string): Promise<void> {
+    const result = await this.prisma.impersonation.updateMany({
+      where: { id: impersonationId, endedAt: null },
+      data: { endedAt: new Date() },
+    });
+
+    if (result.count === 0) {
+      throw new NotFoundException('Active impersonation not found');
+    }
+
+    this.logger.warn(`Impersonation ${impersonationId} stopped`);
+  }
+
+  async recordRequest(
+    impersonationId: string,
+    method: string,
+    path: string,
+    statusCode: number,
+  ): Promise<void> {
+    await this.prisma.impersonationRequest.create({
+      data: { impersonationId, method, path, statusCode },
+    });
+  }
+
+  async findAll(params?: FindAllImpersonationsDto) {
+    const { skip = 0, take = 10, adminId, targetUserId } = params || {};
+
+    const where: Prisma.ImpersonationWhereInput = {
+      ...(adminId && { adminId }),
+      ...(targetUserId && { targetUserId }),
+    };
+
+    const [data, total] = await Promise.all([
+      this.prisma.impersonation.findMany({
+        skip,
+        ...(take > 0 && { take }), // Only apply take if > 0, otherwise return all
+        where,
+        include: {
+          admin: participantSelect,
+          targetUser: participantSelect,
+          _count: { select: { requests: true } },
+        },
+        orderBy: { createdAt: 'desc' },
+      }),
+      this.prisma.impersonation.count({ where }),
+    ]);
+
+    return { data, total };
+  }
+
+  async findRequests(impersonationId: string, params?: PaginationDto) {
+    const { skip = 0, take = 10 } = params || {};
+    const where = { impersonationId };
+
+    const [data, total] = await Promise.all([
+      this.prisma.impersonationRequest.findMany({
+        skip,
+        ...(take > 0 && { take }), // Only apply take if > 0, otherwise return all
+        where,
+        orderBy: { createdAt: 'asc' },
+      }),
+      this.prisma.impersonationRequest.count({ where }),
+    ]);
+
+    return { data, total };
+  }
+}
@@ -0,0 +1,14 @@
+/**
+ * The admin behind an impersonation token, exposed on the current user as `impersonator`
+ */
+export interface Impersonator {
+  id: string;
+  email: string;
+  impersonationId: string;
+}
+
+export interface ImpersonationToken {
+  accessToken: string;
+  expiresIn: number;
+  impersonationId: string;
+}
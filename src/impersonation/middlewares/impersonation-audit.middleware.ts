@@ -0,0 +1,43 @@
+import { Injectable, Logger, NestMiddleware } from '@nestjs/common';
+import { Request, Response, NextFunction } from 'express';
+import { FormattedSafeUser } from 'src/user/utils/transform-user.util';
+import { ImpersonationService } from '../impersonation.service';
+
+/**
+ * Records every request made with an impersonation token. It hooks into the finished
+ * response so requests rejected by guards are recorded too, with their final status.
+ */
+@Injectable()
+export class ImpersonationAuditMiddleware implements NestMiddleware {
+  private readonly logger = new Logger(ImpersonationAuditMiddleware.name);
+
+  constructor(private impersonationService: ImpersonationService) {}
+
+  use(req: Request, res: Response, next: NextFunction) {
+    res.on('finish', () => {
+      const impersonator = (req.user as FormattedSafeUser | undefined)
+        ?.impersonator;
+
+      if (!impersonator) {
+        return;
+      }
+
+      // The query string is left out, it may carry tokens
+      this.impersonationService
+        .recordRequest(
+          impersonator.impersonationId,
+          req.method,
+          req.originalUrl.split('?')[0],
+          res.statusCode,
+        )
+        .catch((error) =>
+          this.logger.error(
+            `Failed to record request of impersonation ${impersonator.impersonationId}`,
+            error,
+          ),
+        );
+    });
+
+    next();
+  }
+}
@@ -0,0 +1,19 @@
+export const MAIL_TRANSPORT = 'MAIL_TRANSPORT';
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+export interface OutgoingMailMessage extends MailMessage {
+  from: string;
+}
+
+/**
+ * Anything that can deliver a mail message (SMTP, file drop, console, ...)
+ */
+export interface MailTransport {
+  send(message: OutgoingMailMessage): Promise<void>;
+}
@@ -0,0 +1,40 @@
+import { Module } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { MailService } from './mail.service';
+import {
+  MAIL_TRANSPORT,
+  MailTransport,
+} from './interfaces/mail-transport.interface';
+import { SmtpMailTransport } from './transports/smtp.transport';
+import { FileMailTransport } from './transports/file.transport';
+import { ConsoleMailTransport } from './transports/console.transport';
+
+@Module({
+  providers: [
+    MailService,
+    {
+      provide: MAIL_TRANSPORT,
+      useFactory: (configService: ConfigService): MailTransport => {
+        switch (configService.get<string>('MAIL_TRANSPORT', 'console')) {
+          case 'smtp':
+            return new SmtpMailTransport({
+              host: configService.getOrThrow<string>('SMTP_HOST'),
+              port: Number(configService.get('SMTP_PORT', 587)),
+              secure: configService.get('SMTP_SECURE') === 'true',
+              user: configService.get<string>('SMTP_USER'),
+              pass: configService.get<string>('SMTP_PASS'),
+            });
+          case 'file':
+            return new FileMailTransport(
+              configService.get<string>('MAIL_FILE_DIR', '.tmp/mail'),
+            );
+          default:
+            return new ConsoleMailTransport();
+        }
+      },
+      inject: [ConfigService],
+    },
+  ],
+  exports: [MailService],
+})
+export class MailModule {}
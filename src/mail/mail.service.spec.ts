@@ -0,0 +1,62 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import { MailService } from './mail.service';
+import { MAIL_TRANSPORT } from './interfaces/mail-transport.interface';
+
+describe('MailService', () => {
+  let service: MailService;
+
+  const mockTransport = {
+    send: jest.fn(),
+  };
+
+  const config: Record<string, string> = {
+    EMAIL_FROM: 'noreply@example.com',
+    FRONTEND_URL: 'https://app.example.com, https://admin.example.com',
+  };
+
+  const mockConfigService = {
+    get: jest.fn(
+      (key: string, defaultValue?: unknown) => config[key] ?? defaultValue,
+    ),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        MailService,
+        { provide: MAIL_TRANSPORT, useValue: mockTransport },
+        { provide: ConfigService, useValue: mockConfigService },
+      ],
+    }).compile();
+
+    service = module.get<MailService>(MailService);
+
+    jest.clearAllMocks();
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  it('should send through the transport with the configured sender', async () => {
+    await service.send({
+      to: 'user@example.com',
+      subject: 'Hi',
+      text: 'Hello',
+    });
+
+    expect(mockTransport.send).toHaveBeenCalledWith({
+      to: 'user@example.com',
+      subject: 'Hi',
+      text: 'Hello',
+      from: 'noreply@example.com',
+    });
+  });
+
+  it('should build links against the first frontend URL', () => {
+    expect(
+      service.buildFrontendUrl('/auth/verify-email', { token: 'a b' }),
+    ).toBe('https://app.example.com/auth/verify-email?token=a+b');
+  });
+});
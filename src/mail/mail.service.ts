@@ -0,0 +1,39 @@
+import { Inject, Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import {
+  MAIL_TRANSPORT,
+  MailMessage,
+  type MailTransport,
+} from './interfaces/mail-transport.interface';
+
+@Injectable()
+export class MailService {
+  constructor(
+    @Inject(MAIL_TRANSPORT) private readonly transport: MailTransport,
+    private configService: ConfigService,
+  ) {}
+
+  async send(message: MailMessage): Promise<void> {
+    await this.transport.send({
+      ...message,
+      from: this.configService.get<string>('EMAIL_FROM', 'noreply@localhost'),
+    });
+  }
+
+  /**
+   * Build a link into the frontend (first entry of FRONTEND_URL)
+   */
+  buildFrontendUrl(pathname: string, params: Record<string, string>): string {
+    const frontendUrl = this.configService
+      .get<string>('FRONTEND_URL', 'http://localhost:4200')
+      .split(',')[0]
+      .trim();
+
+    const url = new URL(pathname, frontendUrl);
+    Object.entries(params).forEach(([key, value]) =>
+      url.searchParams.set(key, value),
+    );
+
+    return url.toString();
+  }
+}
@@ -0,0 +1,20 @@
+import { MailMessage } from '../interfaces/mail-transport.interface';
+
+export function magicLinkTemplate(
+  to: string,
+  signInUrl: string,
+  expiresInMinutes: number,
+): MailMessage {
+  return {
+    to,
+    subject: 'Your sign-in link',
+    text: [
+      'Open the link below to sign in:',
+      signInUrl,
+      '',
+      `This link expires in ${expiresInMinutes} minutes and can only be used once. If you did not request it, you can ignore this email.`,
+    ].join('\n'),
+    html: `<p><a href="${signInUrl}">Sign in</a></p>
+<p>This link expires in ${expiresInMinutes} minutes and can only be used once. If you did not request it, you can ignore this email.</p>`,
+  };
+}
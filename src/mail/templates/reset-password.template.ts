@@ -0,0 +1,23 @@
+import { MailMessage } from '../interfaces/mail-transport.interface';
+
+export function resetPasswordTemplate(
+  to: string,
+  resetUrl: string,
+  expiresInMinutes: number,
+): MailMessage {
+  return {
+    to,
+    subject: 'Reset your password',
+    text: [
+      'We received a request to reset your password.',
+      '',
+      'Open the link below to choose a new password:',
+      resetUrl,
+      '',
+      `This link expires in ${expiresInMinutes} minutes and can only be used once. If you did not request a password reset, you can ignore this email.`,
+    ].join('\n'),
+    html: `<p>We received a request to reset your password.</p>
+<p><a href="${resetUrl}">Choose a new password</a></p>
+<p>This link expires in ${expiresInMinutes} minutes and can only be used once. If you did not request a password reset, you can ignore this email.</p>`,
+  };
+}
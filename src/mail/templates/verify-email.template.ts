@@ -0,0 +1,24 @@
+import { MailMessage } from '../interfaces/mail-transport.interface';
+
+export function verifyEmailTemplate(
+  to: string,
+  verificationUrl: string,
+  expiresInHours: number,
+): MailMessage {
+  return {
+    to,
+    subject: 'Verify your email address',
+    text: [
+      'Welcome!',
+      '',
+      'Please confirm your email address by opening the link below:',
+      verificationUrl,
+      '',
+      `This link expires in ${expiresInHours} hours. If you did not create an account, you can ignore this email.`,
+    ].join('\n'),
+    html: `<p>Welcome!</p>
+<p>Please confirm your email address by clicking the link below:</p>
+<p><a href="${verificationUrl}">Verify email address</a></p>
+<p>This link expires in ${expiresInHours} hours. If you did not create an account, you can ignore this email.</p>`,
+  };
+}
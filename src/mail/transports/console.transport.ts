@@ -0,0 +1,20 @@
+import { Logger } from '@nestjs/common';
+import {
+  MailTransport,
+  OutgoingMailMessage,
+} from '../interfaces/mail-transport.interface';
+
+/**
+ * Logs messages instead of sending them (default for local development)
+ */
+export class ConsoleMailTransport implements MailTransport {
+  private readonly logger = new Logger('Mail');
+
+  send(message: OutgoingMailMessage): Promise<void> {
+    this.logger.log(
+      `To: ${message.to} | Subject: ${message.subject}\n${message.text}`,
+    );
+
+    return Promise.resolve();
+  }
+}
@@ -0,0 +1,26 @@
+import * as fs from 'fs/promises';
+import * as path from 'path';
+import * as crypto from 'crypto';
+import {
+  MailTransport,
+  OutgoingMailMessage,
+} from '../interfaces/mail-transport.interface';
+
+/**
+ * Writes every message as a JSON file, so mail can be inspected offline and in tests
+ */
+export class FileMailTransport implements MailTransport {
+  constructor(private readonly directory: string) {}
+
+  async send(message: OutgoingMailMessage): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+
+    const fileName = `${Date.now()}-${crypto.randomUUID()}.json`;
+    const payload = { ...message, sentAt: new Date().toISOString() };
+
+    await fs.writeFile(
+      path.join(this.directory, fileName),
+      JSON.stringify(payload, null, 2),
+    );
+  }
+}
@@ -0,0 +1,32 @@
+import * as nodemailer from 'nodemailer';
+import {
+  MailTransport,
+  OutgoingMailMessage,
+} from '../interfaces/mail-transport.interface';
+
+export interface SmtpTransportOptions {
+  host: string;
+  port: number;
+  secure: boolean;
+  user?: string;
+  pass?: string;
+}
+
+export class SmtpMailTransport implements MailTransport {
+  private readonly transporter: nodemailer.Transporter;
+
+  constructor(options: SmtpTransportOptions) {
+    this.transporter = nodemailer.createTransport({
+      host: options.host,
+      port: options.port,
+      secure: options.secure,
+      ...(options.user && {
+        auth: { user: options.user, pass: options.pass },
+      }),
+    });
+  }
+
+  async send(message: OutgoingMailMessage): Promise<void> {
+    await this.transporter.sendMail(message);
+  }
+}
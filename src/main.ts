@@ -1,7 +1,8 @@
 import { NestFactory } from '@nestjs/core';
 import { AppModule } from './app.module';
 import { PrismaExceptionFilter } from './shared/filters/prisma-exception.filter';
-import { ValidationPipe } from '@nestjs/common';
+import { AccountLockedExceptionFilter } from './shared/filters/account-locked-exception.filter';
+import { RequestMethod, ValidationPipe } from '@nestjs/common';
 import cookieParser from 'cookie-parser';
 import { ConfigService } from '@nestjs/config';
 import { WINSTON_MODULE_NEST_PROVIDER } from 'nest-winston';
@@ -20,9 +21,14 @@ async function bootstrap() {
   app.useLogger(app.get(WINSTON_MODULE_NEST_PROVIDER));
 
   const configService = app.get(ConfigService);
-  app.useGlobalFilters(new PrismaExceptionFilter());
+  app.useGlobalFilters(new PrismaExceptionFilter(), new AccountLockedExceptionFilter());
   app.useGlobalPipes(new ValidationPipe({ transform: true }));
-  app.setGlobalPrefix('api');
+  app.setGlobalPrefix('api', {
+    exclude: [
+      { path: '.well-known/jwks.json', method: RequestMethod.GET },
+      { path: '.well-known/openid-configuration', method: RequestMethod.GET },
+    ],
+  });
   app.use(new SecurityMiddleware().use);
 
   app.use(cookieParser());
@@ -35,6 +41,7 @@ async function bootstrap() {
   app.enableCors({
     origin: frontendUrls,
     credentials: true,
+    exposedHeaders: ['X-CSRF-Token'], // Lets frontends on another origin read the CSRF token
   });
 
   await app.listen(process.env.PORT ?? 3000);
@@ -0,0 +1,43 @@
+import {
+  ArrayNotEmpty,
+  IsArray,
+  IsBoolean,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  IsUrl,
+  MaxLength,
+} from 'class-validator';
+
+export class CreateOidcClientDto {
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  name: string;
+
+  /**
+   * Exact URIs the authorization response may be sent to
+   */
+  @IsArray()
+  @ArrayNotEmpty()
+  @IsUrl({ require_tld: false, require_protocol: true }, { each: true })
+  redirectUris: string[];
+
+  /**
+   * Public clients (SPAs, native apps) can't keep a secret and authenticate with PKCE only
+   */
+  @IsOptional()
+  @IsBoolean()
+  confidential?: boolean;
+
+  /**
+   * First-party apps can skip the consent screen
+   */
+  @IsOptional()
+  @IsBoolean()
+  skipConsent?: boolean;
+
+  @IsOptional()
+  @IsBoolean()
+  isActive?: boolean;
+}
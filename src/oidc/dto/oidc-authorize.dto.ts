@@ -0,0 +1,44 @@
+import { IsOptional, IsString } from 'class-validator';
+
+/**
+ * Authorization request parameters (OpenID Connect Core section 3.1.2.1), passed on by
+ * the frontend page the relying party redirected to. Everything is optional here so
+ * that invalid requests are answered with OAuth errors instead of validation errors.
+ */
+export class OidcAuthorizeDto {
+  @IsOptional()
+  @IsString()
+  response_type?: string;
+
+  @IsOptional()
+  @IsString()
+  client_id?: string;
+
+  @IsOptional()
+  @IsString()
+  redirect_uri?: string;
+
+  @IsOptional()
+  @IsString()
+  scope?: string;
+
+  @IsOptional()
+  @IsString()
+  state?: string;
+
+  @IsOptional()
+  @IsString()
+  nonce?: string;
+
+  @IsOptional()
+  @IsString()
+  code_challenge?: string;
+
+  @IsOptional()
+  @IsString()
+  code_challenge_method?: string;
+
+  @IsOptional()
+  @IsString()
+  prompt?: string;
+}
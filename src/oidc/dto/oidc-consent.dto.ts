@@ -0,0 +1,10 @@
+import { IsBoolean } from 'class-validator';
+import { OidcAuthorizeDto } from './oidc-authorize.dto';
+
+/**
+ * The consent screen's answer, sent together with the original authorization request
+ */
+export class OidcConsentDto extends OidcAuthorizeDto {
+  @IsBoolean()
+  approve: boolean;
+}
@@ -0,0 +1,35 @@
+import { IsOptional, IsString } from 'class-validator';
+
+/**
+ * Token request parameters for the authorization_code and refresh_token grants.
+ * Everything is optional here so that missing values produce OAuth errors.
+ */
+export class OidcTokenDto {
+  @IsOptional()
+  @IsString()
+  grant_type?: string;
+
+  @IsOptional()
+  @IsString()
+  code?: string;
+
+  @IsOptional()
+  @IsString()
+  redirect_uri?: string;
+
+  @IsOptional()
+  @IsString()
+  code_verifier?: string;
+
+  @IsOptional()
+  @IsString()
+  refresh_token?: string;
+
+  @IsOptional()
+  @IsString()
+  client_id?: string;
+
+  @IsOptional()
+  @IsString()
+  client_secret?: string;
+}
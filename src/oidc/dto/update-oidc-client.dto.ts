@@ -0,0 +1,6 @@
+import { OmitType, PartialType } from '@nestjs/mapped-types';
+import { CreateOidcClientDto } from './create-oidc-client.dto';
+
+export class UpdateOidcClientDto extends PartialType(
+  OmitType(CreateOidcClientDto, ['confidential'] as const),
+) {}
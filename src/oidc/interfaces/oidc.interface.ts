@@ -0,0 +1,65 @@
+import type { Request } from 'express';
+import type { SafeOidcClient } from '../selects/safe-oidc-client.select';
+
+export const OIDC_SCOPES = ['openid', 'profile', 'email'] as const;
+
+export type OidcScope = (typeof OIDC_SCOPES)[number];
+
+/**
+ * What a session issued to a relying party was granted. Carried into its access tokens
+ * as `azp` and `scope`, and kept on the session so refreshes keep it.
+ */
+export interface OidcGrant {
+  /**
+   * OidcClient.id (the database id, not the public client_id)
+   */
+  oidcClientId: string;
+  clientId: string;
+  scopes: string[];
+}
+
+/**
+ * Attached to the request when its access token was issued to a relying party
+ */
+export interface OidcGrantContext {
+  clientId: string;
+  scopes: string[];
+}
+
+export type OidcAuthenticatedRequest = Request & {
+  oidcGrant?: OidcGrantContext;
+};
+
+/**
+ * Result of an authorization request: either where to send the browser back to (with a
+ * code or an error), or what the consent screen has to ask the user
+ */
+export type OidcAuthorizationResult =
+  | { redirectTo: string }
+  | {
+      consentRequired: true;
+      client: { clientId: string; name: string };
+      scopes: string[];
+    };
+
+export interface CreatedOidcClient {
+  /**
+   * The plain client secret - it is only returned once, and never for public clients
+   */
+  clientSecret: string | null;
+  client: SafeOidcClient;
+}
+
+/**
+ * Token endpoint response (OpenID Connect Core section 3.1.3.3)
+ */
+export interface OidcTokenResponse {
+  access_token: string;
+  token_type: 'Bearer';
+  expires_in: number;
+  refresh_token?: string;
+  id_token?: string;
+  scope?: string;
+}
+
+export type OidcClaims = Record<string, string | number | boolean | undefined>;
@@ -0,0 +1,24 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { OidcClientController } from './oidc-client.controller';
+import { OidcClientService } from './oidc-client.service';
+import { SessionService } from 'src/session/session.service';
+
+describe('OidcClientController', () => {
+  let controller: OidcClientController;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [OidcClientController],
+      providers: [
+        { provide: OidcClientService, useValue: {} },
+        { provide: SessionService, useValue: {} },
+      ],
+    }).compile();
+
+    controller = module.get<OidcClientController>(OidcClientController);
+  });
+
+  it('should be defined', () => {
+    expect(controller).toBeDefined();
+  });
+});
@@ -0,0 +1,58 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Patch,
+  Post,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import { OidcClientService } from './oidc-client.service';
+import { CreateOidcClientDto } from './dto/create-oidc-client.dto';
+import { UpdateOidcClientDto } from './dto/update-oidc-client.dto';
+import { PaginationDto } from 'src/shared/dto/pagination.dto';
+import { RolesGuard } from 'src/auth/guards/roles.guard';
+import { Roles } from 'src/auth/decorators/roles.decorator';
+import { RequireRecentAuth } from 'src/auth/decorators/require-recent-auth.decorator';
+
+@Controller('oidc/clients')
+@UseGuards(RolesGuard)
+@Roles('ADMIN') // Only admins can register relying parties
+export class OidcClientController {
+  constructor(private readonly oidcClientService: OidcClientService) {}
+
+  @Post()
+  @HttpCode(HttpStatus.CREATED)
+  create(@Body() createOidcClientDto: CreateOidcClientDto) {
+    return this.oidcClientService.create(createOidcClientDto);
+  }
+
+  @Get()
+  findAll(@Query() query: PaginationDto) {
+    return this.oidcClientService.findAll(query);
+  }
+
+  @Get(':id')
+  findOne(@Param('id') id: string) {
+    return this.oidcClientService.findOne(id);
+  }
+
+  @Patch(':id')
+  update(
+    @Param('id') id: string,
+    @Body() updateOidcClientDto: UpdateOidcClientDto,
+  ) {
+    return this.oidcClientService.update(id, updateOidcClientDto);
+  }
+
+  @Delete(':id')
+  @RequireRecentAuth()
+  @HttpCode(HttpStatus.NO_CONTENT)
+  delete(@Param('id') id: string) {
+    return this.oidcClientService.delete(id);
+  }
+}
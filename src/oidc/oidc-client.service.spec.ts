@@ -0,0 +1,105 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import * as crypto from 'crypto';
+import { OidcClientService } from './oidc-client.service';
+import { PrismaService } from 'src/shared/services/prisma.service';
+import { OAuthTokenException } from 'src/service-account/exceptions/oauth-token.exception';
+
+describe('OidcClientService', () => {
+  let service: OidcClientService;
+
+  const mockPrismaService = {
+    oidcClient: {
+      create: jest.fn(),
+      findUnique: jest.fn(),
+    },
+  };
+
+  const hash = (secret: string) =>
+    crypto.createHash('sha256').update(secret).digest('hex');
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        OidcClientService,
+        { provide: PrismaService, useValue: mockPrismaService },
+      ],
+    }).compile();
+
+    service = module.get<OidcClientService>(OidcClientService);
+
+    jest.clearAllMocks();
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  describe('create', () => {
+    it('should store only a hash of the secret of confidential clients', async () => {
+      mockPrismaService.oidcClient.create.mockResolvedValue({ id: 'id' });
+
+      const { clientSecret } = await service.create({
+        name: 'Dashboard',
+        redirectUris: ['https://app.example.com/callback'],
+      });
+
+      expect(clientSecret?.startsWith('lnx_oidc_')).toBe(true);
+      expect(mockPrismaService.oidcClient.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({
+            clientSecretHash: hash(clientSecret!),
+          }) as object,
+        }),
+      );
+    });
+
+    it('should not give public clients a secret', async () => {
+      mockPrismaService.oidcClient.create.mockResolvedValue({ id: 'id' });
+
+      const { clientSecret } = await service.create({
+        name: 'Mobile app',
+        redirectUris: ['https://app.example.com/callback'],
+        confidential: false,
+      });
+
+      expect(clientSecret).toBeNull();
+      expect(mockPrismaService.oidcClient.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({ clientSecretHash: null }) as object,
+        }),
+      );
+    });
+  });
+
+  describe('authenticate', () => {
+    it('should require the secret of confidential clients', async () => {
+      mockPrismaService.oidcClient.findUnique.mockResolvedValue({
+        id: 'id',
+        isActive: true,
+        clientSecretHash: hash('secret'),
+      });
+
+      await expect(
+        service.authenticate('client-id', 'secret'),
+      ).resolves.toMatchObject({ id: 'id' });
+      await expect(service.authenticate('client-id', 'wrong')).rejects.toThrow(
+        OAuthTokenException,
+      );
+      await expect(service.authenticate('client-id')).rejects.toThrow(
+        OAuthTokenException,
+      );
+    });
+
+    it('should reject inactive clients', async () => {
+      mockPrismaService.oidcClient.findUnique.mockResolvedValue({
+        id: 'id',
+        isActive: false,
+        clientSecretHash: null,
+      });
+
+      await expect(service.authenticate('client-id')).rejects.toThrow(
+        OAuthTokenException,
+      );
+    });
+  });
+});
@@ -0,0 +1,132 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import * as crypto from 'crypto';
+import { OidcClient } from 'generated/prisma';
+import { PrismaService } from 'src/shared/services/prisma.service';
+import { PaginationDto } from 'src/shared/dto/pagination.dto';
+import { OAuthTokenException } from 'src/service-account/exceptions/oauth-token.exception';
+import { CreateOidcClientDto } from './dto/create-oidc-client.dto';
+import { UpdateOidcClientDto } from './dto/update-oidc-client.dto';
+import { CreatedOidcClient } from './interfaces/oidc.interface';
+import {
+  SafeOidcClient,
+  safeOidcClientSelect,
+} from './selects/safe-oidc-client.select';
+
+/**
+ * Makes leaked client secrets easy to recognise for secret scanners
+ */
+const CLIENT_SECRET_PREFIX = 'lnx_oidc_';
+
+@Injectable()
+export class OidcClientService {
+  constructor(private prisma: PrismaService) {}
+
+  async create(dto: CreateOidcClientDto): Promise<CreatedOidcClient> {
+    const { confidential = true, ...data } = dto;
+    const clientSecret = confidential
+      ? CLIENT_SECRET_PREFIX + crypto.randomBytes(32).toString('base64url')
+      : null;
+
+    const client = await this.prisma.oidcClient.create({
+      data: {
+        ...data,
+        clientId: crypto.randomBytes(16).toString('hex'),
+        clientSecretHash: clientSecret && this.hashSecret(clientSecret),
+      },
+      select: safeOidcClientSelect,
+    });
+
+    return { clientSecret, client };
+  }
+
+  async findAll(
+    params?: PaginationDto,
+  ): Promise<{ data: SafeOidcClient[]; total: number }> {
+    const { skip = 0, take = 10 } = params || {};
+
+    const [data, total] = await Promise.all([
+      this.prisma.oidcClient.findMany({
+        skip,
+        ...(take > 0 && { take }), // Only apply take if > 0, otherwise return all
+        select: safeOidcClientSelect,
+        orderBy: { createdAt: 'desc' },
+      }),
+      this.prisma.oidcClient.count(),
+    ]);
+
+    return { data, total };
+  }
+
+  async findOne(id: string): Promise<SafeOidcClient> {
+    const client = await this.prisma.oidcClient.findUnique({
+      where: { id },
+      select: safeOidcClientSelect,
+    });
+
+    if (!client) {
+      throw new NotFoundException('OIDC client not found');
+    }
+
+    return client;
+  }
+
+  async update(id: string, dto: UpdateOidcClientDto): Promise<SafeOidcClient> {
+    return this.prisma.oidcClient.update({
+      where: { id },
+      data: { ...dto, updatedAt: new Date() },
+      select: safeOidcClientSelect,
+    });
+  }
+
+  /**
+   * Deleting a client also deletes its sessions, consents and pending codes
+   */
+  async delete(id: string): Promise<void> {
+    await this.prisma.oidcClient.delete({ where: { id } });
+  }
+
+  async findActiveByClientId(clientId: string): Promise<OidcClient | null> {
+    const client = await this.prisma.oidcClient.findUnique({
+      where: { clientId },
+    });
+
+    return client?.isActive ? client : null;
+  }
+
+  /**
+   * Token endpoint client authentication. Confidential clients must present their
+   * secret; public clients must not, since they can't keep one.
+   */
+  async authenticate(
+    clientId?: string,
+    clientSecret?: string,
+  ): Promise<OidcClient> {
+    const client = clientId ? await this.findActiveByClientId(clientId) : null;
+
+    const authenticated =
+      client &&
+      (client.clientSecretHash
+        ? !!clientSecret &&
+          crypto.timingSafeEqual(
+            Buffer.from(this.hashSecret(clientSecret)),
+            Buffer.from(client.clientSecretHash),
+          )
+        : !clientSecret);
+
+    if (!authenticated) {
+      throw new OAuthTokenException(
+        'invalid_client',
+        'Client authentication failed',
+      );
+    }
+
+    return client;
+  }
+
+  /**
+   * Client secrets are random and high-entropy, so a fast hash is enough (as for refresh tokens)
+   */
+  private hashSecret(secret: string): string {
+    return crypto.createHash('sha256').update(secret).digest('hex');
+  }
+}
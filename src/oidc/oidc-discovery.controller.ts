@@ -0,0 +1,18 @@
+import { Controller, Get, Header } from '@nestjs/common';
+import { Public } from 'src/auth/decorators/public.decorator';
+import { OidcService } from './oidc.service';
+
+/**
+ * Served outside the /api prefix, next to the JWKS, where relying parties look for it
+ */
+@Controller('.well-known')
+export class OidcDiscoveryController {
+  constructor(private oidcService: OidcService) {}
+
+  @Get('openid-configuration')
+  @Public()
+  @Header('Cache-Control', 'public, max-age=300')
+  getDiscoveryDocument() {
+    return this.oidcService.getDiscoveryDocument();
+  }
+}
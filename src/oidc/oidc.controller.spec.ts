@@ -0,0 +1,153 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ExecutionContext, ForbiddenException } from '@nestjs/common';
+import { Reflector } from '@nestjs/core';
+import { OidcController } from './oidc.controller';
+import { OidcService } from './oidc.service';
+import type { OidcAuthenticatedRequest } from './interfaces/oidc.interface';
+import type { AuthenticatedRequest } from 'src/personal-access-token/interfaces/personal-access-token.interface';
+import { FormattedSafeUser } from 'src/user/utils/transform-user.util';
+import { OidcScopeGuard } from 'src/auth/guards/oidc-scope.guard';
+import { AuthController } from 'src/auth/auth.controller';
+import { PersonalAccessTokenController } from 'src/personal-access-token/personal-access-token.controller';
+import { EmailVerificationService } from 'src/auth/email-verification.service';
+import { GUARDS_METADATA } from '@nestjs/common/constants';
+import { ServiceAccountBlockedGuard } from 'src/auth/guards/service-account-blocked.guard';
+import { MfaController } from 'src/auth/mfa.controller';
+import { UserController } from 'src/user/user.controller';
+
+describe('OidcController', () => {
+  let controller: OidcController;
+
+  const mockOidcService = {
+    authorize: jest.fn(),
+    getUserClaims: jest.fn(),
+  };
+
+  const user = { id: 'user-id' } as FormattedSafeUser;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [OidcController],
+      providers: [
+        { provide: OidcService, useValue: mockOidcService },
+        { provide: EmailVerificationService, useValue: {} },
+      ],
+    }).compile();
+
+    controller = module.get<OidcController>(OidcController);
+
+    jest.clearAllMocks();
+  });
+
+  it('should be defined', () => {
+    expect(controller).toBeDefined();
+  });
+
+  it('should not let a relying party token authorize clients', () => {
+    const req = {
+      oidcGrant: { clientId: 'client-id', scopes: ['openid'] },
+    } as AuthenticatedRequest & OidcAuthenticatedRequest;
+
+    expect(() => controller.authorize(user, {}, req)).toThrow(
+      ForbiddenException,
+    );
+    expect(mockOidcService.authorize).not.toHaveBeenCalled();
+  });
+
+  it('should only serve userinfo for tokens with the openid scope', () => {
+    expect(() =>
+      controller.userInfo(user, {} as OidcAuthenticatedRequest),
+    ).toThrow(ForbiddenException);
+
+    controller.userInfo(user, {
+      oidcGrant: { clientId: 'client-id', scopes: ['openid', 'email'] },
+    } as OidcAuthenticatedRequest);
+
+    expect(mockOidcService.getUserClaims).toHaveBeenCalledWith(user, [
+      'openid',
+      'email',
+    ]);
+  });
+
+  describe('relying party access tokens', () => {
+    const guard = new OidcScopeGuard(new Reflector());
+    const scopes = ['openid', 'profile', 'email'];
+
+    // Runs the global guard against the route's real metadata
+    const canActivate = (
+      controllerClass: { prototype: object },
+      method: string,
+    ) =>
+      guard.canActivate({
+        getHandler: () =>
+          (controllerClass.prototype as Record<string, unknown>)[method],
+        getClass: () => controllerClass,
+        switchToHttp: () => ({
+          getRequest: () => ({ oidcGrant: { clientId: 'client-id', scopes } }),
+        }),
+      } as unknown as ExecutionContext);
+
+    it('should be allowed on userinfo', () => {
+      expect(canActivate(OidcController, 'userInfo')).toBe(true);
+      expect(canActivate(OidcController, 'userInfoPost')).toBe(true);
+    });
+
+    it('should be rejected on routes that do not declare a scope', () => {
+      expect(() => canActivate(AuthController, 'getCurrentUser')).toThrow(
+        ForbiddenException,
+      );
+      expect(() =>
+        canActivate(PersonalAccessTokenController, 'create'),
+      ).toThrow(ForbiddenException);
+    });
+  });
+
+  describe('service account tokens', () => {
+    const reflector = new Reflector();
+
+    // Guards of the route, from the controller and the handler
+    const guardsOf = (controllerClass: { prototype: object }, method: string) =>
+      [
+        controllerClass,
+        (controllerClass.prototype as Record<string, object>)[method],
+      ].flatMap(
+        (target) =>
+          reflector.get<unknown[] | undefined>(GUARDS_METADATA, target) ?? [],
+      );
+
+    const contextFor = (principal: object) =>
+      ({
+        switchToHttp: () => ({ getRequest: () => ({ user: principal }) }),
+      }) as unknown as ExecutionContext;
+
+    it('should be blocked on routes that act on the caller as a user', () => {
+      for (const [controllerClass, method] of [
+        [OidcController, 'authorize'],
+        [OidcController, 'consent'],
+        [PersonalAccessTokenController, 'create'],
+        [UserController, 'impersonate'],
+        [MfaController, 'getStatus'],
+      ] as const) {
+        expect(guardsOf(controllerClass, method)).toContain(
+          ServiceAccountBlockedGuard,
+        );
+      }
+    });
+
+    it('should only let users through', () => {
+      const guard = new ServiceAccountBlockedGuard();
+
+      expect(() =>
+        guard.canActivate(
+          contextFor({
+            id: 'service-account-id',
+            clientId: 'client-id',
+            roles: [],
+            isServiceAccount: true,
+          }),
+        ),
+      ).toThrow(ForbiddenException);
+      expect(guard.canActivate(contextFor(user))).toBe(true);
+    });
+  });
+});
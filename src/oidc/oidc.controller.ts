@@ -0,0 +1,137 @@
+import {
+  Body,
+  Controller,
+  ForbiddenException,
+  Get,
+  Header,
+  HttpCode,
+  HttpStatus,
+  Post,
+  Query,
+  Req,
+} from '@nestjs/common';
+import { Throttle } from '@nestjs/throttler';
+import type { Request } from 'express';
+import { Public } from 'src/auth/decorators/public.decorator';
+import { CurrentUser } from 'src/auth/decorators/current-user.decorator';
+import { parseBasicAuth } from 'src/auth/utils/basic-auth.util';
+import type { FormattedSafeUser } from 'src/user/utils/transform-user.util';
+import type { AuthenticatedRequest } from 'src/personal-access-token/interfaces/personal-access-token.interface';
+import { OidcService } from './oidc.service';
+import { OidcAuthorizeDto } from './dto/oidc-authorize.dto';
+import { OidcConsentDto } from './dto/oidc-consent.dto';
+import { OidcTokenDto } from './dto/oidc-token.dto';
+import type { OidcAuthenticatedRequest } from './interfaces/oidc.interface';
+import { BlockImpersonation } from 'src/auth/decorators/block-impersonation.decorator';
+import { BlockServiceAccounts } from 'src/auth/decorators/block-service-accounts.decorator';
+import { AllowOidcScopes } from 'src/auth/decorators/allow-oidc-scopes.decorator';
+import { RequireVerifiedEmail } from 'src/auth/decorators/require-verified-email.decorator';
+
+@Controller('oidc')
+export class OidcController {
+  constructor(private readonly oidcService: OidcService) {}
+
+  /**
+   * Called by the frontend's authorization page for the signed-in user, with the
+   * parameters the relying party sent
+   */
+  @Get('authorize')
+  @BlockImpersonation()
+  @BlockServiceAccounts()
+  @RequireVerifiedEmail()
+  authorize(
+    @CurrentUser() user: FormattedSafeUser,
+    @Query() oidcAuthorizeDto: OidcAuthorizeDto,
+    @Req() req: AuthenticatedRequest & OidcAuthenticatedRequest,
+  ) {
+    this.assertFirstPartyToken(req);
+
+    return this.oidcService.authorize(user, oidcAuthorizeDto);
+  }
+
+  /**
+   * Consent screen answer
+   */
+  @Post('authorize')
+  @BlockImpersonation()
+  @BlockServiceAccounts()
+  @RequireVerifiedEmail()
+  @HttpCode(HttpStatus.OK)
+  consent(
+    @CurrentUser() user: FormattedSafeUser,
+    @Body() oidcConsentDto: OidcConsentDto,
+    @Req() req: AuthenticatedRequest & OidcAuthenticatedRequest,
+  ) {
+    this.assertFirstPartyToken(req);
+
+    return this.oidcService.consent(user, oidcConsentDto);
+  }
+
+  /**
+   * Token endpoint. Confidential clients authenticate with HTTP Basic or client_secret
+   * in the body; public clients only send client_id (and prove PKCE).
+   */
+  @Post('token')
+  @Public()
+  @Throttle({ default: { limit: 10, ttl: 60000 } })
+  @HttpCode(HttpStatus.OK)
+  @Header('Cache-Control', 'no-store')
+  @Header('Pragma', 'no-cache')
+  token(@Body() oidcTokenDto: OidcTokenDto, @Req() req: Request) {
+    const credentials = parseBasicAuth(req.get('authorization')) ?? {
+      clientId: oidcTokenDto.client_id,
+      clientSecret: oidcTokenDto.client_secret,
+    };
+
+    return this.oidcService.token(
+      oidcTokenDto,
+      credentials,
+      req.ip || req.socket.remoteAddress,
+      req.get('user-agent'),
+    );
+  }
+
+  @Get('userinfo')
+  @AllowOidcScopes('openid')
+  userInfo(
+    @CurrentUser() user: FormattedSafeUser,
+    @Req() req: OidcAuthenticatedRequest,
+  ) {
+    return this.getUserInfo(user, req);
+  }
+
+  // OpenID Connect requires the UserInfo endpoint to accept POST as well
+  @Post('userinfo')
+  @AllowOidcScopes('openid')
+  @HttpCode(HttpStatus.OK)
+  userInfoPost(
+    @CurrentUser() user: FormattedSafeUser,
+    @Req() req: OidcAuthenticatedRequest,
+  ) {
+    return this.getUserInfo(user, req);
+  }
+
+  private getUserInfo(user: FormattedSafeUser, req: OidcAuthenticatedRequest) {
+    if (!req.oidcGrant?.scopes.includes('openid')) {
+      throw new ForbiddenException(
+        'The access token was not issued to an OpenID Connect client',
+      );
+    }
+
+    return this.oidcService.getUserClaims(user, req.oidcGrant.scopes);
+  }
+
+  /**
+   * Only the user's own session may authorize clients - not a relying party's
+   * token or a personal access token
+   */
+  private assertFirstPartyToken(
+    req: AuthenticatedRequest & OidcAuthenticatedRequest,
+  ): void {
+    if (req.oidcGrant || req.personalAccessToken) {
+      throw new ForbiddenException(
+        'Clients can only be authorized from a first-party session',
+      );
+    }
+  }
+}
@@ -0,0 +1,25 @@
+import { Module } from '@nestjs/common';
+import { AuthModule } from 'src/auth/auth.module';
+import { PrismaService } from 'src/shared/services/prisma.service';
+import { JwtKeyService } from 'src/auth/jwt-key.service';
+import { OidcController } from './oidc.controller';
+import { OidcClientController } from './oidc-client.controller';
+import { OidcDiscoveryController } from './oidc-discovery.controller';
+import { OidcService } from './oidc.service';
+import { OidcClientService } from './oidc-client.service';
+import { OidcCodeCleanupTask } from './tasks/oidc-code-cleanup.task';
+import { SessionService } from 'src/session/session.service';
+
+@Module({
+  imports: [AuthModule],
+  controllers: [OidcController, OidcClientController, OidcDiscoveryController],
+  providers: [
+    PrismaService,
+    SessionService,
+    JwtKeyService,
+    OidcService,
+    OidcClientService,
+    OidcCodeCleanupTask,
+  ],
+})
+export class OidcModule {}
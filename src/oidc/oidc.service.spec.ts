@@ -0,0 +1,325 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, UnauthorizedException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as crypto from 'crypto';
+import { OidcService } from './oidc.service';
+import { OidcClientService } from './oidc-client.service';
+import { PrismaService } from 'src/shared/services/prisma.service';
+import { AuthService } from 'src/auth/auth.service';
+import { JwtKeyService } from 'src/auth/jwt-key.service';
+import { OAuthTokenException } from 'src/service-account/exceptions/oauth-token.exception';
+import { FormattedSafeUser } from 'src/user/utils/transform-user.util';
+
+describe('OidcService', () => {
+  let service: OidcService;
+
+  const mockPrismaService = {
+    oidcConsent: {
+      findUnique: jest.fn(),
+      upsert: jest.fn(),
+    },
+    oidcAuthorizationCode: {
+      create: jest.fn(),
+      findUnique: jest.fn(),
+      updateMany: jest.fn(),
+    },
+  };
+
+  const mockAuthService = {
+    createClientSession: jest.fn(),
+    refreshClientSession: jest.fn(),
+    validateUserById: jest.fn(),
+  };
+
+  const mockJwtKeyService = {
+    getSigningAlgorithm: jest.fn().mockReturnValue('RS256'),
+    signIdToken: jest.fn().mockReturnValue('id-token'),
+  };
+
+  const mockOidcClientService = {
+    findActiveByClientId: jest.fn(),
+    authenticate: jest.fn(),
+  };
+
+  const mockConfigService = {
+    get: jest.fn((key: string, defaultValue?: unknown) => defaultValue),
+  };
+
+  const user = {
+    id: 'user-id',
+    email: 'user@example.com',
+    emailVerified: true,
+    firstName: 'Ada',
+    lastName: 'Lovelace',
+    displayName: null,
+    avatarUrl: null,
+    updatedAt: new Date(0),
+    roles: [],
+  } as unknown as FormattedSafeUser;
+
+  const client = {
+    id: 'client-uuid',
+    clientId: 'client-id',
+    name: 'Dashboard',
+    redirectUris: ['https://app.example.com/callback'],
+    skipConsent: false,
+    isActive: true,
+  };
+
+  const codeVerifier = 'a'.repeat(43);
+  const codeChallenge = crypto
+    .createHash('sha256')
+    .update(codeVerifier)
+    .digest('base64url');
+
+  const authorizeDto = {
+    response_type: 'code',
+    client_id: 'client-id',
+    redirect_uri: 'https://app.example.com/callback',
+    scope: 'openid email',
+    state: 'xyz',
+    nonce: 'n-0S6',
+    code_challenge: codeChallenge,
+    code_challenge_method: 'S256',
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        OidcService,
+        { provide: PrismaService, useValue: mockPrismaService },
+        { provide: ConfigService, useValue: mockConfigService },
+        { provide: AuthService, useValue: mockAuthService },
+        { provide: JwtKeyService, useValue: mockJwtKeyService },
+        { provide: OidcClientService, useValue: mockOidcClientService },
+      ],
+    }).compile();
+
+    service = module.get<OidcService>(OidcService);
+
+    jest.clearAllMocks();
+    mockConfigService.get.mockImplementation(
+      (key: string, defaultValue?: unknown) => defaultValue,
+    );
+    mockOidcClientService.findActiveByClientId.mockResolvedValue(client);
+    mockOidcClientService.authenticate.mockResolvedValue(client);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  describe('getDiscoveryDocument', () => {
+    it('should point the authorization endpoint at the frontend', () => {
+      mockConfigService.get.mockImplementation(
+        (key: string, defaultValue?: unknown) =>
+          key === 'FRONTEND_URL'
+            ? 'https://app.example.com, https://admin.example.com'
+            : defaultValue,
+      );
+
+      expect(service.getDiscoveryDocument().authorization_endpoint).toBe(
+        'https://app.example.com/oidc/authorize',
+      );
+    });
+  });
+
+  describe('authorize', () => {
+    it('should reject unregistered redirect URIs without redirecting', async () => {
+      await expect(
+        service.authorize(user, {
+          ...authorizeDto,
+          redirect_uri: 'https://evil.example.com/callback',
+        }),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('should redirect with an error when PKCE is missing', async () => {
+      const result = await service.authorize(user, {
+        ...authorizeDto,
+        code_challenge: undefined,
+      });
+
+      expect(result).toEqual({
+        redirectTo: expect.stringContaining('error=invalid_request') as string,
+      });
+      expect(
+        mockPrismaService.oidcAuthorizationCode.create,
+      ).not.toHaveBeenCalled();
+    });
+
+    it('should ask for consent the first time', async () => {
+      mockPrismaService.oidcConsent.findUnique.mockResolvedValue(null);
+
+      await expect(service.authorize(user, authorizeDto)).resolves.toEqual({
+        consentRequired: true,
+        client: { clientId: 'client-id', name: 'Dashboard' },
+        scopes: ['openid', 'email'],
+      });
+    });
+
+    it('should issue a code when the scopes were already consented to', async () => {
+      mockPrismaService.oidcConsent.findUnique.mockResolvedValue({
+        scopes: ['openid', 'profile', 'email'],
+      });
+
+      const result = await service.authorize(user, authorizeDto);
+      const redirect = new URL((result as { redirectTo: string }).redirectTo);
+
+      expect(redirect.searchParams.get('state')).toBe('xyz');
+      expect(
+        mockPrismaService.oidcAuthorizationCode.create,
+      ).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          codeHash: crypto
+            .createHash('sha256')
+            .update(redirect.searchParams.get('code')!)
+            .digest('hex'),
+          scopes: ['openid', 'email'],
+          nonce: 'n-0S6',
+        }) as object,
+      });
+    });
+  });
+
+  describe('consent', () => {
+    it('should redirect with access_denied when the user declines', async () => {
+      const result = await service.consent(user, {
+        ...authorizeDto,
+        approve: false,
+      });
+
+      expect(result).toEqual({
+        redirectTo: expect.stringContaining('error=access_denied') as string,
+      });
+      expect(mockPrismaService.oidcConsent.upsert).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('token', () => {
+    const storedCode = {
+      id: 1,
+      oidcClientId: 'client-uuid',
+      userId: 'user-id',
+      redirectUri: 'https://app.example.com/callback',
+      scopes: ['openid', 'email'],
+      nonce: 'n-0S6',
+      codeChallenge,
+      expiresAt: new Date(Date.now() + 60000),
+      consumedAt: null,
+    };
+    const tokenDto = {
+      grant_type: 'authorization_code',
+      code: 'code',
+      redirect_uri: 'https://app.example.com/callback',
+      code_verifier: codeVerifier,
+    };
+
+    beforeEach(() => {
+      mockPrismaService.oidcAuthorizationCode.findUnique.mockResolvedValue(
+        storedCode,
+      );
+      mockPrismaService.oidcAuthorizationCode.updateMany.mockResolvedValue({
+        count: 1,
+      });
+      mockAuthService.validateUserById.mockResolvedValue(user);
+      mockAuthService.createClientSession.mockResolvedValue({
+        accessToken: 'access-token',
+        refreshToken: 'refresh-token',
+        user,
+      });
+    });
+
+    it('should exchange a code for a client session and an ID token', async () => {
+      await expect(
+        service.token(tokenDto, { clientId: 'client-id' }),
+      ).resolves.toEqual({
+        access_token: 'access-token',
+        token_type: 'Bearer',
+        expires_in: 900,
+        refresh_token: 'refresh-token',
+        id_token: 'id-token',
+        scope: 'openid email',
+      });
+      expect(mockAuthService.createClientSession).toHaveBeenCalledWith(
+        user,
+        {
+          oidcClientId: 'client-uuid',
+          clientId: 'client-id',
+          scopes: ['openid', 'email'],
+        },
+        undefined,
+        undefined,
+      );
+      expect(mockJwtKeyService.signIdToken).toHaveBeenCalledWith(
+        expect.objectContaining({
+          sub: 'user-id',
+          aud: 'client-id',
+          nonce: 'n-0S6',
+          email: 'user@example.com',
+        }),
+        'http://localhost:3000',
+        3600,
+      );
+    });
+
+    it('should reject a wrong PKCE verifier', async () => {
+      await expect(
+        service.token(
+          { ...tokenDto, code_verifier: 'b'.repeat(43) },
+          { clientId: 'client-id' },
+        ),
+      ).rejects.toThrow(OAuthTokenException);
+      expect(mockAuthService.createClientSession).not.toHaveBeenCalled();
+    });
+
+    it('should only exchange a code once', async () => {
+      mockPrismaService.oidcAuthorizationCode.updateMany.mockResolvedValue({
+        count: 0,
+      });
+
+      await expect(
+        service.token(tokenDto, { clientId: 'client-id' }),
+      ).rejects.toThrow(OAuthTokenException);
+      expect(mockAuthService.createClientSession).not.toHaveBeenCalled();
+    });
+
+    it('should answer refresh failures with invalid_grant', async () => {
+      mockAuthService.refreshClientSession.mockRejectedValue(
+        new UnauthorizedException('Invalid refresh token'),
+      );
+
+      await expect(
+        service.token(
+          { grant_type: 'refresh_token', refresh_token: 'refresh-token' },
+          { clientId: 'client-id' },
+        ),
+      ).rejects.toMatchObject({
+        response: expect.objectContaining({
+          error: 'invalid_grant',
+        }) as object,
+      });
+      expect(mockAuthService.refreshClientSession).toHaveBeenCalledWith(
+        'refresh-token',
+        'client-uuid',
+        undefined,
+        undefined,
+      );
+    });
+  });
+
+  describe('getUserClaims', () => {
+    it('should only include claims of the granted scopes', () => {
+      expect(service.getUserClaims(user, ['openid'])).toEqual({
+        sub: 'user-id',
+      });
+      expect(service.getUserClaims(user, ['openid', 'profile'])).toEqual(
+        expect.objectContaining({
+          name: 'Ada Lovelace',
+          given_name: 'Ada',
+          family_name: 'Lovelace',
+        }),
+      );
+    });
+  });
+});
@@ -0,0 +1,542 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as crypto from 'crypto';
+import { OidcClient } from 'generated/prisma';
+import { PrismaService } from 'src/shared/services/prisma.service';
+import { AuthService } from 'src/auth/auth.service';
+import { JwtKeyService } from 'src/auth/jwt-key.service';
+import { FormattedSafeUser } from 'src/user/utils/transform-user.util';
+import { OAuthTokenException } from 'src/service-account/exceptions/oauth-token.exception';
+import { ClientCredentials } from 'src/auth/utils/basic-auth.util';
+import { OidcClientService } from './oidc-client.service';
+import { OidcAuthorizeDto } from './dto/oidc-authorize.dto';
+import { OidcConsentDto } from './dto/oidc-consent.dto';
+import { OidcTokenDto } from './dto/oidc-token.dto';
+import {
+  OIDC_SCOPES,
+  OidcAuthorizationResult,
+  OidcClaims,
+  OidcTokenResponse,
+} from './interfaces/oidc.interface';
+
+type AuthorizationError = [error: string, description: string];
+
+/**
+ * OpenID Connect provider: authorization code flow with PKCE for the apps that use this
+ * service for single sign-on. Sessions it issues are regular sessions tied to the client.
+ */
+@Injectable()
+export class OidcService {
+  private readonly logger = new Logger(OidcService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private configService: ConfigService,
+    private authService: AuthService,
+    private jwtKeyService: JwtKeyService,
+    private oidcClientService: OidcClientService,
+  ) {
+    if (this.jwtKeyService.getSigningAlgorithm() === 'HS256') {
+      this.logger.warn(
+        'ID tokens are signed with HS256 - relying parties cannot verify them. Set JWT_ALGORITHM to RS256, ES256 or EdDSA.',
+      );
+    }
+  }
+
+  /**
+   * GET /.well-known/openid-configuration
+   */
+  getDiscoveryDocument() {
+    const issuer = this.getIssuer();
+
+    return {
+      issuer,
+      authorization_endpoint: this.getAuthorizationEndpoint(),
+      token_endpoint: `${issuer}/api/oidc/token`,
+      userinfo_endpoint: `${issuer}/api/oidc/userinfo`,
+      jwks_uri: `${issuer}/.well-known/jwks.json`,
+      scopes_supported: OIDC_SCOPES,
+      response_types_supported: ['code'],
+      grant_types_supported: ['authorization_code', 'refresh_token'],
+      subject_types_supported: ['public'],
+      id_token_signing_alg_values_supported: [
+        this.jwtKeyService.getSigningAlgorithm(),
+      ],
+      token_endpoint_auth_methods_supported: [
+        'client_secret_basic',
+        'client_secret_post',
+        'none',
+      ],
+      code_challenge_methods_supported: ['S256'],
+      claims_supported: [
+        'sub',
+        'iss',
+        'aud',
+        'exp',
+        'iat',
+        'nonce',
+        'name',
+        'given_name',
+        'family_name',
+        'picture',
+        'updated_at',
+        'email',
+        'email_verified',
+      ],
+    };
+  }
+
+  /**
+   * Authorization request from the signed-in user. Issues a code right away when the
+   * user already consented to these scopes (or the client skips consent), otherwise
+   * tells the frontend to show the consent screen.
+   */
+  async authorize(
+    user: FormattedSafeUser,
+    dto: OidcAuthorizeDto,
+  ): Promise<OidcAuthorizationResult> {
+    const client = await this.findClientForRedirect(dto);
+    const error = this.validateAuthorizationRequest(dto);
+
+    if (error) {
+      return this.redirectWithError(dto, ...error);
+    }
+
+    const scopes = this.parseScopes(dto.scope);
+
+    if (
+      dto.prompt !== 'consent' &&
+      (client.skipConsent || (await this.hasConsent(user.id, client, scopes)))
+    ) {
+      return this.issueAuthorizationCode(user, client, dto, scopes);
+    }
+
+    if (dto.prompt === 'none') {
+      return this.redirectWithError(
+        dto,
+        'consent_required',
+        'The user has not consented to this client',
+      );
+    }
+
+    return {
+      consentRequired: true,
+      client: { clientId: client.clientId, name: client.name },
+      scopes,
+    };
+  }
+
+  /**
+   * The user's answer on the consent screen. Approval is remembered for the client,
+   * so the next authorization for the same scopes skips the screen.
+   */
+  async consent(
+    user: FormattedSafeUser,
+    dto: OidcConsentDto,
+  ): Promise<OidcAuthorizationResult> {
+    const client = await this.findClientForRedirect(dto);
+    const error = this.validateAuthorizationRequest(dto);
+
+    if (error) {
+      return this.redirectWithError(dto, ...error);
+    }
+
+    if (!dto.approve) {
+      return this.redirectWithError(
+        dto,
+        'access_denied',
+        'The user denied the request',
+      );
+    }
+
+    const scopes = this.parseScopes(dto.scope);
+
+    await this.prisma.oidcConsent.upsert({
+      where: {
+        userId_oidcClientId: { userId: user.id, oidcClientId: client.id },
+      },
+      create: { userId: user.id, oidcClientId: client.id, scopes },
+      update: { scopes, updatedAt: new Date() },
+    });
+
+    return this.issueAuthorizationCode(user, client, dto, scopes);
+  }
+
+  /**
+   * Token endpoint: authorization_code and refresh_token grants
+   */
+  async token(
+    dto: OidcTokenDto,
+    credentials: Partial<ClientCredentials>,
+    ipAddress?: string,
+    userAgent?: string,
+  ): Promise<OidcTokenResponse> {
+    if (
+      dto.grant_type !== 'authorization_code' &&
+      dto.grant_type !== 'refresh_token'
+    ) {
+      throw new OAuthTokenException(
+        dto.grant_type ? 'unsupported_grant_type' : 'invalid_request',
+        'Only the authorization_code and refresh_token grants are supported',
+      );
+    }
+
+    const client = await this.oidcClientService.authenticate(
+      credentials.clientId,
+      credentials.clientSecret,
+    );
+
+    return dto.grant_type === 'authorization_code'
+      ? this.exchangeAuthorizationCode(client, dto, ipAddress, userAgent)
+      : this.refresh(client, dto, ipAddress, userAgent);
+  }
+
+  /**
+   * Claims about the user, limited to the scopes the client was granted
+   */
+  getUserClaims(user: FormattedSafeUser, scopes: string[]): OidcClaims {
+    const name =
+      user.displayName ??
+      ([user.firstName, user.lastName].filter(Boolean).join(' ') || undefined);
+
+    return {
+      sub: user.id,
+      ...(scopes.includes('profile') && {
+        name,
+        given_name: user.firstName ?? undefined,
+        family_name: user.lastName ?? undefined,
+        picture: user.avatarUrl ?? undefined,
+        updated_at: Math.floor(user.updatedAt.getTime() / 1000),
+      }),
+      ...(scopes.includes('email') && {
+        email: user.email,
+        email_verified: user.emailVerified,
+      }),
+    };
+  }
+
+  async cleanupExpiredCodes(): Promise<number> {
+    const { count } = await this.prisma.oidcAuthorizationCode.deleteMany({
+      where: { expiresAt: { lt: new Date() } },
+    });
+
+    return count;
+  }
+
+  private async exchangeAuthorizationCode(
+    client: OidcClient,
+    dto: OidcTokenDto,
+    ipAddress?: string,
+    userAgent?: string,
+  ): Promise<OidcTokenResponse> {
+    const authorizationCode = dto.code
+      ? await this.prisma.oidcAuthorizationCode.findUnique({
+          where: { codeHash: this.hashCode(dto.code) },
+        })
+      : null;
+
+    if (
+      !authorizationCode ||
+      authorizationCode.oidcClientId !== client.id ||
+      authorizationCode.redirectUri !== dto.redirect_uri ||
+      authorizationCode.expiresAt < new Date() ||
+      authorizationCode.consumedAt ||
+      !this.verifyCodeChallenge(
+        authorizationCode.codeChallenge,
+        dto.code_verifier,
+      )
+    ) {
+      throw new OAuthTokenException(
+        'invalid_grant',
+        'Invalid or expired authorization code',
+      );
+    }
+
+    // Compare-and-set so a code can only be exchanged once, even concurrently
+    const consumed = await this.prisma.oidcAuthorizationCode.updateMany({
+      where: { id: authorizationCode.id, consumedAt: null },
+      data: { consumedAt: new Date() },
+    });
+
+    if (consumed.count === 0) {
+      throw new OAuthTokenException(
+        'invalid_grant',
+        'Invalid or expired authorization code',
+      );
+    }
+
+    const user = await this.findActiveUser(authorizationCode.userId);
+    const scopes = authorizationCode.scopes;
+
+    const authResult = await this.authService.createClientSession(
+      user,
+      { oidcClientId: client.id, clientId: client.clientId, scopes },
+      ipAddress,
+      userAgent,
+    );
+
+    const idToken = this.jwtKeyService.signIdToken(
+      {
+        ...this.getUserClaims(user, scopes),
+        aud: client.clientId,
+        azp: client.clientId,
+        ...(authorizationCode.nonce && { nonce: authorizationCode.nonce }),
+      },
+      this.getIssuer(),
+      Number(this.configService.get('OIDC_ID_TOKEN_EXPIRY_SECONDS', 3600)),
+    );
+
+    return {
+      access_token: authResult.accessToken,
+      token_type: 'Bearer',
+      expires_in: this.getAccessTokenExpirySeconds(),
+      refresh_token: authResult.refreshToken,
+      id_token: idToken,
+      scope: scopes.join(' '),
+    };
+  }
+
+  private async refresh(
+    client: OidcClient,
+    dto: OidcTokenDto,
+    ipAddress?: string,
+    userAgent?: string,
+  ): Promise<OidcTokenResponse> {
+    if (!dto.refresh_token) {
+      throw new OAuthTokenException(
+        'invalid_request',
+        'refresh_token is required',
+      );
+    }
+
+    let authResult: Awaited<
+      ReturnType<typeof this.authService.refreshClientSession>
+    >;
+
+    try {
+      authResult = await this.authService.refreshClientSession(
+        dto.refresh_token,
+        client.id,
+        ipAddress,
+        userAgent,
+      );
+    } catch (error) {
+      if (error instanceof UnauthorizedException) {
+        throw new OAuthTokenException('invalid_grant', error.message);
+      }
+      throw error;
+    }
+
+    // Inside the grace window only a new access token is issued; the client keeps its refresh token
+    return {
+      access_token: authResult.accessToken,
+      token_type: 'Bearer',
+      expires_in: this.getAccessTokenExpirySeconds(),
+      ...('refreshToken' in authResult && {
+        refresh_token: authResult.refreshToken,
+      }),
+    };
+  }
+
+  /**
+   * Errors about the client or redirect URI are never redirected (OAuth 2.0 section
+   * 4.1.2.1) - the redirect URI can't be trusted, so the frontend shows them instead
+   */
+  private async findClientForRedirect(
+    dto: OidcAuthorizeDto,
+  ): Promise<OidcClient> {
+    const client = dto.client_id
+      ? await this.oidcClientService.findActiveByClientId(dto.client_id)
+      : null;
+
+    if (!client) {
+      throw new BadRequestException('Unknown client');
+    }
+
+    if (!dto.redirect_uri || !client.redirectUris.includes(dto.redirect_uri)) {
+      throw new BadRequestException(
+        'redirect_uri is not registered for this client',
+      );
+    }
+
+    return client;
+  }
+
+  private validateAuthorizationRequest(
+    dto: OidcAuthorizeDto,
+  ): AuthorizationError | null {
+    if (dto.response_type !== 'code') {
+      return [
+        'unsupported_response_type',
+        'Only the authorization code flow is supported',
+      ];
+    }
+
+    if (!this.parseScopes(dto.scope).includes('openid')) {
+      return ['invalid_scope', 'The openid scope is required'];
+    }
+
+    if (!dto.code_challenge || dto.code_challenge_method !== 'S256') {
+      return [
+        'invalid_request',
+        'PKCE is required: send code_challenge with code_challenge_method=S256',
+      ];
+    }
+
+    return null;
+  }
+
+  /**
+   * Unknown scopes are ignored, as OpenID Connect asks
+   */
+  private parseScopes(scope?: string): string[] {
+    const requested = (scope ?? '').split(' ');
+
+    return OIDC_SCOPES.filter((supported) => requested.includes(supported));
+  }
+
+  private async hasConsent(
+    userId: string,
+    client: OidcClient,
+    scopes: string[],
+  ): Promise<boolean> {
+    const consent = await this.prisma.oidcConsent.findUnique({
+      where: { userId_oidcClientId: { userId, oidcClientId: client.id } },
+      select: { scopes: true },
+    });
+
+    return !!consent && scopes.every((scope) => consent.scopes.includes(scope));
+  }
+
+  private async issueAuthorizationCode(
+    user: FormattedSafeUser,
+    client: OidcClient,
+    dto: OidcAuthorizeDto,
+    scopes: string[],
+  ): Promise<OidcAuthorizationResult> {
+    const code = crypto.randomBytes(32).toString('base64url');
+    const expirySeconds = Number(
+      this.configService.get('OIDC_CODE_EXPIRY_SECONDS', 60),
+    );
+
+    await this.prisma.oidcAuthorizationCode.create({
+      data: {
+        codeHash: this.hashCode(code),
+        oidcClientId: client.id,
+        userId: user.id,
+        redirectUri: dto.redirect_uri!,
+        scopes,
+        nonce: dto.nonce,
+        codeChallenge: dto.code_challenge!,
+        expiresAt: new Date(Date.now() + expirySeconds * 1000),
+      },
+    });
+
+    return { redirectTo: this.buildRedirect(dto, { code }) };
+  }
+
+  private redirectWithError(
+    dto: OidcAuthorizeDto,
+    error: string,
+    description: string,
+  ): OidcAuthorizationResult {
+    return {
+      redirectTo: this.buildRedirect(dto, {
+        error,
+        error_description: description,
+      }),
+    };
+  }
+
+  private buildRedirect(
+    dto: OidcAuthorizeDto,
+    params: Record<string, string>,
+  ): string {
+    const url = new URL(dto.redirect_uri!);
+
+    Object.entries({
+      ...params,
+      ...(dto.state && { state: dto.state }),
+    }).forEach(([key, value]) => url.searchParams.set(key, value));
+
+    return url.toString();
+  }
+
+  /**
+   * PKCE S256 (RFC 7636 section 4.6)
+   */
+  private verifyCodeChallenge(
+    codeChallenge: string,
+    codeVerifier?: string,
+  ): boolean {
+    if (!codeVerifier || !/^[A-Za-z0-9\-._~]{43,128}$/.test(codeVerifier)) {
+      return false;
+    }
+
+    const expected = crypto
+      .createHash('sha256')
+      .update(codeVerifier)
+      .digest('base64url');
+
+    return (
+      expected.length === codeChallenge.length &&
+      crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(codeChallenge))
+    );
+  }
+
+  private async findActiveUser(userId: string): Promise<FormattedSafeUser> {
+    try {
+      const user = await this.authService.validateUserById(userId);
+
+      if (user) {
+        return user;
+      }
+    } catch (error) {
+      if (!(error instanceof UnauthorizedException)) {
+        throw error;
+      }
+    }
+
+    throw new OAuthTokenException(
+      'invalid_grant',
+      'The user is no longer active',
+    );
+  }
+
+  private hashCode(code: string): string {
+    return crypto.createHash('sha256').update(code).digest('hex');
+  }
+
+  private getIssuer(): string {
+    return this.configService
+      .get<string>('OIDC_ISSUER', 'http://localhost:3000')
+      .replace(/\/$/, '');
+  }
+
+  /**
+   * The frontend's authorization page (on the first entry of FRONTEND_URL)
+   */
+  private getAuthorizationEndpoint(): string {
+    const frontendUrl = this.configService
+      .get<string>('FRONTEND_URL', 'http://localhost:4200')
+      .split(',')[0]
+      .trim();
+
+    return new URL(
+      this.configService.get<string>(
+        'OIDC_AUTHORIZATION_PATH',
+        '/oidc/authorize',
+      ),
+      frontendUrl,
+    ).toString();
+  }
+
+  private getAccessTokenExpirySeconds(): number {
+    return Number(this.configService.get('JWT_ACCESS_EXPIRY_MINS', 15)) * 60;
+  }
+}
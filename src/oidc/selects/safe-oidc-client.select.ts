@@ -0,0 +1,17 @@
+import { Prisma } from 'generated/prisma';
+
+export const safeOidcClientSelect = {
+  id: true,
+  clientId: true,
+  clientSecretHash: false,
+  name: true,
+  redirectUris: true,
+  skipConsent: true,
+  isActive: true,
+  createdAt: true,
+  updatedAt: true,
+} satisfies Prisma.OidcClientSelect;
+
+export type SafeOidcClient = Prisma.OidcClientGetPayload<{
+  select: typeof safeOidcClientSelect;
+}>;
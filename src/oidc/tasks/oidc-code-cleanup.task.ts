@@ -0,0 +1,24 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { OidcService } from '../oidc.service';
+
+@Injectable()
+export class OidcCodeCleanupTask {
+  private readonly logger = new Logger(OidcCodeCleanupTask.name);
+
+  constructor(private oidcService: OidcService) {}
+
+  // Run every hour
+  @Cron(CronExpression.EVERY_HOUR)
+  async cleanupExpiredCodes() {
+    try {
+      const count = await this.oidcService.cleanupExpiredCodes();
+      this.logger.log(`Cleaned up ${count} expired OIDC authorization codes`);
+    } catch (error) {
+      this.logger.error(
+        'Failed to cleanup expired OIDC authorization codes',
+        error,
+      );
+    }
+  }
+}
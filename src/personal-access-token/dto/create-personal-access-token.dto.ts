@@ -0,0 +1,30 @@
+import { Type } from 'class-transformer';
+import {
+  ArrayNotEmpty,
+  IsArray,
+  IsInt,
+  IsNotEmpty,
+  IsString,
+  MaxLength,
+  Min,
+} from 'class-validator';
+
+export class CreatePersonalAccessTokenDto {
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  name: string;
+
+  @Type(() => Number)
+  @IsInt()
+  @Min(1)
+  expiresInDays: number;
+
+  /**
+   * Role names the token may act with - a subset of the user's roles
+   */
+  @IsArray()
+  @ArrayNotEmpty()
+  @IsString({ each: true })
+  scopes: string[];
+}
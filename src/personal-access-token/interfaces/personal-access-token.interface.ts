@@ -0,0 +1,22 @@
+import type { Request } from 'express';
+import type { SafePersonalAccessToken } from '../selects/safe-personal-access-token.select';
+
+/**
+ * Attached to the request when it was authenticated with a personal access token
+ */
+export interface PersonalAccessTokenContext {
+  id: number;
+  scopes: string[];
+}
+
+export type AuthenticatedRequest = Request & {
+  personalAccessToken?: PersonalAccessTokenContext;
+};
+
+export interface CreatedPersonalAccessToken {
+  /**
+   * The plain token - it is only returned once
+   */
+  token: string;
+  personalAccessToken: SafePersonalAccessToken;
+}
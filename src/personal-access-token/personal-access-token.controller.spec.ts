@@ -0,0 +1,53 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ForbiddenException } from '@nestjs/common';
+import { PersonalAccessTokenController } from './personal-access-token.controller';
+import { PersonalAccessTokenService } from './personal-access-token.service';
+import { AuthenticatedRequest } from './interfaces/personal-access-token.interface';
+import { FormattedSafeUser } from 'src/user/utils/transform-user.util';
+import { EmailVerificationService } from 'src/auth/email-verification.service';
+
+describe('PersonalAccessTokenController', () => {
+  let controller: PersonalAccessTokenController;
+
+  const mockPersonalAccessTokenService = {
+    create: jest.fn(),
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [PersonalAccessTokenController],
+      providers: [
+        {
+          provide: PersonalAccessTokenService,
+          useValue: mockPersonalAccessTokenService,
+        },
+        { provide: EmailVerificationService, useValue: {} },
+      ],
+    }).compile();
+
+    controller = module.get<PersonalAccessTokenController>(
+      PersonalAccessTokenController,
+    );
+
+    jest.clearAllMocks();
+  });
+
+  it('should be defined', () => {
+    expect(controller).toBeDefined();
+  });
+
+  it('should not create tokens for requests made with a token', () => {
+    const req = {
+      personalAccessToken: { id: 1, scopes: ['USER'] },
+    } as AuthenticatedRequest;
+
+    expect(() =>
+      controller.create(
+        { id: 'user-id' } as FormattedSafeUser,
+        { name: 'nested', expiresInDays: 1, scopes: ['USER'] },
+        req,
+      ),
+    ).toThrow(ForbiddenException);
+    expect(mockPersonalAccessTokenService.create).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,76 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  ForbiddenException,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  ParseIntPipe,
+  Post,
+  Req,
+  UseGuards,
+} from '@nestjs/common';
+import { PersonalAccessTokenService } from './personal-access-token.service';
+import { CreatePersonalAccessTokenDto } from './dto/create-personal-access-token.dto';
+import type { AuthenticatedRequest } from './interfaces/personal-access-token.interface';
+import { RolesGuard } from 'src/auth/guards/roles.guard';
+import { Roles } from 'src/auth/decorators/roles.decorator';
+import { CurrentUser } from 'src/auth/decorators/current-user.decorator';
+import type { FormattedSafeUser } from 'src/user/utils/transform-user.util';
+import { BlockImpersonation } from 'src/auth/decorators/block-impersonation.decorator';
+import { BlockServiceAccounts } from 'src/auth/decorators/block-service-accounts.decorator';
+import { RequireVerifiedEmail } from 'src/auth/decorators/require-verified-email.decorator';
+
+@Controller('personal-access-tokens')
+@UseGuards(RolesGuard)
+export class PersonalAccessTokenController {
+  constructor(
+    private readonly personalAccessTokenService: PersonalAccessTokenService,
+  ) {}
+
+  @Post()
+  @BlockImpersonation()
+  @BlockServiceAccounts()
+  @RequireVerifiedEmail()
+  @HttpCode(HttpStatus.CREATED)
+  create(
+    @CurrentUser() user: FormattedSafeUser,
+    @Body() createPersonalAccessTokenDto: CreatePersonalAccessTokenDto,
+    @Req() req: AuthenticatedRequest,
+  ) {
+    // A token must not be able to mint longer-lived or broader tokens for itself
+    if (req.personalAccessToken) {
+      throw new ForbiddenException(
+        'Personal access tokens cannot be created with a personal access token',
+      );
+    }
+
+    return this.personalAccessTokenService.create(
+      user,
+      createPersonalAccessTokenDto,
+    );
+  }
+
+  @Get()
+  findAll(@CurrentUser() user: FormattedSafeUser) {
+    return this.personalAccessTokenService.findAllByUser(user.id);
+  }
+
+  @Get('user/:userId')
+  @Roles('ADMIN')
+  findAllByUser(@Param('userId') userId: string) {
+    return this.personalAccessTokenService.findAllByUser(userId);
+  }
+
+  @Delete(':id')
+  @BlockImpersonation()
+  @HttpCode(HttpStatus.NO_CONTENT)
+  revoke(
+    @CurrentUser() user: FormattedSafeUser,
+    @Param('id', ParseIntPipe) id: number,
+  ) {
+    return this.personalAccessTokenService.revoke(user, id);
+  }
+}
@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { PersonalAccessTokenController } from './personal-access-token.controller';
+import { PersonalAccessTokenService } from './personal-access-token.service';
+import { PrismaService } from 'src/shared/services/prisma.service';
+import { AuthModule } from 'src/auth/auth.module';
+
+@Module({
+  imports: [AuthModule],
+  controllers: [PersonalAccessTokenController],
+  providers: [PrismaService, PersonalAccessTokenService],
+})
+export class PersonalAccessTokenModule {}
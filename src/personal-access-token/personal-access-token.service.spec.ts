@@ -0,0 +1,176 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as crypto from 'crypto';
+import {
+  PERSONAL_ACCESS_TOKEN_PREFIX,
+  PersonalAccessTokenService,
+} from './personal-access-token.service';
+import { PrismaService } from 'src/shared/services/prisma.service';
+import { FormattedSafeUser } from 'src/user/utils/transform-user.util';
+
+describe('PersonalAccessTokenService', () => {
+  let service: PersonalAccessTokenService;
+
+  const mockPrismaService = {
+    personalAccessToken: {
+      create: jest.fn(),
+      findMany: jest.fn(),
+      findUnique: jest.fn(),
+      updateMany: jest.fn(),
+    },
+  };
+
+  const mockConfigService = {
+    get: jest.fn((key: string, defaultValue?: unknown) => defaultValue),
+  };
+
+  const user = {
+    id: 'user-id',
+    roles: [{ name: 'USER' }, { name: 'ADMIN' }],
+  } as unknown as FormattedSafeUser;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PersonalAccessTokenService,
+        { provide: PrismaService, useValue: mockPrismaService },
+        { provide: ConfigService, useValue: mockConfigService },
+      ],
+    }).compile();
+
+    service = module.get<PersonalAccessTokenService>(
+      PersonalAccessTokenService,
+    );
+
+    jest.clearAllMocks();
+    mockPrismaService.personalAccessToken.updateMany.mockResolvedValue({
+      count: 1,
+    });
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  describe('create', () => {
+    it('should store only a hash and return the token once', async () => {
+      mockPrismaService.personalAccessToken.create.mockResolvedValue({ id: 1 });
+
+      const { token } = await service.create(user, {
+        name: 'CI',
+        expiresInDays: 30,
+        scopes: ['USER'],
+      });
+
+      expect(token.startsWith(PERSONAL_ACCESS_TOKEN_PREFIX)).toBe(true);
+      expect(mockPrismaService.personalAccessToken.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({
+            tokenHash: crypto.createHash('sha256').update(token).digest('hex'),
+            tokenPrefix: token.slice(
+              0,
+              PERSONAL_ACCESS_TOKEN_PREFIX.length + 4,
+            ),
+            scopes: ['USER'],
+          }) as object,
+        }),
+      );
+    });
+
+    it('should reject scopes the user does not hold', async () => {
+      await expect(
+        service.create(user, {
+          name: 'CI',
+          expiresInDays: 30,
+          scopes: ['SUPERADMIN'],
+        }),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('should reject expiries beyond the configured maximum', async () => {
+      await expect(
+        service.create(user, {
+          name: 'CI',
+          expiresInDays: 366,
+          scopes: ['USER'],
+        }),
+      ).rejects.toThrow(BadRequestException);
+    });
+  });
+
+  describe('validate', () => {
+    it('should resolve an active token to its user and scopes', async () => {
+      mockPrismaService.personalAccessToken.findUnique.mockResolvedValue({
+        id: 1,
+        userId: 'user-id',
+        scopes: ['USER'],
+        expiresAt: new Date(Date.now() + 60000),
+        revokedAt: null,
+      });
+
+      await expect(service.validate('lnx_pat_token')).resolves.toEqual({
+        id: 1,
+        userId: 'user-id',
+        scopes: ['USER'],
+      });
+      expect(
+        mockPrismaService.personalAccessToken.updateMany,
+      ).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: { lastUsedAt: expect.any(Date) as Date },
+        }),
+      );
+    });
+
+    it('should reject revoked and expired tokens', async () => {
+      mockPrismaService.personalAccessToken.findUnique
+        .mockResolvedValueOnce({
+          id: 1,
+          expiresAt: new Date(Date.now() + 60000),
+          revokedAt: new Date(),
+        })
+        .mockResolvedValueOnce({
+          id: 2,
+          expiresAt: new Date(Date.now() - 60000),
+          revokedAt: null,
+        });
+
+      await expect(service.validate('lnx_pat_revoked')).resolves.toBeNull();
+      await expect(service.validate('lnx_pat_expired')).resolves.toBeNull();
+    });
+  });
+
+  describe('revoke', () => {
+    it("should not reveal other users' tokens", async () => {
+      mockPrismaService.personalAccessToken.findUnique.mockResolvedValue({
+        userId: 'someone-else',
+      });
+
+      await expect(
+        service.revoke(
+          { id: 'user-id', roles: [{ name: 'USER' }] } as FormattedSafeUser,
+          1,
+        ),
+      ).rejects.toThrow(NotFoundException);
+      expect(
+        mockPrismaService.personalAccessToken.updateMany,
+      ).not.toHaveBeenCalled();
+    });
+
+    it('should let admins revoke any token', async () => {
+      mockPrismaService.personalAccessToken.findUnique.mockResolvedValue({
+        userId: 'someone-else',
+      });
+
+      await service.revoke(user, 1);
+
+      expect(
+        mockPrismaService.personalAccessToken.updateMany,
+      ).toHaveBeenCalledWith({
+        where: { id: 1, revokedAt: null },
+        data: { revokedAt: expect.any(Date) as Date },
+      });
+    });
+  });
+});
@@ -0,0 +1,177 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as crypto from 'crypto';
+import { PrismaService } from 'src/shared/services/prisma.service';
+import { FormattedSafeUser } from 'src/user/utils/transform-user.util';
+import { CreatePersonalAccessTokenDto } from './dto/create-personal-access-token.dto';
+import {
+  CreatedPersonalAccessToken,
+  PersonalAccessTokenContext,
+} from './interfaces/personal-access-token.interface';
+import {
+  SafePersonalAccessToken,
+  safePersonalAccessTokenSelect,
+} from './selects/safe-personal-access-token.select';
+
+/**
+ * Lets the auth guard tell personal access tokens from JWTs, and secret scanners find leaked ones
+ */
+export const PERSONAL_ACCESS_TOKEN_PREFIX = 'lnx_pat_';
+
+// lastUsedAt is only written once per interval, so busy scripts don't write on every request
+const LAST_USED_UPDATE_INTERVAL_MS = 60 * 1000;
+
+@Injectable()
+export class PersonalAccessTokenService {
+  private readonly logger = new Logger(PersonalAccessTokenService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private configService: ConfigService,
+  ) {}
+
+  async create(
+    user: FormattedSafeUser,
+    dto: CreatePersonalAccessTokenDto,
+  ): Promise<CreatedPersonalAccessToken> {
+    const roleNames = user.roles.map((role) => role.name);
+    const invalidScopes = dto.scopes.filter(
+      (scope) => !roleNames.includes(scope),
+    );
+
+    if (invalidScopes.length > 0) {
+      throw new BadRequestException(
+        `Scopes must be roles you hold: ${invalidScopes.join(', ')}`,
+      );
+    }
+
+    const maxExpiryDays = Number(
+      this.configService.get('PERSONAL_ACCESS_TOKEN_MAX_EXPIRY_DAYS', 365),
+    );
+
+    if (dto.expiresInDays > maxExpiryDays) {
+      throw new BadRequestException(
+        `Personal access tokens can expire in at most ${maxExpiryDays} days`,
+      );
+    }
+
+    const token =
+      PERSONAL_ACCESS_TOKEN_PREFIX +
+      crypto.randomBytes(32).toString('base64url');
+
+    const personalAccessToken = await this.prisma.personalAccessToken.create({
+      data: {
+        userId: user.id,
+        name: dto.name,
+        tokenHash: this.hashToken(token),
+        tokenPrefix: token.slice(0, PERSONAL_ACCESS_TOKEN_PREFIX.length + 4),
+        scopes: [...new Set(dto.scopes)],
+        expiresAt: new Date(
+          Date.now() + dto.expiresInDays * 24 * 60 * 60 * 1000,
+        ),
+      },
+      select: safePersonalAccessTokenSelect,
+    });
+
+    return { token, personalAccessToken };
+  }
+
+  async findAllByUser(userId: string): Promise<SafePersonalAccessToken[]> {
+    return this.prisma.personalAccessToken.findMany({
+      where: { userId },
+      select: safePersonalAccessTokenSelect,
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  /**
+   * Revoke a token. Only its owner (or an admin) can; others get a 404.
+   */
+  async revoke(requester: FormattedSafeUser, id: number): Promise<void> {
+    const personalAccessToken =
+      await this.prisma.personalAccessToken.findUnique({
+        where: { id },
+        select: { userId: true },
+      });
+
+    const isAdmin = requester.roles.some((role) => role.name === 'ADMIN');
+
+    if (
+      !personalAccessToken ||
+      (personalAccessToken.userId !== requester.id && !isAdmin)
+    ) {
+      throw new NotFoundException('Personal access token not found');
+    }
+
+    await this.prisma.personalAccessToken.updateMany({
+      where: { id, revokedAt: null },
+      data: { revokedAt: new Date() },
+    });
+  }
+
+  /**
+   * Resolve a presented token. Returns null for unknown, revoked and expired tokens.
+   */
+  async validate(
+    token: string,
+  ): Promise<(PersonalAccessTokenContext & { userId: string }) | null> {
+    const personalAccessToken =
+      await this.prisma.personalAccessToken.findUnique({
+        where: { tokenHash: this.hashToken(token) },
+        select: {
+          id: true,
+          userId: true,
+          scopes: true,
+          expiresAt: true,
+          revokedAt: true,
+        },
+      });
+
+    if (
+      !personalAccessToken ||
+      personalAccessToken.revokedAt ||
+      personalAccessToken.expiresAt < new Date()
+    ) {
+      return null;
+    }
+
+    this.touchLastUsed(personalAccessToken.id).catch((error) =>
+      this.logger.error(
+        `Failed to update last use of personal access token ${personalAccessToken.id}`,
+        error,
+      ),
+    );
+
+    return {
+      id: personalAccessToken.id,
+      userId: personalAccessToken.userId,
+      scopes: personalAccessToken.scopes,
+    };
+  }
+
+  private async touchLastUsed(id: number): Promise<void> {
+    await this.prisma.personalAccessToken.updateMany({
+      where: {
+        id,
+        OR: [
+          { lastUsedAt: null },
+          {
+            lastUsedAt: {
+              lt: new Date(Date.now() - LAST_USED_UPDATE_INTERVAL_MS),
+            },
+          },
+        ],
+      },
+      data: { lastUsedAt: new Date() },
+    });
+  }
+
+  private hashToken(token: string): string {
+    return crypto.createHash('sha256').update(token).digest('hex');
+  }
+}
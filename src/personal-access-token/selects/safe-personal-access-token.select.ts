@@ -0,0 +1,17 @@
+import { Prisma } from 'generated/prisma';
+
+export const safePersonalAccessTokenSelect = {
+  id: true,
+  userId: true,
+  name: true,
+  tokenPrefix: true,
+  scopes: true,
+  expiresAt: true,
+  lastUsedAt: true,
+  revokedAt: true,
+  createdAt: true,
+} satisfies Prisma.PersonalAccessTokenSelect;
+
+export type SafePersonalAccessToken = Prisma.PersonalAccessTokenGetPayload<{
+  select: typeof safePersonalAccessTokenSelect;
+}>;
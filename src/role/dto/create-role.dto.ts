@@ -1,4 +1,11 @@
-import { IsString, IsOptional, IsBoolean, MaxLength } from 'class-validator';
+import {
+  IsString,
+  IsOptional,
+  IsBoolean,
+  IsInt,
+  Min,
+  MaxLength,
+} from 'class-validator';
 
 export class CreateRoleDto {
   @IsString()
@@ -12,4 +19,32 @@ export class CreateRoleDto {
   @IsOptional()
   @IsBoolean()
   isActive?: boolean;
+
+  @IsOptional()
+  @IsBoolean()
+  mfaRequired?: boolean;
+
+  /**
+   * Sliding session lifetime for members of this role, in minutes (null uses the global one)
+   */
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  sessionLifetimeMins?: number | null;
+
+  /**
+   * Absolute session age limit for members of this role, in minutes (null uses the global one)
+   */
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  sessionMaxAgeMins?: number | null;
+
+  /**
+   * Most concurrent sessions for members of this role (null uses the global limit)
+   */
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  maxSessions?: number | null;
 }
@@ -16,6 +16,7 @@ import { CreateRoleDto } from './dto/create-role.dto';
 import { UpdateRoleDto } from './dto/update-role.dto';
 import { Roles } from 'src/auth/decorators/roles.decorator';
 import { RolesGuard } from 'src/auth/guards/roles.guard';
+import { RequireRecentAuth } from 'src/auth/decorators/require-recent-auth.decorator';
 
 @Controller('roles')
 @UseGuards(RolesGuard)
@@ -48,6 +49,7 @@ export class RoleController {
   }
 
   @Delete(':id')
+  @RequireRecentAuth()
   @HttpCode(HttpStatus.NO_CONTENT)
   @Roles('ADMIN')
   remove(@Param('id', ParseIntPipe) id: number) {
@@ -2,9 +2,10 @@ import { Module } from '@nestjs/common';
 import { RoleService } from './role.service';
 import { RoleController } from './role.controller';
 import { PrismaService } from 'src/shared/services/prisma.service';
+import { SessionService } from 'src/session/session.service';
 
 @Module({
   controllers: [RoleController],
-  providers: [RoleService, PrismaService],
+  providers: [RoleService, PrismaService, SessionService],
 })
 export class RoleModule {}
@@ -0,0 +1,48 @@
+import {
+  IsArray,
+  IsIn,
+  IsOptional,
+  IsString,
+  IsNotEmpty,
+} from 'class-validator';
+import {
+  SECURITY_ACTIONS,
+  SECURITY_EVENT_TYPES,
+} from '../interfaces/security-event.interface';
+import type {
+  SecurityAction,
+  SecurityEventType,
+  SecuritySignal,
+} from '../interfaces/security-event.interface';
+
+export class CreateSecurityEventDto {
+  @IsString()
+  @IsNotEmpty()
+  userId: string;
+
+  @IsOptional()
+  @IsString()
+  sessionId?: string;
+
+  @IsIn(SECURITY_EVENT_TYPES)
+  eventType: SecurityEventType;
+
+  @IsIn(SECURITY_ACTIONS)
+  action: SecurityAction;
+
+  @IsArray()
+  @IsString({ each: true })
+  signals: SecuritySignal[];
+
+  @IsOptional()
+  @IsString()
+  ipAddress?: string;
+
+  @IsOptional()
+  @IsString()
+  userAgent?: string;
+
+  @IsOptional()
+  @IsString()
+  deviceFamily?: string;
+}
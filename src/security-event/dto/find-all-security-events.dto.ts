@@ -0,0 +1,24 @@
+import { IsIn, IsOptional, IsString } from 'class-validator';
+import { PaginationDto } from 'src/shared/dto/pagination.dto';
+import {
+  SECURITY_ACTIONS,
+  SECURITY_EVENT_TYPES,
+} from '../interfaces/security-event.interface';
+import type {
+  SecurityAction,
+  SecurityEventType,
+} from '../interfaces/security-event.interface';
+
+export class FindAllSecurityEventsDto extends PaginationDto {
+  @IsOptional()
+  @IsString()
+  userId?: string;
+
+  @IsOptional()
+  @IsIn(SECURITY_ACTIONS)
+  action?: SecurityAction;
+
+  @IsOptional()
+  @IsIn(SECURITY_EVENT_TYPES)
+  eventType?: SecurityEventType;
+}
@@ -0,0 +1,36 @@
+/**
+ * 'session_limit' events record sign-ins that hit the concurrent session limit
+ */
+export const SECURITY_EVENT_TYPES = [
+  'login',
+  'refresh',
+  'session_limit',
+] as const;
+
+export type SecurityEventType = (typeof SECURITY_EVENT_TYPES)[number];
+
+/**
+ * Signals of the suspicious activity checks on login and refresh
+ */
+export type RiskSignal =
+  | 'ip_change'
+  | 'user_agent_change'
+  | 'new_device'
+  | 'unusual_hour'
+  | 'impossible_travel';
+
+/**
+ * What the limit did on 'session_limit' events
+ */
+export type SessionLimitSignal =
+  | 'session_limit_rejected'
+  | 'session_limit_evicted';
+
+export type SecuritySignal = RiskSignal | SessionLimitSignal;
+
+/**
+ * Ordered from least to most severe
+ */
+export const SECURITY_ACTIONS = ['allow', 'log', 'reauth', 'revoke'] as const;
+
+export type SecurityAction = (typeof SECURITY_ACTIONS)[number];
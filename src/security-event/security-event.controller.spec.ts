@@ -0,0 +1,20 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { SecurityEventController } from './security-event.controller';
+import { SecurityEventService } from './security-event.service';
+
+describe('SecurityEventController', () => {
+  let controller: SecurityEventController;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [SecurityEventController],
+      providers: [{ provide: SecurityEventService, useValue: {} }],
+    }).compile();
+
+    controller = module.get<SecurityEventController>(SecurityEventController);
+  });
+
+  it('should be defined', () => {
+    expect(controller).toBeDefined();
+  });
+});
@@ -0,0 +1,17 @@
+import { Controller, Get, Query, UseGuards } from '@nestjs/common';
+import { SecurityEventService } from './security-event.service';
+import { FindAllSecurityEventsDto } from './dto/find-all-security-events.dto';
+import { RolesGuard } from 'src/auth/guards/roles.guard';
+import { Roles } from 'src/auth/decorators/roles.decorator';
+
+@Controller('security-events')
+@UseGuards(RolesGuard)
+@Roles('ADMIN') // Only admins can review security decisions
+export class SecurityEventController {
+  constructor(private readonly securityEventService: SecurityEventService) {}
+
+  @Get()
+  findAll(@Query() query: FindAllSecurityEventsDto) {
+    return this.securityEventService.findAll(query);
+  }
+}
@@ -0,0 +1,11 @@
+import { Module } from '@nestjs/common';
+import { SecurityEventController } from './security-event.controller';
+import { SecurityEventService } from './security-event.service';
+import { SecurityEventCleanupTask } from './tasks/security-event-cleanup.task';
+import { PrismaService } from 'src/shared/services/prisma.service';
+
+@Module({
+  controllers: [SecurityEventController],
+  providers: [PrismaService, SecurityEventService, SecurityEventCleanupTask],
+})
+export class SecurityEventModule {}
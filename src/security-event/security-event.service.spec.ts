@@ -0,0 +1,65 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { SecurityEventService } from './security-event.service';
+import { PrismaService } from 'src/shared/services/prisma.service';
+
+describe('SecurityEventService', () => {
+  let service: SecurityEventService;
+
+  const mockPrismaService = {
+    securityEvent: {
+      create: jest.fn(),
+      findMany: jest.fn(),
+      count: jest.fn(),
+      deleteMany: jest.fn(),
+    },
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        SecurityEventService,
+        { provide: PrismaService, useValue: mockPrismaService },
+      ],
+    }).compile();
+
+    service = module.get<SecurityEventService>(SecurityEventService);
+
+    jest.clearAllMocks();
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  it('should filter events by user, action and type', async () => {
+    mockPrismaService.securityEvent.findMany.mockResolvedValue([]);
+    mockPrismaService.securityEvent.count.mockResolvedValue(0);
+
+    await service.findAll({
+      skip: 0,
+      take: 10,
+      userId: 'user-id',
+      action: 'revoke',
+    });
+
+    expect(mockPrismaService.securityEvent.count).toHaveBeenCalledWith({
+      where: { userId: 'user-id', action: 'revoke' },
+    });
+  });
+
+  it('should only use accepted events as login history', async () => {
+    mockPrismaService.securityEvent.findMany.mockResolvedValue([]);
+
+    await service.findRecentByUser('user-id', 'login', 20);
+
+    expect(mockPrismaService.securityEvent.findMany).toHaveBeenCalledWith({
+      where: {
+        userId: 'user-id',
+        eventType: 'login',
+        action: { in: ['allow', 'log'] },
+      },
+      orderBy: { createdAt: 'desc' },
+      take: 20,
+    });
+  });
+});
@@ -0,0 +1,70 @@
+import { Injectable } from '@nestjs/common';
+import { Prisma, SecurityEvent } from 'generated/prisma';
+import { PrismaService } from 'src/shared/services/prisma.service';
+import { CreateSecurityEventDto } from './dto/create-security-event.dto';
+import { FindAllSecurityEventsDto } from './dto/find-all-security-events.dto';
+import { SecurityEventType } from './interfaces/security-event.interface';
+
+@Injectable()
+export class SecurityEventService {
+  constructor(private prisma: PrismaService) {}
+
+  async record(dto: CreateSecurityEventDto): Promise<SecurityEvent> {
+    return this.prisma.securityEvent.create({
+      data: dto,
+    });
+  }
+
+  async findAll(
+    params?: FindAllSecurityEventsDto,
+  ): Promise<{ data: SecurityEvent[]; total: number }> {
+    const { skip = 0, take = 10, userId, action, eventType } = params || {};
+
+    const where: Prisma.SecurityEventWhereInput = {
+      ...(userId && { userId }),
+      ...(action && { action }),
+      ...(eventType && { eventType }),
+    };
+
+    const [data, total] = await Promise.all([
+      this.prisma.securityEvent.findMany({
+        skip,
+        ...(take > 0 && { take }), // Only apply take if > 0, otherwise return all
+        where,
+        orderBy: { createdAt: 'desc' },
+      }),
+      this.prisma.securityEvent.count({ where }),
+    ]);
+
+    return { data, total };
+  }
+
+  /**
+   * The user's most recent accepted events of a type, newest first.
+   * Blocked attempts are left out so an attacker's device never becomes "known".
+   */
+  async findRecentByUser(
+    userId: string,
+    eventType: SecurityEventType,
+    limit: number,
+  ): Promise<SecurityEvent[]> {
+    return this.prisma.securityEvent.findMany({
+      where: { userId, eventType, action: { in: ['allow', 'log'] } },
+      orderBy: { createdAt: 'desc' },
+      take: limit,
+    });
+  }
+
+  /**
+   * Clean up old security events (run as a cron job)
+   */
+  async cleanupOldEvents(daysOld: number): Promise<{ count: number }> {
+    const cutoffDate = new Date();
+    cutoffDate.setDate(cutoffDate.getDate() - daysOld);
+
+    const result = await this.prisma.securityEvent.deleteMany({
+      where: { createdAt: { lt: cutoffDate } },
+    });
+    return { count: result.count };
+  }
+}
@@ -0,0 +1,31 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { SecurityEventService } from '../security-event.service';
+
+@Injectable()
+export class SecurityEventCleanupTask {
+  private readonly logger = new Logger(SecurityEventCleanupTask.name);
+
+  constructor(
+    private securityEventService: SecurityEventService,
+    private configService: ConfigService,
+  ) {}
+
+  // Run every day at 1 AM
+  @Cron(CronExpression.EVERY_DAY_AT_1AM)
+  async cleanupOldEvents() {
+    this.logger.log('Starting security events cleanup...');
+
+    try {
+      const retentionDays = Number(
+        this.configService.get('SECURITY_EVENT_RETENTION_DAYS', 90),
+      );
+      const { count } =
+        await this.securityEventService.cleanupOldEvents(retentionDays);
+      this.logger.log(`Cleaned up ${count} old security events`);
+    } catch (error) {
+      this.logger.error('Failed to cleanup old security events', error);
+    }
+  }
+}
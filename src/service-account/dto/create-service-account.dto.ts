@@ -0,0 +1,28 @@
+import {
+  IsArray,
+  IsBoolean,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  MaxLength,
+} from 'class-validator';
+
+export class CreateServiceAccountDto {
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  name: string;
+
+  @IsOptional()
+  @IsString()
+  description?: string;
+
+  @IsArray()
+  @IsInt({ each: true })
+  roleIds: number[];
+
+  @IsOptional()
+  @IsBoolean()
+  isActive?: boolean;
+}
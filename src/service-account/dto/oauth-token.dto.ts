@@ -0,0 +1,23 @@
+import { IsOptional, IsString } from 'class-validator';
+
+/**
+ * Token request parameters (RFC 6749 section 4.4.2). Everything is optional here so
+ * that missing values produce OAuth errors instead of validation errors.
+ */
+export class OAuthTokenDto {
+  @IsOptional()
+  @IsString()
+  grant_type?: string;
+
+  @IsOptional()
+  @IsString()
+  client_id?: string;
+
+  @IsOptional()
+  @IsString()
+  client_secret?: string;
+
+  @IsOptional()
+  @IsString()
+  scope?: string;
+}
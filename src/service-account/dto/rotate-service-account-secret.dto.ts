@@ -0,0 +1,13 @@
+import { Type } from 'class-transformer';
+import { IsInt, IsOptional, Min } from 'class-validator';
+
+export class RotateServiceAccountSecretDto {
+  /**
+   * How long the previous secrets keep working (0 revokes them immediately)
+   */
+  @IsOptional()
+  @Type(() => Number)
+  @IsInt()
+  @Min(0)
+  overlapMinutes?: number;
+}
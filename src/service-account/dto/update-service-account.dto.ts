@@ -0,0 +1,6 @@
+import { PartialType } from '@nestjs/mapped-types';
+import { CreateServiceAccountDto } from './create-service-account.dto';
+
+export class UpdateServiceAccountDto extends PartialType(
+  CreateServiceAccountDto,
+) {}
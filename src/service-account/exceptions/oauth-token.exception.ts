@@ -0,0 +1,23 @@
+import { HttpException, HttpStatus } from '@nestjs/common';
+
+export type OAuthTokenError =
+  | 'invalid_request'
+  | 'invalid_client'
+  | 'invalid_grant'
+  | 'unauthorized_client'
+  | 'invalid_scope'
+  | 'unsupported_grant_type';
+
+/**
+ * Token endpoint error with the RFC 6749 section 5.2 body
+ */
+export class OAuthTokenException extends HttpException {
+  constructor(error: OAuthTokenError, description: string) {
+    super(
+      { error, error_description: description },
+      error === 'invalid_client'
+        ? HttpStatus.UNAUTHORIZED
+        : HttpStatus.BAD_REQUEST,
+    );
+  }
+}
@@ -0,0 +1,32 @@
+import type { Role } from 'generated/prisma';
+import type { SafeServiceAccount } from '../selects/safe-service-account.select';
+
+/**
+ * What JwtStrategy puts on the request for client-credentials access tokens.
+ * `roles` has the same shape as a user's, so RolesGuard treats both alike.
+ */
+export interface ServiceAccountPrincipal {
+  id: string;
+  clientId: string;
+  name: string;
+  roles: Role[];
+  isServiceAccount: true;
+}
+
+export interface ServiceAccountWithSecret {
+  /**
+   * The plain client secret - it is only returned once
+   */
+  clientSecret: string;
+  serviceAccount: SafeServiceAccount;
+}
+
+/**
+ * RFC 6749 section 5.1 access token response
+ */
+export interface ClientCredentialsTokenResponse {
+  access_token: string;
+  token_type: 'Bearer';
+  expires_in: number;
+  scope: string;
+}
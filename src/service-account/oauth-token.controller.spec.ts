@@ -0,0 +1,79 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import type { Request } from 'express';
+import { OAuthTokenController } from './oauth-token.controller';
+import { ServiceAccountService } from './service-account.service';
+import { OAuthTokenException } from './exceptions/oauth-token.exception';
+
+describe('OAuthTokenController', () => {
+  let controller: OAuthTokenController;
+
+  const mockServiceAccountService = {
+    issueClientCredentialsToken: jest.fn(),
+  };
+
+  const requestWith = (authorization?: string) =>
+    ({ get: jest.fn().mockReturnValue(authorization) }) as unknown as Request;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [OAuthTokenController],
+      providers: [
+        {
+          provide: ServiceAccountService,
+          useValue: mockServiceAccountService,
+        },
+      ],
+    }).compile();
+
+    controller = module.get<OAuthTokenController>(OAuthTokenController);
+
+    jest.clearAllMocks();
+  });
+
+  it('should be defined', () => {
+    expect(controller).toBeDefined();
+  });
+
+  it('should reject grants other than client_credentials', () => {
+    expect(() =>
+      controller.token({ grant_type: 'password' }, requestWith()),
+    ).toThrow(OAuthTokenException);
+    expect(
+      mockServiceAccountService.issueClientCredentialsToken,
+    ).not.toHaveBeenCalled();
+  });
+
+  it('should read client credentials from an HTTP Basic header', async () => {
+    const header =
+      'Basic ' + Buffer.from('client-id:s%3Acret').toString('base64');
+
+    await controller.token(
+      { grant_type: 'client_credentials', scope: 'USER' },
+      requestWith(header),
+    );
+
+    expect(
+      mockServiceAccountService.issueClientCredentialsToken,
+    ).toHaveBeenCalledWith('client-id', 's:cret', 'USER');
+  });
+
+  it('should reject a Basic header with malformed percent-encoding', () => {
+    const header = 'Basic ' + Buffer.from('a%:b').toString('base64');
+
+    expect(() =>
+      controller.token(
+        { grant_type: 'client_credentials' },
+        requestWith(header),
+      ),
+    ).toThrow(OAuthTokenException);
+    expect(
+      mockServiceAccountService.issueClientCredentialsToken,
+    ).not.toHaveBeenCalled();
+  });
+
+  it('should require client credentials', () => {
+    expect(() =>
+      controller.token({ grant_type: 'client_credentials' }, requestWith()),
+    ).toThrow(OAuthTokenException);
+  });
+});
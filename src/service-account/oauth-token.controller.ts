@@ -0,0 +1,62 @@
+import {
+  Body,
+  Controller,
+  Header,
+  HttpCode,
+  HttpStatus,
+  Post,
+  Req,
+} from '@nestjs/common';
+import { Throttle } from '@nestjs/throttler';
+import type { Request } from 'express';
+import { Public } from 'src/auth/decorators/public.decorator';
+import { parseBasicAuth } from 'src/auth/utils/basic-auth.util';
+import { ServiceAccountService } from './service-account.service';
+import { OAuthTokenDto } from './dto/oauth-token.dto';
+import { OAuthTokenException } from './exceptions/oauth-token.exception';
+
+@Controller('oauth')
+export class OAuthTokenController {
+  constructor(private readonly serviceAccountService: ServiceAccountService) {}
+
+  /**
+   * Token endpoint. Accepts form or JSON bodies, with the client credentials either in
+   * the body (client_secret_post) or in an HTTP Basic header (client_secret_basic).
+   */
+  @Post('token')
+  @Public()
+  @Throttle({ default: { limit: 10, ttl: 60000 } })
+  @HttpCode(HttpStatus.OK)
+  @Header('Cache-Control', 'no-store')
+  @Header('Pragma', 'no-cache')
+  token(@Body() oauthTokenDto: OAuthTokenDto, @Req() req: Request) {
+    if (oauthTokenDto.grant_type !== 'client_credentials') {
+      throw new OAuthTokenException(
+        oauthTokenDto.grant_type ? 'unsupported_grant_type' : 'invalid_request',
+        'Only the client_credentials grant is supported',
+      );
+    }
+
+    const credentials =
+      parseBasicAuth(req.get('authorization')) ??
+      (oauthTokenDto.client_id && oauthTokenDto.client_secret
+        ? {
+            clientId: oauthTokenDto.client_id,
+            clientSecret: oauthTokenDto.client_secret,
+          }
+        : null);
+
+    if (!credentials) {
+      throw new OAuthTokenException(
+        'invalid_client',
+        'Client authentication failed',
+      );
+    }
+
+    return this.serviceAccountService.issueClientCredentialsToken(
+      credentials.clientId,
+      credentials.clientSecret,
+      oauthTokenDto.scope,
+    );
+  }
+}
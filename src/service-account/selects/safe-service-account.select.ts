@@ -0,0 +1,29 @@
+import { Prisma } from 'generated/prisma';
+
+export const safeServiceAccountSelect = {
+  id: true,
+  clientId: true,
+  name: true,
+  description: true,
+  isActive: true,
+  lastUsedAt: true,
+  createdAt: true,
+  updatedAt: true,
+  roles: {
+    select: {
+      role: true,
+    },
+  },
+  secrets: {
+    select: {
+      id: true,
+      expiresAt: true,
+      createdAt: true,
+    },
+    orderBy: { createdAt: 'desc' },
+  },
+} satisfies Prisma.ServiceAccountSelect;
+
+export type SafeServiceAccount = Prisma.ServiceAccountGetPayload<{
+  select: typeof safeServiceAccountSelect;
+}>;
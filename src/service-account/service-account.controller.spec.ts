@@ -0,0 +1,24 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ServiceAccountController } from './service-account.controller';
+import { ServiceAccountService } from './service-account.service';
+import { SessionService } from 'src/session/session.service';
+
+describe('ServiceAccountController', () => {
+  let controller: ServiceAccountController;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      controllers: [ServiceAccountController],
+      providers: [
+        { provide: ServiceAccountService, useValue: {} },
+        { provide: SessionService, useValue: {} },
+      ],
+    }).compile();
+
+    controller = module.get<ServiceAccountController>(ServiceAccountController);
+  });
+
+  it('should be defined', () => {
+    expect(controller).toBeDefined();
+  });
+});
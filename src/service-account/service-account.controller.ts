@@ -0,0 +1,72 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  Patch,
+  Post,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import { ServiceAccountService } from './service-account.service';
+import { CreateServiceAccountDto } from './dto/create-service-account.dto';
+import { UpdateServiceAccountDto } from './dto/update-service-account.dto';
+import { RotateServiceAccountSecretDto } from './dto/rotate-service-account-secret.dto';
+import { PaginationDto } from 'src/shared/dto/pagination.dto';
+import { RolesGuard } from 'src/auth/guards/roles.guard';
+import { Roles } from 'src/auth/decorators/roles.decorator';
+import { RequireRecentAuth } from 'src/auth/decorators/require-recent-auth.decorator';
+
+@Controller('service-accounts')
+@UseGuards(RolesGuard)
+@Roles('ADMIN') // Only admins can manage service accounts
+export class ServiceAccountController {
+  constructor(private readonly serviceAccountService: ServiceAccountService) {}
+
+  @Post()
+  @HttpCode(HttpStatus.CREATED)
+  create(@Body() createServiceAccountDto: CreateServiceAccountDto) {
+    return this.serviceAccountService.create(createServiceAccountDto);
+  }
+
+  @Get()
+  findAll(@Query() query: PaginationDto) {
+    return this.serviceAccountService.findAll(query);
+  }
+
+  @Get(':id')
+  findOne(@Param('id') id: string) {
+    return this.serviceAccountService.findOne(id);
+  }
+
+  @Patch(':id')
+  update(
+    @Param('id') id: string,
+    @Body() updateServiceAccountDto: UpdateServiceAccountDto,
+  ) {
+    return this.serviceAccountService.update(id, updateServiceAccountDto);
+  }
+
+  @Post(':id/rotate-secret')
+  @RequireRecentAuth()
+  @HttpCode(HttpStatus.OK)
+  rotateSecret(
+    @Param('id') id: string,
+    @Body() rotateServiceAccountSecretDto: RotateServiceAccountSecretDto,
+  ) {
+    return this.serviceAccountService.rotateSecret(
+      id,
+      rotateServiceAccountSecretDto.overlapMinutes,
+    );
+  }
+
+  @Delete(':id')
+  @RequireRecentAuth()
+  @HttpCode(HttpStatus.NO_CONTENT)
+  delete(@Param('id') id: string) {
+    return this.serviceAccountService.delete(id);
+  }
+}
@@ -0,0 +1,18 @@
+import { Module } from '@nestjs/common';
+import { ServiceAccountController } from './service-account.controller';
+import { OAuthTokenController } from './oauth-token.controller';
+import { ServiceAccountService } from './service-account.service';
+import { PrismaService } from 'src/shared/services/prisma.service';
+import { JwtKeyService } from 'src/auth/jwt-key.service';
+import { SessionService } from 'src/session/session.service';
+
+@Module({
+  controllers: [ServiceAccountController, OAuthTokenController],
+  providers: [
+    PrismaService,
+    SessionService,
+    ServiceAccountService,
+    JwtKeyService,
+  ],
+})
+export class ServiceAccountModule {}
@@ -0,0 +1,200 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import * as crypto from 'crypto';
+import { ServiceAccountService } from './service-account.service';
+import { PrismaService } from 'src/shared/services/prisma.service';
+import { JwtKeyService } from 'src/auth/jwt-key.service';
+import { OAuthTokenException } from './exceptions/oauth-token.exception';
+
+describe('ServiceAccountService', () => {
+  let service: ServiceAccountService;
+
+  const mockPrismaService = {
+    serviceAccount: {
+      create: jest.fn(),
+      findUnique: jest.fn(),
+      update: jest.fn(),
+    },
+    serviceAccountSecret: {
+      deleteMany: jest.fn(),
+      updateMany: jest.fn(),
+      create: jest.fn(),
+    },
+    $transaction: jest.fn(),
+  };
+
+  const mockConfigService = {
+    get: jest.fn((key: string, defaultValue?: unknown) => defaultValue),
+  };
+
+  const mockJwtKeyService = {
+    signAccessToken: jest.fn().mockReturnValue('signed-token'),
+  };
+
+  const activeAccount = {
+    id: 'sa-id',
+    isActive: true,
+    roles: [{ role: { name: 'USER' } }, { role: { name: 'ADMIN' } }],
+    secrets: [{ id: 1 }],
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ServiceAccountService,
+        { provide: PrismaService, useValue: mockPrismaService },
+        { provide: ConfigService, useValue: mockConfigService },
+        { provide: JwtKeyService, useValue: mockJwtKeyService },
+      ],
+    }).compile();
+
+    service = module.get<ServiceAccountService>(ServiceAccountService);
+
+    jest.clearAllMocks();
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  describe('create', () => {
+    it('should store only a hash and return the secret once', async () => {
+      mockPrismaService.serviceAccount.create.mockResolvedValue({
+        id: 'sa-id',
+      });
+
+      const { clientSecret } = await service.create({
+        name: 'Billing sync',
+        roleIds: [1],
+      });
+
+      expect(clientSecret.startsWith('lnx_sas_')).toBe(true);
+      expect(mockPrismaService.serviceAccount.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({
+            roles: { create: [{ roleId: 1 }] },
+            secrets: {
+              create: {
+                secretHash: crypto
+                  .createHash('sha256')
+                  .update(clientSecret)
+                  .digest('hex'),
+              },
+            },
+          }) as object,
+        }),
+      );
+    });
+  });
+
+  describe('rotateSecret', () => {
+    it('should keep previous secrets valid for the overlap period only', async () => {
+      mockPrismaService.serviceAccount.findUnique.mockResolvedValue({
+        id: 'sa-id',
+      });
+      mockPrismaService.$transaction.mockResolvedValue([]);
+
+      const before = Date.now();
+      await service.rotateSecret('sa-id', 60);
+
+      const [{ data }] = mockPrismaService.serviceAccountSecret.updateMany.mock
+        .calls[0] as [{ data: { expiresAt: Date } }];
+      expect(data.expiresAt.getTime()).toBeGreaterThanOrEqual(
+        before + 60 * 60 * 1000,
+      );
+      expect(data.expiresAt.getTime()).toBeLessThanOrEqual(
+        Date.now() + 60 * 60 * 1000,
+      );
+      expect(mockPrismaService.serviceAccountSecret.create).toHaveBeenCalled();
+    });
+  });
+
+  describe('issueClientCredentialsToken', () => {
+    it('should issue a token limited to the requested scope', async () => {
+      mockPrismaService.serviceAccount.findUnique.mockResolvedValue(
+        activeAccount,
+      );
+
+      await expect(
+        service.issueClientCredentialsToken('client-id', 'secret', 'USER'),
+      ).resolves.toEqual({
+        access_token: 'signed-token',
+        token_type: 'Bearer',
+        expires_in: 900,
+        scope: 'USER',
+      });
+      expect(mockJwtKeyService.signAccessToken).toHaveBeenCalledWith(
+        expect.objectContaining({
+          sub: 'sa-id',
+          client_id: 'client-id',
+          scope: 'USER',
+        }),
+        900,
+      );
+    });
+
+    it('should reject unknown clients, inactive clients and wrong secrets', async () => {
+      mockPrismaService.serviceAccount.findUnique
+        .mockResolvedValueOnce(null)
+        .mockResolvedValueOnce({ ...activeAccount, isActive: false })
+        .mockResolvedValueOnce({ ...activeAccount, secrets: [] });
+
+      for (let i = 0; i < 3; i++) {
+        await expect(
+          service.issueClientCredentialsToken('client-id', 'secret'),
+        ).rejects.toMatchObject({
+          response: expect.objectContaining({
+            error: 'invalid_client',
+          }) as object,
+        });
+      }
+      expect(mockJwtKeyService.signAccessToken).not.toHaveBeenCalled();
+    });
+
+    it('should reject scopes not granted to the client', async () => {
+      mockPrismaService.serviceAccount.findUnique.mockResolvedValue(
+        activeAccount,
+      );
+
+      await expect(
+        service.issueClientCredentialsToken(
+          'client-id',
+          'secret',
+          'SUPERADMIN',
+        ),
+      ).rejects.toThrow(OAuthTokenException);
+    });
+  });
+
+  describe('resolvePrincipal', () => {
+    it('should only expose the roles within the token scope', async () => {
+      mockPrismaService.serviceAccount.findUnique.mockResolvedValue({
+        id: 'sa-id',
+        clientId: 'client-id',
+        name: 'Billing sync',
+        isActive: true,
+        roles: [
+          { role: { id: 1, name: 'USER' } },
+          { role: { id: 2, name: 'ADMIN' } },
+        ],
+      });
+
+      const principal = await service.resolvePrincipal('sa-id', 'USER');
+
+      expect(principal?.roles).toEqual([{ id: 1, name: 'USER' }]);
+      expect(principal?.isServiceAccount).toBe(true);
+    });
+
+    it('should return null for deactivated accounts', async () => {
+      mockPrismaService.serviceAccount.findUnique.mockResolvedValue({
+        id: 'sa-id',
+        isActive: false,
+        roles: [],
+      });
+
+      await expect(
+        service.resolvePrincipal('sa-id', 'USER'),
+      ).resolves.toBeNull();
+    });
+  });
+});
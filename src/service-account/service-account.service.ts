@@ -0,0 +1,286 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import * as crypto from 'crypto';
+import { PrismaService } from 'src/shared/services/prisma.service';
+import { PaginationDto } from 'src/shared/dto/pagination.dto';
+import { JwtKeyService } from 'src/auth/jwt-key.service';
+import { CreateServiceAccountDto } from './dto/create-service-account.dto';
+import { UpdateServiceAccountDto } from './dto/update-service-account.dto';
+import { OAuthTokenException } from './exceptions/oauth-token.exception';
+import {
+  ClientCredentialsTokenResponse,
+  ServiceAccountPrincipal,
+  ServiceAccountWithSecret,
+} from './interfaces/service-account.interface';
+import {
+  SafeServiceAccount,
+  safeServiceAccountSelect,
+} from './selects/safe-service-account.select';
+
+/**
+ * Makes leaked client secrets easy to recognise for secret scanners
+ */
+const CLIENT_SECRET_PREFIX = 'lnx_sas_';
+
+@Injectable()
+export class ServiceAccountService {
+  constructor(
+    private prisma: PrismaService,
+    private configService: ConfigService,
+    private jwtKeyService: JwtKeyService,
+  ) {}
+
+  async create(
+    dto: CreateServiceAccountDto,
+  ): Promise<ServiceAccountWithSecret> {
+    const { roleIds, ...data } = dto;
+    const clientSecret = this.generateClientSecret();
+
+    const serviceAccount = await this.prisma.serviceAccount.create({
+      data: {
+        ...data,
+        clientId: crypto.randomBytes(16).toString('hex'),
+        roles: { create: roleIds.map((roleId) => ({ roleId })) },
+        secrets: { create: { secretHash: this.hashSecret(clientSecret) } },
+      },
+      select: safeServiceAccountSelect,
+    });
+
+    return { clientSecret, serviceAccount };
+  }
+
+  async findAll(
+    params?: PaginationDto,
+  ): Promise<{ data: SafeServiceAccount[]; total: number }> {
+    const { skip = 0, take = 10 } = params || {};
+
+    const [data, total] = await Promise.all([
+      this.prisma.serviceAccount.findMany({
+        skip,
+        ...(take > 0 && { take }), // Only apply take if > 0, otherwise return all
+        select: safeServiceAccountSelect,
+        orderBy: { createdAt: 'desc' },
+      }),
+      this.prisma.serviceAccount.count(),
+    ]);
+
+    return { data, total };
+  }
+
+  async findOne(id: string): Promise<SafeServiceAccount> {
+    const serviceAccount = await this.prisma.serviceAccount.findUnique({
+      where: { id },
+      select: safeServiceAccountSelect,
+    });
+
+    if (!serviceAccount) {
+      throw new NotFoundException('Service account not found');
+    }
+
+    return serviceAccount;
+  }
+
+  async update(
+    id: string,
+    dto: UpdateServiceAccountDto,
+  ): Promise<SafeServiceAccount> {
+    const { roleIds, ...data } = dto;
+
+    if (roleIds === undefined) {
+      return this.prisma.serviceAccount.update({
+        where: { id },
+        data: { ...data, updatedAt: new Date() },
+        select: safeServiceAccountSelect,
+      });
+    }
+
+    return this.prisma.$transaction(async (tx) => {
+      await tx.serviceAccountRole.deleteMany({
+        where: { serviceAccountId: id },
+      });
+
+      return tx.serviceAccount.update({
+        where: { id },
+        data: {
+          ...data,
+          updatedAt: new Date(),
+          roles: { create: roleIds.map((roleId) => ({ roleId })) },
+        },
+        select: safeServiceAccountSelect,
+      });
+    });
+  }
+
+  async delete(id: string): Promise<void> {
+    await this.prisma.serviceAccount.delete({ where: { id } });
+  }
+
+  /**
+   * Issue a new client secret. The previous ones keep working for the overlap period,
+   * so clients can be redeployed with the new secret without downtime.
+   */
+  async rotateSecret(
+    id: string,
+    overlapMinutes?: number,
+  ): Promise<ServiceAccountWithSecret> {
+    const overlap =
+      overlapMinutes ??
+      Number(
+        this.configService.get('SERVICE_ACCOUNT_SECRET_OVERLAP_MINS', 1440),
+      );
+    const previousSecretsExpireAt = new Date(Date.now() + overlap * 60 * 1000);
+    const clientSecret = this.generateClientSecret();
+
+    await this.findOne(id);
+
+    await this.prisma.$transaction([
+      // Secrets that already expired have no use anymore
+      this.prisma.serviceAccountSecret.deleteMany({
+        where: { serviceAccountId: id, expiresAt: { lte: new Date() } },
+      }),
+      this.prisma.serviceAccountSecret.updateMany({
+        where: {
+          serviceAccountId: id,
+          OR: [
+            { expiresAt: null },
+            { expiresAt: { gt: previousSecretsExpireAt } },
+          ],
+        },
+        data: { expiresAt: previousSecretsExpireAt },
+      }),
+      this.prisma.serviceAccountSecret.create({
+        data: {
+          serviceAccountId: id,
+          secretHash: this.hashSecret(clientSecret),
+        },
+      }),
+    ]);
+
+    return { clientSecret, serviceAccount: await this.findOne(id) };
+  }
+
+  /**
+   * client_credentials grant (RFC 6749 section 4.4): authenticate the client and issue an
+   * access token limited to the requested scope (role names), or to all of its roles.
+   */
+  async issueClientCredentialsToken(
+    clientId: string,
+    clientSecret: string,
+    scope?: string,
+  ): Promise<ClientCredentialsTokenResponse> {
+    const serviceAccount = await this.prisma.serviceAccount.findUnique({
+      where: { clientId },
+      select: {
+        id: true,
+        isActive: true,
+        roles: { select: { role: { select: { name: true } } } },
+        secrets: {
+          where: {
+            secretHash: this.hashSecret(clientSecret),
+            OR: [{ expiresAt: null }, { expiresAt: { gt: new Date() } }],
+          },
+          select: { id: true },
+        },
+      },
+    });
+
+    if (
+      !serviceAccount ||
+      !serviceAccount.isActive ||
+      serviceAccount.secrets.length === 0
+    ) {
+      throw new OAuthTokenException(
+        'invalid_client',
+        'Client authentication failed',
+      );
+    }
+
+    const roleNames = serviceAccount.roles.map(({ role }) => role.name);
+    const requestedScopes = scope
+      ? [...new Set(scope.split(' ').filter(Boolean))]
+      : roleNames;
+    const invalidScopes = requestedScopes.filter(
+      (requested) => !roleNames.includes(requested),
+    );
+
+    if (invalidScopes.length > 0) {
+      throw new OAuthTokenException(
+        'invalid_scope',
+        `Scopes not granted to this client: ${invalidScopes.join(' ')}`,
+      );
+    }
+
+    const expiresIn = Number(
+      this.configService.get('SERVICE_ACCOUNT_TOKEN_EXPIRY_SECONDS', 900),
+    );
+
+    const accessToken = this.jwtKeyService.signAccessToken(
+      {
+        sub: serviceAccount.id,
+        client_id: clientId,
+        scope: requestedScopes.join(' '),
+        jti: crypto.randomUUID(),
+      },
+      expiresIn,
+    );
+
+    await this.prisma.serviceAccount.update({
+      where: { id: serviceAccount.id },
+      data: { lastUsedAt: new Date() },
+    });
+
+    return {
+      access_token: accessToken,
+      token_type: 'Bearer',
+      expires_in: expiresIn,
+      scope: requestedScopes.join(' '),
+    };
+  }
+
+  /**
+   * Resolve a client-credentials access token to its principal. Roles are re-read on every
+   * request, so deactivating an account or removing a role takes effect immediately.
+   */
+  async resolvePrincipal(
+    id: string,
+    scope: string,
+  ): Promise<ServiceAccountPrincipal | null> {
+    const serviceAccount = await this.prisma.serviceAccount.findUnique({
+      where: { id },
+      select: {
+        id: true,
+        clientId: true,
+        name: true,
+        isActive: true,
+        roles: { select: { role: true } },
+      },
+    });
+
+    if (!serviceAccount || !serviceAccount.isActive) {
+      return null;
+    }
+
+    const scopes = scope.split(' ');
+
+    return {
+      id: serviceAccount.id,
+      clientId: serviceAccount.clientId,
+      name: serviceAccount.name,
+      roles: serviceAccount.roles
+        .map(({ role }) => role)
+        .filter((role) => scopes.includes(role.name)),
+      isServiceAccount: true,
+    };
+  }
+
+  private generateClientSecret(): string {
+    return CLIENT_SECRET_PREFIX + crypto.randomBytes(32).toString('base64url');
+  }
+
+  /**
+   * Client secrets are random and high-entropy, so a fast hash is enough (as for refresh tokens)
+   */
+  private hashSecret(secret: string): string {
+    return crypto.createHash('sha256').update(secret).digest('hex');
+  }
+}
@@ -1,4 +1,4 @@
-import { IsInt, IsString, IsOptional, IsDate, IsNotEmpty } from 'class-validator';
+import { IsInt, IsString, IsOptional, IsDate, IsNotEmpty, IsUUID, IsBoolean, IsNumber } from 'class-validator';
 import { Type } from 'class-transformer';
 
 export class CreateSessionDto {
@@ -29,4 +29,76 @@ export class CreateSessionDto {
     @IsOptional()
     @IsInt()
     previousSessionId?: number;
+
+    @IsOptional()
+    @Type(() => Date)
+    @IsDate()
+    authenticatedAt?: Date;
+
+    @IsOptional()
+    @Type(() => Date)
+    @IsDate()
+    lastUsedAt?: Date;
+
+    @IsOptional()
+    @IsBoolean()
+    rememberMe?: boolean;
+
+    @IsOptional()
+    @Type(() => Date)
+    @IsDate()
+    maxExpiresAt?: Date;
+
+    @IsOptional()
+    @IsString()
+    deviceId?: string | null;
+
+    @IsOptional()
+    @IsString()
+    deviceName?: string | null;
+
+    @IsOptional()
+    @Type(() => Date)
+    @IsDate()
+    trustedUntil?: Date | null;
+
+    @IsOptional()
+    @IsString()
+    country?: string | null;
+
+    @IsOptional()
+    @IsString()
+    region?: string | null;
+
+    @IsOptional()
+    @IsString()
+    city?: string | null;
+
+    @IsOptional()
+    @IsNumber()
+    latitude?: number | null;
+
+    @IsOptional()
+    @IsNumber()
+    longitude?: number | null;
+
+    @IsOptional()
+    @IsInt()
+    asn?: number | null;
+
+    @IsOptional()
+    @IsString()
+    asOrganization?: string | null;
+
+    @IsOptional()
+    @IsUUID()
+    oidcClientId?: string;
+
+    @IsOptional()
+    @IsString()
+    nativeClientId?: string;
+
+    @IsOptional()
+    @IsString({ each: true })
+    oidcScopes?: string[];
 }
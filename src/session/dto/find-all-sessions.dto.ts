@@ -1,4 +1,4 @@
-import { IsOptional, IsBoolean, IsString } from 'class-validator';
+import { IsOptional, IsBoolean, IsString, IsISO31661Alpha2 } from 'class-validator';
 import { Transform, Type } from 'class-transformer';
 import { PaginationDto } from 'src/shared/dto/pagination.dto';
 
@@ -24,4 +24,12 @@ export class FindAllSessionsDto extends PaginationDto {
     })
     @IsBoolean()
     includeExpired?: boolean;
+
+    /**
+     * ISO 3166-1 alpha-2 code of the country the session was last seen in
+     */
+    @IsOptional()
+    @Transform(({ value }) => typeof value === 'string' ? value.toUpperCase() : value)
+    @IsISO31661Alpha2()
+    country?: string;
 }
\ No newline at end of file
@@ -11,9 +11,28 @@ export const safeSessionSelect = {
     expiresAt: true,
     createdAt: true,
     lastUsedAt: true,
+    authenticatedAt: true,
+    rememberMe: true,
+    maxExpiresAt: true,
+    deviceId: true,
+    deviceName: true,
+    trustedUntil: true,
+    country: true,
+    region: true,
+    city: true,
+    latitude: true,
+    longitude: true,
+    asn: true,
+    asOrganization: true,
     isRevoked: true,
+    revokedReason: true,
+    nativeClientId: true,
     previousSessionId: true,
     updatedAt: true,
+    oidcScopes: true,
+    oidcClient: {
+        select: { id: true, clientId: true, name: true }
+    },
     user: {
         select: safeUserSelect
     },
@@ -0,0 +1,46 @@
+const MAX_ENTRIES = 10000;
+
+/**
+ * Write-behind buffer of session activity from authenticated requests. Requests only
+ * record their session here; SessionService.flushActivity writes the buffered timestamps
+ * in batches. Like the status cache, it lives at module level because SessionService is
+ * provided by more than one module.
+ */
+class SessionActivityBuffer {
+  private entries = new Map<string, Date>();
+
+  record(sessionId: string, at = new Date()): void {
+    // Re-inserting keeps the Map in order of last activity, so the cap drops the stalest entry
+    this.entries.delete(sessionId);
+
+    if (this.entries.size >= MAX_ENTRIES) {
+      const [oldest] = this.entries.keys();
+      this.entries.delete(oldest);
+    }
+
+    this.entries.set(sessionId, at);
+  }
+
+  /**
+   * Last buffered activity of a session that has not been written yet
+   */
+  get(sessionId: string): Date | undefined {
+    return this.entries.get(sessionId);
+  }
+
+  /**
+   * Hand over everything buffered so far and start over
+   */
+  drain(): Map<string, Date> {
+    const entries = this.entries;
+    this.entries = new Map();
+
+    return entries;
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+}
+
+export const sessionActivityBuffer = new SessionActivityBuffer();
@@ -0,0 +1,63 @@
+export interface SessionStatus {
+  userId: string;
+  isRevoked: boolean;
+  expiresAt: Date;
+  tokenVersion: number;
+}
+
+const MAX_ENTRIES = 10000;
+
+/**
+ * Short-lived cache of session status for access token checks. It lives at module level
+ * because SessionService is provided by more than one module. Revocations in this process
+ * evict entries immediately; other processes pick them up once the entry's TTL runs out.
+ */
+class SessionStatusCache {
+  private entries = new Map<
+    string,
+    { status: SessionStatus; cachedAt: number }
+  >();
+
+  get(sessionId: string, ttlMs: number): SessionStatus | undefined {
+    const entry = this.entries.get(sessionId);
+
+    if (!entry) {
+      return undefined;
+    }
+
+    if (entry.cachedAt + ttlMs <= Date.now()) {
+      this.entries.delete(sessionId);
+      return undefined;
+    }
+
+    return entry.status;
+  }
+
+  set(sessionId: string, status: SessionStatus): void {
+    // Maps iterate in insertion order, so this drops the oldest entry
+    if (this.entries.size >= MAX_ENTRIES) {
+      const [oldest] = this.entries.keys();
+      this.entries.delete(oldest);
+    }
+
+    this.entries.set(sessionId, { status, cachedAt: Date.now() });
+  }
+
+  evict(sessionId: string): void {
+    this.entries.delete(sessionId);
+  }
+
+  evictUser(userId: string): void {
+    this.entries.forEach((entry, sessionId) => {
+      if (entry.status.userId === userId) {
+        this.entries.delete(sessionId);
+      }
+    });
+  }
+
+  clear(): void {
+    this.entries.clear();
+  }
+}
+
+export const sessionStatusCache = new SessionStatusCache();
@@ -14,6 +14,7 @@ import {
   import { FindAllSessionsDto } from './dto/find-all-sessions.dto';
   import { RolesGuard } from 'src/auth/guards/roles.guard';
   import { Roles } from 'src/auth/decorators/roles.decorator';
+  import { RequireRecentAuth } from 'src/auth/decorators/require-recent-auth.decorator';
   
   @Controller('sessions')
   @UseGuards(RolesGuard)
@@ -32,11 +33,13 @@ import {
     }
   
     @Patch('user/:userId/revoke-all')
+    @RequireRecentAuth()
     revokeAllUserSessions(@Param('userId') userId: string) {
       return this.sessionService.revokeAllUserSessions(userId);
     }
   
     @Delete(':id')
+    @RequireRecentAuth()
     @HttpCode(HttpStatus.NO_CONTENT)
     deleteSession(@Param('id', ParseIntPipe) id: number) {
       return this.sessionService.deleteSession(id);
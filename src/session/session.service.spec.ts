@@ -1,6 +1,9 @@
 import { Test, TestingModule } from '@nestjs/testing';
 import { SessionService } from './session.service';
 import { PrismaService } from 'src/shared/services/prisma.service';
+import { ConfigService } from '@nestjs/config';
+import { sessionStatusCache } from './session-status.cache';
+import { sessionActivityBuffer } from './session-activity.buffer';
 
 describe('SessionService', () => {
   let service: SessionService;
@@ -16,6 +19,11 @@ describe('SessionService', () => {
       delete: jest.fn(),
       deleteMany: jest.fn(),
     },
+    $queryRaw: jest.fn(),
+  };
+
+  const mockConfigService = {
+    get: jest.fn((key: string, defaultValue?: unknown) => defaultValue),
   };
 
   const mockSession = {
@@ -56,6 +64,10 @@ describe('SessionService', () => {
           provide: PrismaService,
           useValue: mockPrismaService,
         },
+        {
+          provide: ConfigService,
+          useValue: mockConfigService,
+        },
       ],
     }).compile();
 
@@ -287,4 +299,199 @@ describe('SessionService', () => {
       expect(prisma.session.deleteMany).toHaveBeenCalled();
     });
   });
-});
\ No newline at end of file
+
+  describe('isAccessTokenSessionActive', () => {
+    const activeStatus = {
+      userId: 'user-id',
+      isRevoked: false,
+      expiresAt: new Date(Date.now() + 60_000),
+      user: { tokenVersion: 2 },
+    };
+
+    beforeEach(() => {
+      sessionStatusCache.clear();
+    });
+
+    it('should accept an active session and cache its status', async () => {
+      mockPrismaService.session.findUnique.mockResolvedValue(activeStatus);
+
+      await expect(
+        service.isAccessTokenSessionActive('sid', 'user-id', 2),
+      ).resolves.toBe(true);
+      await expect(
+        service.isAccessTokenSessionActive('sid', 'user-id', 2),
+      ).resolves.toBe(true);
+
+      expect(mockPrismaService.session.findUnique).toHaveBeenCalledTimes(1);
+    });
+
+    it('should reject revoked sessions and outdated token versions', async () => {
+      mockPrismaService.session.findUnique.mockResolvedValueOnce({
+        ...activeStatus,
+        isRevoked: true,
+      });
+      await expect(
+        service.isAccessTokenSessionActive('revoked', 'user-id', 2),
+      ).resolves.toBe(false);
+
+      mockPrismaService.session.findUnique.mockResolvedValueOnce(activeStatus);
+      await expect(
+        service.isAccessTokenSessionActive('sid', 'user-id', 1),
+      ).resolves.toBe(false);
+    });
+
+    it('should stop accepting a session as soon as it is revoked', async () => {
+      mockPrismaService.session.findUnique.mockResolvedValue(activeStatus);
+      await service.isAccessTokenSessionActive('sid', 'user-id', 2);
+
+      mockPrismaService.session.update.mockResolvedValue({
+        id: 1,
+        sessionId: 'sid',
+        user: { id: 'user-id', userRoles: [] },
+      });
+      await service.revokeSession(1);
+
+      mockPrismaService.session.findUnique.mockResolvedValue({
+        ...activeStatus,
+        isRevoked: true,
+      });
+      await expect(
+        service.isAccessTokenSessionActive('sid', 'user-id', 2),
+      ).resolves.toBe(false);
+    });
+  });
+
+  describe('isRecentlyAuthenticated', () => {
+    it('should accept a session authenticated within the window', async () => {
+      mockPrismaService.session.findUnique.mockResolvedValue({
+        authenticatedAt: new Date(Date.now() - 60_000),
+      });
+
+      await expect(service.isRecentlyAuthenticated('sid', 300)).resolves.toBe(
+        true,
+      );
+      await expect(service.isRecentlyAuthenticated('sid', 30)).resolves.toBe(
+        false,
+      );
+    });
+
+    it('should reject requests without a session', async () => {
+      await expect(service.isRecentlyAuthenticated(undefined)).resolves.toBe(
+        false,
+      );
+      expect(mockPrismaService.session.findUnique).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('revokeSessionFamily', () => {
+    it('should revoke every session in the family', async () => {
+      mockPrismaService.$queryRaw.mockResolvedValue([
+        { id: 1, user_id: 'user-id' },
+        { id: 2, user_id: 'user-id' },
+        { id: 3, user_id: 'user-id' },
+      ]);
+      mockPrismaService.session.updateMany.mockResolvedValue({ count: 2 });
+
+      await expect(service.revokeSessionFamily(2)).resolves.toEqual({
+        count: 2,
+      });
+      expect(mockPrismaService.session.updateMany).toHaveBeenCalledWith({
+        where: { id: { in: [1, 2, 3] }, isRevoked: false },
+        data: { isRevoked: true, updatedAt: expect.any(Date) as Date },
+      });
+    });
+  });
+
+  describe('session activity', () => {
+    beforeEach(() => {
+      sessionActivityBuffer.drain();
+    });
+
+    it('should only buffer request activity when tracking is enabled', () => {
+      service.trackActivity('sid');
+      expect(sessionActivityBuffer.size).toBe(0);
+
+      mockConfigService.get.mockImplementationOnce(() => 'true');
+      service.trackActivity('sid');
+      expect(sessionActivityBuffer.get('sid')).toBeInstanceOf(Date);
+    });
+
+    it('should write buffered activity with one update per minute', async () => {
+      const minute = new Date('2025-01-01T10:00:00Z').getTime();
+      sessionActivityBuffer.record('a', new Date(minute + 5_000));
+      sessionActivityBuffer.record('b', new Date(minute + 50_000));
+      sessionActivityBuffer.record('c', new Date(minute + 65_000));
+      mockPrismaService.session.updateMany.mockResolvedValue({ count: 1 });
+
+      await expect(service.flushActivity()).resolves.toEqual({ count: 2 });
+
+      expect(mockPrismaService.session.updateMany).toHaveBeenCalledTimes(2);
+      expect(mockPrismaService.session.updateMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: expect.objectContaining({
+            sessionId: { in: ['a', 'b'] },
+          }) as object,
+          data: { lastUsedAt: new Date(minute) },
+        }),
+      );
+      expect(sessionActivityBuffer.size).toBe(0);
+    });
+
+    it('should count buffered activity towards the idle time', () => {
+      const session = {
+        sessionId: 'sid',
+        createdAt: new Date(Date.now() - 3_600_000),
+        lastUsedAt: new Date(Date.now() - 1_800_000),
+      };
+
+      expect(service.getIdleSeconds(session)).toBeGreaterThanOrEqual(1800);
+
+      sessionActivityBuffer.record('sid');
+      expect(service.getIdleSeconds(session)).toBeLessThan(5);
+    });
+
+    it('should only consider sessions idle with an idle timeout', () => {
+      const session = {
+        sessionId: 'sid',
+        createdAt: new Date(Date.now() - 3_600_000),
+        lastUsedAt: null,
+      };
+
+      expect(service.isIdle(session)).toBe(false);
+
+      mockConfigService.get.mockImplementationOnce(() => 30);
+      expect(service.isIdle(session)).toBe(true);
+    });
+  });
+
+  describe('revokeIdleSessions', () => {
+    it('should revoke idle sessions with the idle timeout reason', async () => {
+      mockPrismaService.session.findMany.mockResolvedValue([
+        { id: 1, sessionId: 'a' },
+        { id: 2, sessionId: 'b' },
+      ]);
+      mockPrismaService.session.updateMany.mockResolvedValue({ count: 2 });
+
+      await expect(service.revokeIdleSessions(30)).resolves.toEqual({
+        count: 2,
+      });
+      expect(mockPrismaService.session.updateMany).toHaveBeenCalledWith({
+        where: { id: { in: [1, 2] }, isRevoked: false },
+        data: {
+          isRevoked: true,
+          revokedReason: 'idle_timeout',
+          updatedAt: expect.any(Date) as Date,
+        },
+      });
+    });
+
+    it('should not write anything without idle sessions', async () => {
+      mockPrismaService.session.findMany.mockResolvedValue([]);
+
+      await expect(service.revokeIdleSessions(30)).resolves.toEqual({
+        count: 0,
+      });
+      expect(mockPrismaService.session.updateMany).not.toHaveBeenCalled();
+    });
+  });
+});
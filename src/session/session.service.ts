@@ -1,10 +1,13 @@
 import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
 import { PrismaService } from 'src/shared/services/prisma.service';
 import { Prisma, Role } from 'generated/prisma';
 import { CreateSessionDto } from './dto/create-session.dto';
 import { safeSessionSelect } from './selects/safe-session.select';
 import { FindAllSessionsDto } from './dto/find-all-sessions.dto';
 import { FormattedSafeUser, transformSafeUser } from 'src/user/utils/transform-user.util';
+import { SessionStatus, sessionStatusCache } from './session-status.cache';
+import { sessionActivityBuffer } from './session-activity.buffer';
 
 type RawSafeSession = Prisma.SessionGetPayload<{
     select: typeof safeSessionSelect;
@@ -14,10 +17,18 @@ export type SafeSession = Omit<RawSafeSession, 'user'> & {
     user: FormattedSafeUser
 };
 
+/**
+ * Stored as the revocation reason of sessions that were inactive for too long
+ */
+export const SESSION_IDLE_REVOKED_REASON = 'idle_timeout';
+
+const MINUTE_MS = 60 * 1000;
+
 @Injectable()
 export class SessionService {
     constructor(
         private prisma: PrismaService,
+        private configService: ConfigService,
     ) { }
 
     transformSession(session: RawSafeSession): SafeSession {
@@ -37,13 +48,14 @@ export class SessionService {
         return this.transformSession(session);
     }
 
-    async findAll(params?: FindAllSessionsDto): Promise<{ data: SafeSession[]; total: number }> {
-        const { skip = 0, take = 10, userId, isRevoked, includeExpired } = params || {};
+    async findAll(params?: FindAllSessionsDto): Promise<{ data: (SafeSession & { idleSeconds: number })[]; total: number }> {
+        const { skip = 0, take = 10, userId, isRevoked, includeExpired, country } = params || {};
 
         // use camelCase keys for Prisma fields
         const where: Prisma.SessionWhereInput = {
             ...(userId && { userId }),
             ...(isRevoked !== undefined && { isRevoked }),
+            ...(country && { country }),
             ...(!includeExpired && {
                 expiresAt: { gte: new Date() },
             }),
@@ -61,7 +73,10 @@ export class SessionService {
             this.prisma.session.count({ where }),
         ]);
 
-        const data = sessions.map(session => this.transformSession(session));
+        const data = sessions.map(session => ({
+            ...this.transformSession(session),
+            idleSeconds: this.getIdleSeconds(session),
+        }));
 
         return { data, total };
     }
@@ -105,6 +120,23 @@ export class SessionService {
         return this.transformSession(session);
     }
 
+    /**
+     * The session that replaced this one on refresh token rotation, if any
+     */
+    async findSuccessor(id: number): Promise<SafeSession | null> {
+        const session = await this.prisma.session.findFirst({
+            where: { previousSessionId: id },
+            select: safeSessionSelect,
+            orderBy: { createdAt: 'desc' },
+        });
+
+        if (!session) {
+            return null;
+        }
+
+        return this.transformSession(session);
+    }
+
     async findActiveByUserId(userId: string): Promise<SafeSession[]> {
         const now = new Date();
         const sessions = await this.prisma.session.findMany({
@@ -122,16 +154,83 @@ export class SessionService {
         return safeSessions;
     }
 
-    async revokeSession(id: number): Promise<SafeSession> {
+    /**
+     * The user's most recent session with a known location, for impossible travel checks
+     */
+    async findLatestLocatedByUserId(userId: string) {
+        return this.prisma.session.findFirst({
+            where: { userId, latitude: { not: null }, longitude: { not: null } },
+            select: { latitude: true, longitude: true, createdAt: true, lastUsedAt: true },
+            orderBy: { createdAt: 'desc' },
+        });
+    }
+
+    /**
+     * Whether an access token's session is still active and the token was issued for the
+     * user's current token version. Backed by a short-lived cache, since it runs on every request.
+     */
+    async isAccessTokenSessionActive(sessionId: string, userId: string, tokenVersion: number): Promise<boolean> {
+        const status = await this.getSessionStatus(sessionId);
+
+        return !!status
+            && status.userId === userId
+            && !status.isRevoked
+            && status.expiresAt > new Date()
+            && status.tokenVersion === tokenVersion;
+    }
+
+    private async getSessionStatus(sessionId: string): Promise<SessionStatus | null> {
+        const ttlMs = Number(this.configService.get('SESSION_STATUS_CACHE_TTL_SECONDS', 30)) * 1000;
+        const cached = sessionStatusCache.get(sessionId, ttlMs);
+
+        if (cached) {
+            return cached;
+        }
+
+        const session = await this.prisma.session.findUnique({
+            where: { sessionId },
+            select: {
+                userId: true,
+                isRevoked: true,
+                expiresAt: true,
+                user: { select: { tokenVersion: true } },
+            },
+        });
+
+        if (!session) {
+            return null;
+        }
+
+        const status: SessionStatus = {
+            userId: session.userId,
+            isRevoked: session.isRevoked,
+            expiresAt: session.expiresAt,
+            tokenVersion: session.user.tokenVersion,
+        };
+
+        if (ttlMs > 0) {
+            sessionStatusCache.set(sessionId, status);
+        }
+
+        return status;
+    }
+
+    /**
+     * The reason is only recorded when the client must be told why (e.g. 'session_limit')
+     */
+    async revokeSession(id: number, reason?: string): Promise<SafeSession> {
         const session = await this.prisma.session.update({
             where: { id },
             data: {
                 isRevoked: true,
+                revokedReason: reason,
                 updatedAt: new Date(),
             },
             select: safeSessionSelect,
         });
 
+        sessionStatusCache.evict(session.sessionId);
+
         return this.transformSession(session);
     }
 
@@ -144,9 +243,95 @@ export class SessionService {
             },
         });
 
+        sessionStatusCache.evictUser(userId);
+
         return { count: result.count };
     }
 
+    /**
+     * Sign out everywhere except the given session ("sign out other devices")
+     */
+    async revokeOtherUserSessions(userId: string, exceptSessionId: string): Promise<{ count: number }> {
+        const result = await this.prisma.session.updateMany({
+            where: { userId: userId, isRevoked: false, sessionId: { not: exceptSessionId } },
+            data: {
+                isRevoked: true,
+                updatedAt: new Date(),
+            },
+        });
+
+        sessionStatusCache.evictUser(userId);
+
+        return { count: result.count };
+    }
+
+    /**
+     * Revoke every session in a refresh token family: the ancestors reachable through
+     * previousSessionId and everything rotated from them
+     */
+    async revokeSessionFamily(id: number): Promise<{ count: number }> {
+        const family = await this.prisma.$queryRaw<{ id: number; user_id: string }[]>`
+            WITH RECURSIVE ancestors AS (
+                SELECT id, previous_session_id FROM "session" WHERE id = ${id}
+                UNION
+                SELECT s.id, s.previous_session_id FROM "session" s
+                JOIN ancestors a ON s.id = a.previous_session_id
+            ),
+            family AS (
+                SELECT id FROM ancestors
+                UNION
+                SELECT s.id FROM "session" s
+                JOIN family f ON s.previous_session_id = f.id
+            )
+            SELECT s.id, s.user_id::text AS user_id FROM "session" s JOIN family f ON s.id = f.id
+        `;
+
+        if (family.length === 0) {
+            return { count: 0 };
+        }
+
+        const result = await this.prisma.session.updateMany({
+            where: { id: { in: family.map(session => session.id) }, isRevoked: false },
+            data: {
+                isRevoked: true,
+                updatedAt: new Date(),
+            },
+        });
+
+        sessionStatusCache.evictUser(family[0].user_id);
+
+        return { count: result.count };
+    }
+
+    /**
+     * Record that the user just proved who they are again in this session (step-up)
+     */
+    async markAuthenticated(sessionId: string): Promise<void> {
+        await this.prisma.session.update({
+            where: { sessionId },
+            data: { authenticatedAt: new Date() },
+        });
+    }
+
+    /**
+     * Whether the session's last sign-in or step-up is at most maxAgeSeconds old
+     * (REAUTH_MAX_AGE_SECONDS by default). Read from the database, not the status cache,
+     * so a step-up counts right away on every instance.
+     */
+    async isRecentlyAuthenticated(sessionId: string | undefined, maxAgeSeconds?: number): Promise<boolean> {
+        if (!sessionId) {
+            return false;
+        }
+
+        const maxAge = maxAgeSeconds ?? Number(this.configService.get('REAUTH_MAX_AGE_SECONDS', 300));
+        const session = await this.prisma.session.findUnique({
+            where: { sessionId },
+            select: { authenticatedAt: true },
+        });
+
+        return !!session && session.authenticatedAt.getTime() + maxAge * 1000 >= Date.now();
+    }
+
     async updateLastUsed(id: number): Promise<void> {
         await this.prisma.session.update({
             where: { id },
@@ -156,10 +341,114 @@ export class SessionService {
         });
     }
 
+    /**
+     * Last activity of a session: its latest tracked use, or its creation (sign-in or
+     * refresh). Activity still waiting in the write-behind buffer counts as well.
+     */
+    getLastActivity(session: { sessionId: string; lastUsedAt: Date | null; createdAt: Date }): Date {
+        const candidates = [session.lastUsedAt, session.createdAt, sessionActivityBuffer.get(session.sessionId)];
+
+        return new Date(Math.max(...candidates.map(date => date?.getTime() ?? 0)));
+    }
+
+    getIdleSeconds(session: { sessionId: string; lastUsedAt: Date | null; createdAt: Date }): number {
+        return Math.max(0, Math.floor((Date.now() - this.getLastActivity(session).getTime()) / 1000));
+    }
+
+    /**
+     * Whether the session has been inactive for longer than SESSION_IDLE_TIMEOUT_MINS
+     * (0 disables the idle timeout)
+     */
+    isIdle(session: { sessionId: string; lastUsedAt: Date | null; createdAt: Date }): boolean {
+        const idleMinutes = Number(this.configService.get('SESSION_IDLE_TIMEOUT_MINS', 0));
+
+        return idleMinutes > 0 && this.getIdleSeconds(session) > idleMinutes * 60;
+    }
+
+    /**
+     * Note an authenticated request of the session. Only buffered, and only with
+     * SESSION_ACTIVITY_TRACK_REQUESTS; flushActivity writes it later.
+     */
+    trackActivity(sessionId: string): void {
+        if (this.configService.get('SESSION_ACTIVITY_TRACK_REQUESTS', 'false') === 'true') {
+            sessionActivityBuffer.record(sessionId);
+        }
+    }
+
+    /**
+     * Write buffered activity. Timestamps are rounded down to the minute (idle timeouts are
+     * configured in minutes), so one update covers every session active in the same minute.
+     */
+    async flushActivity(): Promise<{ count: number }> {
+        const byMinute = new Map<number, string[]>();
+
+        sessionActivityBuffer.drain().forEach((at, sessionId) => {
+            const minute = Math.floor(at.getTime() / MINUTE_MS) * MINUTE_MS;
+            byMinute.set(minute, [...(byMinute.get(minute) ?? []), sessionId]);
+        });
+
+        let count = 0;
+
+        for (const [minute, sessionIds] of byMinute) {
+            const lastUsedAt = new Date(minute);
+            const result = await this.prisma.session.updateMany({
+                where: {
+                    sessionId: { in: sessionIds },
+                    isRevoked: false,
+                    // Never move lastUsedAt back, e.g. behind a refresh that happened meanwhile
+                    OR: [{ lastUsedAt: null }, { lastUsedAt: { lt: lastUsedAt } }],
+                },
+                data: { lastUsedAt },
+            });
+
+            count += result.count;
+        }
+
+        return { count };
+    }
+
+    /**
+     * Revoke active sessions without activity in the last idleMinutes (run as a cron job)
+     */
+    async revokeIdleSessions(idleMinutes: number): Promise<{ count: number }> {
+        const cutoff = new Date(Date.now() - idleMinutes * MINUTE_MS);
+        const idle = await this.prisma.session.findMany({
+            where: {
+                isRevoked: false,
+                expiresAt: { gt: new Date() },
+                OR: [
+                    { lastUsedAt: { lt: cutoff } },
+                    { lastUsedAt: null, createdAt: { lt: cutoff } },
+                ],
+            },
+            select: { id: true, sessionId: true },
+        });
+
+        if (idle.length === 0) {
+            return { count: 0 };
+        }
+
+        const result = await this.prisma.session.updateMany({
+            where: { id: { in: idle.map(session => session.id) }, isRevoked: false },
+            data: {
+                isRevoked: true,
+                revokedReason: SESSION_IDLE_REVOKED_REASON,
+                updatedAt: new Date(),
+            },
+        });
+
+        idle.forEach(session => sessionStatusCache.evict(session.sessionId));
+
+        return { count: result.count };
+    }
+
     async deleteSession(id: number): Promise<void> {
-        await this.prisma.session.delete({
+        const session = await this.prisma.session.delete({
             where: { id },
+            select: { sessionId: true },
         });
+
+        sessionStatusCache.evict(session.sessionId);
     }
 
     /**
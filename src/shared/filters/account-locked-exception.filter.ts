@@ -0,0 +1,19 @@
+import { ArgumentsHost, Catch, ExceptionFilter } from '@nestjs/common';
+import { Response } from 'express';
+import { AccountLockedException } from 'src/auth/exceptions/account-locked.exception';
+
+/**
+ * Adds the Retry-After header to account lockout responses
+ */
+@Catch(AccountLockedException)
+export class AccountLockedExceptionFilter implements ExceptionFilter {
+  catch(exception: AccountLockedException, host: ArgumentsHost) {
+    const response = host.switchToHttp().getResponse<Response>();
+
+    if (exception.retryAfterSeconds !== null) {
+      response.setHeader('Retry-After', String(exception.retryAfterSeconds));
+    }
+
+    response.status(exception.getStatus()).json(exception.getResponse());
+  }
+}
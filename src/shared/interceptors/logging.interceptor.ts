@@ -22,6 +22,7 @@ import {
       'refreshToken',
       'accessToken',
       'secret',
+      'code',
       'apiKey',
       'authorization',
       'cookie',
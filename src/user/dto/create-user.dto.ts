@@ -1,4 +1,4 @@
-import { IsString, IsBoolean, IsOptional, IsEmail, IsNumber, IsArray, IsInt, MinLength, IsNotEmpty } from 'class-validator';
+import { IsString, IsBoolean, IsOptional, IsEmail, IsNumber, IsArray, IsInt, IsNotEmpty } from 'class-validator';
 import { UpdatePasswordDto } from './update-user-password.dto';
 
 export class CreateUserDto {
@@ -31,6 +31,5 @@ export class CreateUserDto {
 
   @IsString()
   @IsNotEmpty()
-  @MinLength(4)
   password: string;
 }
@@ -1,9 +1,8 @@
-import { IsNotEmpty, IsString, MinLength } from "class-validator";
+import { IsNotEmpty, IsString } from "class-validator";
 
 export class UpdatePasswordDto {
   @IsString()
   @IsNotEmpty()
-  @MinLength(4)
   password: string;
 
   @IsString()
@@ -16,7 +16,11 @@ export const userSelect = {
   lastLoginAt: true,
   failedLoginAttempts: true,
   lockedUntil: true,
+  lockoutCount: true,
+  permanentlyLocked: true,
   passwordChangedAt: true,
+  mfaEnabled: true,
+  mfaEnabledAt: true,
   createdAt: true,
   updatedAt: true,
   userRoles: {
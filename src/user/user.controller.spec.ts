@@ -1,10 +1,16 @@
 import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, ForbiddenException } from '@nestjs/common';
 import { UserController } from './user.controller';
 import { UserService } from './user.service';
 import { CreateUserDto } from './dto/create-user.dto';
 import { UpdateUserDto } from './dto/update-user.dto';
 import { UpdatePasswordDto } from './dto/update-user-password.dto';
 import { FindAllUsersDto } from './dto/find-all-users.dto';
+import { FormattedSafeUser } from './utils/transform-user.util';
+import { MfaService } from 'src/auth/mfa.service';
+import { ImpersonationService } from 'src/impersonation/impersonation.service';
+import { SessionService } from 'src/session/session.service';
+import type { SessionAuthenticatedRequest } from 'src/auth/interfaces/reauthentication.interface';
 
 describe('UserController', () => {
   let controller: UserController;
@@ -19,6 +25,10 @@ describe('UserController', () => {
     delete: jest.fn(),
   };
 
+  const mockSessionService = {
+    isRecentlyAuthenticated: jest.fn(),
+  };
+
   const mockUser = {
     id: 1,
     username: 'testuser',
@@ -36,6 +46,9 @@ describe('UserController', () => {
           provide: UserService,
           useValue: mockUserService,
         },
+        { provide: MfaService, useValue: {} },
+        { provide: ImpersonationService, useValue: {} },
+        { provide: SessionService, useValue: mockSessionService },
       ],
     }).compile();
 
@@ -166,6 +179,81 @@ describe('UserController', () => {
       expect(service.update).toHaveBeenCalledTimes(1);
       expect(result).toEqual(updatedUser);
     });
+
+    it('should not change the password', async () => {
+      const currentUser = {
+        id: 'user-id',
+        roles: [{ name: 'USER' }],
+      } as FormattedSafeUser;
+      const req = { sessionId: 'session-id' } as SessionAuthenticatedRequest;
+      mockSessionService.isRecentlyAuthenticated.mockResolvedValue(true);
+
+      await expect(
+        controller.update(
+          'user-id',
+          { password: 'NewPassword123!' },
+          currentUser,
+          req,
+        ),
+      ).rejects.toThrow(BadRequestException);
+      await expect(
+        controller.update(
+          'user-id',
+          { passwordHash: 'hash' },
+          currentUser,
+          req,
+        ),
+      ).rejects.toThrow(BadRequestException);
+      expect(mockUserService.update).not.toHaveBeenCalled();
+    });
+
+    it('should not let users verify their own email address', async () => {
+      const currentUser = {
+        id: 'user-id',
+        roles: [{ name: 'USER' }],
+      } as FormattedSafeUser;
+      const req = { sessionId: 'session-id' } as SessionAuthenticatedRequest;
+      mockSessionService.isRecentlyAuthenticated.mockResolvedValue(true);
+
+      await expect(
+        controller.update(
+          'user-id',
+          { email: 'new@example.com', emailVerified: true },
+          currentUser,
+          req,
+        ),
+      ).rejects.toThrow(ForbiddenException);
+      await expect(
+        controller.update(
+          'user-id',
+          { emailVerifiedAt: new Date() },
+          currentUser,
+          req,
+        ),
+      ).rejects.toThrow(ForbiddenException);
+      expect(mockUserService.update).not.toHaveBeenCalled();
+    });
+
+    it('should let admins set the email verification status', async () => {
+      const currentUser = {
+        id: 'admin-id',
+        roles: [{ name: 'ADMIN' }],
+      } as FormattedSafeUser;
+      const req = { sessionId: 'session-id' } as SessionAuthenticatedRequest;
+      mockSessionService.isRecentlyAuthenticated.mockResolvedValue(true);
+
+      await controller.update(
+        'user-id',
+        { email: 'new@example.com', emailVerified: true },
+        currentUser,
+        req,
+      );
+
+      expect(mockUserService.update).toHaveBeenCalledWith('user-id', {
+        email: 'new@example.com',
+        emailVerified: true,
+      });
+    });
   });
 
   describe('updatePassword', () => {
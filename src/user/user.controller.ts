@@ -11,7 +11,10 @@ import {
   HttpStatus,
   UseGuards,
   ForbiddenException,
+  BadRequestException,
+  Req,
 } from '@nestjs/common';
+import type { Request } from 'express';
 import { UserService } from './user.service';
 import { CreateUserDto } from './dto/create-user.dto';
 import { UpdateUserDto } from './dto/update-user.dto';
@@ -21,11 +24,25 @@ import { Roles } from 'src/auth/decorators/roles.decorator';
 import { RolesGuard } from 'src/auth/guards/roles.guard';
 import { CurrentUser } from 'src/auth/decorators/current-user.decorator';
 import type { FormattedSafeUser } from './utils/transform-user.util';
+import { MfaService } from 'src/auth/mfa.service';
+import { BlockImpersonation } from 'src/auth/decorators/block-impersonation.decorator';
+import { BlockServiceAccounts } from 'src/auth/decorators/block-service-accounts.decorator';
+import { ImpersonationService } from 'src/impersonation/impersonation.service';
+import { StartImpersonationDto } from 'src/impersonation/dto/start-impersonation.dto';
+import { RequireRecentAuth } from 'src/auth/decorators/require-recent-auth.decorator';
+import { ReauthenticationRequiredException } from 'src/auth/exceptions/reauthentication-required.exception';
+import type { SessionAuthenticatedRequest } from 'src/auth/interfaces/reauthentication.interface';
+import { SessionService } from 'src/session/session.service';
 
 @Controller('users')
 @UseGuards(RolesGuard)
 export class UserController {
-  constructor(private readonly userService: UserService) {}
+  constructor(
+    private readonly userService: UserService,
+    private readonly mfaService: MfaService,
+    private readonly impersonationService: ImpersonationService,
+    private readonly sessionService: SessionService,
+  ) {}
 
   @Post()
   @HttpCode(HttpStatus.CREATED)
@@ -48,10 +65,11 @@ export class UserController {
 
   @Patch(':id')
   @Roles('ADMIN', 'USER')
-  update(
+  async update(
     @Param('id') id: string,
     @Body() updateUserDto: UpdateUserDto,
     @CurrentUser() currentUser: FormattedSafeUser,
+    @Req() req: SessionAuthenticatedRequest,
   ) {
     // Check if user is admin or updating their own profile
     const isAdmin = currentUser.roles.some(role => role.name === 'ADMIN');
@@ -59,11 +77,42 @@ export class UserController {
       throw new ForbiddenException('You can only update your own profile');
     }
 
+    // Only admins may vouch for an address; everyone else verifies it through the emailed link
+    if (
+      !isAdmin &&
+      (updateUserDto.emailVerified !== undefined ||
+        updateUserDto.emailVerifiedAt !== undefined)
+    ) {
+      throw new ForbiddenException(
+        'Only admins can change the email verification status',
+      );
+    }
+
+    // Passwords only change through PATCH :id/password, which has step-up and impersonation checks
+    if (
+      updateUserDto.password !== undefined ||
+      updateUserDto.passwordHash !== undefined
+    ) {
+      throw new BadRequestException(
+        'Use PATCH /users/:id/password to change the password',
+      );
+    }
+
+    // Same step-up as @RequireRecentAuth, but only when the email address changes
+    if (
+      updateUserDto.email !== undefined &&
+      !(await this.sessionService.isRecentlyAuthenticated(req.sessionId))
+    ) {
+      throw new ReauthenticationRequiredException();
+    }
+
     return this.userService.update(id, updateUserDto);
   }
 
   @Patch(':id/password')
+  @RequireRecentAuth()
   @Roles('ADMIN', 'USER')
+  @BlockImpersonation()
   updatePassword(
     @Param('id') id: string,
     @Body() updatePasswordDto: UpdatePasswordDto,
@@ -82,7 +131,59 @@ export class UserController {
     );
   }
 
+  @Delete(':id/mfa')
+  @RequireRecentAuth()
+  @HttpCode(HttpStatus.OK)
+  @Roles('ADMIN')
+  async resetMfa(@Param('id') id: string) {
+    await this.mfaService.reset(id);
+
+    return { message: 'MFA reset successfully' };
+  }
+
+  @Post(':id/unlock')
+  @HttpCode(HttpStatus.OK)
+  @Roles('ADMIN')
+  async unlock(@Param('id') id: string) {
+    await this.userService.unlock(id);
+
+    return { message: 'Account unlocked successfully' };
+  }
+
+  @Post(':id/revoke-tokens')
+  @RequireRecentAuth()
+  @HttpCode(HttpStatus.OK)
+  @Roles('ADMIN')
+  async revokeTokens(@Param('id') id: string) {
+    await this.userService.incrementTokenVersion(id);
+
+    return { message: 'Access tokens revoked successfully' };
+  }
+
+  // Short-lived, non-refreshable access token acting as the user
+  @Post(':id/impersonate')
+  @RequireRecentAuth()
+  @HttpCode(HttpStatus.OK)
+  @Roles('ADMIN')
+  @BlockImpersonation()
+  @BlockServiceAccounts()
+  impersonate(
+    @Param('id') id: string,
+    @Body() startImpersonationDto: StartImpersonationDto,
+    @CurrentUser() currentUser: FormattedSafeUser,
+    @Req() req: Request,
+  ) {
+    return this.impersonationService.start(
+      currentUser,
+      id,
+      startImpersonationDto,
+      req.ip || req.socket.remoteAddress,
+      req.get('user-agent'),
+    );
+  }
+
   @Delete(':id')
+  @RequireRecentAuth()
   @HttpCode(HttpStatus.NO_CONTENT)
   @Roles('ADMIN')
   remove(@Param('id') id: string) {
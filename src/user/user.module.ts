@@ -2,9 +2,16 @@ import { Module } from '@nestjs/common';
 import { UserService } from './user.service';
 import { UserController } from './user.controller';
 import { PrismaService } from 'src/shared/services/prisma.service';
+import { MfaService } from 'src/auth/mfa.service';
+import { PasswordPolicyService } from 'src/auth/password-policy.service';
+import { PasswordHasherService } from 'src/auth/password-hasher.service';
+import { JwtKeyService } from 'src/auth/jwt-key.service';
+import { ImpersonationService } from 'src/impersonation/impersonation.service';
+import { SessionService } from 'src/session/session.service';
 
 @Module({
   controllers: [UserController],
-  providers: [UserService, PrismaService],
+  providers: [UserService, PrismaService, SessionService, MfaService, PasswordPolicyService, PasswordHasherService,
+    JwtKeyService, ImpersonationService],
 })
 export class UserModule {}
@@ -4,6 +4,8 @@ import { PrismaService } from 'src/shared/services/prisma.service';
 import { CreateUserDto } from './dto/create-user.dto';
 import { UpdateUserDto } from './dto/update-user.dto';
 import * as bcrypt from 'bcrypt';
+import { PasswordPolicyService } from 'src/auth/password-policy.service';
+import { PasswordHasherService } from 'src/auth/password-hasher.service';
 
 // Mock bcrypt
 jest.mock('bcrypt');
@@ -22,6 +24,14 @@ describe('UserService', () => {
     },
   };
 
+  const mockPasswordPolicyService = {
+    assertValid: jest.fn(),
+  };
+
+  const mockPasswordHasherService = {
+    hash: jest.fn(),
+  };
+
   const mockSafeUser = {
     id: 1,
     username: 'testuser',
@@ -44,6 +54,14 @@ describe('UserService', () => {
           provide: PrismaService,
           useValue: mockPrismaService,
         },
+        {
+          provide: PasswordPolicyService,
+          useValue: mockPasswordPolicyService,
+        },
+        {
+          provide: PasswordHasherService,
+          useValue: mockPasswordHasherService,
+        },
       ],
     }).compile();
 
@@ -299,6 +317,28 @@ describe('UserService', () => {
       });
       expect(result).toEqual(updatedUser);
     });
+
+    it('should reset email verification when the email address changes', async () => {
+      mockPrismaService.user.findUnique.mockResolvedValue({
+        email: 'old@example.com',
+      });
+      mockPrismaService.user.update.mockResolvedValue({
+        id: 'user-id',
+        userRoles: [],
+      });
+
+      await service.update('user-id', { email: 'new@example.com' });
+
+      expect(mockPrismaService.user.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({
+            email: 'new@example.com',
+            emailVerified: false,
+            emailVerifiedAt: null,
+          }) as unknown,
+        }),
+      );
+    });
   });
 
   describe('updatePassword', () => {
@@ -1,21 +1,29 @@
 // user.service.ts
 import { Injectable, NotFoundException, UnauthorizedException } from '@nestjs/common';
 import { PrismaService } from 'src/shared/services/prisma.service';
-import * as bcrypt from 'bcrypt';
 import { CreateUserDto } from './dto/create-user.dto';
 import { UpdateUserDto } from './dto/update-user.dto';
 import { FindAllUsersDto } from './dto/find-all-users.dto';
 import { userSelect } from './selects/user-select';
 import { safeUserSelect } from './selects/safe-user-select';
 import { FormattedSafeUser, FormattedUser, transformUser, transformSafeUser } from './utils/transform-user.util';
+import { PasswordPolicyService } from 'src/auth/password-policy.service';
+import { PasswordHasherService } from 'src/auth/password-hasher.service';
+import { sessionStatusCache } from 'src/session/session-status.cache';
 
 @Injectable()
 export class UserService {
-  constructor(private prisma: PrismaService) { }
+  constructor(
+    private prisma: PrismaService,
+    private passwordPolicyService: PasswordPolicyService,
+    private passwordHasherService: PasswordHasherService
+  ) { }
 
   async create(createUserDto: CreateUserDto): Promise<FormattedSafeUser> {
     const { password, roleIds = [], ...dtoWithoutPassword } = createUserDto;
-    const hashedPassword = await bcrypt.hash(password, 10);
+    await this.passwordPolicyService.assertValid(password, dtoWithoutPassword);
+
+    const hashedPassword = await this.getPasswordHash(password);
 
     const user = await this.prisma.user.create({
       data: {
@@ -90,12 +98,36 @@ export class UserService {
   async update(id: string, updateUserDto: UpdateUserDto): Promise<FormattedSafeUser> {
     const { roleIds, password, ...userData } = updateUserDto;
 
+    // A changed email address has to be verified again, unless an admin says otherwise
+    // (the controller only lets admins set emailVerified)
+    if (userData.email && userData.emailVerified === undefined) {
+      const current = await this.prisma.user.findUnique({
+        where: { id },
+        select: { email: true }
+      });
+
+      if (current && current.email !== userData.email) {
+        userData.emailVerified = false;
+        userData.emailVerifiedAt = null;
+      }
+    }
+
     // Handle password hashing
     if (password) {
+      const current = await this.prisma.user.findUnique({
+        where: { id },
+        select: { email: true, firstName: true, lastName: true, displayName: true }
+      });
+
+      await this.passwordPolicyService.assertValid(password, { ...current, ...userData });
+
       userData.passwordHash = await this.getPasswordHash(password);
       userData.passwordChangedAt = new Date();
     }
 
+    // Role and password changes invalidate every access token issued so far
+    const invalidatesTokens = roleIds !== undefined || !!password;
+
     // If roleIds are provided, update in a transaction
     if (roleIds !== undefined) {
       const user = await this.prisma.$transaction(async (tx) => {
@@ -107,6 +139,7 @@ export class UserService {
           where: { id },
           data: {
             ...userData,
+            tokenVersion: { increment: 1 },
             ...(roleIds.length > 0 && {
               userRoles: {
                 create: roleIds.map(roleId => ({ roleId }))
@@ -117,23 +150,30 @@ export class UserService {
         });
       });
 
+      sessionStatusCache.evictUser(id);
+
       return transformSafeUser(user);
     }
 
     // Simple update without role changes
     const user = await this.prisma.user.update({
       where: { id },
-      data: userData,
+      data: {
+        ...userData,
+        ...(invalidatesTokens && { tokenVersion: { increment: 1 } })
+      },
       select: safeUserSelect
     });
 
+    if (invalidatesTokens) {
+      sessionStatusCache.evictUser(id);
+    }
+
     return transformSafeUser(user);
   }
 
   async getPasswordHash(password: string): Promise<string> {
-    const hashedPassword = await bcrypt.hash(password, 10);
-
-    return hashedPassword;
+    return this.passwordHasherService.hash(password);
   }
 
   async updatePassword(id: string, newPassword: string, currentPassword?: string): Promise<FormattedSafeUser> {
@@ -141,34 +181,67 @@ export class UserService {
       throw new UnauthorizedException('New password is required');
     }
 
-    // If currentPassword is provided, verify it
-    if (currentPassword) {
-      const user = await this.prisma.user.findUnique({
-        where: { id },
-        select: { passwordHash: true }
-      });
+    const user = await this.prisma.user.findUnique({
+      where: { id },
+      select: { passwordHash: true, email: true, firstName: true, lastName: true, displayName: true }
+    });
 
-      if (!user) {
-        throw new NotFoundException('User not found');
-      }
+    if (!user) {
+      throw new NotFoundException('User not found');
+    }
 
-      const isPasswordValid = await bcrypt.compare(currentPassword, user.passwordHash);
+    // If currentPassword is provided, verify it
+    if (currentPassword) {
+      const isPasswordValid = await this.passwordHasherService.verify(user.passwordHash, currentPassword);
       if (!isPasswordValid) {
         throw new UnauthorizedException('Current password is incorrect');
       }
     }
 
+    await this.passwordPolicyService.assertValid(newPassword, user);
+
     const hashedPassword = await this.getPasswordHash(newPassword);
-    const user = await this.prisma.user.update({
+    const updatedUser = await this.prisma.user.update({
       where: { id },
       data: {
         passwordHash: hashedPassword,
-        passwordChangedAt: new Date()
+        passwordChangedAt: new Date(),
+        tokenVersion: { increment: 1 }
       },
       select: safeUserSelect
     });
 
-    return transformSafeUser(user);
+    sessionStatusCache.evictUser(id);
+
+    return transformSafeUser(updatedUser);
+  }
+
+  /**
+   * Invalidate every access token issued to the user so far. Sessions stay usable,
+   * so clients pick up a fresh token (with current roles) on their next refresh.
+   */
+  async incrementTokenVersion(id: string): Promise<void> {
+    await this.prisma.user.update({
+      where: { id },
+      data: { tokenVersion: { increment: 1 } }
+    });
+
+    sessionStatusCache.evictUser(id);
+  }
+
+  /**
+   * Lift a temporary or permanent lockout and start the backoff from scratch
+   */
+  async unlock(id: string): Promise<void> {
+    await this.prisma.user.update({
+      where: { id },
+      data: {
+        failedLoginAttempts: 0,
+        lockoutCount: 0,
+        lockedUntil: null,
+        permanentlyLocked: false,
+      }
+    });
   }
 
   async delete(id: string): Promise<FormattedSafeUser> {
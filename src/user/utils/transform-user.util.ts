@@ -1,6 +1,7 @@
 import { Prisma, Role } from "generated/prisma";
 import { userSelect } from "../selects/user-select";
 import { safeUserSelect } from "../selects/safe-user-select";
+import type { Impersonator } from "src/impersonation/interfaces/impersonation.interface";
 
 export type User = Prisma.UserGetPayload<{ select: typeof userSelect; }>;
 
@@ -12,6 +13,8 @@ export type SafeUser = Prisma.UserGetPayload<{ select: typeof safeUserSelect; }>
 
 export type FormattedSafeUser = Omit<SafeUser, 'userRoles'> & {
   roles: Role[];
+  // Set by JwtStrategy when the request uses an impersonation token
+  impersonator?: Impersonator;
 };
 
 type UserWithRoles = { userRoles: Array<{ role: Role }> };
@@ -0,0 +1,119 @@
+import {
+  Body,
+  Controller,
+  Get,
+  Headers,
+  HttpCode,
+  Inject,
+  Post,
+  Query,
+  Req,
+  Res,
+  UnauthorizedException,
+  BadRequestException,
+} from '@nestjs/common';
+import type { Request, Response } from 'express';
+import * as crypto from 'crypto';
+import { MOCK_OIDC_OPTIONS, type MockOidcOptions } from './mock-oidc.options';
+
+interface PendingCode {
+  redirectUri: string;
+  codeChallenge: string;
+}
+
+/**
+ * A minimal OpenID Connect provider that approves every authorization request, so the
+ * full sign-in flow can run in e2e tests without network access
+ */
+@Controller()
+export class MockOidcController {
+  private readonly codes = new Map<string, PendingCode>();
+  private readonly accessTokens = new Set<string>();
+
+  constructor(@Inject(MOCK_OIDC_OPTIONS) private options: MockOidcOptions) {}
+
+  @Get('.well-known/openid-configuration')
+  discovery(@Req() req: Request) {
+    const issuer = `${req.protocol}://${req.get('host')}`;
+
+    return {
+      issuer,
+      authorization_endpoint: `${issuer}/authorize`,
+      token_endpoint: `${issuer}/token`,
+      userinfo_endpoint: `${issuer}/userinfo`,
+      response_types_supported: ['code'],
+      code_challenge_methods_supported: ['S256'],
+    };
+  }
+
+  @Get('authorize')
+  authorize(
+    @Query() query: Record<string, string>,
+    @Res() res: Response,
+  ): void {
+    if (
+      query.client_id !== this.options.clientId ||
+      query.response_type !== 'code' ||
+      query.code_challenge_method !== 'S256' ||
+      !query.code_challenge ||
+      !query.redirect_uri
+    ) {
+      throw new BadRequestException('invalid_request');
+    }
+
+    const code = crypto.randomBytes(16).toString('hex');
+    this.codes.set(code, {
+      redirectUri: query.redirect_uri,
+      codeChallenge: query.code_challenge,
+    });
+
+    const redirect = new URL(query.redirect_uri);
+    redirect.searchParams.set('code', code);
+    redirect.searchParams.set('state', query.state);
+    res.redirect(redirect.toString());
+  }
+
+  @Post('token')
+  @HttpCode(200)
+  token(@Body() body: Record<string, string>) {
+    const pending = this.codes.get(body.code);
+    this.codes.delete(body.code);
+
+    const challenge = crypto
+      .createHash('sha256')
+      .update(body.code_verifier ?? '')
+      .digest('base64url');
+
+    if (
+      body.client_id !== this.options.clientId ||
+      body.client_secret !== this.options.clientSecret
+    ) {
+      throw new UnauthorizedException('invalid_client');
+    }
+
+    if (
+      body.grant_type !== 'authorization_code' ||
+      !pending ||
+      pending.redirectUri !== body.redirect_uri ||
+      pending.codeChallenge !== challenge
+    ) {
+      throw new BadRequestException('invalid_grant');
+    }
+
+    const accessToken = crypto.randomBytes(16).toString('hex');
+    this.accessTokens.add(accessToken);
+
+    return { access_token: accessToken, token_type: 'Bearer', expires_in: 300 };
+  }
+
+  @Get('userinfo')
+  userinfo(@Headers('authorization') authorization?: string) {
+    const accessToken = authorization?.replace(/^Bearer /, '');
+
+    if (!accessToken || !this.accessTokens.has(accessToken)) {
+      throw new UnauthorizedException('invalid_token');
+    }
+
+    return this.options.claims;
+  }
+}
@@ -0,0 +1,14 @@
+import { DynamicModule, Module } from '@nestjs/common';
+import { MockOidcController } from './mock-oidc.controller';
+import { MOCK_OIDC_OPTIONS, MockOidcOptions } from './mock-oidc.options';
+
+@Module({})
+export class MockOidcModule {
+  static forRoot(options: MockOidcOptions): DynamicModule {
+    return {
+      module: MockOidcModule,
+      controllers: [MockOidcController],
+      providers: [{ provide: MOCK_OIDC_OPTIONS, useValue: options }],
+    };
+  }
+}
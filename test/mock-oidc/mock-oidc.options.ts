@@ -0,0 +1,10 @@
+export const MOCK_OIDC_OPTIONS = Symbol('MOCK_OIDC_OPTIONS');
+
+export interface MockOidcOptions {
+  clientId: string;
+  clientSecret: string;
+  /**
+   * Userinfo claims of the user who "signs in" at the mock provider
+   */
+  claims: Record<string, unknown>;
+}
@@ -0,0 +1,129 @@
+import { Test } from '@nestjs/testing';
+import { INestApplication } from '@nestjs/common';
+import cookieParser from 'cookie-parser';
+import { Server } from 'http';
+import { AddressInfo } from 'net';
+import request from 'supertest';
+import { App } from 'supertest/types';
+import { AppModule } from './../src/app.module';
+import { MockOidcModule } from './mock-oidc/mock-oidc.module';
+
+const FRONTEND_URL = 'http://frontend.test';
+
+describe('OAuth sign-in (e2e)', () => {
+  let app: INestApplication<App>;
+  let mockProvider: INestApplication;
+  let issuer: string;
+  const email = `oauth-e2e-${Date.now()}@example.com`;
+
+  const cookieOf = (res: request.Response, name: string) =>
+    ([] as string[])
+      .concat(res.headers['set-cookie'] ?? [])
+      .find((cookie) => cookie.startsWith(`${name}=`))
+      ?.split(';')[0];
+
+  beforeAll(async () => {
+    const mockFixture = await Test.createTestingModule({
+      imports: [
+        MockOidcModule.forRoot({
+          clientId: 'e2e-client',
+          clientSecret: 'e2e-secret',
+          claims: {
+            sub: 'mock-user-1',
+            email,
+            email_verified: true,
+            given_name: 'Mock',
+            family_name: 'User',
+            name: 'Mock User',
+          },
+        }),
+      ],
+    }).compile();
+
+    mockProvider = mockFixture.createNestApplication();
+    await mockProvider.listen(0, '127.0.0.1');
+    const { port } = (
+      mockProvider.getHttpServer() as Server
+    ).address() as AddressInfo;
+    issuer = `http://127.0.0.1:${port}`;
+
+    Object.assign(process.env, {
+      FRONTEND_URL,
+      OAUTH_PROVIDERS: 'mock',
+      OAUTH_MOCK_NAME: 'Mock',
+      OAUTH_MOCK_DISCOVERY_URL: `${issuer}/.well-known/openid-configuration`,
+      OAUTH_MOCK_CLIENT_ID: 'e2e-client',
+      OAUTH_MOCK_CLIENT_SECRET: 'e2e-secret',
+      OAUTH_MOCK_CALLBACK_URL: 'http://api.test/api/auth/oauth/mock/callback',
+    });
+
+    const moduleFixture = await Test.createTestingModule({
+      imports: [AppModule],
+    }).compile();
+
+    app = moduleFixture.createNestApplication();
+    app.setGlobalPrefix('api');
+    app.use(cookieParser());
+    await app.init();
+  });
+
+  afterAll(async () => {
+    await app?.close();
+    await mockProvider?.close();
+  });
+
+  it('lists the configured providers', () => {
+    return request(app.getHttpServer())
+      .get('/api/auth/oauth/providers')
+      .expect(200)
+      .expect((res) =>
+        expect(res.body).toContainEqual({ id: 'mock', name: 'Mock' }),
+      );
+  });
+
+  it('signs in through the provider', async () => {
+    const start = await request(app.getHttpServer())
+      .get('/api/auth/oauth/mock')
+      .expect(302);
+    const authorizeUrl = start.headers.location;
+    expect(authorizeUrl.startsWith(`${issuer}/authorize?`)).toBe(true);
+
+    // The mock provider approves right away and sends the browser back
+    const approval = await fetch(authorizeUrl, { redirect: 'manual' });
+    const callbackUrl = new URL(approval.headers.get('location')!);
+
+    const callback = await request(app.getHttpServer())
+      .get(`/api/auth/oauth/mock/callback${callbackUrl.search}`)
+      .set('Cookie', cookieOf(start, 'oauthState')!)
+      .expect(302);
+
+    expect(callback.headers.location).toMatch(
+      new RegExp(`^${FRONTEND_URL}/auth/callback\\?token=.+`),
+    );
+    expect(cookieOf(callback, 'refreshToken')).toBeDefined();
+  });
+
+  it('rejects a callback without the state cookie', async () => {
+    const start = await request(app.getHttpServer())
+      .get('/api/auth/oauth/mock')
+      .expect(302);
+    const approval = await fetch(start.headers.location, {
+      redirect: 'manual',
+    });
+    const callbackUrl = new URL(approval.headers.get('location')!);
+
+    const callback = await request(app.getHttpServer())
+      .get(`/api/auth/oauth/mock/callback${callbackUrl.search}`)
+      .expect(302);
+
+    expect(callback.headers.location).toMatch(
+      new RegExp(`^${FRONTEND_URL}/auth/error\\?message=`),
+    );
+  });
+
+  it('returns 404 for an unknown provider', () => {
+    return request(app.getHttpServer())
+      .get('/api/auth/oauth/unknown')
+      .expect(404);
+  });
+});